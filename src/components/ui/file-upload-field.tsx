@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import Uppy from "@uppy/core";
+import AwsS3 from "@uppy/aws-s3";
+import { Dashboard } from "@uppy/react";
+import "@uppy/core/dist/style.min.css";
+import "@uppy/dashboard/dist/style.min.css";
+import type { FormField, UploadedFileRef } from "@shared/schema";
+import { getMaxFileSize, UPLOAD_PART_SIZE } from "@/lib/form-validation";
+
+interface FileUploadFieldProps {
+  shareableLink: string;
+  field: FormField;
+  value?: UploadedFileRef[];
+  onChange: (files: UploadedFileRef[]) => void;
+}
+
+async function uploadRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || res.statusText);
+  }
+  return res.status === 204 ? undefined : res.json();
+}
+
+export function FileUploadField({ shareableLink, field, value, onChange }: FileUploadFieldProps) {
+  const [uploaded, setUploaded] = useState<UploadedFileRef[]>(value ?? []);
+  // Uppy file id -> our uploaded file id
+  const fileIds = useRef(new Map<string, string>());
+  const mounted = useRef(false);
+
+  const [uppy] = useState(() =>
+    new Uppy({
+      id: `field-${field.id}`,
+      autoProceed: true,
+      restrictions: {
+        maxFileSize: getMaxFileSize(field),
+        maxNumberOfFiles: field.maxFiles ?? 1,
+        allowedFileTypes: field.acceptedFileTypes?.length ? field.acceptedFileTypes : null,
+      },
+    }).use(AwsS3, {
+      shouldUseMultipart: true,
+      // Parts are sent one at a time and retried individually, so a dropped connection only costs one part.
+      // The server only accepts parts of this size.
+      getChunkSize: () => UPLOAD_PART_SIZE,
+      async createMultipartUpload(file) {
+        const { fileId, key } = await uploadRequest("POST", `/api/public/forms/${shareableLink}/uploads`, {
+          fieldId: field.id,
+          fileName: file.name,
+          contentType: file.type,
+          size: file.size,
+        });
+        fileIds.current.set(file.id, fileId);
+        return { uploadId: fileId, key };
+      },
+      signPart(_file, { uploadId, partNumber }) {
+        return { method: "PUT", url: `/api/public/uploads/${uploadId}/parts/${partNumber}` };
+      },
+      listParts(_file, { uploadId }) {
+        return uploadRequest("GET", `/api/public/uploads/${uploadId}/parts`);
+      },
+      async completeMultipartUpload(_file, { uploadId, parts }) {
+        const ref: UploadedFileRef = await uploadRequest("POST", `/api/public/uploads/${uploadId}/complete`, { parts });
+        setUploaded(prev => [...prev, ref]);
+        return {};
+      },
+      async abortMultipartUpload(_file, { uploadId }) {
+        await uploadRequest("DELETE", `/api/public/uploads/${uploadId}`);
+      },
+    }),
+  );
+
+  useEffect(() => {
+    const handleRemoved = (file: { id: string }, reason?: string) => {
+      const fileId = fileIds.current.get(file.id);
+      fileIds.current.delete(file.id);
+      // Cancelled uploads are aborted by the uploader itself
+      if (!fileId || reason === "cancel-all") return;
+      setUploaded(prev => prev.filter(ref => ref.id !== fileId));
+      uploadRequest("DELETE", `/api/public/uploads/${fileId}`).catch(() => {});
+    };
+    uppy.on("file-removed", handleRemoved);
+    return () => {
+      uppy.off("file-removed", handleRemoved);
+    };
+  }, [uppy]);
+
+  useEffect(() => () => uppy.destroy(), [uppy]);
+
+  useEffect(() => {
+    if (!mounted.current) {
+      mounted.current = true;
+      return;
+    }
+    onChange(uploaded);
+  }, [uploaded]);
+
+  return (
+    <div data-testid={`upload-${field.id}`}>
+      <Dashboard
+        uppy={uppy}
+        height={240}
+        proudlyDisplayPoweredByUppy={false}
+        note={field.placeholder || undefined}
+      />
+      {uploaded.length > 0 && (
+        <p className="text-sm text-slate-600 mt-2">
+          {uploaded.length} file{uploaded.length === 1 ? "" : "s"} uploaded
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TwoFactorStatus } from "@/components/ui/two-factor-settings";
+import { KeyRound } from "lucide-react";
+import { SiGithub, SiGoogle } from "react-icons/si";
+import type { OAuthIdentity } from "@shared/schema";
+
+interface IdentitiesResponse {
+  identities: OAuthIdentity[];
+  hasPassword: boolean;
+  providers: { id: string; name: string }[];
+}
+
+const providerIcons: Record<string, typeof SiGoogle> = {
+  google: SiGoogle,
+  github: SiGithub,
+};
+
+export function LinkedAccountsSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
+  const { data } = useQuery<IdentitiesResponse>({
+    queryKey: ["/api/user/identities"],
+  });
+
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/user/identities/${id}`, { twoFactorCode });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setTwoFactorCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/identities"] });
+      toast({ title: "Account Disconnected" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't disconnect",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accounts created through Google or GitHub set their first password with a reset link
+  const setPasswordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/forgot-password", { email: user?.email });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Check your email",
+        description: `We've sent a link to ${user?.email} to set your password.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!data || (!data.providers.length && !data.identities.length)) return null;
+
+  // Providers the server offers, plus any linked before a provider was switched off
+  const providers = [
+    ...data.providers,
+    ...data.identities
+      .filter(identity => !data.providers.some(provider => provider.id === identity.provider))
+      .map(identity => ({ id: identity.provider, name: identity.provider })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>Sign-in Methods</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!data.hasPassword && (
+          <div className="flex items-center justify-between p-3 bg-slate-50 border rounded-md">
+            <p className="text-sm text-slate-600">
+              Your account doesn't have a password yet. Set one to sign in without {data.identities.length === 1 ? "your connected account" : "Google or GitHub"}.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPasswordMutation.mutate()}
+              disabled={setPasswordMutation.isPending || setPasswordMutation.isSuccess}
+              data-testid="button-set-password"
+            >
+              {setPasswordMutation.isSuccess ? "Link Sent" : "Set Password"}
+            </Button>
+          </div>
+        )}
+
+        {providers.map(provider => {
+          const identity = data.identities.find(linked => linked.provider === provider.id);
+          const Icon = providerIcons[provider.id];
+          return (
+            <div key={provider.id} className="flex items-center justify-between" data-testid={`identity-${provider.id}`}>
+              <div className="flex items-center space-x-3">
+                {Icon && <Icon className="h-5 w-5 text-slate-700" />}
+                <div>
+                  <p className="font-medium text-slate-900">{provider.name}</p>
+                  <p className="text-sm text-slate-500">
+                    {identity
+                      ? `Connected${identity.email ? ` as ${identity.email}` : ""} on ${new Date(identity.linkedAt).toLocaleDateString()}`
+                      : "Not connected"}
+                  </p>
+                </div>
+              </div>
+              {identity ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => disconnectMutation.mutate(identity.id)}
+                  disabled={disconnectMutation.isPending || (twoFactor?.enabled && !twoFactorCode)}
+                  data-testid={`button-disconnect-${provider.id}`}
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" asChild data-testid={`button-connect-${provider.id}`}>
+                  <a href={`/api/auth/${provider.id}`}>Connect</a>
+                </Button>
+              )}
+            </div>
+          );
+        })}
+
+        {twoFactor?.enabled && data.identities.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="identities-two-factor-code">Code from your authenticator app, to disconnect an account</Label>
+            <Input
+              id="identities-two-factor-code"
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              autoComplete="one-time-code"
+              className="max-w-xs"
+              data-testid="input-identities-two-factor-code"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Notification } from "@shared/schema";
+import { NotificationsContext } from "@/hooks/use-notifications";
+import { NotificationBell } from "./notification-bell";
+
+const notification = (overrides: Partial<Notification>): Notification => ({
+  id: "n1",
+  userId: "u1",
+  type: "submission_received",
+  title: "Pat Lee answered Project intake",
+  body: null,
+  link: null,
+  readAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const mutation = () => ({ mutate: vi.fn(), isPending: false });
+
+describe("NotificationBell", () => {
+  afterEach(cleanup);
+
+  it("renders without a NotificationsProvider", () => {
+    render(<NotificationBell />);
+
+    expect(screen.getByTestId("button-notifications")).toBeTruthy();
+    expect(screen.queryByTestId("badge-unread-notifications")).toBeNull();
+  });
+
+  it("shows the unread count and marks a notification read when opened", async () => {
+    const markReadMutation = mutation();
+    const markAllReadMutation = mutation();
+    render(
+      <NotificationsContext.Provider
+        value={{
+          notifications: [notification({}), notification({ id: "n2", title: "Sam signed Agreement", readAt: new Date() })],
+          unreadCount: 1,
+          markReadMutation,
+          markAllReadMutation,
+        }}
+      >
+        <NotificationBell />
+      </NotificationsContext.Provider>,
+    );
+
+    expect(screen.getByTestId("badge-unread-notifications").textContent).toBe("1");
+
+    await act(async () => fireEvent.click(screen.getByTestId("button-notifications")));
+    expect(screen.getByText("Sam signed Agreement")).toBeTruthy();
+
+    fireEvent.click(screen.getByTestId("notification-n1"));
+    fireEvent.click(screen.getByTestId("notification-n2"));
+    expect(markReadMutation.mutate).toHaveBeenCalledTimes(1);
+    expect(markReadMutation.mutate).toHaveBeenCalledWith("n1");
+
+    fireEvent.click(screen.getByTestId("button-mark-all-read"));
+    expect(markAllReadMutation.mutate).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useNotifications } from "@/hooks/use-notifications";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+
+export function NotificationBell() {
+  const { notifications, unreadCount, markReadMutation, markAllReadMutation } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-semibold text-slate-900">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-slate-500">You're all caught up.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y" data-testid="list-notifications">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className={`w-full px-4 py-3 text-left text-sm hover:bg-slate-50 flex gap-3 ${notification.readAt ? "" : "bg-blue-50/50"}`}
+                  onClick={() => openNotification(notification)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 rounded-full shrink-0 ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                  />
+                  <span className="min-w-0">
+                    <span className="block font-medium text-slate-900">{notification.title}</span>
+                    {notification.body && <span className="block text-slate-600">{notification.body}</span>}
+                    <span className="block text-xs text-slate-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
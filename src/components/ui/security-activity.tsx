@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+import type { SecurityEvent, SecurityEventType } from "@shared/schema";
+
+const eventLabels: Record<SecurityEventType, string> = {
+  registered: "Account created",
+  login_succeeded: "Signed in",
+  login_failed: "Failed sign-in",
+  login_blocked: "Sign-in blocked while locked",
+  account_locked: "Account locked after failed sign-ins",
+  account_unlocked: "Account unlocked",
+  password_changed: "Password changed",
+  password_reset: "Password reset by email",
+  two_factor_enabled: "Two-factor turned on",
+  two_factor_disabled: "Two-factor turned off",
+  recovery_codes_regenerated: "New recovery codes created",
+  identity_linked: "Sign-in account connected",
+  identity_unlinked: "Sign-in account disconnected",
+  sessions_revoked: "Signed out other sessions",
+  zaplink_changed: "ZapLink changed",
+};
+
+// Warnings stand out so the user notices activity that wasn't them
+const warningEvents: SecurityEventType[] = ["login_failed", "login_blocked", "account_locked"];
+
+const methodLabels: Record<string, string> = {
+  password: "password",
+  two_factor: "two-factor",
+  google: "Google",
+  github: "GitHub",
+};
+
+function describe(event: SecurityEvent): string {
+  const label = eventLabels[event.type as SecurityEventType] ?? event.type;
+  const details = (event.details ?? {}) as { method?: string; provider?: string };
+  const via = details.method ?? details.provider;
+  return via ? `${label} (${methodLabels[via] ?? via})` : label;
+}
+
+export function SecurityActivity() {
+  const { data: events } = useQuery<SecurityEvent[]>({
+    queryKey: ["/api/user/security-events"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Recent Security Activity</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!events?.length ? (
+          <p className="text-sm text-slate-500">No activity yet.</p>
+        ) : (
+          <ul className="divide-y" data-testid="list-security-events">
+            {events.map(event => (
+              <li key={event.id} className="py-2 flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p className={warningEvents.includes(event.type as SecurityEventType) ? "text-red-600 font-medium" : "text-slate-900"}>
+                    {describe(event)}
+                  </p>
+                  <p className="text-slate-500 truncate max-w-md" title={event.userAgent ?? undefined}>
+                    {event.ipAddress ?? "Unknown IP"}
+                  </p>
+                </div>
+                <span className="text-slate-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
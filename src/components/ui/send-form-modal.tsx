@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, PlanLimitError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -12,8 +13,40 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Send, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { UpgradeModal } from "@/components/ui/upgrade-modal";
+import { Loader2, Send, ExternalLink, CheckCircle, XCircle } from "lucide-react";
 import type { Form } from "@shared/schema";
+import type { ZapLinkUser, ZapRecipientStatus, ZapSendResult, ZapStatus } from "@/lib/zaps";
+
+const statusLabels: Record<ZapStatus, { label: string; className: string }> = {
+  pending: { label: "Delivered", className: "bg-slate-100 text-slate-700" },
+  viewed: { label: "Viewed", className: "bg-blue-100 text-blue-800" },
+  responded: { label: "Responded", className: "bg-green-100 text-green-800" },
+};
+
+// When the recipient last moved the zap forward
+function describeProgress(zap: ZapRecipientStatus): string {
+  const [verb, at] = zap.respondedAt
+    ? ["Responded", zap.respondedAt]
+    : zap.viewedAt
+    ? ["Opened", zap.viewedAt]
+    : ["Sent", zap.sentAt];
+  return `${verb} ${formatDistanceToNow(new Date(at), { addSuffix: true })}`;
+}
+
+// Contacts whose name or ZapLink starts with what's being typed, leaving out ones already entered
+function suggestContacts(contacts: ZapLinkUser[], query: string, entered: string[]): ZapLinkUser[] {
+  const q = query.toLowerCase();
+  if (!q) return [];
+  const taken = new Set(entered.map(zapLink => zapLink.toUpperCase()));
+  return contacts
+    .filter(contact => !taken.has(contact.zapLink.toUpperCase()))
+    .filter(contact =>
+      [contact.zapLink, contact.username, contact.displayName ?? ""]
+        .some(value => value.toLowerCase().startsWith(q)))
+    .slice(0, 5);
+}
 
 interface SendFormModalProps {
   form: Form;
@@ -23,9 +56,21 @@ interface SendFormModalProps {
 
 export function SendFormModal({ form, open, onOpenChange }: SendFormModalProps) {
   const [zapLink, setZapLink] = useState("");
+  const [bulkResults, setBulkResults] = useState<ZapSendResult[] | null>(null);
+  const [planLimitMessage, setPlanLimitMessage] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: sentZaps } = useQuery<ZapRecipientStatus[]>({
+    queryKey: [`/api/forms/${form.id}/zaps`],
+    enabled: open,
+  });
+
+  const { data: contacts } = useQuery<ZapLinkUser[]>({
+    queryKey: ["/api/zap-contacts"],
+    enabled: open,
+  });
+
   const sendFormMutation = useMutation({
     mutationFn: async (zapLink: string) => {
       const response = await apiRequest("POST", `/api/forms/${form.id}/send`, { zapLink });
@@ -34,19 +79,28 @@ export function SendFormModal({ form, open, onOpenChange }: SendFormModalProps)
     onSuccess: (data) => {
       toast({
         title: "Form sent successfully!",
-        description: `"${form.title}" has been sent to ${data.recipientName} (${zapLink.trim().toUpperCase()})`,
+        description: `"${form.title}" has been sent to ${data.recipientName} (${zapLink.trim()})`,
       });
       setZapLink("");
       onOpenChange(false);
       // Optionally refresh any relevant queries
       queryClient.invalidateQueries({ queryKey: ["/api/zap-inbox"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/forms/${form.id}/zaps`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/zaps/sent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
     },
     onError: (error: any) => {
+      if (error instanceof PlanLimitError) {
+        onOpenChange(false);
+        setPlanLimitMessage(error.message);
+        return;
+      }
+
       const errorMessage = error.message;
       let description = "An error occurred while sending the form";
       
       if (errorMessage?.includes("not found") || errorMessage?.includes("invalid")) {
-        description = `Invalid ZapLink "${zapLink.trim().toUpperCase()}". Please check the ZapLink and try again.`;
+        description = `Invalid ZapLink "${zapLink.trim()}". Please check the ZapLink and try again.`;
       } else if (errorMessage) {
         description = errorMessage;
       }
@@ -59,6 +113,45 @@ export function SendFormModal({ form, open, onOpenChange }: SendFormModalProps)
     },
   });
 
+  // Several ZapLinks separated by commas, spaces or new lines go out in one request
+  const zapLinks = zapLink.split(/[\s,]+/).filter(Boolean);
+
+  // Only the ZapLink being typed (after the last separator) is completed
+  const typing = /[\s,]$/.test(zapLink) ? "" : zapLinks[zapLinks.length - 1] ?? "";
+  const suggestions = suggestContacts(contacts ?? [], typing, zapLinks.slice(0, -1));
+
+  const chooseContact = (contact: ZapLinkUser) => {
+    setZapLink(zapLink.slice(0, zapLink.length - typing.length) + contact.zapLink);
+  };
+
+  const bulkSendMutation = useMutation({
+    mutationFn: async (zapLinks: string[]) => {
+      const response = await apiRequest("POST", `/api/forms/${form.id}/send/bulk`, { zapLinks });
+      return response.json();
+    },
+    onSuccess: (data: { sentCount: number; results: ZapSendResult[] }) => {
+      setBulkResults(data.results);
+      setZapLink(data.results.filter(result => !result.sent).map(result => result.zapLink).join("\n"));
+      toast({
+        title: data.sentCount === data.results.length ? "Form sent successfully!" : "Some zaps weren't sent",
+        description: `"${form.title}" was sent to ${data.sentCount} of ${data.results.length} ZapLinks`,
+        variant: data.sentCount === 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/forms/${form.id}/zaps`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/zaps/sent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send form",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSending = sendFormMutation.isPending || bulkSendMutation.isPending;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!zapLink.trim()) {
@@ -69,87 +162,156 @@ export function SendFormModal({ form, open, onOpenChange }: SendFormModalProps)
       });
       return;
     }
-    sendFormMutation.mutate(zapLink.trim());
+    setBulkResults(null);
+    if (zapLinks.length > 1) {
+      bulkSendMutation.mutate(zapLinks);
+    } else {
+      sendFormMutation.mutate(zapLink.trim());
+    }
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <Send className="h-5 w-5" />
-            Send Form
-          </DialogTitle>
-          <DialogDescription>
-            Send "{form.title}" to another ClientZap user using their ZapLink
-          </DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="zaplink">Recipient's ZapLink</Label>
-            <Input
-              id="zaplink"
-              data-testid="input-zaplink"
-              type="text"
-              placeholder="e.g., ABC123 or clientzap.com/zap/ABC123"
-              value={zapLink}
-              onChange={(e) => setZapLink(e.target.value)}
-              disabled={sendFormMutation.isPending}
-            />
-            <p className="text-sm text-muted-foreground">
-              Enter the 6-character ZapLink code or full URL
-            </p>
-          </div>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5" />
+              Send Form
+            </DialogTitle>
+            <DialogDescription>
+              Send "{form.title}" to another ClientZap user using their ZapLink
+            </DialogDescription>
+          </DialogHeader>
 
-          <div className="flex gap-2 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-              disabled={sendFormMutation.isPending}
-              className="flex-1"
-              data-testid="button-cancel"
-            >
-              Cancel
-            </Button>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="zaplink">Recipient's ZapLink</Label>
+              <Input
+                id="zaplink"
+                data-testid="input-zaplink"
+                type="text"
+                placeholder="e.g., ABC123 or clientzap.com/zap/ABC123"
+                value={zapLink}
+                onChange={(e) => setZapLink(e.target.value)}
+                disabled={isSending}
+                autoComplete="off"
+              />
+              {suggestions.length > 0 && !isSending && (
+                <ul className="border rounded-md divide-y text-sm" data-testid="list-contact-suggestions">
+                  {suggestions.map(contact => (
+                    <li key={contact.id}>
+                      <button
+                        type="button"
+                        className="w-full px-3 py-2 flex items-center justify-between text-left hover:bg-muted"
+                        onClick={() => chooseContact(contact)}
+                        data-testid={`suggestion-contact-${contact.id}`}
+                      >
+                        <span className="font-medium truncate">{contact.displayName || contact.username}</span>
+                        <span className="font-mono text-muted-foreground">{contact.zapLink}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Enter a ZapLink or its full URL. Separate several with commas to send to each of them.
+              </p>
+            </div>
+
+            {bulkResults && (
+              <ul className="space-y-1 text-sm" data-testid="list-bulk-send-results">
+                {bulkResults.map(result => (
+                  <li key={result.zapLink} className="flex items-start gap-2">
+                    {result.sent ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+                    )}
+                    <span>
+                      <span className="font-mono">{result.zapLink}</span>
+                      {" — "}
+                      {result.sent ? `Sent to ${result.recipientName}` : result.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSending}
+                className="flex-1"
+                data-testid="button-cancel"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSending || !zapLink.trim()}
+                className="flex-1"
+                data-testid="button-send-form"
+              >
+                {isSending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Sending...
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4 mr-2" />
+                    {zapLinks.length > 1 ? `Send to ${zapLinks.length}` : "Send Form"}
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+
+          {!!sentZaps?.length && (
+            <div className="border-t pt-4 mt-4 space-y-2">
+              <p className="text-sm font-medium">Sent to</p>
+              <ul className="max-h-48 overflow-y-auto divide-y" data-testid="list-sent-zaps">
+                {sentZaps.map(zap => (
+                  <li key={zap.id} className="py-2 flex items-center justify-between gap-3 text-sm" data-testid={`sent-zap-${zap.id}`}>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{zap.recipient.displayName || zap.recipient.username}</p>
+                      <p className="text-muted-foreground">{describeProgress(zap)}</p>
+                    </div>
+                    <Badge variant="secondary" className={statusLabels[zap.status].className}>
+                      {statusLabels[zap.status].label}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="border-t pt-4 mt-4">
+            <p className="text-sm text-muted-foreground mb-2">
+              Want to share your forms publicly instead?
+            </p>
             <Button
-              type="submit"
-              disabled={sendFormMutation.isPending || !zapLink.trim()}
-              className="flex-1"
-              data-testid="button-send-form"
+              variant="ghost"
+              size="sm"
+              onClick={() => window.open(`/form/${form.shareableLink}`, "_blank")}
+              className="h-8 text-xs"
+              data-testid="button-view-public-link"
             >
-              {sendFormMutation.isPending ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Sending...
-                </>
-              ) : (
-                <>
-                  <Send className="h-4 w-4 mr-2" />
-                  Send Form
-                </>
-              )}
+              <ExternalLink className="h-3 w-3 mr-1" />
+              View Public Link
             </Button>
           </div>
-        </form>
-
-        <div className="border-t pt-4 mt-4">
-          <p className="text-sm text-muted-foreground mb-2">
-            Want to share your forms publicly instead?
-          </p>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => window.open(`/form/${form.shareableLink}`, "_blank")}
-            className="h-8 text-xs"
-            data-testid="button-view-public-link"
-          >
-            <ExternalLink className="h-3 w-3 mr-1" />
-            View Public Link
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+
+      <UpgradeModal
+        open={!!planLimitMessage}
+        onOpenChange={(isOpen) => !isOpen && setPlanLimitMessage(null)}
+        limitMessage={planLimitMessage ?? undefined}
+      />
+    </>
   );
 }
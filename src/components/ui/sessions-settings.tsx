@@ -0,0 +1,159 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Laptop, MonitorSmartphone, Smartphone } from "lucide-react";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+}
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const systems: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on macOS" from the user agent; good enough to recognise your own devices
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? "Unknown device";
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+export function SessionsSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/security-events"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't sign out",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const signOutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/user/sessions/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      onSuccess();
+      toast({ title: "Session Signed Out" });
+    },
+    onError,
+  });
+
+  const signOutOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/sign-out-others");
+      return await res.json();
+    },
+    onSuccess: (data: { signedOutSessions: number }) => {
+      onSuccess();
+      toast({
+        title: "Other Sessions Signed Out",
+        description: `Signed out of ${data.signedOutSessions} other ${data.signedOutSessions === 1 ? "session" : "sessions"}.`,
+      });
+    },
+    onError,
+  });
+
+  const others = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          <span>Sessions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Browsers and devices signed in to your account. Sign out any you don't recognise, then change your password.
+        </p>
+
+        <ul className="divide-y" data-testid="list-sessions">
+          {sessions?.map(session => {
+            const Icon = isMobile(session.userAgent) ? Smartphone : Laptop;
+            return (
+              <li key={session.id} className="py-3 flex items-center justify-between gap-4 text-sm" data-testid={`session-${session.id}`}>
+                <div className="flex items-center space-x-3">
+                  <Icon className="h-5 w-5 text-slate-500" />
+                  <div>
+                    <p className="font-medium text-slate-900" title={session.userAgent ?? undefined}>
+                      {describeDevice(session.userAgent)}
+                      {session.current && <Badge className="ml-2 bg-green-100 text-green-800">This device</Badge>}
+                    </p>
+                    <p className="text-slate-500">
+                      {session.ipAddress ?? "Unknown IP"}
+                      {session.lastSeenAt && !session.current &&
+                        ` · Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      {session.current && " · Active now"}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => signOutMutation.mutate(session.id)}
+                    disabled={signOutMutation.isPending}
+                    data-testid={`button-sign-out-session-${session.id}`}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {others.length > 0 && (
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => signOutOthersMutation.mutate()}
+            disabled={signOutOthersMutation.isPending}
+            data-testid="button-sign-out-other-sessions"
+          >
+            {signOutOthersMutation.isPending ? "Signing Out..." : "Sign Out Other Sessions"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { SignatureMethod } from "@shared/schema";
+
+export interface SignatureValue {
+  method: SignatureMethod;
+  // The typed name, or a PNG data URL of the drawing
+  signature: string;
+}
+
+interface SignaturePadProps {
+  // Prefills the typed signature
+  defaultName?: string;
+  onChange: (value: SignatureValue | null) => void;
+}
+
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 160;
+
+export function SignaturePad({ defaultName = "", onChange }: SignaturePadProps) {
+  const [method, setMethod] = useState<SignatureMethod>("typed");
+  const [typed, setTyped] = useState(defaultName);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  // Parents usually pass a new callback on every render, which mustn't re-run the effect below
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (method === "typed") {
+      onChangeRef.current(typed.trim() ? { method, signature: typed.trim() } : null);
+    } else {
+      onChangeRef.current(hasDrawing && canvasRef.current ? { method, signature: canvasRef.current.toDataURL("image/png") } : null);
+    }
+  }, [method, typed, hasDrawing]);
+
+  // Map pointer coordinates onto the canvas, which is scaled to fit its container
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#0f172a";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const endStroke = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    setHasDrawing(true);
+    // Re-export the drawing after every stroke
+    if (canvasRef.current) {
+      onChange({ method: "drawn", signature: canvasRef.current.toDataURL("image/png") });
+    }
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasDrawing(false);
+  };
+
+  return (
+    // The canvas unmounts with its tab, so switching tabs discards the drawing
+    <Tabs value={method} onValueChange={value => { setMethod(value as SignatureMethod); setHasDrawing(false); }}>
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="typed" data-testid="tab-signature-typed">Type</TabsTrigger>
+        <TabsTrigger value="drawn" data-testid="tab-signature-drawn">Draw</TabsTrigger>
+      </TabsList>
+      <TabsContent value="typed" className="space-y-3">
+        <Input
+          value={typed}
+          onChange={e => setTyped(e.target.value)}
+          placeholder="Type your full name"
+          maxLength={100}
+          data-testid="input-signature-typed"
+        />
+        <div className="h-20 border-b-2 border-gray-300 flex items-end px-3 pb-2">
+          <span className="text-3xl italic text-gray-900" style={{ fontFamily: "'Times New Roman', serif" }}>
+            {typed}
+          </span>
+        </div>
+      </TabsContent>
+      <TabsContent value="drawn" className="space-y-2">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="w-full border rounded-md bg-white touch-none cursor-crosshair"
+          onPointerDown={startStroke}
+          onPointerMove={continueStroke}
+          onPointerUp={endStroke}
+          onPointerLeave={endStroke}
+          data-testid="canvas-signature"
+        />
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>Draw your signature above</span>
+          <Button type="button" variant="ghost" size="sm" onClick={clear} data-testid="button-clear-signature">
+            Clear
+          </Button>
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Download, ShieldCheck } from "lucide-react";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Shown once, right after they're generated
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  return (
+    <div className="space-y-4" data-testid="recovery-codes">
+      <p className="text-sm text-slate-600">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-slate-50 border rounded-md font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            navigator.clipboard.writeText(text);
+            toast({ title: "Recovery codes copied" });
+          }}
+          data-testid="button-copy-recovery-codes"
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" asChild data-testid="button-download-recovery-codes">
+          <a href={`data:text/plain;charset=utf-8,${encodeURIComponent(text)}`} download="clientzap-recovery-codes.txt">
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </a>
+        </Button>
+        <Button size="sm" className="ml-auto" onClick={onDone} data-testid="button-recovery-codes-done">
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [confirmCode, setConfirmCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Two-Factor Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setSetupCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return await res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({
+        title: "Two-Factor Enabled",
+        description: "You'll be asked for a code from your app when you sign in.",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { twoFactorCode: confirmCode });
+      return await res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setConfirmCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/two-factor", { twoFactorCode: confirmCode });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setConfirmCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({
+        title: "Two-Factor Disabled",
+        description: "You'll sign in with just your password.",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-Factor Authentication</span>
+          {status?.enabled && <Badge className="ml-2 bg-green-100 text-green-800">On</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Signing in needs a code from your authenticator app. You have {status.recoveryCodesRemaining} recovery
+              {status.recoveryCodesRemaining === 1 ? " code" : " codes"} left.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-confirm">Code from your app or a recovery code</Label>
+              <Input
+                id="two-factor-confirm"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+                autoComplete="one-time-code"
+                className="max-w-xs"
+                data-testid="input-two-factor-confirm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!confirmCode || regenerateMutation.isPending}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New Recovery Codes
+              </Button>
+              <Button
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => disableMutation.mutate()}
+                disabled={!confirmCode || disableMutation.isPending}
+                data-testid="button-disable-two-factor"
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+              then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor QR code" className="h-44 w-44 border rounded-md" data-testid="img-two-factor-qr" />
+            <div>
+              <Label className="text-sm font-medium">Can't scan it? Enter this key instead</Label>
+              <div className="mt-1 p-2 bg-slate-50 border rounded-md font-mono text-sm break-all" data-testid="text-two-factor-secret">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </div>
+            </div>
+            <InputOTP maxLength={6} value={setupCode} onChange={setSetupCode} data-testid="input-two-factor-setup-code">
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate(setupCode)}
+                disabled={setupCode.length !== 6 || enableMutation.isPending}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Verify and Turn On"}
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)} data-testid="button-cancel-two-factor-setup">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-600 max-w-md">
+              Protect your account with a code from your phone in addition to your password.
+            </p>
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+              {setupMutation.isPending ? "Starting..." : "Set Up"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
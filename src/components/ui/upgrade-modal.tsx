@@ -17,13 +17,20 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface UpgradeModalProps {
-  trigger: React.ReactNode;
+  trigger?: React.ReactNode;
   feature?: string;
+  // Server message from a plan-limit (402) response, shown instead of the generic pitch
+  limitMessage?: string;
+  // Optional controlled mode, e.g. to open the modal when an API call hits a plan limit
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
-export function UpgradeModal({ trigger, feature }: UpgradeModalProps) {
+export function UpgradeModal({ trigger, feature, limitMessage, open, onOpenChange }: UpgradeModalProps) {
   const { toast } = useToast();
-  const [isOpen, setIsOpen] = useState(false);
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const isOpen = open ?? uncontrolledOpen;
+  const setIsOpen = onOpenChange ?? setUncontrolledOpen;
   const [isUpgrading, setIsUpgrading] = useState(false);
 
   const createCheckoutMutation = useMutation({
@@ -53,7 +60,7 @@ export function UpgradeModal({ trigger, feature }: UpgradeModalProps) {
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
-      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -61,7 +68,9 @@ export function UpgradeModal({ trigger, feature }: UpgradeModalProps) {
             Upgrade to Pro
           </DialogTitle>
           <DialogDescription>
-            {feature 
+            {limitMessage
+              ? limitMessage
+              : feature 
               ? `To use ${feature}, you need a Pro subscription. Unlock unlimited features and save time.`
               : "Unlock the full power of ClientZap with unlimited features and priority support."
             }
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Contact, UserPlus } from "lucide-react";
+import type { ZapLinkUser } from "@/lib/zaps";
+import type { User, ZapPrivacy } from "@shared/schema";
+
+const privacyOptions: { value: ZapPrivacy; label: string; description: string }[] = [
+  { value: "anyone", label: "Anyone", description: "Any ClientZap user with your ZapLink can send you forms." },
+  { value: "contacts", label: "Contacts only", description: "Only people in your contacts below can send you forms." },
+];
+
+function PersonRow({ person, action }: { person: ZapLinkUser; action: React.ReactNode }) {
+  return (
+    <li className="py-2 flex items-center justify-between gap-4 text-sm" data-testid={`zap-person-${person.id}`}>
+      <div>
+        <p className="font-medium text-slate-900">{person.displayName || person.username}</p>
+        <p className="text-slate-500 font-mono">{person.zapLink}</p>
+      </div>
+      {action}
+    </li>
+  );
+}
+
+export function ZapContactsSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [zapLink, setZapLink] = useState("");
+
+  const { data: contacts } = useQuery<ZapLinkUser[]>({
+    queryKey: ["/api/zap-contacts"],
+  });
+
+  const { data: blocked } = useQuery<ZapLinkUser[]>({
+    queryKey: ["/api/zap-blocks"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update contacts",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const privacyMutation = useMutation({
+    mutationFn: async (zapPrivacy: ZapPrivacy) => {
+      const res = await apiRequest("PUT", "/api/user/zap-privacy", { zapPrivacy });
+      return await res.json();
+    },
+    onSuccess: ({ zapPrivacy }: Pick<User, "zapPrivacy">) => {
+      queryClient.setQueryData(["/api/user"], (user: User | null | undefined) => user && { ...user, zapPrivacy });
+      toast({ title: "ZapLink privacy updated" });
+    },
+    onError,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (zapLink: string) => {
+      const res = await apiRequest("POST", "/api/zap-contacts", { zapLink });
+      return await res.json();
+    },
+    onSuccess: (contact: ZapLinkUser) => {
+      setZapLink("");
+      queryClient.invalidateQueries({ queryKey: ["/api/zap-contacts"] });
+      toast({ title: "Contact added", description: `${contact.displayName || contact.username} is in your contacts.` });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/zap-contacts/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/zap-contacts"] });
+    },
+    onError,
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/zap-blocks/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/zap-blocks"] });
+      toast({ title: "Unblocked" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Contact className="h-5 w-5" />
+          <span>ZapLink Contacts</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Who can send you forms</Label>
+          <RadioGroup
+            value={user?.zapPrivacy ?? "anyone"}
+            onValueChange={(value) => privacyMutation.mutate(value as ZapPrivacy)}
+            disabled={privacyMutation.isPending}
+            data-testid="radio-zap-privacy"
+          >
+            {privacyOptions.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`zap-privacy-${option.value}`} className="mt-1" />
+                <Label htmlFor={`zap-privacy-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-sm text-slate-500">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-3">
+          <Label htmlFor="add-zap-contact" className="text-sm font-medium">Contacts</Label>
+          <p className="text-sm text-slate-500">
+            People you send forms to are added automatically, and so is anyone whose form you answer.
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (zapLink.trim()) addMutation.mutate(zapLink.trim());
+            }}
+          >
+            <Input
+              id="add-zap-contact"
+              placeholder="ZapLink, e.g. ABC123"
+              value={zapLink}
+              onChange={(e) => setZapLink(e.target.value)}
+              className="max-w-xs"
+              data-testid="input-add-zap-contact"
+            />
+            <Button type="submit" variant="outline" disabled={!zapLink.trim() || addMutation.isPending} data-testid="button-add-zap-contact">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </form>
+          {!contacts?.length ? (
+            <p className="text-sm text-slate-500">No contacts yet.</p>
+          ) : (
+            <ul className="divide-y" data-testid="list-zap-contacts">
+              {contacts.map(contact => (
+                <PersonRow
+                  key={contact.id}
+                  person={contact}
+                  action={
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(contact.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-zap-contact-${contact.id}`}
+                    >
+                      Remove
+                    </Button>
+                  }
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {!!blocked?.length && (
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Blocked</Label>
+            <ul className="divide-y" data-testid="list-zap-blocks">
+              {blocked.map(person => (
+                <PersonRow
+                  key={person.id}
+                  person={person}
+                  action={
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unblockMutation.mutate(person.id)}
+                      disabled={unblockMutation.isPending}
+                      data-testid={`button-unblock-${person.id}`}
+                    >
+                      Unblock
+                    </Button>
+                  }
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useSubscription } from "@/hooks/use-subscription";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UpgradeModal } from "@/components/ui/upgrade-modal";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, Crown, ExternalLink, Eye, RefreshCw } from "lucide-react";
+import type { User } from "@shared/schema";
+
+interface ZapLinkData {
+  zapLink: string;
+  fullUrl: string;
+  // Replaced ZapLinks that still reach this account until they expire
+  previousZapLinks: { zapLink: string; expiresAt: string }[];
+}
+
+export function ZapLinkSettings() {
+  const { user } = useAuth();
+  const { limits } = useSubscription();
+  const { toast } = useToast();
+  const [vanity, setVanity] = useState("");
+
+  const { data: zapLinkData } = useQuery<ZapLinkData>({
+    queryKey: ["/api/user/zaplink"],
+    enabled: !!user,
+  });
+
+  const onChanged = (updatedUser: User) => {
+    queryClient.setQueryData(["/api/user"], updatedUser);
+    queryClient.invalidateQueries({ queryKey: ["/api/user/zaplink"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/security-events"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't change your ZapLink",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const claimMutation = useMutation({
+    mutationFn: async (zapLink: string) => {
+      const res = await apiRequest("PUT", "/api/user/zaplink", { zapLink });
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      onChanged(updatedUser);
+      setVanity("");
+      toast({ title: "ZapLink updated", description: `Your ZapLink is now clientzap.com/zap/${updatedUser.zapLink}` });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/zaplink/regenerate");
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      onChanged(updatedUser);
+      toast({ title: "New ZapLink generated", description: `Your ZapLink is now ${updatedUser.zapLink}` });
+    },
+    onError,
+  });
+
+  if (!user) return null;
+
+  const zapLink = zapLinkData?.zapLink ?? user.zapLink;
+  const fullUrl = zapLinkData?.fullUrl ?? `clientzap.com/zap/${zapLink}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ExternalLink className="h-5 w-5" />
+          <span>Your ZapLink</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div>
+            <Label className="text-sm font-medium">Client Link</Label>
+            <p className="text-sm text-slate-600 mb-3">
+              Share this link with clients and other ClientZap users. It opens your public profile with your published forms.
+            </p>
+            <div className="flex items-center space-x-2">
+              <div className="flex-1 p-3 bg-slate-50 border rounded-md font-mono text-sm" data-testid="text-zaplink">
+                {fullUrl}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  navigator.clipboard.writeText(fullUrl);
+                  toast({
+                    title: "✅ Zap Link copied!",
+                    description: "Your client link is ready to share",
+                  });
+                }}
+                data-testid="button-copy-zaplink"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.open(`/zap/${zapLink}`, "_blank")}
+                data-testid="button-preview-zaplink"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+            </div>
+            {!!zapLinkData?.previousZapLinks.length && (
+              <ul className="mt-3 space-y-1 text-sm text-slate-500" data-testid="list-previous-zaplinks">
+                {zapLinkData.previousZapLinks.map(previous => (
+                  <li key={previous.zapLink}>
+                    <span className="font-mono">{previous.zapLink}</span> still works until{" "}
+                    {format(new Date(previous.expiresAt), "MMM d, yyyy")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vanity-zaplink" className="text-sm font-medium">Custom ZapLink</Label>
+            {limits.hasVanityZapLink ? (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (vanity.trim()) claimMutation.mutate(vanity.trim());
+                }}
+              >
+                <div className="flex flex-1 items-center border rounded-md pl-3 max-w-md">
+                  <span className="text-sm text-slate-500 font-mono">clientzap.com/zap/</span>
+                  <Input
+                    id="vanity-zaplink"
+                    placeholder="your-name"
+                    value={vanity}
+                    onChange={(e) => setVanity(e.target.value)}
+                    className="border-0 font-mono focus-visible:ring-0"
+                    data-testid="input-vanity-zaplink"
+                  />
+                </div>
+                <Button type="submit" disabled={!vanity.trim() || claimMutation.isPending} data-testid="button-claim-zaplink">
+                  {claimMutation.isPending ? "Saving..." : "Claim"}
+                </Button>
+              </form>
+            ) : (
+              <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-900">
+                  Swap your code for something memorable, like clientzap.com/zap/your-name, on the Pro plan.
+                </p>
+                <UpgradeModal
+                  feature="Custom ZapLinks"
+                  trigger={
+                    <Button variant="outline" size="sm" data-testid="button-upgrade-vanity-zaplink">
+                      <Crown className="h-4 w-4 mr-2" />
+                      Upgrade
+                    </Button>
+                  }
+                />
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              3–30 letters, numbers and hyphens. When you change your ZapLink, the old one keeps working for 7 days.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-600">
+              Getting unwanted zaps? Swap your ZapLink for a new random code.
+            </p>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={regenerateMutation.isPending} data-testid="button-regenerate-zaplink">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Generate a new ZapLink?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {zapLink} will keep working for 7 days so you can update anywhere you've shared it, then stop.
+                    Anyone who already has it will need your new ZapLink after that.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => regenerateMutation.mutate()} data-testid="button-confirm-regenerate-zaplink">
+                    Generate New ZapLink
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
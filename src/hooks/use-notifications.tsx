@@ -0,0 +1,171 @@
+import { createContext, ReactNode, useContext, useEffect } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { Notification, NotificationType } from "@shared/schema";
+import type { NotificationEvent } from "@/lib/notifications";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Matches NOTIFICATIONS_SOCKET_PATH on the server
+const SOCKET_PATH = "/ws/notifications";
+// Sent by the server when the session behind the socket has been signed out
+const SIGNED_OUT_CLOSE_CODE = 4001;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+type NotificationsContextType = NotificationList & {
+  markReadMutation: Pick<UseMutationResult<{ unreadCount: number }, Error, string>, "mutate" | "isPending">;
+  markAllReadMutation: Pick<UseMutationResult<{ unreadCount: number }, Error, void>, "mutate" | "isPending">;
+};
+
+// What the bell sees outside a NotificationsProvider: nothing to show, nothing to mark read
+const noNotifications: NotificationsContextType = {
+  notifications: [],
+  unreadCount: 0,
+  markReadMutation: { mutate: () => {}, isPending: false },
+  markAllReadMutation: { mutate: () => {}, isPending: false },
+};
+
+// Queries whose data a notification makes stale. Queries default to staleTime: Infinity,
+// so without this the change wouldn't show until a reload.
+const staleQueries: Record<NotificationType, string[]> = {
+  submission_received: ["/api/submissions", "/api/dashboard/stats", "/api/subscription/usage", "/api/clients"],
+  zap_received: ["/api/zap-inbox"],
+  zap_responded: ["/api/submissions", "/api/zaps/sent", "/api/dashboard/stats", "/api/subscription/usage"],
+  contract_signed: ["/api/contracts", "/api/clients", "/api/submissions"],
+};
+
+const isFormZapsQuery = (key: unknown) => /^\/api\/forms\/[^/]+\/zaps$/.test(String(key));
+
+const setUnreadCount = (unreadCount: number) =>
+  queryClient.setQueryData<NotificationList>(["/api/notifications"], (list) => list && { ...list, unreadCount });
+
+export const NotificationsContext = createContext<NotificationsContextType | null>(null);
+
+// Keeps a socket open while signed in. Mount inside AuthProvider.
+export function NotificationsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const onEvent = (event: NotificationEvent) => {
+      if (event.type === "notifications_read") {
+        setUnreadCount(event.unreadCount);
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+        return;
+      }
+
+      const { notification, unreadCount } = event;
+      queryClient.setQueryData<NotificationList>(["/api/notifications"], (list) => list && {
+        notifications: [notification, ...list.notifications.filter(n => n.id !== notification.id)],
+        unreadCount,
+      });
+      for (const key of staleQueries[notification.type as NotificationType] ?? []) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      if (notification.type === "zap_responded") {
+        queryClient.invalidateQueries({ predicate: (query) => isFormZapsQuery(query.queryKey[0]) });
+      }
+      toast({ title: notification.title, description: notification.body ?? undefined });
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${SOCKET_PATH}`);
+
+      socket.onopen = () => {
+        // Anything that arrived while we were disconnected only shows up in the list
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          onEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error("Unreadable notification:", error);
+        }
+      };
+
+      socket.onclose = (close) => {
+        if (stopped) return;
+        if (close.code === SIGNED_OUT_CLOSE_CODE) {
+          // Signed out elsewhere; let the auth query notice
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+          return;
+        }
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [user?.id]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+      return await res.json();
+    },
+    onSuccess: (result: { unreadCount: number }, id) => {
+      queryClient.setQueryData<NotificationList>(["/api/notifications"], (list) => list && {
+        notifications: list.notifications.map(n => n.id === id ? { ...n, readAt: n.readAt ?? new Date() } : n),
+        unreadCount: result.unreadCount,
+      });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/read-all");
+      return await res.json();
+    },
+    onSuccess: (result: { unreadCount: number }) => {
+      queryClient.setQueryData<NotificationList>(["/api/notifications"], (list) => list && {
+        notifications: list.notifications.map(n => ({ ...n, readAt: n.readAt ?? new Date() })),
+        unreadCount: result.unreadCount,
+      });
+    },
+  });
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications: data?.notifications ?? [],
+        unreadCount: data?.unreadCount ?? 0,
+        markReadMutation,
+        markAllReadMutation,
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications(): NotificationsContextType {
+  return useContext(NotificationsContext) ?? noNotifications;
+}
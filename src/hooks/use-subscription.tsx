@@ -1,19 +1,26 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { Plan, PlanLimits, UsageCounts } from "@/lib/entitlements";
 
 interface SubscriptionLimits {
   maxForms: number;
   maxZaps: number;
+  maxClients: number;
   hasCustomBranding: boolean;
   hasSavedContracts: boolean;
   hasMultiFormFlows: boolean;
+  hasVanityZapLink: boolean;
 }
 
-interface UsageStats {
-  formsCount: number;
-  zapsCount: number;
+interface UsageStats extends UsageCounts {
+  plan: Plan;
+  limits: PlanLimits;
 }
 
+// The server sends null for unlimited
+const toLimit = (limit: number | null | undefined) => limit ?? Infinity;
+
 export function useSubscription() {
   const { user } = useAuth();
 
@@ -22,28 +29,34 @@ export function useSubscription() {
     enabled: !!user,
   });
 
-  const isPro = user?.subscriptionType === "pro" && user?.subscriptionStatus === "active";
+  const isPro = usage
+    ? usage.plan === "pro"
+    : user?.subscriptionType === "pro" && user?.subscriptionStatus === "active";
   const isPastDue = user?.subscriptionStatus === "past_due";
 
   const limits: SubscriptionLimits = {
-    maxForms: isPro ? Infinity : 1,
-    maxZaps: isPro ? Infinity : 3,
-    hasCustomBranding: isPro,
-    hasSavedContracts: isPro,
-    hasMultiFormFlows: isPro,
+    maxForms: toLimit(usage?.limits.maxForms),
+    maxZaps: toLimit(usage?.limits.maxZaps),
+    maxClients: toLimit(usage?.limits.maxClients),
+    hasCustomBranding: usage?.limits.hasCustomBranding ?? isPro,
+    hasSavedContracts: usage?.limits.hasSavedContracts ?? isPro,
+    hasMultiFormFlows: usage?.limits.hasMultiFormFlows ?? isPro,
+    hasVanityZapLink: usage?.limits.hasVanityZapLink ?? isPro,
   };
 
   const canCreateForm = !usage || usage.formsCount < limits.maxForms;
   const canCreateZap = !usage || usage.zapsCount < limits.maxZaps;
+  const canCreateClient = !usage || usage.clientsCount < limits.maxClients;
 
   const getFormLimitText = () => {
-    if (isPro) return "Unlimited forms";
+    if (limits.maxForms === Infinity) return "Unlimited forms";
     return `${usage?.formsCount || 0}/${limits.maxForms} forms used`;
   };
 
   const getZapLimitText = () => {
-    if (isPro) return "Unlimited zaps";
-    return `${usage?.zapsCount || 0}/${limits.maxZaps} zaps used`;
+    if (limits.maxZaps === Infinity) return "Unlimited zaps";
+    const resets = usage ? ` · resets ${format(new Date(usage.zapsResetAt), "MMM d")}` : "";
+    return `${usage?.zapsCount || 0}/${limits.maxZaps} zaps used this month${resets}`;
   };
 
   return {
@@ -54,6 +67,7 @@ export function useSubscription() {
     usage,
     canCreateForm,
     canCreateZap,
+    canCreateClient,
     getFormLimitText,
     getZapLimitText,
   };
@@ -0,0 +1,58 @@
+import type { Request } from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendAccountUnlock } from "./auth-tokens";
+import { recordSecurityEvent } from "./audit-log";
+
+// Wrong passwords allowed before sign-in slows down
+const FREE_ATTEMPTS = 5;
+// Wait after the first failure past FREE_ATTEMPTS, doubled for each one after it
+const BASE_DELAY_MS = 30 * 1000;
+// At this many failures the account locks and the owner is emailed an unlock link
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 60 * 60 * 1000;
+
+// Raised by the password check for a locked account; the login route answers 429
+export class AccountLockedError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super(`Too many wrong passwords for this account. Try again in ${formatWait(retryAfterMs)}, or reset your password.`);
+  }
+}
+
+export const getLockRemainingMs = (user: User) =>
+  user.lockedUntil ? Math.max(0, user.lockedUntil.getTime() - Date.now()) : 0;
+
+// Count a wrong password against the account, slowing down or locking it as failures add up
+export async function recordFailedLogin(req: Request, user: User): Promise<void> {
+  const updated = await storage.recordFailedLogin(user.id);
+  if (!updated) return;
+
+  const failures = updated.failedLoginCount;
+  if (failures >= LOCKOUT_THRESHOLD) {
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+    await storage.updateUser(user.id, { lockedUntil });
+    recordSecurityEvent(req, "account_locked", user.id, { failedAttempts: failures });
+    sendAccountUnlock(updated, lockedUntil).catch(error => console.error("Error sending unlock email:", error.message));
+  } else if (failures > FREE_ATTEMPTS) {
+    await storage.updateUser(user.id, {
+      lockedUntil: new Date(Date.now() + BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1)),
+    });
+  }
+}
+
+// After a successful sign-in, an unlock link or a password reset
+export async function clearFailedLogins(user: User): Promise<void> {
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+  }
+}
+
+// "30 seconds", "4 minutes", "2 hours"
+export function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return seconds === 1 ? "1 second" : `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+  const hours = Math.ceil(minutes / 60);
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
@@ -0,0 +1,20 @@
+import type { Request } from "express";
+import type { SecurityEventType } from "@shared/schema";
+import { storage } from "./storage";
+import { clientIp } from "./rate-limit";
+
+// Write an entry to the security audit log without holding up the response
+export function recordSecurityEvent(
+  req: Request,
+  type: SecurityEventType,
+  userId: string | null,
+  details?: Record<string, unknown>,
+): void {
+  storage.createSecurityEvent({
+    userId,
+    type,
+    ipAddress: clientIp(req) ?? null,
+    userAgent: req.get("user-agent") ?? null,
+    details: details ?? null,
+  }).catch(error => console.error("Error recording security event:", error.message));
+}
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { AuthToken, AuthTokenPurpose, User } from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl, queueEmail } from "./email";
+import { accountLockedEmail, passwordResetEmail, verifyEmailEmail } from "./email-templates";
+
+// How long each kind of link stays valid
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+  account_unlock: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+const INVALID_TOKEN_MESSAGES: Record<AuthTokenPurpose, string> = {
+  password_reset: "This password reset link is invalid or has expired. Please request a new one.",
+  email_verification: "This verification link is invalid or has expired. Please request a new one.",
+  account_unlock: "This unlock link is invalid or has expired. Please reset your password instead.",
+};
+
+// Thrown for links that are malformed, tampered with, expired or already used; routes answer 400
+export class InvalidAuthTokenError extends Error {}
+
+function tokenSecret(): string {
+  const secret = process.env.AUTH_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_TOKEN_SECRET or SESSION_SECRET must be set to sign auth tokens");
+  }
+  return secret;
+}
+
+const signToken = (token: AuthToken) =>
+  createHmac("sha256", tokenSecret())
+    .update([token.id, token.userId, token.purpose, token.email.toLowerCase(), token.expiresAt.getTime()].join(":"))
+    .digest();
+
+// Issue a link token for the user's current email, replacing any earlier one for the same purpose
+export async function issueAuthToken(user: User, purpose: AuthTokenPurpose): Promise<string> {
+  await storage.revokeAuthTokens(user.id, purpose);
+  const token = await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    email: user.email,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+  });
+  return `${token.id}.${signToken(token).toString("base64url")}`;
+}
+
+// Check a link token and use it up. Returns the user it was issued to.
+export async function consumeAuthToken(value: string, purpose: AuthTokenPurpose): Promise<User> {
+  const invalid = INVALID_TOKEN_MESSAGES[purpose];
+
+  const [id, signature] = value.split(".");
+  const token = id && signature ? await storage.getAuthToken(id) : undefined;
+  if (!token || token.purpose !== purpose) {
+    throw new InvalidAuthTokenError(invalid);
+  }
+
+  const expected = signToken(token);
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new InvalidAuthTokenError(invalid);
+  }
+
+  // A link sent to an address the account no longer uses doesn't count
+  const user = await storage.getUser(token.userId);
+  if (!user || token.usedAt || token.expiresAt <= new Date() || user.email.toLowerCase() !== token.email.toLowerCase()) {
+    throw new InvalidAuthTokenError(invalid);
+  }
+
+  if (!(await storage.useAuthToken(token.id))) {
+    throw new InvalidAuthTokenError(invalid);
+  }
+  return user;
+}
+
+export async function sendPasswordReset(user: User): Promise<void> {
+  const token = await issueAuthToken(user, "password_reset");
+  queueEmail(passwordResetEmail(user, appUrl(`/auth?reset=${encodeURIComponent(token)}`)));
+}
+
+export async function sendEmailVerification(user: User): Promise<void> {
+  const token = await issueAuthToken(user, "email_verification");
+  queueEmail(verifyEmailEmail(user, appUrl(`/auth?verify=${encodeURIComponent(token)}`)));
+}
+
+export async function sendAccountUnlock(user: User, lockedUntil: Date): Promise<void> {
+  const token = await issueAuthToken(user, "account_unlock");
+  queueEmail(accountLockedEmail(user, lockedUntil, appUrl(`/auth?unlock=${encodeURIComponent(token)}`)));
+}
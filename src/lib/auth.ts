@@ -1,11 +1,20 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { consumeAuthToken, InvalidAuthTokenError, sendEmailVerification, sendPasswordReset } from "./auth-tokens";
+import { queueEmail } from "./email";
+import { passwordChangedEmail } from "./email-templates";
+import { clientIp, failureBackoff, rateLimit, sendTooManyRequests } from "./rate-limit";
+import { AccountLockedError, clearFailedLogins, formatWait, getLockRemainingMs, recordFailedLogin } from "./account-lockout";
+import { recordSecurityEvent } from "./audit-log";
+import { signOutOtherSessions, trackSessionDevice } from "./user-sessions";
+import { isTwoFactorEnabled, verifySecondFactor } from "./two-factor";
+import { getOAuthClient, linkOAuthIdentity, listOAuthProviders, OAuthSignInError, signInWithOAuth } from "./oauth";
+import { User as SelectUser, type OAuthProvider, forgotPasswordSchema, insertUserSchema, resetPasswordSchema, twoFactorCodeSchema, unlockAccountSchema, verifyEmailSchema } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,6 +22,21 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set by the password step of a login that still needs a two-factor code
+    pendingTwoFactor?: { userId: string; expiresAt: number };
+    // Set when a Google or GitHub sign-in starts, and checked when the provider sends the user back.
+    // linkUserId is set when a signed-in user is connecting the account rather than signing in.
+    oauthState?: { provider: OAuthProvider; state: string; linkUserId?: string; expiresAt: number };
+  }
+}
+
+// How long the user has to enter their code after the password step
+const PENDING_TWO_FACTOR_MS = 5 * 60 * 1000;
+// How long the user has to finish signing in on Google or GitHub
+const OAUTH_STATE_MS = 10 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,26 +52,51 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware, so the notifications socket can sign in with the same cookie
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
   };
+  const sessionMiddleware = session(sessionSettings);
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionDevice);
 
+  // Sign in with either the username or the email address. Wrong passwords count against
+  // the account, and a locked account is refused before the password is checked.
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
+      try {
+        const identifier = username.trim();
+        const user = await storage.getUserByUsername(identifier)
+          ?? (identifier.includes("@") ? await storage.getUserByEmail(identifier) : undefined);
+        if (!user) {
+          recordSecurityEvent(req, "login_failed", null, { identifier });
+          return done(null, false);
+        }
+
+        const lockedForMs = getLockRemainingMs(user);
+        if (lockedForMs > 0) {
+          recordSecurityEvent(req, "login_blocked", user.id);
+          return done(new AccountLockedError(lockedForMs));
+        }
+
+        if (!user.password || !(await comparePasswords(password, user.password))) {
+          recordSecurityEvent(req, "login_failed", user.id);
+          await recordFailedLogin(req, user);
+          return done(null, false);
+        }
+
+        await clearFailedLogins(user);
         return done(null, user);
+      } catch (error) {
+        return done(error);
       }
     }),
   );
@@ -58,13 +107,20 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  const limitRegistrations = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    key: clientIp,
+    message: "Too many accounts created from this network. Please try again later.",
+  });
+
+  app.post("/api/register", limitRegistrations, async (req, res, next) => {
     try {
-      // Validate required fields
-      const { username, email, password } = req.body;
-      if (!username || !email || !password) {
-        return res.status(400).json({ message: "Username, email, and password are required" });
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      const { username, email, password } = parsed.data;
 
       // Check for existing username
       const existingUserByUsername = await storage.getUserByUsername(username);
@@ -85,6 +141,9 @@ export function setupAuth(app: Express) {
         password: await hashPassword(password),
       });
 
+      sendEmailVerification(user).catch(error => console.error("Error sending verification email:", error.message));
+      recordSecurityEvent(req, "registered", user.id);
+
       // Log in the newly created user
       req.login(user, (err) => {
         if (err) return next(err);
@@ -92,7 +151,8 @@ export function setupAuth(app: Express) {
           id: user.id,
           username: user.username,
           email: user.email,
-          createdAt: user.createdAt
+          createdAt: user.createdAt,
+          emailVerifiedAt: user.emailVerifiedAt,
         });
       });
     } catch (error: any) {
@@ -100,8 +160,166 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Failed sign-ins from one IP slow down exponentially, across every account it tries
+  const loginBackoff = failureBackoff({
+    freeFailures: 10,
+    baseDelayMs: 5 * 1000,
+    maxDelayMs: 15 * 60 * 1000,
+    resetAfterMs: 60 * 60 * 1000,
+  });
+
+  // With two-factor on, the right password only starts a pending login that
+  // /api/login/two-factor completes
+  app.post("/api/login", (req, res, next) => {
+    const ip = clientIp(req);
+    const waitMs = ip ? loginBackoff.retryAfterMs(ip) : 0;
+    if (waitMs > 0) {
+      return sendTooManyRequests(res, waitMs, `Too many failed sign-ins. Please wait ${formatWait(waitMs)} and try again.`);
+    }
+
+    passport.authenticate("local", async (err: any, user: SelectUser | false) => {
+      if (err instanceof AccountLockedError) {
+        return sendTooManyRequests(res, err.retryAfterMs, err.message);
+      }
+      if (err) return next(err);
+      if (!user) {
+        if (ip) loginBackoff.recordFailure(ip);
+        return res.status(401).json({ message: "Invalid username, email or password" });
+      }
+
+      try {
+        if (await isTwoFactorEnabled(user.id)) {
+          req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_TWO_FACTOR_MS };
+          return res.json({ twoFactorRequired: true });
+        }
+      } catch (error) {
+        return next(error);
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        recordSecurityEvent(req, "login_succeeded", user.id, { method: "password" });
+        res.status(200).json(user);
+      });
+    })(req, res, next);
+  });
+
+  // Codes are limited per pending login so they can't be guessed
+  const limitTwoFactorAttempts = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    key: req => req.session.pendingTwoFactor?.userId,
+    message: "Too many attempts. Please wait a few minutes and try again.",
+  });
+
+  app.post("/api/login/two-factor", limitTwoFactorAttempts, async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const credential = await storage.getTwoFactorCredential(pending.userId);
+      const user = await storage.getUser(pending.userId);
+      if (!credential?.enabledAt || !user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+      if (!(await verifySecondFactor(credential, parsed.data.code))) {
+        recordSecurityEvent(req, "login_failed", user.id, { method: "two_factor" });
+        return res.status(401).json({ message: "That code isn't valid. Try the latest one from your app, or a recovery code." });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordSecurityEvent(req, "login_succeeded", user.id, { method: "two_factor" });
+        res.status(200).json(user);
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Google and GitHub sign-in. Signed-in users going through the same flow connect the
+  // account to their ClientZap account instead.
+  app.get("/api/auth/providers", (req, res) => {
+    res.json(listOAuthProviders());
+  });
+
+  app.get("/api/auth/:provider", (req, res) => {
+    const client = getOAuthClient(req.params.provider);
+    if (!client) {
+      return res.status(404).json({ message: "Sign-in provider not found" });
+    }
+
+    const state = randomBytes(24).toString("base64url");
+    req.session.oauthState = {
+      provider: client.provider,
+      state,
+      linkUserId: req.isAuthenticated() ? req.user.id : undefined,
+      expiresAt: Date.now() + OAUTH_STATE_MS,
+    };
+    req.session.save((err) => {
+      if (err) return res.status(500).json({ message: err.message });
+      res.redirect(client.getAuthorizationUrl(state));
+    });
+  });
+
+  const returnWithError = (message: string, linking: boolean) =>
+    `${linking ? "/profile?tab=security&" : "/auth?"}oauthError=${encodeURIComponent(message)}`;
+
+  app.get("/api/auth/:provider/callback", async (req, res, next) => {
+    const expected = req.session.oauthState;
+    delete req.session.oauthState;
+    const linking = !!expected?.linkUserId;
+
+    try {
+      const client = getOAuthClient(req.params.provider);
+      if (!client || !expected || expected.provider !== client.provider || expected.expiresAt < Date.now()
+          || typeof req.query.state !== "string" || req.query.state !== expected.state) {
+        throw new OAuthSignInError("Your sign-in has expired. Please try again.");
+      }
+      if (typeof req.query.code !== "string") {
+        // The user canceled on the provider's page
+        throw new OAuthSignInError(`${client.name} sign-in was canceled.`);
+      }
+
+      const profile = await client.getProfile(req.query.code);
+
+      if (expected.linkUserId) {
+        if (!req.isAuthenticated() || req.user.id !== expected.linkUserId) {
+          throw new OAuthSignInError("Your sign-in has expired. Please try again.");
+        }
+        await linkOAuthIdentity(req.user, client, profile);
+        recordSecurityEvent(req, "identity_linked", req.user.id, { provider: client.provider });
+        return res.redirect(`/profile?tab=security&linked=${client.provider}`);
+      }
+
+      const user = await signInWithOAuth(client, profile);
+      if (await isTwoFactorEnabled(user.id)) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_TWO_FACTOR_MS };
+        return res.redirect("/auth?twoFactor=1");
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordSecurityEvent(req, "login_succeeded", user.id, { method: client.provider });
+        res.redirect("/dashboard");
+      });
+    } catch (error: any) {
+      if (!(error instanceof OAuthSignInError)) {
+        console.error("Error completing OAuth sign-in:", error);
+      }
+      const message = error instanceof OAuthSignInError ? error.message : "Something went wrong signing you in. Please try again.";
+      res.redirect(returnWithError(message, linking));
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -115,4 +333,111 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // Emailed links. Requests for links are limited per IP and per address so these routes
+  // can't be used to flood someone's inbox; checking links is limited per IP against guessing.
+  const limitLinkRequestsByIp = rateLimit({ windowMs: 15 * 60 * 1000, max: 10, key: clientIp });
+  const limitLinkRequestsByEmail = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 3,
+    key: req => typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined,
+  });
+  const limitLinkRequestsByUser = rateLimit({ windowMs: 60 * 60 * 1000, max: 3, key: req => req.user?.id });
+  const limitLinkChecks = rateLimit({ windowMs: 15 * 60 * 1000, max: 20, key: clientIp });
+
+  app.post("/api/forgot-password", limitLinkRequestsByIp, limitLinkRequestsByEmail, async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    // Same answer, and no waiting on the email, whether or not the account exists
+    storage.getUserByEmail(parsed.data.email)
+      .then(user => user && sendPasswordReset(user))
+      .catch(error => console.error("Error sending password reset email:", error.message));
+    res.json({ message: "If an account uses that email, we've sent it a link to reset the password." });
+  });
+
+  app.post("/api/reset-password", limitLinkChecks, async (req, res) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const user = await consumeAuthToken(parsed.data.token, "password_reset");
+      const updatedUser = await storage.updateUser(user.id, {
+        password: await hashPassword(parsed.data.newPassword),
+        // Following the link proved they can read mail sent to this address
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null,
+      });
+      await storage.revokeAuthTokens(user.id, "password_reset");
+      // Whoever knew the old password may still be signed in somewhere
+      const signedOutSessions = await signOutOtherSessions(user.id);
+      recordSecurityEvent(req, "password_reset", user.id, { signedOutSessions });
+
+      queueEmail(passwordChangedEmail(updatedUser ?? user));
+      res.json({ message: "Your password has been reset. You can sign in with it now." });
+    } catch (error: any) {
+      if (error instanceof InvalidAuthTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/verify-email", limitLinkChecks, async (req, res) => {
+    try {
+      const parsed = verifyEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const user = await consumeAuthToken(parsed.data.token, "email_verification");
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      res.json({ message: "Thanks, your email address is verified." });
+    } catch (error: any) {
+      if (error instanceof InvalidAuthTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/unlock-account", limitLinkChecks, async (req, res) => {
+    try {
+      const parsed = unlockAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const user = await consumeAuthToken(parsed.data.token, "account_unlock");
+      await clearFailedLogins(user);
+      recordSecurityEvent(req, "account_unlocked", user.id);
+      res.json({ message: "Your account is unlocked. You can sign in now." });
+    } catch (error: any) {
+      if (error instanceof InvalidAuthTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/verify-email/resend", limitLinkRequestsByUser, async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      if (req.user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+
+      await sendEmailVerification(req.user);
+      res.json({ message: `We've sent a new verification link to ${req.user.email}.` });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  return sessionMiddleware;
 }
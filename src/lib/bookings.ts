@@ -0,0 +1,135 @@
+import { randomBytes } from "crypto";
+import type { AvailabilitySettings, Booking, Client, CreateBooking, User } from "@shared/schema";
+import { storage } from "./storage";
+import { queueEmail } from "./email";
+import { bookingCanceledEmail, bookingConfirmationEmail } from "./email-templates";
+import { buildIcsInvite, DEFAULT_WEEKLY_RULES, getAvailableSlots } from "./scheduling";
+
+// Thrown when the requested time can't be booked; routes answer 409
+export class BookingConflictError extends Error {}
+
+// Booking links are public, so they're long enough not to be guessed
+const generateBookingLink = () => randomBytes(6).toString("base64url").toLowerCase().replace(/[^a-z0-9]/g, "x");
+
+export const getBookingClientUri = (booking: Pick<Booking, "id">) => `booking:${booking.id}`;
+
+// Created on first use, disabled until the user turns the booking page on
+export async function getOrCreateAvailability(userId: string): Promise<AvailabilitySettings> {
+  const existing = await storage.getAvailabilitySettings(userId);
+  if (existing) return existing;
+
+  let bookingLink = generateBookingLink();
+  while (await storage.getAvailabilitySettingsByBookingLink(bookingLink)) {
+    bookingLink = generateBookingLink();
+  }
+  return storage.createAvailabilitySettings({ userId, bookingLink, weeklyRules: DEFAULT_WEEKLY_RULES });
+}
+
+export async function getBookableSlots(settings: AvailabilitySettings, now = new Date()): Promise<string[]> {
+  const windowEnd = new Date(now.getTime() + (settings.bookingWindowDays + 1) * 86_400_000);
+  const existing = await storage.getConfirmedBookingsBetween(settings.userId, now, windowEnd);
+  return getAvailableSlots(settings, existing, now);
+}
+
+// Progress a client has earned from earlier steps, used when their call is canceled
+function progressWithoutCall(client: Client): number {
+  if (client.contractStatus === "signed") return 83;
+  if (client.contractStatus === "sent") return 66;
+  return client.formStatus === "completed" ? 33 : 0;
+}
+
+export async function scheduleClientCall(client: Client, startsAt: Date | null, bookingUri: string) {
+  return storage.updateClient(client.id, {
+    callStatus: "scheduled",
+    callScheduledAt: startsAt,
+    callBookingUri: bookingUri,
+    progress: 100, // All steps completed
+  });
+}
+
+export async function releaseClientCall(client: Client) {
+  return storage.updateClient(client.id, {
+    callStatus: "not_scheduled",
+    callScheduledAt: null,
+    callBookingUri: null,
+    progress: progressWithoutCall(client),
+  });
+}
+
+export async function bookSlot(settings: AvailabilitySettings, input: CreateBooking, now = new Date()): Promise<Booking> {
+  const start = new Date(input.start);
+  // Recomputing the open slots checks the rules, notice, window and existing bookings in one go
+  const slots = await getBookableSlots(settings, now);
+  if (!slots.includes(start.toISOString())) {
+    throw new BookingConflictError("That time is no longer available. Please pick another.");
+  }
+
+  // Only link submissions to forms this user owns
+  const submission = input.submissionId ? await storage.getFormSubmissionById(input.submissionId) : undefined;
+  const form = submission ? await storage.getForm(submission.formId) : undefined;
+  const submissionId = form?.userId === settings.userId ? submission!.id : null;
+
+  const client = await storage.getClientByEmail(settings.userId, input.email)
+    ?? await storage.createClient({ userId: settings.userId, name: input.name, email: input.email });
+
+  let booking: Booking;
+  try {
+    booking = await storage.createBooking({
+      userId: settings.userId,
+      clientId: client.id,
+      submissionId,
+      inviteeName: input.name,
+      inviteeEmail: input.email,
+      notes: input.notes || null,
+      startsAt: start,
+      endsAt: new Date(start.getTime() + settings.meetingMinutes * 60_000),
+      status: "confirmed",
+      manageToken: randomBytes(24).toString("base64url"),
+    });
+  } catch (error: any) {
+    // Someone else took the slot between the check and the insert
+    if (error.code === "23505") {
+      throw new BookingConflictError("That time was just booked. Please pick another.");
+    }
+    throw error;
+  }
+
+  await scheduleClientCall(client, booking.startsAt, getBookingClientUri(booking));
+
+  const owner = await storage.getUser(settings.userId);
+  if (owner) {
+    queueEmail(bookingConfirmationEmail(owner, settings, booking, buildBookingInvite(booking, settings, owner)));
+  }
+  return booking;
+}
+
+export async function cancelBooking(booking: Booking): Promise<Booking> {
+  if (booking.status === "canceled") return booking;
+
+  const canceled = await storage.updateBooking(booking.id, { status: "canceled", canceledAt: new Date() });
+  const client = booking.clientId ? await storage.getClient(booking.clientId) : undefined;
+  if (client && client.callBookingUri === getBookingClientUri(booking)) {
+    await releaseClientCall(client);
+  }
+
+  const settings = await storage.getAvailabilitySettings(booking.userId);
+  const owner = await storage.getUser(booking.userId);
+  if (settings && owner) {
+    queueEmail(bookingCanceledEmail(owner, settings, canceled!, buildBookingInvite(canceled!, settings, owner)));
+  }
+  return canceled!;
+}
+
+export function buildBookingInvite(booking: Booking, settings: AvailabilitySettings, owner: User): string {
+  return buildIcsInvite({
+    uid: `${booking.id}@clientzap`,
+    title: `${settings.meetingTitle} with ${owner.businessName || owner.displayName || owner.username}`,
+    description: booking.notes,
+    location: settings.location,
+    start: booking.startsAt,
+    end: booking.endsAt,
+    organizer: { name: owner.displayName || owner.username, email: owner.email },
+    attendee: { name: booking.inviteeName, email: booking.inviteeEmail },
+    canceled: booking.status === "canceled",
+  });
+}
@@ -0,0 +1,50 @@
+import type { User } from "@shared/schema";
+import type { PlanLimits } from "./entitlements";
+
+export const DEFAULT_BRAND_COLOR = "#3b82f6";
+
+// How a user's public forms, contracts and emails look to their clients
+export interface Branding {
+  custom: boolean;
+  brandColor: string;
+  businessName: string | null;
+  logo: string | null;
+  // Free plan output always credits ClientZap
+  showAttribution: boolean;
+}
+
+// Custom branding only applies while the user's plan includes it, so a lapsed
+// Pro account falls back to the default look without losing its settings
+export function getBranding(
+  user: Pick<User, "brandColor" | "businessName" | "businessLogo">,
+  limits: Pick<PlanLimits, "hasCustomBranding">,
+): Branding {
+  if (!limits.hasCustomBranding) {
+    return { custom: false, brandColor: DEFAULT_BRAND_COLOR, businessName: null, logo: null, showAttribution: true };
+  }
+
+  return {
+    custom: true,
+    brandColor: user.brandColor && /^#[0-9a-f]{6}$/i.test(user.brandColor) ? user.brandColor : DEFAULT_BRAND_COLOR,
+    businessName: user.businessName || null,
+    logo: user.businessLogo || null,
+    showAttribution: false,
+  };
+}
+
+// Text color that stays readable on top of the brand color
+export function getBrandForeground(brandColor: string): string {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(brandColor.slice(i, i + 2), 16) / 255)
+    .map(c => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.179 ? "#0f172a" : "#ffffff";
+}
+
+// CSS variable overrides that swap the primary theme color for the brand color on public pages
+export function brandTheme(branding?: Branding): Record<string, string> | undefined {
+  if (!branding?.custom) return undefined;
+  return {
+    "--primary": branding.brandColor,
+    "--primary-foreground": getBrandForeground(branding.brandColor),
+  };
+}
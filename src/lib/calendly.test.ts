@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CalendlyConnection, User } from "@shared/schema";
+import { applyInviteeEvent, calendlyApi, connectCalendly, FakeCalendlyApi, signCalendlyPayload, verifyCalendlyWebhook, CalendlyWebhookError } from "./calendly";
+import { storage } from "./storage";
+
+const fakeCalendly = calendlyApi as FakeCalendlyApi;
+
+describe("verifyCalendlyWebhook", () => {
+  const signingKey = "signing-key";
+  const body = Buffer.from(JSON.stringify({ event: "invitee.created", payload: { uri: "invitee-1", email: "pat@client.com", name: "Pat" } }));
+
+  it("accepts a delivery signed with the connection's key", () => {
+    const delivery = verifyCalendlyWebhook(body, signCalendlyPayload(body, signingKey), signingKey);
+    expect(delivery).toMatchObject({ event: "invitee.created", payload: { email: "pat@client.com" } });
+  });
+
+  it("rejects a tampered body", () => {
+    const signature = signCalendlyPayload(body, signingKey);
+    const tampered = Buffer.from(body.toString().replace("pat@client.com", "eve@client.com"));
+
+    expect(() => verifyCalendlyWebhook(tampered, signature, signingKey)).toThrow("Invalid Calendly webhook signature");
+    expect(() => verifyCalendlyWebhook(body, signature, "other-key")).toThrow(CalendlyWebhookError);
+  });
+
+  it("rejects an expired timestamp", () => {
+    const now = Date.now();
+    const signature = signCalendlyPayload(body, signingKey, Math.floor(now / 1000) - 181);
+
+    expect(() => verifyCalendlyWebhook(body, signature, signingKey, now)).toThrow("Calendly webhook signature has expired");
+  });
+
+  it("rejects a missing signature", () => {
+    expect(() => verifyCalendlyWebhook(body, undefined, signingKey)).toThrow("Missing Calendly webhook signature");
+    expect(() => verifyCalendlyWebhook(body, "t=123", signingKey)).toThrow(CalendlyWebhookError);
+  });
+});
+
+describe("invitee events", () => {
+  let user: User;
+  let connection: CalendlyConnection;
+
+  // What POST /api/webhook/calendly/:userId does with a delivery
+  const deliver = ({ body, signature }: { body: Buffer; signature: string }) =>
+    applyInviteeEvent(connection.userId, verifyCalendlyWebhook(body, signature, connection.webhookSigningKey));
+
+  beforeEach(async () => {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    user = await storage.createUser({ username: `calendly-${suffix}`, email: `calendly-${suffix}@example.com`, password: "hashed" });
+    connection = await connectCalendly(user.id, "personal-token");
+  });
+
+  it("subscribes to invitee events with its own signing key", () => {
+    const subscription = fakeCalendly.subscriptions.get(connection.webhookSubscriptionUri!);
+    expect(subscription).toMatchObject({ url: `http://localhost:5000/api/webhook/calendly/${user.id}`, signingKey: connection.webhookSigningKey });
+  });
+
+  it("schedules the client's call when an invitee books", async () => {
+    const client = await storage.createClient({ userId: user.id, name: "Pat", email: "pat@client.com" });
+    const startTime = new Date("2030-01-15T15:00:00Z");
+
+    const updated = await deliver(fakeCalendly.simulateInvitee(connection, "invitee.created", {
+      name: "Pat",
+      email: "pat@client.com",
+      uri: "https://api.calendly.com/invitees/pat-1",
+      startTime,
+    }));
+
+    expect(updated).toMatchObject({ id: client.id, callStatus: "scheduled", callScheduledAt: startTime, callBookingUri: "https://api.calendly.com/invitees/pat-1", progress: 100 });
+  });
+
+  it("creates a client for an invitee it hasn't seen", async () => {
+    const updated = await deliver(fakeCalendly.simulateInvitee(connection, "invitee.created", { name: "Sam", email: "sam@client.com" }));
+
+    expect(updated).toMatchObject({ name: "Sam", email: "sam@client.com", callStatus: "scheduled" });
+    expect((await storage.getClientsByUserId(user.id)).map(client => client.email)).toEqual(["sam@client.com"]);
+  });
+
+  it("releases the call when the booking is canceled", async () => {
+    await storage.createClient({ userId: user.id, name: "Pat", email: "pat@client.com" });
+    const uri = "https://api.calendly.com/invitees/pat-2";
+    await deliver(fakeCalendly.simulateInvitee(connection, "invitee.created", { name: "Pat", email: "pat@client.com", uri }));
+
+    const updated = await deliver(fakeCalendly.simulateInvitee(connection, "invitee.canceled", { name: "Pat", email: "pat@client.com", uri }));
+
+    expect(updated).toMatchObject({ callStatus: "not_scheduled", callScheduledAt: null, callBookingUri: null });
+  });
+
+  it("ignores cancellations of a booking that was already replaced", async () => {
+    await storage.createClient({ userId: user.id, name: "Pat", email: "pat@client.com" });
+    const original = "https://api.calendly.com/invitees/pat-3";
+    const rescheduled = "https://api.calendly.com/invitees/pat-4";
+    await deliver(fakeCalendly.simulateInvitee(connection, "invitee.created", { name: "Pat", email: "pat@client.com", uri: original }));
+    await deliver(fakeCalendly.simulateInvitee(connection, "invitee.created", { name: "Pat", email: "pat@client.com", uri: rescheduled }));
+
+    expect(await deliver(fakeCalendly.simulateInvitee(connection, "invitee.canceled", { name: "Pat", email: "pat@client.com", uri: original }))).toBeUndefined();
+    expect((await storage.getClientByEmail(user.id, "pat@client.com"))).toMatchObject({ callStatus: "scheduled", callBookingUri: rescheduled });
+  });
+});
+
+describe("CALENDLY_PROVIDER", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("defaults to the fake outside production", async () => {
+    vi.stubEnv("CALENDLY_PROVIDER", "");
+    vi.resetModules();
+    const { calendlyApi, FakeCalendlyApi } = await import("./calendly");
+    expect(calendlyApi).toBeInstanceOf(FakeCalendlyApi);
+  });
+
+  it("must be chosen in production", async () => {
+    vi.stubEnv("CALENDLY_PROVIDER", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("EMAIL_TRANSPORT", "memory");
+    vi.resetModules();
+    await expect(import("./calendly")).rejects.toThrow(/CALENDLY_PROVIDER must be set/);
+  });
+});
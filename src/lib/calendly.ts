@@ -0,0 +1,259 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { CalendlyConnection, Client } from "@shared/schema";
+import { storage } from "./storage";
+import { releaseClientCall, scheduleClientCall } from "./bookings";
+import { appUrl } from "./email";
+
+const CALENDLY_API = "https://api.calendly.com";
+
+// Calendly signs webhooks with "t=<unix seconds>,v1=<hex HMAC of `${t}.${body}`>"
+export const CALENDLY_SIGNATURE_HEADER = "calendly-webhook-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 180;
+
+export const calendlyWebhookEvents = ["invitee.created", "invitee.canceled"] as const;
+
+export interface CalendlyUser {
+  uri: string;
+  schedulingUrl: string;
+  organizationUri: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  userUri: string;
+  organizationUri: string;
+  signingKey: string;
+}
+
+// The parts of an invitee.created / invitee.canceled delivery we use
+export interface InviteeEvent {
+  event: typeof calendlyWebhookEvents[number];
+  payload: {
+    uri: string;
+    email: string;
+    name: string;
+    rescheduled?: boolean;
+    scheduled_event?: { start_time?: string };
+  };
+}
+
+// Thrown when Calendly rejects a token or request; routes answer 400
+export class CalendlyApiError extends Error {}
+
+// Thrown when a webhook can't be verified or parsed; the route answers 400
+export class CalendlyWebhookError extends Error {}
+
+export interface CalendlyApi {
+  getCurrentUser(accessToken: string): Promise<CalendlyUser>;
+  // Returns the subscription URI
+  createWebhookSubscription(accessToken: string, input: WebhookSubscriptionInput): Promise<string>;
+  deleteWebhookSubscription(accessToken: string, uri: string): Promise<void>;
+}
+
+export class HttpCalendlyApi implements CalendlyApi {
+  private async request(accessToken: string, method: string, url: string, body?: unknown): Promise<any> {
+    const res = await fetch(url.startsWith("http") ? url : `${CALENDLY_API}${url}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({})) as { message?: string; title?: string };
+      throw new CalendlyApiError(`Calendly: ${error.message || error.title || res.statusText}`);
+    }
+    return res.status === 204 ? undefined : res.json();
+  }
+
+  async getCurrentUser(accessToken: string): Promise<CalendlyUser> {
+    const { resource } = await this.request(accessToken, "GET", "/users/me");
+    return {
+      uri: resource.uri,
+      schedulingUrl: resource.scheduling_url,
+      organizationUri: resource.current_organization,
+    };
+  }
+
+  async createWebhookSubscription(accessToken: string, input: WebhookSubscriptionInput): Promise<string> {
+    const { resource } = await this.request(accessToken, "POST", "/webhook_subscriptions", {
+      url: input.url,
+      events: calendlyWebhookEvents,
+      organization: input.organizationUri,
+      user: input.userUri,
+      scope: "user",
+      signing_key: input.signingKey,
+    });
+    return resource.uri;
+  }
+
+  async deleteWebhookSubscription(accessToken: string, uri: string): Promise<void> {
+    await this.request(accessToken, "DELETE", uri);
+  }
+}
+
+export function signCalendlyPayload(rawBody: Buffer | string, signingKey: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const v1 = createHmac("sha256", signingKey).update(`${timestamp}.${rawBody}`).digest("hex");
+  return `t=${timestamp},v1=${v1}`;
+}
+
+// In-process stand-in for local development and tests. Any token connects, and
+// simulateInvitee() builds a delivery signed exactly like Calendly's.
+export class FakeCalendlyApi implements CalendlyApi {
+  readonly subscriptions = new Map<string, WebhookSubscriptionInput>();
+
+  async getCurrentUser(accessToken: string): Promise<CalendlyUser> {
+    const id = createHash("sha256").update(accessToken).digest("hex").slice(0, 12);
+    return {
+      uri: `${CALENDLY_API}/users/fake-${id}`,
+      schedulingUrl: `https://calendly.com/fake-${id}`,
+      organizationUri: `${CALENDLY_API}/organizations/fake-${id}`,
+    };
+  }
+
+  async createWebhookSubscription(_accessToken: string, input: WebhookSubscriptionInput): Promise<string> {
+    const uri = `${CALENDLY_API}/webhook_subscriptions/fake-${randomUUID()}`;
+    this.subscriptions.set(uri, input);
+    return uri;
+  }
+
+  async deleteWebhookSubscription(_accessToken: string, uri: string): Promise<void> {
+    this.subscriptions.delete(uri);
+  }
+
+  simulateInvitee(
+    connection: Pick<CalendlyConnection, "webhookSigningKey">,
+    event: InviteeEvent["event"],
+    invitee: { name: string; email: string; uri?: string; startTime?: Date },
+  ): { body: Buffer; signature: string } {
+    const delivery: InviteeEvent = {
+      event,
+      payload: {
+        uri: invitee.uri ?? `${CALENDLY_API}/scheduled_events/fake-${randomUUID()}/invitees/fake-${randomUUID()}`,
+        email: invitee.email,
+        name: invitee.name,
+        scheduled_event: { start_time: (invitee.startTime ?? new Date(Date.now() + 86_400_000)).toISOString() },
+      },
+    };
+    const body = Buffer.from(JSON.stringify(delivery));
+    return { body, signature: signCalendlyPayload(body, connection.webhookSigningKey) };
+  }
+}
+
+// CALENDLY_PROVIDER=fake|calendly; the fake by default so local setups work without an account.
+// Production must choose, so fake connections and their dev routes never go live there.
+function createCalendlyApi(): CalendlyApi {
+  const provider = process.env.CALENDLY_PROVIDER || (process.env.NODE_ENV === "production" ? undefined : "fake");
+
+  switch (provider) {
+    case "fake":
+      return new FakeCalendlyApi();
+    case "calendly":
+      return new HttpCalendlyApi();
+    case undefined:
+      throw new Error("CALENDLY_PROVIDER must be set in production, e.g. CALENDLY_PROVIDER=calendly");
+    default:
+      throw new Error(`Unknown CALENDLY_PROVIDER "${provider}", expected "fake" or "calendly"`);
+  }
+}
+
+export const calendlyApi = createCalendlyApi();
+
+// Built from FRONTEND_URL rather than the request, so callers can't point the webhook elsewhere
+export const getCalendlyWebhookUrl = (userId: string) => appUrl(`/api/webhook/calendly/${userId}`);
+
+// Connecting again replaces the old webhook subscription
+export async function connectCalendly(userId: string, accessToken: string): Promise<CalendlyConnection> {
+  const calendlyUser = await calendlyApi.getCurrentUser(accessToken);
+  await disconnectCalendly(userId);
+
+  const signingKey = randomBytes(32).toString("hex");
+  const webhookSubscriptionUri = await calendlyApi.createWebhookSubscription(accessToken, {
+    url: getCalendlyWebhookUrl(userId),
+    userUri: calendlyUser.uri,
+    organizationUri: calendlyUser.organizationUri,
+    signingKey,
+  });
+
+  return storage.saveCalendlyConnection({
+    userId,
+    accessToken,
+    calendlyUserUri: calendlyUser.uri,
+    organizationUri: calendlyUser.organizationUri,
+    schedulingUrl: calendlyUser.schedulingUrl,
+    webhookSubscriptionUri,
+    webhookSigningKey: signingKey,
+  });
+}
+
+export async function disconnectCalendly(userId: string): Promise<void> {
+  const connection = await storage.getCalendlyConnection(userId);
+  if (!connection) return;
+
+  if (connection.webhookSubscriptionUri) {
+    // The token may have been revoked already; the connection goes either way
+    await calendlyApi.deleteWebhookSubscription(connection.accessToken, connection.webhookSubscriptionUri)
+      .catch(error => console.error("Error deleting Calendly webhook subscription:", error.message));
+  }
+  await storage.deleteCalendlyConnection(userId);
+}
+
+// Calendly fills in the booking form from the name and email query parameters
+export function prefillSchedulingLink(link: string, invitee: { name?: string | null; email?: string | null }): string {
+  try {
+    const url = new URL(link);
+    if (invitee.name) url.searchParams.set("name", invitee.name);
+    if (invitee.email) url.searchParams.set("email", invitee.email);
+    return url.toString();
+  } catch {
+    // Not a URL we can add to; use it as entered
+    return link;
+  }
+}
+
+export function verifyCalendlyWebhook(rawBody: Buffer, header: string | undefined, signingKey: string, now = Date.now()): InviteeEvent {
+  const parts = Object.fromEntries((header ?? "").split(",").map(part => part.trim().split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) {
+    throw new CalendlyWebhookError("Missing Calendly webhook signature");
+  }
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new CalendlyWebhookError("Calendly webhook signature has expired");
+  }
+
+  const expected = Buffer.from(signCalendlyPayload(rawBody, signingKey, timestamp).split("v1=")[1], "hex");
+  const given = Buffer.from(parts.v1, "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new CalendlyWebhookError("Invalid Calendly webhook signature");
+  }
+
+  try {
+    return JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    throw new CalendlyWebhookError("Calendly webhook payload is not JSON");
+  }
+}
+
+// Update the matching client's call from a booking or cancellation. Returns the client,
+// or undefined when the event was ignored.
+export async function applyInviteeEvent(userId: string, delivery: InviteeEvent): Promise<Client | undefined> {
+  const invitee = delivery.payload;
+  if (!invitee?.uri || !invitee.email) return undefined;
+
+  if (delivery.event === "invitee.created") {
+    const client = await storage.getClientByEmail(userId, invitee.email)
+      ?? await storage.createClient({ userId, name: invitee.name || invitee.email, email: invitee.email });
+    const startTime = invitee.scheduled_event?.start_time;
+    return scheduleClientCall(client, startTime ? new Date(startTime) : null, invitee.uri);
+  }
+
+  if (delivery.event === "invitee.canceled") {
+    // Only cancel the booking we know about; a reschedule may already have replaced it
+    const client = await storage.getClientByCallBookingUri(userId, invitee.uri);
+    if (!client) return undefined;
+    return releaseClientCall(client);
+  }
+
+  return undefined;
+}
@@ -1,91 +1,242 @@
 import { jsPDF } from "jspdf";
-import type { FormSubmission } from "@shared/schema";
+import type { Contract, ContractEvent, ContractSignature } from "@shared/schema";
+import type { Branding } from "./branding";
+import { parseContractBody, type ContractBlock, type TextRun } from "./contract-templates";
 
-export async function generateContractPDF(submission: FormSubmission, formTitle: string): Promise<Buffer> {
+export interface ContractFreelancer {
+  name?: string | null;
+  branding?: Branding;
+  // The processed branding logo (PNG), loaded by the caller
+  logo?: Buffer;
+}
+
+// Signatures stamped onto a fully signed contract, plus its audit trail for the certificate page
+export interface SignedContract {
+  contract: Pick<Contract, "id" | "title" | "documentHash">;
+  signatures: ContractSignature[];
+  events: ContractEvent[];
+}
+
+const eventLabels: Record<string, string> = {
+  created: "Contract prepared",
+  sent: "Sent for signature",
+  viewed: "Viewed",
+  signed: "Signed",
+  countersigned: "Countersigned",
+  completed: "Completed",
+};
+
+const formatTimestamp = (date: Date | string) => new Date(date).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+
+const MARGIN = 20;
+const TEXT_WIDTH = 170;
+const PAGE_BOTTOM = 270;
+
+const blockStyles: Record<ContractBlock["type"], { fontSize: number; lineHeight: number; spaceBefore: number }> = {
+  heading: { fontSize: 20, lineHeight: 9, spaceBefore: 6 },
+  subheading: { fontSize: 16, lineHeight: 8, spaceBefore: 8 },
+  paragraph: { fontSize: 12, lineHeight: 7, spaceBefore: 4 },
+  bullet: { fontSize: 12, lineHeight: 7, spaceBefore: 2 },
+};
+
+// Render a contract whose body has already been through renderTemplate. Pass `signed` to
+// stamp the signatures in and append the signature certificate.
+export async function generateContractPDF(
+  body: string,
+  freelancer: ContractFreelancer = {},
+  signed?: SignedContract,
+): Promise<Buffer> {
   const doc = new jsPDF();
-  
-  // Add title
-  doc.setFontSize(20);
-  doc.text('Service Agreement', 20, 30);
-  
-  // Add date
-  doc.setFontSize(12);
-  doc.text(`Date: ${new Date().toLocaleDateString()}`, 20, 50);
-  
-  // Client information section
-  doc.setFontSize(16);
-  doc.text('Client Information:', 20, 70);
-  doc.setFontSize(12);
-  doc.text(`Name: ${submission.clientName}`, 20, 85);
-  doc.text(`Email: ${submission.clientEmail}`, 20, 95);
-  doc.text(`Form: ${formTitle}`, 20, 105);
-  
-  // Project details from form submission
-  doc.setFontSize(16);
-  doc.text('Project Details:', 20, 125);
-  doc.setFontSize(12);
-  
-  let yPosition = 140;
-  const submissionData = submission.submissionData as Record<string, any>;
-  
-  // Add form responses
-  for (const [key, value] of Object.entries(submissionData)) {
-    if (key !== 'name' && key !== 'email') {
-      const label = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
-      const text = `${label}: ${typeof value === 'string' ? value : JSON.stringify(value)}`;
-      
-      // Handle text wrapping
-      const lines = doc.splitTextToSize(text, 170);
-      for (const line of lines) {
-        doc.text(line, 20, yPosition);
-        yPosition += 7;
+  const branding = freelancer.branding;
+
+  // Branded header: a strip of the brand color and the logo in the top right corner
+  if (branding?.custom) {
+    doc.setFillColor(branding.brandColor);
+    doc.rect(0, 0, 210, 5, "F");
+  }
+  if (branding?.custom && freelancer.logo) {
+    const logo = new Uint8Array(freelancer.logo);
+    const { width, height } = doc.getImageProperties(logo);
+    const scale = Math.min(50 / width, 20 / height);
+    doc.addImage(logo, "PNG", 190 - width * scale, 12, width * scale, height * scale, undefined, "FAST");
+  }
+  if (branding?.businessName) {
+    doc.setFontSize(12);
+    doc.text(branding.businessName, MARGIN, 18);
+  }
+
+  let yPosition = 30;
+
+  const ensureSpace = (height: number) => {
+    if (yPosition + height > PAGE_BOTTOM) {
+      doc.addPage();
+      yPosition = 25;
+    }
+  };
+
+  // Word-wrap runs of normal and bold text within the text width
+  const writeLine = (runs: TextRun[], x: number, width: number, lineHeight: number) => {
+    let cursor = x;
+    for (const run of runs) {
+      doc.setFont("helvetica", run.bold ? "bold" : "normal");
+      for (const word of run.text.split(/(\s+)/)) {
+        if (!word) continue;
+        const wordWidth = doc.getTextWidth(word);
+        if (cursor > x && cursor + wordWidth > x + width && word.trim()) {
+          yPosition += lineHeight;
+          ensureSpace(lineHeight);
+          cursor = x;
+        }
+        if (cursor === x && !word.trim()) continue;
+        doc.text(word, cursor, yPosition);
+        cursor += wordWidth;
       }
-      yPosition += 3;
     }
-  }
-  
-  // Contract terms
-  yPosition += 10;
-  doc.setFontSize(16);
-  doc.text('Terms of Service:', 20, yPosition);
-  yPosition += 15;
-  
-  doc.setFontSize(12);
-  const terms = [
-    '1. Services will be provided as outlined in the project description above.',
-    '2. Payment terms and project timeline will be discussed during the kickoff call.',
-    '3. Both parties agree to communicate professionally and in a timely manner.',
-    '4. This agreement can be modified only with written consent from both parties.',
-    '5. Either party may terminate this agreement with 7 days written notice.',
-  ];
-  
-  for (const term of terms) {
-    const lines = doc.splitTextToSize(term, 170);
-    for (const line of lines) {
-      doc.text(line, 20, yPosition);
-      yPosition += 7;
+    doc.setFont("helvetica", "normal");
+    yPosition += lineHeight;
+  };
+
+  for (const block of parseContractBody(body)) {
+    const style = blockStyles[block.type];
+    yPosition += style.spaceBefore;
+    ensureSpace(style.lineHeight);
+    doc.setFontSize(style.fontSize);
+
+    const isHeading = block.type === "heading" || block.type === "subheading";
+    if (isHeading && branding?.custom) {
+      doc.setTextColor(branding.brandColor);
+    }
+
+    for (const line of block.lines) {
+      if (block.type === "bullet") {
+        doc.text("•", MARGIN + 2, yPosition);
+        writeLine(line, MARGIN + 8, TEXT_WIDTH - 8, style.lineHeight);
+      } else {
+        writeLine(isHeading ? line.map(run => ({ ...run, bold: true })) : line, MARGIN, TEXT_WIDTH, style.lineHeight);
+      }
     }
-    yPosition += 5;
+    doc.setTextColor(0, 0, 0);
   }
-  
+
   // Signature section
   yPosition += 20;
+  ensureSpace(75);
   doc.setFontSize(16);
-  doc.text('Signatures:', 20, yPosition);
+  doc.text('Signatures:', MARGIN, yPosition);
   yPosition += 20;
-  
+
+  // Stamp a typed or drawn signature over the line that starts at `x`
+  const stamp = (signature: ContractSignature | undefined, x: number, y: number) => {
+    if (!signature) return;
+    if (signature.method === "drawn") {
+      const image = signature.signature;
+      const { width, height } = doc.getImageProperties(image);
+      const scale = Math.min(55 / width, 16 / height);
+      doc.addImage(image, "PNG", x, y - height * scale + 1, width * scale, height * scale);
+    } else {
+      doc.setFont("times", "italic");
+      doc.setFontSize(20);
+      doc.text(signature.signature, x + 2, y - 1);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(12);
+    }
+  };
+  const dateLine = (signature: ContractSignature | undefined, y: number) => {
+    doc.text(signature ? `Date: ${new Date(signature.signedAt).toLocaleDateString("en-US")}` : `Date: _____________`, MARGIN, y);
+  };
+
+  const clientSignature = signed?.signatures.find(signature => signature.role === "client");
+  const freelancerSignature = signed?.signatures.find(signature => signature.role === "freelancer");
+
   doc.setFontSize(12);
-  doc.text('Client Signature: _________________________', 20, yPosition);
-  doc.text(`Date: _____________`, 20, yPosition + 15);
-  
+  doc.text('Client Signature: _________________________', MARGIN, yPosition);
+  stamp(clientSignature, MARGIN + doc.getTextWidth('Client Signature: '), yPosition);
+  if (clientSignature) {
+    doc.setFontSize(10);
+    doc.text(clientSignature.signerName, MARGIN, yPosition + 7);
+    doc.setFontSize(12);
+  }
+  dateLine(clientSignature, yPosition + 15);
+
   yPosition += 40;
-  doc.text('Freelancer Signature: _________________________', 20, yPosition);
-  doc.text(`Date: _____________`, 20, yPosition + 15);
-  
-  // Add footer
-  doc.setFontSize(10);
-  doc.text('Generated by ClientZap - Professional Client Onboarding', 20, 280);
-  
+  doc.text('Freelancer Signature: _________________________', MARGIN, yPosition);
+  stamp(freelancerSignature, MARGIN + doc.getTextWidth('Freelancer Signature: '), yPosition);
+  if (freelancerSignature || branding?.businessName || freelancer.name) {
+    doc.setFontSize(10);
+    doc.text(freelancerSignature?.signerName || branding?.businessName || freelancer.name!, MARGIN, yPosition + 7);
+    doc.setFontSize(12);
+  }
+  dateLine(freelancerSignature, yPosition + 15);
+
+  // Certificate page with the audit trail
+  if (signed) {
+    doc.addPage();
+    yPosition = 25;
+    doc.setFontSize(18);
+    doc.setFont("helvetica", "bold");
+    doc.text('Signature Certificate', MARGIN, yPosition);
+    doc.setFont("helvetica", "normal");
+    yPosition += 12;
+
+    const row = (label: string, value: string) => {
+      doc.setFontSize(9);
+      doc.setTextColor(100, 116, 139);
+      doc.text(label, MARGIN, yPosition);
+      doc.setTextColor(0, 0, 0);
+      doc.setFontSize(10);
+      const lines = doc.splitTextToSize(value, TEXT_WIDTH - 45);
+      doc.text(lines, MARGIN + 45, yPosition);
+      yPosition += 5 * lines.length + 1;
+    };
+
+    row('Document', signed.contract.title || 'Contract');
+    row('Document ID', signed.contract.id);
+    row('Document SHA-256', signed.contract.documentHash || 'Not recorded');
+
+    for (const signature of signed.signatures) {
+      yPosition += 6;
+      ensureSpace(45);
+      doc.setFontSize(12);
+      doc.setFont("helvetica", "bold");
+      doc.text(signature.role === "client" ? 'Client' : 'Freelancer', MARGIN, yPosition);
+      doc.setFont("helvetica", "normal");
+      yPosition += 7;
+      row('Name', signature.signerName);
+      row('Email', signature.signerEmail);
+      row('Signed at', formatTimestamp(signature.signedAt));
+      row('Method', signature.method === "drawn" ? 'Drawn signature' : 'Typed signature');
+      row('IP address', signature.ipAddress || 'Unknown');
+      row('User agent', signature.userAgent || 'Unknown');
+      row('Document SHA-256', signature.documentHash);
+    }
+
+    yPosition += 6;
+    ensureSpace(20);
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text('Audit Trail', MARGIN, yPosition);
+    doc.setFont("helvetica", "normal");
+    yPosition += 7;
+    for (const event of signed.events) {
+      ensureSpace(12);
+      row(formatTimestamp(event.createdAt), `${eventLabels[event.type] ?? event.type} by ${event.actor}` +
+        (event.ipAddress ? ` from ${event.ipAddress}` : '') +
+        (event.userAgent ? ` (${event.userAgent})` : ''));
+    }
+  }
+
+  // Add footer to every page; custom branding replaces the ClientZap credit
+  const footer = !branding || branding.showAttribution
+    ? 'Generated by ClientZap - Professional Client Onboarding'
+    : branding.businessName;
+  if (footer) {
+    doc.setFontSize(10);
+    for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+      doc.setPage(page);
+      doc.text(footer, MARGIN, 285);
+    }
+  }
+
   // Convert to buffer
   const pdfBuffer = Buffer.from(doc.output('arraybuffer'));
   return pdfBuffer;
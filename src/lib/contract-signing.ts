@@ -0,0 +1,386 @@
+import { createHash, randomBytes } from "crypto";
+import type { Client, Contract, ContractSignature, Form, FormSubmission, SignContract, User } from "@shared/schema";
+import { storage } from "./storage";
+import { fileStore, readStoredObject } from "./file-storage";
+import { getBranding, type Branding } from "./branding";
+import { getPlanLimits } from "./entitlements";
+import { loadStoredImage } from "./image-processing";
+import { generateContractPDF, type ContractFreelancer } from "./contract-generator";
+import { getSignatureProvider, signatureProvider, type EnvelopeUpdate } from "./esign-providers";
+import { queueEmail } from "./email";
+import { contractCompletedEmail, contractReadyEmail, contractSignedEmail } from "./email-templates";
+import { contractSignedNotification, notifyUser } from "./notifications";
+import { buildClauseLibrary, buildMergeContext, DEFAULT_TEMPLATE_BODY, parseContractBody, renderTemplate } from "./contract-templates";
+
+// Who did something to a contract and from where, for the audit trail
+export interface RequestMeta {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// What contracts.contractData holds for contracts prepared in-app
+export interface ContractContent {
+  body: string;
+  templateId: string | null;
+}
+
+// What GET /api/contracts returns for each contract
+export type ContractSummary = Omit<Contract, "signingToken" | "contractData"> & {
+  client: Pick<Client, "id" | "name" | "email">;
+  clientSignedAt: Date | null;
+  countersignedAt: Date | null;
+  signingUrl: string | null;
+  // Set when the contract went out through the e-signature provider rather than in-app
+  provider: string | null;
+};
+
+// What the client sees on the public signing page
+export interface PublicSigningDetails {
+  title: string;
+  status: string;
+  clientName: string;
+  clientEmail: string;
+  freelancerName: string;
+  branding: Branding;
+  clientSigned: boolean;
+  completed: boolean;
+  documentUrl: string;
+}
+
+// Thrown when a contract isn't in a state that allows the action; routes turn it into a 409
+export class ContractStateError extends Error {}
+
+export const hashDocument = (pdf: Buffer) => createHash("sha256").update(pdf).digest("hex");
+
+export const getSigningUrl = (token: string) => `/sign/${token}`;
+
+// Renders a submission's contract text from one of the user's templates, or the default
+// template when none is given. Returns undefined if the template isn't theirs.
+export async function renderContractBody(user: User, submission: FormSubmission, form: Form, templateId?: string): Promise<string | undefined> {
+  let body = DEFAULT_TEMPLATE_BODY;
+  if (templateId) {
+    const template = await storage.getContractTemplate(templateId);
+    if (!template || template.userId !== user.id) return undefined;
+    body = template.body;
+  }
+
+  const clauses = buildClauseLibrary(await storage.getContractClausesByUserId(user.id));
+  return renderTemplate(body, buildMergeContext(submission, form, user), clauses);
+}
+
+export async function getContractFreelancer(user: User): Promise<ContractFreelancer> {
+  const branding = getBranding(user, getPlanLimits(user));
+  return {
+    name: user.displayName || user.username,
+    branding,
+    logo: await loadStoredImage(branding.logo),
+  };
+}
+
+function contractTitle(body: string, fallback: string): string {
+  const heading = parseContractBody(body).find(block => block.type === "heading");
+  return heading ? heading.lines[0].map(run => run.text).join("") : fallback;
+}
+
+function parseContractContent(contract: Contract): ContractContent {
+  const content = contract.contractData as Partial<ContractContent> | null;
+  if (!content || typeof content.body !== "string") {
+    throw new ContractStateError("This contract wasn't prepared for in-app signing");
+  }
+  return { body: content.body, templateId: content.templateId ?? null };
+}
+
+async function recordEvent(contract: Contract, type: string, actor: string, meta: RequestMeta = {}) {
+  await storage.createContractEvent({
+    contractId: contract.id,
+    type,
+    actor,
+    ipAddress: meta.ipAddress ?? null,
+    userAgent: meta.userAgent ?? null,
+  });
+}
+
+export async function toContractSummary(contract: Contract): Promise<ContractSummary> {
+  const [client, signatures] = await Promise.all([
+    storage.getClient(contract.clientId),
+    storage.getContractSignatures(contract.id),
+  ]);
+  const { signingToken, contractData, ...rest } = contract;
+
+  return {
+    ...rest,
+    client: { id: contract.clientId, name: client?.name ?? "", email: client?.email ?? "" },
+    clientSignedAt: signatures.find(signature => signature.role === "client")?.signedAt ?? null,
+    countersignedAt: signatures.find(signature => signature.role === "freelancer")?.signedAt ?? null,
+    signingUrl: signingToken && contract.status === "sent" ? getSigningUrl(signingToken) : null,
+    provider: contract.docusignEnvelopeId ? signatureProvider?.name ?? null : null,
+  };
+}
+
+// Freeze the contract text and PDF for a submission. The stored PDF is what the client
+// signs, so its hash ties every signature to this exact document.
+export async function prepareContract(
+  user: User,
+  submission: FormSubmission,
+  form: Form,
+  body: string,
+  templateId: string | null,
+  meta: RequestMeta,
+): Promise<Contract> {
+  const client = await storage.getClientByEmail(user.id, submission.clientEmail)
+    ?? await storage.createClient({ userId: user.id, name: submission.clientName, email: submission.clientEmail });
+
+  const content: ContractContent = { body, templateId };
+  const contract = await storage.createContract({
+    clientId: client.id,
+    submissionId: submission.id,
+    title: contractTitle(body, form.title),
+    status: "draft",
+    contractData: content,
+  });
+
+  const pdf = await generateContractPDF(body, await getContractFreelancer(user));
+  const documentKey = `contracts/${contract.id}/document.pdf`;
+  await fileStore.save(documentKey, pdf, "application/pdf");
+
+  const prepared = await storage.updateContract(contract.id, { documentKey, documentHash: hashDocument(pdf) });
+  await recordEvent(contract, "created", "freelancer", meta);
+  return prepared!;
+}
+
+function assertSendable(contract: Contract) {
+  if (contract.status !== "draft") {
+    throw new ContractStateError("This contract has already been sent");
+  }
+  if (!contract.documentKey) {
+    throw new ContractStateError("This contract wasn't prepared for signing");
+  }
+}
+
+async function markClientContractSent(contract: Contract) {
+  const client = await storage.getClient(contract.clientId);
+  if (client) {
+    await storage.updateClient(client.id, {
+      contractStatus: "sent",
+      progress: Math.max(client.progress, 66), // Contract sent = 66% progress
+    });
+  }
+}
+
+async function markClientContractSigned(contract: Contract) {
+  const client = await storage.getClient(contract.clientId);
+  if (client) {
+    await storage.updateClient(client.id, {
+      contractStatus: "signed",
+      progress: Math.max(client.progress, 83), // Contract signed = 83% progress
+    });
+  }
+}
+
+export async function sendContract(contract: Contract, meta: RequestMeta): Promise<Contract> {
+  assertSendable(contract);
+
+  const sent = await storage.updateContract(contract.id, {
+    status: "sent",
+    signingToken: randomBytes(24).toString("base64url"),
+    sentAt: new Date(),
+  });
+  await recordEvent(contract, "sent", "freelancer", meta);
+  await markClientContractSent(contract);
+
+  const client = await storage.getClient(contract.clientId);
+  const owner = client && await storage.getUser(client.userId);
+  if (client && owner) {
+    queueEmail(contractReadyEmail(owner, client, sent!, getSigningUrl(sent!.signingToken!)));
+  }
+  return sent!;
+}
+
+// Send the prepared PDF through the e-signature provider instead of the in-app signing page.
+// The client signs first, then the freelancer; the webhook reports back when both are done.
+export async function sendThroughProvider(contract: Contract, user: User, meta: RequestMeta): Promise<Contract> {
+  assertSendable(contract);
+  const client = await storage.getClient(contract.clientId);
+  if (!client) {
+    throw new ContractStateError("This contract's client no longer exists");
+  }
+
+  const { envelopeId } = await getSignatureProvider().createEnvelope({
+    contractId: contract.id,
+    title: contract.title || "Contract",
+    document: await readStoredObject(contract.documentKey!),
+    signers: [
+      { name: client.name, email: client.email, anchor: "Client Signature:" },
+      { name: user.displayName || user.username, email: user.email, anchor: "Freelancer Signature:" },
+    ],
+  });
+
+  const sent = await storage.updateContract(contract.id, {
+    status: "sent",
+    docusignEnvelopeId: envelopeId,
+    sentAt: new Date(),
+  });
+  await recordEvent(contract, "sent", "freelancer", meta);
+  await markClientContractSent(contract);
+  return sent!;
+}
+
+// Apply a status change from the provider's webhook. Deliveries can repeat, so updates
+// for contracts that have already finished are ignored.
+export async function applyEnvelopeUpdate(update: EnvelopeUpdate): Promise<Contract | undefined> {
+  const contract = await storage.getContractByEnvelopeId(update.envelopeId);
+  if (!contract || contract.status !== "sent") return contract;
+  const provider = getSignatureProvider();
+  const actor = provider.name;
+
+  switch (update.status) {
+    case "delivered":
+      await recordEvent(contract, "viewed", actor);
+      return contract;
+
+    case "completed": {
+      const pdf = await provider.downloadSignedDocument(update.envelopeId);
+      const signedDocumentKey = `contracts/${contract.id}/signed.pdf`;
+      await fileStore.save(signedDocumentKey, pdf, "application/pdf");
+
+      const signed = await storage.updateContract(contract.id, {
+        status: "signed",
+        signedAt: new Date(),
+        signedDocumentKey,
+        signedDocumentHash: hashDocument(pdf),
+      });
+      await recordEvent(contract, "completed", actor);
+      await markClientContractSigned(contract);
+
+      // Signing happened on the provider's site, so this is the freelancer's first news of it
+      const client = await storage.getClient(contract.clientId);
+      if (client) {
+        notifyUser(client.userId, contractSignedNotification(client, contract, true));
+      }
+      return signed;
+    }
+
+    case "declined":
+    case "voided": {
+      const closed = await storage.updateContract(contract.id, { status: update.status });
+      await recordEvent(contract, update.status, actor);
+      // Let the freelancer send a new contract
+      const client = await storage.getClient(contract.clientId);
+      if (client?.contractStatus === "sent") {
+        await storage.updateClient(client.id, { contractStatus: "not_sent" });
+      }
+      return closed;
+    }
+
+    default:
+      return contract;
+  }
+}
+
+export async function getPublicSigningDetails(contract: Contract, token: string): Promise<PublicSigningDetails> {
+  const client = await storage.getClient(contract.clientId);
+  const owner = client ? await storage.getUser(client.userId) : undefined;
+  if (!client || !owner) {
+    throw new ContractStateError("This contract is no longer available");
+  }
+  const signatures = await storage.getContractSignatures(contract.id);
+
+  return {
+    title: contract.title || "Contract",
+    status: contract.status,
+    clientName: client.name,
+    clientEmail: client.email,
+    freelancerName: owner.businessName || owner.displayName || owner.username,
+    branding: getBranding(owner, getPlanLimits(owner)),
+    clientSigned: signatures.some(signature => signature.role === "client"),
+    completed: contract.status === "signed",
+    documentUrl: `/api/public/sign/${token}/document`,
+  };
+}
+
+export async function recordContractViewed(contract: Contract, meta: RequestMeta) {
+  await recordEvent(contract, "viewed", "client", meta);
+}
+
+// The signed PDF once both parties have signed, otherwise the document awaiting signature
+export async function loadContractDocument(contract: Contract): Promise<Buffer | undefined> {
+  const key = contract.signedDocumentKey ?? contract.documentKey;
+  return key ? readStoredObject(key).catch(() => undefined) : undefined;
+}
+
+async function createSignature(contract: Contract, role: "client" | "freelancer", email: string, input: SignContract, meta: RequestMeta) {
+  if (!contract.documentHash) {
+    throw new ContractStateError("This contract wasn't prepared for in-app signing");
+  }
+  return storage.createContractSignature({
+    contractId: contract.id,
+    role,
+    signerName: input.signerName,
+    signerEmail: email,
+    method: input.method,
+    signature: input.signature,
+    documentHash: contract.documentHash,
+    ipAddress: meta.ipAddress ?? null,
+    userAgent: meta.userAgent ?? null,
+  });
+}
+
+export async function signAsClient(contract: Contract, input: SignContract, meta: RequestMeta): Promise<ContractSignature> {
+  if (contract.status !== "sent") {
+    throw new ContractStateError(contract.status === "signed" ? "This contract has already been signed" : "This contract isn't ready to sign yet");
+  }
+  const signatures = await storage.getContractSignatures(contract.id);
+  if (signatures.some(signature => signature.role === "client")) {
+    throw new ContractStateError("You've already signed this contract");
+  }
+
+  const client = await storage.getClient(contract.clientId);
+  const signature = await createSignature(contract, "client", client?.email ?? "", input, meta);
+  await recordEvent(contract, "signed", "client", meta);
+
+  const owner = client && await storage.getUser(client.userId);
+  if (client && owner) {
+    queueEmail(contractSignedEmail(owner, client, contract));
+    notifyUser(owner.id, contractSignedNotification(client, contract, false));
+  }
+  return signature;
+}
+
+// The freelancer signs last; their countersignature completes the contract
+export async function countersign(contract: Contract, user: User, input: SignContract, meta: RequestMeta): Promise<Contract> {
+  const signatures = await storage.getContractSignatures(contract.id);
+  if (contract.status !== "sent" || !signatures.some(signature => signature.role === "client")) {
+    throw new ContractStateError("The client needs to sign before you can countersign");
+  }
+  if (signatures.some(signature => signature.role === "freelancer")) {
+    throw new ContractStateError("You've already countersigned this contract");
+  }
+
+  await createSignature(contract, "freelancer", user.email, input, meta);
+  await recordEvent(contract, "countersigned", "freelancer", meta);
+  await recordEvent(contract, "completed", "freelancer", meta);
+
+  // Stamp both signatures into the contract and append the certificate
+  const { body } = parseContractContent(contract);
+  const pdf = await generateContractPDF(body, await getContractFreelancer(user), {
+    contract,
+    signatures: await storage.getContractSignatures(contract.id),
+    events: await storage.getContractEvents(contract.id),
+  });
+  const signedDocumentKey = `contracts/${contract.id}/signed.pdf`;
+  await fileStore.save(signedDocumentKey, pdf, "application/pdf");
+
+  const signed = await storage.updateContract(contract.id, {
+    status: "signed",
+    signedAt: new Date(),
+    signedDocumentKey,
+    signedDocumentHash: hashDocument(pdf),
+  });
+  await markClientContractSigned(contract);
+
+  const client = await storage.getClient(contract.clientId);
+  if (client && contract.signingToken) {
+    queueEmail(contractCompletedEmail(user, client, signed!, getSigningUrl(contract.signingToken)));
+  }
+  return signed!;
+}
@@ -0,0 +1,280 @@
+import type { ClauseCategory, ContractClause, Form, FormField, FormSubmission, User } from "@shared/schema";
+import { isInputField } from "./form-logic";
+import { getIdentityFields } from "./form-validation";
+
+// Template bodies use a small markup that both the editor preview and the PDF understand:
+//   # Heading, ## Subheading, - bullet, **bold**, blank line between paragraphs
+// plus merge fields like {{client.name}}, {{answers.projectBudget}} and {{clause.payment}}.
+
+export interface ClauseDefinition {
+  key: string;
+  title: string;
+  category: ClauseCategory;
+  body: string;
+}
+
+// What GET /api/contract-clauses returns: the user's clauses plus built-ins they haven't overridden
+export type LibraryClause = ClauseDefinition & { id: string | null; builtIn: boolean };
+
+export const clauseCategoryLabels: Record<ClauseCategory, string> = {
+  payment: "Payment",
+  ip: "Intellectual property",
+  cancellation: "Cancellation",
+  confidentiality: "Confidentiality",
+  general: "General",
+};
+
+export const BUILT_IN_CLAUSES: ClauseDefinition[] = [
+  {
+    key: "payment",
+    title: "Payment terms",
+    category: "payment",
+    body: "## Payment\nThe client agrees to a budget of **{{answers.projectBudget}}**. A 50% deposit is due before work begins and the balance is due on delivery. Invoices are payable within 14 days.",
+  },
+  {
+    key: "ip",
+    title: "Intellectual property",
+    category: "ip",
+    body: "## Intellectual Property\nOnce paid in full, ownership of the final deliverables transfers to {{client.name}}. {{freelancer.businessName}} may show the work in its portfolio unless agreed otherwise in writing.",
+  },
+  {
+    key: "cancellation",
+    title: "Cancellation",
+    category: "cancellation",
+    body: "## Cancellation\nEither party may terminate this agreement with 7 days written notice. Work completed up to the termination date will be invoiced.",
+  },
+  {
+    key: "confidentiality",
+    title: "Confidentiality",
+    category: "confidentiality",
+    body: "## Confidentiality\nBoth parties agree to keep any confidential information shared during the project private, during and after this agreement.",
+  },
+  {
+    key: "general",
+    title: "General terms",
+    category: "general",
+    body: "## Terms of Service\n- Services will be provided as outlined in the project details above.\n- Payment terms and project timeline will be discussed during the kickoff call.\n- Both parties agree to communicate professionally and in a timely manner.\n- This agreement can be modified only with written consent from both parties.",
+  },
+];
+
+// Used when no template is picked; matches the contract ClientZap has always generated
+export const DEFAULT_TEMPLATE_BODY = [
+  "# Service Agreement",
+  "Date: {{today}}",
+  "## Client Information",
+  "Name: {{client.name}}\nEmail: {{client.email}}\nForm: {{form.title}}",
+  "## Project Details",
+  "{{answers.all}}",
+  "{{clause.general}}",
+  "{{clause.cancellation}}",
+].join("\n\n");
+
+export interface MergeField {
+  field: string;
+  label: string;
+}
+
+export const mergeFields: MergeField[] = [
+  { field: "client.name", label: "Client name" },
+  { field: "client.email", label: "Client email" },
+  { field: "freelancer.name", label: "Your name" },
+  { field: "freelancer.businessName", label: "Your business name" },
+  { field: "freelancer.email", label: "Your email" },
+  { field: "freelancer.website", label: "Your website" },
+  { field: "form.title", label: "Form title" },
+  { field: "today", label: "Today's date" },
+  { field: "answers.all", label: "All answers" },
+];
+
+const mergeFieldRoots = ["client", "freelancer", "form", "today", "answers", "clause"];
+const mergeFieldPattern = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Shown for merge fields without a value, leaving a line to fill in by hand
+const BLANK = "__________";
+
+export interface MergeContext {
+  client: { name: string; email: string };
+  freelancer: { name: string; businessName: string; email: string; website: string };
+  form: { title: string };
+  today: string;
+  // Keyed by field id and by the camelCased field label, e.g. "projectBudget"
+  answers: Record<string, string>;
+  // Label/value pairs for {{answers.all}}
+  answerList: { label: string; value: string }[];
+}
+
+// "Project Budget" -> "projectBudget"
+export function answerKey(label: string): string {
+  const words = label.replace(/[^A-Za-z0-9]+/g, " ").trim().split(" ").filter(Boolean);
+  return words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join("");
+}
+
+export function answerMergeFields(form: Pick<Form, "fields">): MergeField[] {
+  const fields = Array.isArray(form.fields) ? (form.fields as FormField[]) : [];
+  return fields
+    .filter(field => isInputField(field) && field.type !== "file" && answerKey(field.label))
+    .map(field => ({ field: `answers.${answerKey(field.label)}`, label: field.label }));
+}
+
+function formatAnswer(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  if (Array.isArray(value)) {
+    // Checkbox options or uploaded file refs
+    return value.map(item => (typeof item === "object" && item && "name" in item ? String(item.name) : String(item))).join(", ");
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function buildMergeContext(
+  submission: Pick<FormSubmission, "clientName" | "clientEmail" | "submissionData">,
+  form: Pick<Form, "title" | "fields">,
+  freelancer: Pick<User, "username" | "displayName" | "businessName" | "email" | "website">,
+): MergeContext {
+  const data = (submission.submissionData ?? {}) as Record<string, unknown>;
+  const fields = Array.isArray(form.fields) ? (form.fields as FormField[]) : [];
+  const answers: Record<string, string> = {};
+  const answerList: { label: string; value: string }[] = [];
+  // Name and email already appear as {{client.name}} and {{client.email}}
+  const { nameField, emailField } = getIdentityFields(fields);
+
+  for (const field of fields.filter(isInputField)) {
+    const value = formatAnswer(data[field.id]);
+    answers[field.id] = value;
+    answers[answerKey(field.label)] = value;
+    if (value && field !== nameField && field !== emailField) {
+      answerList.push({ label: field.label, value });
+    }
+  }
+
+  return {
+    client: { name: submission.clientName, email: submission.clientEmail },
+    freelancer: {
+      name: freelancer.displayName || freelancer.username,
+      businessName: freelancer.businessName || freelancer.displayName || freelancer.username,
+      email: freelancer.email,
+      website: freelancer.website || "",
+    },
+    form: { title: form.title },
+    today: new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+    answers,
+    answerList,
+  };
+}
+
+// User clauses override built-ins with the same key
+export function buildClauseLibrary(userClauses: Pick<ContractClause, "id" | "key" | "title" | "category" | "body">[]): LibraryClause[] {
+  const own: LibraryClause[] = userClauses.map(clause => ({
+    id: clause.id,
+    key: clause.key,
+    title: clause.title,
+    category: clause.category as ClauseCategory,
+    body: clause.body,
+    builtIn: false,
+  }));
+  const builtIns: LibraryClause[] = BUILT_IN_CLAUSES
+    .filter(clause => !own.some(c => c.key === clause.key))
+    .map(clause => ({ ...clause, id: null, builtIn: true }));
+  return [...own, ...builtIns];
+}
+
+// Returns a message for the first merge field that can never resolve, or undefined when valid
+export function validateTemplateBody(body: string, clauses: Pick<ClauseDefinition, "key">[]): string | undefined {
+  for (const [, field] of Array.from(body.matchAll(mergeFieldPattern))) {
+    const [root, key] = field.split(".");
+    if (!mergeFieldRoots.includes(root)) {
+      return `Unknown merge field {{${field}}}`;
+    }
+    if (root === "clause" && !clauses.some(clause => clause.key === key)) {
+      return `No clause with the key "${key}" in your clause library`;
+    }
+  }
+  return undefined;
+}
+
+function resolveField(field: string, context: MergeContext): string {
+  const [root, ...rest] = field.split(".");
+  const key = rest.join(".");
+
+  switch (root) {
+    case "today":
+      return context.today;
+    case "answers":
+      if (key === "all") {
+        return context.answerList.map(({ label, value }) => `- **${label}:** ${value.replace(/\s*\n\s*/g, " ")}`).join("\n");
+      }
+      // Blank lines in long answers would otherwise split the surrounding paragraph
+      return context.answers[key]?.replace(/\n\s*\n+/g, "\n") || BLANK;
+    case "client":
+    case "freelancer":
+    case "form": {
+      const group = context[root] as Record<string, string>;
+      return group[key] || BLANK;
+    }
+    default:
+      return BLANK;
+  }
+}
+
+// Expand clauses, then fill in merge fields. Values are inserted as-is and never re-scanned,
+// so an answer containing "{{...}}" stays literal.
+export function renderTemplate(body: string, context: MergeContext, clauses: Pick<ClauseDefinition, "key" | "body">[]): string {
+  const withClauses = body.replace(mergeFieldPattern, (match, field: string) => {
+    if (!field.startsWith("clause.")) return match;
+    return clauses.find(clause => `clause.${clause.key}` === field)?.body ?? "";
+  });
+
+  return withClauses.replace(mergeFieldPattern, (_match, field: string) => resolveField(field, context));
+}
+
+export interface TextRun {
+  text: string;
+  bold: boolean;
+}
+
+export interface ContractBlock {
+  type: "heading" | "subheading" | "paragraph" | "bullet";
+  lines: TextRun[][];
+}
+
+function parseRuns(line: string): TextRun[] {
+  return line
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map(part => (part.startsWith("**") && part.endsWith("**") && part.length > 4
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false }));
+}
+
+// Split rendered markup into blocks. Lines within a paragraph keep their line breaks.
+export function parseContractBody(text: string): ContractBlock[] {
+  const blocks: ContractBlock[] = [];
+  let paragraph: TextRun[][] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: "paragraph", lines: paragraph });
+    paragraph = [];
+  };
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      flush();
+    } else if (line.startsWith("## ")) {
+      flush();
+      blocks.push({ type: "subheading", lines: [parseRuns(line.slice(3))] });
+    } else if (line.startsWith("# ")) {
+      flush();
+      blocks.push({ type: "heading", lines: [parseRuns(line.slice(2))] });
+    } else if (/^[-*] /.test(line)) {
+      flush();
+      blocks.push({ type: "bullet", lines: [parseRuns(line.slice(2))] });
+    } else {
+      paragraph.push(parseRuns(line));
+    }
+  }
+  flush();
+
+  return blocks;
+}
@@ -0,0 +1,269 @@
+import type { AvailabilitySettings, Booking, Client, Contract, Form, FormSubmission, User } from "@shared/schema";
+import { getBranding, getBrandForeground } from "./branding";
+import { getPlanLimits } from "./entitlements";
+import { appUrl, type EmailAttachment, type EmailMessage } from "./email";
+
+interface EmailContent {
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  // Whose branding and signature the email carries; omitted for ClientZap's own messages
+  sender?: User;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const senderName = (user: User) => user.businessName || user.displayName || user.username;
+
+// One layout for every message: brand-colored header and button, then the sender's signature
+function renderEmail(content: EmailContent): Pick<EmailMessage, "html" | "text"> {
+  const branding = content.sender
+    ? getBranding(content.sender, getPlanLimits(content.sender))
+    : getBranding({ brandColor: null, businessName: null, businessLogo: null }, { hasCustomBranding: false });
+  const brandForeground = getBrandForeground(branding.brandColor);
+  const logo = branding.logo && (branding.logo.startsWith("/") ? appUrl(branding.logo) : branding.logo);
+  const signature = content.sender?.emailSignature?.trim();
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:#0f172a;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr><td style="background:${branding.brandColor};color:${brandForeground};padding:20px 24px;font-size:18px;font-weight:bold;">
+      ${logo ? `<img src="${escapeHtml(logo)}" alt="${escapeHtml(branding.businessName || "")}" style="max-height:40px;max-width:160px;">` : escapeHtml(branding.businessName || (content.sender ? senderName(content.sender) : "ClientZap"))}
+    </td></tr>
+    <tr><td style="padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(content.heading)}</h1>
+      ${content.paragraphs.map(paragraph => `<p style="font-size:15px;line-height:1.5;margin:0 0 12px;">${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${content.action ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:${branding.brandColor};color:${brandForeground};padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:bold;display:inline-block;">${escapeHtml(content.action.label)}</a></p>` : ""}
+      ${signature ? `<p style="font-size:14px;line-height:1.5;color:#475569;border-top:1px solid #e2e8f0;padding-top:16px;margin:24px 0 0;">${escapeHtml(signature).replace(/\r?\n/g, "<br>")}</p>` : ""}
+    </td></tr>
+  </table>
+  ${branding.showAttribution ? `<p style="text-align:center;font-size:12px;color:#94a3b8;">Sent with ClientZap</p>` : ""}
+</body>
+</html>`;
+
+  const text = [
+    content.heading,
+    "",
+    ...content.paragraphs.flatMap(paragraph => [paragraph, ""]),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ""] : []),
+    ...(signature ? ["--", signature, ""] : []),
+    ...(branding.showAttribution ? ["Sent with ClientZap"] : []),
+  ].join("\n").trim() + "\n";
+
+  return { html, text };
+}
+
+// To the form owner when a client submits one of their forms
+export function newSubmissionEmail(owner: User, form: Form, submission: FormSubmission): EmailMessage {
+  return {
+    to: owner.email,
+    subject: `New response to ${form.title} from ${submission.clientName}`,
+    replyTo: submission.clientEmail,
+    ...renderEmail({
+      heading: "You have a new form response",
+      paragraphs: [`${submission.clientName} (${submission.clientEmail}) just submitted ${form.title}.`],
+      action: { label: "View submission", url: appUrl("/submissions") },
+    }),
+  };
+}
+
+// To the recipient of a form sent to their ZapLink
+export function zapReceivedEmail(sender: User, recipient: User, form: Form): EmailMessage {
+  return {
+    to: recipient.email,
+    subject: `${senderName(sender)} sent you ${form.title}`,
+    replyTo: sender.email,
+    ...renderEmail({
+      sender,
+      heading: `${senderName(sender)} sent you a form`,
+      paragraphs: [`${form.title} is waiting in your Zap Inbox.`],
+      action: { label: "Open Zap Inbox", url: appUrl("/zap-inbox") },
+    }),
+  };
+}
+
+// When the sender nudges a recipient who hasn't answered yet
+export function zapReminderEmail(sender: User, recipient: User, form: Form, responseUrl: string): EmailMessage {
+  return {
+    to: recipient.email,
+    subject: `Reminder: ${senderName(sender)} is waiting on ${form.title}`,
+    replyTo: sender.email,
+    ...renderEmail({
+      sender,
+      heading: `${form.title} is still waiting for you`,
+      paragraphs: [`${senderName(sender)} sent you ${form.title} and would love your answers.`],
+      action: { label: "Fill out the form", url: appUrl(responseUrl) },
+    }),
+  };
+}
+
+// To the client when a contract is sent for signature in-app
+export function contractReadyEmail(owner: User, client: Client, contract: Contract, signingUrl: string): EmailMessage {
+  const title = contract.title || "Contract";
+  return {
+    to: client.email,
+    subject: `Please sign: ${title}`,
+    replyTo: owner.email,
+    ...renderEmail({
+      sender: owner,
+      heading: `${title} is ready for your signature`,
+      paragraphs: [
+        `Hi ${client.name},`,
+        `${senderName(owner)} has sent you a contract to review and sign online. It only takes a minute.`,
+      ],
+      action: { label: "Review and sign", url: appUrl(signingUrl) },
+    }),
+  };
+}
+
+// To the freelancer once the client has signed, asking them to countersign
+export function contractSignedEmail(owner: User, client: Client, contract: Contract): EmailMessage {
+  const title = contract.title || "Contract";
+  return {
+    to: owner.email,
+    subject: `${client.name} signed ${title}`,
+    replyTo: client.email,
+    ...renderEmail({
+      heading: `${client.name} signed ${title}`,
+      paragraphs: ["Countersign the contract to complete it. Your client will get the final copy once you do."],
+      action: { label: "Countersign", url: appUrl("/submissions") },
+    }),
+  };
+}
+
+// To the client once both parties have signed
+export function contractCompletedEmail(owner: User, client: Client, contract: Contract, signingUrl: string): EmailMessage {
+  const title = contract.title || "Contract";
+  return {
+    to: client.email,
+    subject: `${title} is fully signed`,
+    replyTo: owner.email,
+    ...renderEmail({
+      sender: owner,
+      heading: `${title} is fully signed`,
+      paragraphs: [
+        `Hi ${client.name},`,
+        `${senderName(owner)} has countersigned. You can download the final copy, with both signatures and the signature certificate, at any time.`,
+      ],
+      action: { label: "Download the signed contract", url: appUrl(signingUrl) },
+    }),
+  };
+}
+
+const formatBookingTime = (booking: Booking, timeZone: string) =>
+  `${booking.startsAt.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "short" })} (${timeZone.replace(/_/g, " ")})`;
+
+const inviteAttachment = (invite: string, method: "REQUEST" | "CANCEL"): EmailAttachment => ({
+  filename: "invite.ics",
+  content: invite,
+  contentType: `text/calendar; charset=utf-8; method=${method}`,
+});
+
+// To the invitee when they book a call, with the calendar invite attached
+export function bookingConfirmationEmail(owner: User, settings: AvailabilitySettings, booking: Booking, invite: string): EmailMessage {
+  return {
+    to: booking.inviteeEmail,
+    subject: `Confirmed: ${settings.meetingTitle} with ${senderName(owner)}`,
+    replyTo: owner.email,
+    attachments: [inviteAttachment(invite, "REQUEST")],
+    ...renderEmail({
+      sender: owner,
+      heading: "Your call is booked",
+      paragraphs: [
+        `Hi ${booking.inviteeName},`,
+        `${settings.meetingTitle} with ${senderName(owner)} is confirmed for ${formatBookingTime(booking, settings.timeZone)}.`,
+        ...(settings.location ? [`Where: ${settings.location}`] : []),
+        "The attached invite adds it to your calendar.",
+      ],
+      action: { label: "Manage your booking", url: appUrl(`/booking/${booking.manageToken}`) },
+    }),
+  };
+}
+
+// To the invitee when their call is canceled; the attached invite removes it from their calendar
+export function bookingCanceledEmail(owner: User, settings: AvailabilitySettings, booking: Booking, invite: string): EmailMessage {
+  return {
+    to: booking.inviteeEmail,
+    subject: `Canceled: ${settings.meetingTitle} with ${senderName(owner)}`,
+    replyTo: owner.email,
+    attachments: [inviteAttachment(invite, "CANCEL")],
+    ...renderEmail({
+      sender: owner,
+      heading: "Your call was canceled",
+      paragraphs: [
+        `Hi ${booking.inviteeName},`,
+        `${settings.meetingTitle} with ${senderName(owner)} on ${formatBookingTime(booking, settings.timeZone)} has been canceled.`,
+      ],
+      action: { label: "Pick a new time", url: appUrl(`/booking/${booking.manageToken}`) },
+    }),
+  };
+}
+
+// To the user after their password changes, in case it wasn't them
+export function passwordChangedEmail(user: User): EmailMessage {
+  return {
+    to: user.email,
+    subject: "Your ClientZap password was changed",
+    ...renderEmail({
+      heading: "Your password was changed",
+      paragraphs: [
+        `Hi ${user.displayName || user.username},`,
+        "The password for your ClientZap account was just changed. If this was you, there's nothing else to do.",
+        "If it wasn't, reset your password right away and contact support.",
+      ],
+    }),
+  };
+}
+
+// Link to choose a new password, sent when the user says they've forgotten theirs
+export function passwordResetEmail(user: User, resetUrl: string): EmailMessage {
+  return {
+    to: user.email,
+    subject: "Reset your ClientZap password",
+    ...renderEmail({
+      heading: "Reset your password",
+      paragraphs: [
+        `Hi ${user.displayName || user.username},`,
+        "Someone asked to reset the password for your ClientZap account. The link below works once and expires in an hour.",
+        "If you didn't ask for this, you can ignore this email and your password will stay the same.",
+      ],
+      action: { label: "Choose a new password", url: resetUrl },
+    }),
+  };
+}
+
+// Link confirming the user owns their email address, sent on sign-up and when the address changes
+export function verifyEmailEmail(user: User, verifyUrl: string): EmailMessage {
+  return {
+    to: user.email,
+    subject: "Verify your email for ClientZap",
+    ...renderEmail({
+      heading: "Confirm your email address",
+      paragraphs: [
+        `Hi ${user.displayName || user.username},`,
+        `Confirm that ${user.email} is your address so we know where to send client updates and password resets. The link expires in 24 hours.`,
+      ],
+      action: { label: "Verify email", url: verifyUrl },
+    }),
+  };
+}
+
+// To the user when repeated wrong passwords lock their account, with a link to unlock it early
+export function accountLockedEmail(user: User, lockedUntil: Date, unlockUrl: string): EmailMessage {
+  const minutes = Math.max(1, Math.round((lockedUntil.getTime() - Date.now()) / 60_000));
+  return {
+    to: user.email,
+    subject: "Your ClientZap account was locked",
+    ...renderEmail({
+      heading: "We locked your account",
+      paragraphs: [
+        `Hi ${user.displayName || user.username},`,
+        `There were too many wrong passwords for your ClientZap account, so password sign-in is paused for the next ${minutes} minutes.`,
+        "If that was you, use the link below to unlock it now. If it wasn't, unlock it and then reset your password.",
+      ],
+      action: { label: "Unlock my account", url: unlockUrl },
+    }),
+  };
+}
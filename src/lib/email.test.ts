@@ -0,0 +1,144 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Server } from "http";
+import type { User } from "@shared/schema";
+import { DEFAULT_BRAND_COLOR } from "./branding";
+import { sendContract, signAsClient } from "./contract-signing";
+import { emailTransport, type EmailMessage, MemoryEmailTransport } from "./email";
+import { storage } from "./storage";
+import { sendZap } from "./zaps";
+
+const outbox = emailTransport as MemoryEmailTransport;
+
+const lastEmailTo = (to: string) => outbox.sent.filter(message => message.to === to).at(-1);
+
+// The freelancer's brand color fills the header and button, and their signature closes the email
+function expectFreelancerBranding(message: EmailMessage | undefined) {
+  expect(message?.html).toContain("background:#7c3aed");
+  expect(message?.html).not.toContain("Sent with ClientZap");
+  expect(message?.html).toContain("Jo Rivera<br>Rivera Studio");
+  expect(message?.text).toMatch(/\n--\nJo Rivera\nRivera Studio\n$/);
+}
+
+// Messages to the freelancer themselves come from ClientZap, not from their brand
+function expectClientZapBranding(message: EmailMessage | undefined) {
+  expect(message?.html).toContain(`background:${DEFAULT_BRAND_COLOR}`);
+  expect(message?.html).not.toContain("Jo Rivera<br>Rivera Studio");
+  expect(message?.text).not.toContain("--");
+}
+
+describe("emails", () => {
+  let freelancer: User;
+
+  beforeEach(async () => {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    const created = await storage.createUser({ username: `jo-${suffix}`, email: `jo-${suffix}@example.com`, password: "hashed" });
+    freelancer = (await storage.updateUser(created.id, {
+      businessName: "Rivera Studio",
+      brandColor: "#7c3aed",
+      emailSignature: "Jo Rivera\nRivera Studio",
+      subscriptionType: "pro",
+      subscriptionStatus: "active",
+    }))!;
+  });
+
+  describe("new form responses", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_emails");
+      vi.stubEnv("SESSION_SECRET", "session-secret");
+      const { registerRoutes } = await import("./routes");
+      const app = express();
+      app.use(express.json());
+      server = registerRoutes(app);
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+      vi.unstubAllEnvs();
+    });
+
+    it("tells the form owner who answered", async () => {
+      const form = await storage.createForm({
+        userId: freelancer.id,
+        title: "Project intake",
+        isPublished: true,
+        shareableLink: "unused",
+        fields: [
+          { id: "name", type: "text", label: "Your name", required: true },
+          { id: "email", type: "email", label: "Email", required: true },
+        ],
+      });
+
+      const response = await fetch(`${baseUrl}/api/public/forms/${form.shareableLink}/submit`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: "Pat Lee", email: "pat@client.com" }),
+      });
+      expect(response.status).toBe(201);
+
+      const message = lastEmailTo(freelancer.email);
+      expect(message).toMatchObject({ subject: "New response to Project intake from Pat Lee", replyTo: "pat@client.com" });
+      expect(message?.text).toContain("Pat Lee (pat@client.com) just submitted Project intake.");
+      expectClientZapBranding(message);
+    });
+  });
+
+  it("tells a zap's recipient it's in their inbox", async () => {
+    const recipient = await storage.createUser({ username: `sam-${freelancer.id}`, email: `sam-${freelancer.id}@example.com`, password: "hashed" });
+    const form = await storage.createForm({ userId: freelancer.id, title: "Project intake", isPublished: true, shareableLink: "unused", fields: [] });
+
+    await sendZap(freelancer, form, recipient.zapLink);
+
+    const message = lastEmailTo(recipient.email);
+    expect(message).toMatchObject({ subject: "Rivera Studio sent you Project intake", replyTo: freelancer.email });
+    expect(message?.text).toContain("Project intake is waiting in your Zap Inbox.");
+    expectFreelancerBranding(message);
+  });
+
+  it("asks the client to sign, then tells the freelancer they did", async () => {
+    const client = await storage.createClient({ userId: freelancer.id, name: "Pat Lee", email: `pat-${freelancer.id}@client.com` });
+    const draft = await storage.createContract({ clientId: client.id, title: "Design agreement", status: "draft" });
+    const prepared = (await storage.updateContract(draft.id, { documentKey: `contracts/${draft.id}/document.pdf`, documentHash: "a".repeat(64) }))!;
+
+    const sent = await sendContract(prepared, {});
+
+    const ready = lastEmailTo(client.email);
+    expect(ready).toMatchObject({ subject: "Please sign: Design agreement", replyTo: freelancer.email });
+    expect(ready?.text).toContain(`/sign/${sent.signingToken}`);
+    expectFreelancerBranding(ready);
+
+    await signAsClient(sent, { signerName: "Pat Lee", method: "typed", signature: "Pat Lee", agreed: true }, {});
+
+    const signed = lastEmailTo(freelancer.email);
+    expect(signed).toMatchObject({ subject: "Pat Lee signed Design agreement", replyTo: client.email });
+    expect(signed?.text).toContain("Countersign the contract to complete it.");
+    expectClientZapBranding(signed);
+  });
+});
+
+describe("EMAIL_TRANSPORT", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("defaults to writing files outside production", async () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "");
+    vi.resetModules();
+    const { emailTransport } = await import("./email");
+    expect(emailTransport.name).toBe("file");
+  });
+
+  it("must be chosen in production", async () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.resetModules();
+    await expect(import("./email")).rejects.toThrow(/EMAIL_TRANSPORT must be set/);
+  });
+});
@@ -0,0 +1,118 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Replies go to the freelancer rather than the no-reply sender
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || "ClientZap <no-reply@clientzap.com>";
+
+const toMail = (message: EmailMessage) => ({ from: EMAIL_FROM, ...message });
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(
+    host = process.env.SMTP_HOST,
+    port = Number(process.env.SMTP_PORT || 587),
+    user = process.env.SMTP_USER,
+    pass = process.env.SMTP_PASS,
+  ) {
+    if (!host) {
+      throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT=smtp");
+    }
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      // Port 465 is implicit TLS; other ports upgrade with STARTTLS
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(toMail(message));
+  }
+}
+
+// Writes each message as an .eml file that any mail client can open. The default outside
+// production, so local setups can see what would have been sent without an SMTP server.
+export class FileEmailTransport implements EmailTransport {
+  readonly name = "file";
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private outboxDir = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), "mail-outbox")) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(toMail(message));
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@.]/gi, "_")}.eml`;
+    await fs.writeFile(path.join(this.outboxDir, fileName), info.message as Buffer);
+  }
+}
+
+// Keeps sent messages in memory, newest last
+export class MemoryEmailTransport implements EmailTransport {
+  readonly name = "memory";
+  readonly sent: EmailMessage[] = [];
+
+  constructor(private limit = 100) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > this.limit) this.sent.shift();
+  }
+}
+
+// EMAIL_TRANSPORT=file|memory|smtp picks the transport. Production must choose one, so
+// password resets aren't quietly written to disk instead of being sent.
+function createEmailTransport(): EmailTransport {
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? undefined : "file");
+
+  switch (transport) {
+    case "file":
+      return new FileEmailTransport();
+    case "memory":
+      return new MemoryEmailTransport();
+    case "smtp":
+      return new SmtpEmailTransport();
+    case undefined:
+      throw new Error("EMAIL_TRANSPORT must be set in production, e.g. EMAIL_TRANSPORT=smtp");
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}", expected "file", "memory" or "smtp"`);
+  }
+}
+
+export const emailTransport = createEmailTransport();
+
+// Absolute link for use in emails, which can be sent from webhooks with no request origin
+export const appUrl = (path: string) => `${process.env.FRONTEND_URL || "http://localhost:5000"}${path}`;
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await emailTransport.send(message);
+}
+
+// Send without holding up the request; a failed email shouldn't fail the action that triggered it
+export function queueEmail(message: EmailMessage | undefined): void {
+  if (!message) return;
+  sendEmail(message).catch(error => console.error(`Error sending "${message.subject}" email:`, error.message));
+}
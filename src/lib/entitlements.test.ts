@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { checkFormAcceptsResponses, checkPlanLimit, getUsage, getZapPeriod } from "./entitlements";
+import { storage } from "./storage";
+
+describe("getZapPeriod", () => {
+  it("renews monthly on the day the account was created", () => {
+    const user = { createdAt: new Date("2025-03-15T10:00:00Z") };
+
+    expect(getZapPeriod(user, new Date("2025-06-20T00:00:00Z"))).toEqual({
+      start: new Date("2025-06-15T10:00:00Z"),
+      end: new Date("2025-07-15T10:00:00Z"),
+    });
+    expect(getZapPeriod(user, new Date("2025-06-15T09:59:59Z")).start).toEqual(new Date("2025-05-15T10:00:00Z"));
+    expect(getZapPeriod(user, new Date("2025-03-20T00:00:00Z")).start).toEqual(user.createdAt);
+  });
+
+  it("keeps to the last day of shorter months", () => {
+    const user = { createdAt: new Date("2025-01-31T00:00:00Z") };
+
+    expect(getZapPeriod(user, new Date("2025-03-01T00:00:00Z"))).toEqual({
+      start: new Date("2025-02-28T00:00:00Z"),
+      end: new Date("2025-03-31T00:00:00Z"),
+    });
+  });
+});
+
+describe("zap allowance", () => {
+  it("counts only zaps sent in the current period", async () => {
+    const sender = await storage.createUser({ username: "quota-sender", email: "quota-sender@example.com", password: "hashed" });
+    const recipient = await storage.createUser({ username: "quota-recipient", email: "quota-recipient@example.com", password: "hashed" });
+    const form = await storage.createForm({ userId: sender.id, title: "Intake", fields: [], isPublished: true, shareableLink: "quota-form" });
+
+    // Answers from the sender's own clients don't use up the allowance
+    for (const name of ["A", "B", "C", "D"]) {
+      await storage.createFormSubmission({ formId: form.id, clientName: name, clientEmail: `${name}@client.com`, submissionData: {} });
+    }
+    const lastMonth = await storage.shareFormToUser({ formId: form.id, senderId: sender.id, recipientId: recipient.id });
+    await storage.updateSharedForm(lastMonth.id, { sentAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000) });
+    await storage.updateUser(sender.id, { createdAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) });
+    const user = (await storage.getUser(sender.id))!;
+
+    expect((await getUsage(user)).zapsCount).toBe(0);
+    expect(await checkPlanLimit(user, "zaps")).toBeUndefined();
+
+    for (let i = 0; i < 3; i++) {
+      await storage.shareFormToUser({ formId: form.id, senderId: sender.id, recipientId: recipient.id });
+    }
+    expect(await checkPlanLimit(user, "zaps")).toMatchObject({ code: "plan_limit_reached", limit: 3, used: 3 });
+  });
+});
+
+describe("published form allowance", () => {
+  it("keeps the oldest published forms open after a downgrade", async () => {
+    const created = await storage.createUser({ username: "downgraded", email: "downgraded@example.com", password: "hashed" });
+    const pro = (await storage.updateUser(created.id, { subscriptionType: "pro", subscriptionStatus: "active" }))!;
+    const first = await storage.createForm({ userId: pro.id, title: "Intake", fields: [], isPublished: true, shareableLink: "unused" });
+    const second = await storage.createForm({ userId: pro.id, title: "Feedback", fields: [], isPublished: true, shareableLink: "unused" });
+    await storage.updateForm(second.id, { createdAt: new Date(first.createdAt.getTime() + 1000) });
+
+    expect(await checkFormAcceptsResponses(pro, second)).toBeUndefined();
+
+    const free = (await storage.updateUser(pro.id, { subscriptionStatus: "canceled" }))!;
+    expect(await checkFormAcceptsResponses(free, first)).toBeUndefined();
+    expect(await checkFormAcceptsResponses(free, (await storage.getForm(second.id))!)).toMatchObject({
+      code: "plan_limit_reached",
+      resource: "forms",
+      limit: 1,
+      used: 1,
+      needsUpgrade: true,
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { Form, User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type Plan = "free" | "pro";
+export type LimitedResource = "forms" | "zaps" | "clients";
+export type PlanFeature = "hasCustomBranding" | "hasSavedContracts" | "hasMultiFormFlows" | "hasVanityZapLink";
+
+export interface PlanLimits {
+  // null means unlimited (Infinity doesn't survive JSON)
+  maxForms: number | null;
+  maxZaps: number | null;
+  maxClients: number | null;
+  hasCustomBranding: boolean;
+  hasSavedContracts: boolean;
+  hasMultiFormFlows: boolean;
+  hasVanityZapLink: boolean;
+}
+
+export interface UsageCounts {
+  formsCount: number;
+  // Zaps sent in the current period; answers to the user's own forms don't count
+  zapsCount: number;
+  zapsResetAt: Date;
+  clientsCount: number;
+}
+
+// Body of the 402 response returned when a free plan limit is hit
+export interface PlanLimitDenial {
+  message: string;
+  code: "plan_limit_reached";
+  resource: LimitedResource;
+  limit: number;
+  used: number;
+  needsUpgrade: true;
+}
+
+// Body of the 402 response returned when a Pro-only feature is used on the free plan
+export interface PlanFeatureDenial {
+  message: string;
+  code: "plan_feature_required";
+  feature: PlanFeature;
+  needsUpgrade: true;
+}
+
+export type PlanDenial = PlanLimitDenial | PlanFeatureDenial;
+
+export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  free: {
+    maxForms: 1,
+    maxZaps: 3,
+    maxClients: 5,
+    hasCustomBranding: false,
+    hasSavedContracts: false,
+    hasMultiFormFlows: false,
+    hasVanityZapLink: false,
+  },
+  pro: {
+    maxForms: null,
+    maxZaps: null,
+    maxClients: null,
+    hasCustomBranding: true,
+    hasSavedContracts: true,
+    hasMultiFormFlows: true,
+    hasVanityZapLink: true,
+  },
+};
+
+const limitKeys: Record<LimitedResource, "maxForms" | "maxZaps" | "maxClients"> = {
+  forms: "maxForms",
+  zaps: "maxZaps",
+  clients: "maxClients",
+};
+
+const limitMessages: Record<LimitedResource, (limit: number) => string> = {
+  forms: (limit) => `The free plan includes ${limit} form${limit === 1 ? "" : "s"}. Upgrade to Pro for unlimited forms.`,
+  zaps: (limit) => `The free plan includes ${limit} zaps a month. Upgrade to Pro for unlimited zaps.`,
+  clients: (limit) => `The free plan includes ${limit} clients. Upgrade to Pro for unlimited clients.`,
+};
+
+const featureMessages: Record<PlanFeature, string> = {
+  hasCustomBranding: "Custom branding is a Pro feature. Upgrade to Pro to use your own colors and logo.",
+  hasSavedContracts: "Saved contracts are a Pro feature. Upgrade to Pro to keep reusable contracts.",
+  hasMultiFormFlows: "Multi-page forms and onboarding flows are Pro features. Upgrade to Pro to use them.",
+  hasVanityZapLink: "Custom ZapLinks are a Pro feature. Upgrade to Pro to choose your own.",
+};
+
+export function getPlan(user: Pick<User, "subscriptionType" | "subscriptionStatus">): Plan {
+  return user.subscriptionType === "pro" && user.subscriptionStatus === "active" ? "pro" : "free";
+}
+
+export function getPlanLimits(user: Pick<User, "subscriptionType" | "subscriptionStatus">): PlanLimits {
+  return PLAN_LIMITS[getPlan(user)];
+}
+
+// Adds calendar months, keeping to the last day of shorter months (Jan 31 + 1 month = Feb 28)
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return result;
+}
+
+// The zap allowance renews monthly on the day the account was created
+export function getZapPeriod(user: Pick<User, "createdAt">, now = new Date()): { start: Date; end: Date } {
+  const createdAt = new Date(user.createdAt);
+  let months = (now.getUTCFullYear() - createdAt.getUTCFullYear()) * 12 + now.getUTCMonth() - createdAt.getUTCMonth();
+  if (addMonths(createdAt, months) > now) months--;
+  return { start: addMonths(createdAt, months), end: addMonths(createdAt, months + 1) };
+}
+
+export async function getUsage(user: Pick<User, "id" | "createdAt">): Promise<UsageCounts> {
+  const [forms, clients, sentZaps] = await Promise.all([
+    storage.getFormsByUserId(user.id),
+    storage.getClientsByUserId(user.id),
+    storage.getSharedFormsSentByUser(user.id),
+  ]);
+  const period = getZapPeriod(user);
+
+  return {
+    formsCount: forms.length,
+    zapsCount: sentZaps.filter(zap => new Date(zap.sentAt) >= period.start).length,
+    zapsResetAt: period.end,
+    clientsCount: clients.length,
+  };
+}
+
+// Returns a denial when the user can't add another resource, or undefined when allowed.
+// Pass `used` to check against a count other than the stored usage (e.g. published forms).
+export async function checkPlanLimit(
+  user: User,
+  resource: LimitedResource,
+  used?: number,
+): Promise<PlanLimitDenial | undefined> {
+  const limit = getPlanLimits(user)[limitKeys[resource]];
+  if (limit === null) return undefined;
+
+  if (used === undefined) {
+    const usage = await getUsage(user);
+    used = resource === "forms" ? usage.formsCount : resource === "zaps" ? usage.zapsCount : usage.clientsCount;
+  }
+
+  if (used < limit) return undefined;
+
+  return {
+    message: limitMessages[resource](limit),
+    code: "plan_limit_reached",
+    resource,
+    limit,
+    used,
+    needsUpgrade: true,
+  };
+}
+
+// Whether a published form may take another response. Forms published beyond the owner's
+// allowance, e.g. before a downgrade, stop accepting them; the oldest ones stay open.
+export async function checkFormAcceptsResponses(owner: User, form: Pick<Form, "id" | "createdAt">): Promise<PlanLimitDenial | undefined> {
+  const forms = await storage.getFormsByUserId(owner.id);
+  const publishedBefore = forms.filter(f => f.isPublished && f.id !== form.id && new Date(f.createdAt) <= new Date(form.createdAt)).length;
+  return checkPlanLimit(owner, "forms", publishedBefore);
+}
+
+export function checkPlanFeature(user: User, feature: PlanFeature): PlanFeatureDenial | undefined {
+  if (getPlanLimits(user)[feature]) return undefined;
+
+  return {
+    message: featureMessages[feature],
+    code: "plan_feature_required",
+    feature,
+    needsUpgrade: true,
+  };
+}
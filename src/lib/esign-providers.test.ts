@@ -0,0 +1,175 @@
+import { createHmac } from "crypto";
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Contract } from "@shared/schema";
+import { applyEnvelopeUpdate, sendThroughProvider } from "./contract-signing";
+import { DocuSignProvider, FakeSignatureProvider, signatureProvider, WebhookVerificationError } from "./esign-providers";
+import { fileStore } from "./file-storage";
+import { storage } from "./storage";
+
+const CONNECT_SECRET = "connect-secret";
+
+const docuSign = (connectSecret: string | undefined = CONNECT_SECRET) =>
+  new DocuSignProvider("integration-key", "user-id", "account-id", "private-key", connectSecret);
+
+const connectSignature = (body: Buffer, secret = CONNECT_SECRET) =>
+  createHmac("sha256", secret).update(body).digest("base64");
+
+describe("DocuSignProvider", () => {
+  const body = Buffer.from(JSON.stringify({ event: "envelope-completed", data: { envelopeId: "env-1" } }));
+
+  it("refuses to start without a Connect secret", () => {
+    expect(() => docuSign("")).toThrow(/DOCUSIGN_CONNECT_SECRET/);
+  });
+
+  it("accepts Connect events signed with the secret", () => {
+    const update = docuSign().parseWebhook(body, { "x-docusign-signature-1": connectSignature(body) });
+    expect(update).toEqual({ envelopeId: "env-1", status: "completed" });
+  });
+
+  it("rejects unsigned, tampered and wrongly signed events", () => {
+    const provider = docuSign();
+    const tampered = Buffer.from(body.toString().replace("completed", "voided"));
+
+    expect(() => provider.parseWebhook(body, {})).toThrow(WebhookVerificationError);
+    expect(() => provider.parseWebhook(tampered, { "x-docusign-signature-1": connectSignature(body) })).toThrow(WebhookVerificationError);
+    expect(() => provider.parseWebhook(body, { "x-docusign-signature-1": connectSignature(body, "other") })).toThrow(WebhookVerificationError);
+  });
+});
+
+describe("ESIGN_PROVIDER", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("defaults to the fake outside production", async () => {
+    vi.stubEnv("ESIGN_PROVIDER", "");
+    vi.resetModules();
+    const { signatureProvider } = await import("./esign-providers");
+    expect(signatureProvider.name).toBe("fake");
+  });
+
+  it("leaves e-signatures disabled in production until one is chosen", async () => {
+    vi.stubEnv("ESIGN_PROVIDER", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.resetModules();
+    const { getSignatureProvider, signatureProvider, SignatureProviderDisabledError } = await import("./esign-providers");
+    expect(signatureProvider).toBeUndefined();
+    expect(() => getSignatureProvider()).toThrow(SignatureProviderDisabledError);
+  });
+
+  it("answers the e-signature routes with 503 while disabled", async () => {
+    vi.stubEnv("ESIGN_PROVIDER", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("EMAIL_TRANSPORT", "memory");
+    vi.stubEnv("CALENDLY_PROVIDER", "fake");
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_esign");
+    vi.stubEnv("SESSION_SECRET", "session-secret");
+    vi.resetModules();
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    const server = registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const registered = await fetch(`${baseUrl}/api/register`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ username: "esign-disabled", email: "esign-disabled@example.com", password: "password1" }),
+      });
+      const cookie = registered.headers.get("set-cookie")!.split(";")[0];
+      const post = (path: string, body: object) => fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "content-type": "application/json", cookie },
+        body: JSON.stringify(body),
+      });
+
+      for (const response of [
+        await post("/api/contracts/some-contract/envelope", {}),
+        await post("/api/integrations/docusign/send-contract", { clientId: "some-client" }),
+        await post("/api/webhook/esign", { event: "envelope-completed", data: { envelopeId: "env-1" } }),
+      ]) {
+        expect(response.status).toBe(503);
+        expect(await response.json()).toEqual({ message: "E-signatures aren't enabled on this server" });
+      }
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe("e-signature webhook", () => {
+  const fake = signatureProvider as FakeSignatureProvider;
+  let contract: Contract;
+
+  // What POST /api/webhook/esign does with a delivery
+  const deliver = (body: Buffer) => {
+    const update = fake.parseWebhook(body);
+    return update && applyEnvelopeUpdate(update);
+  };
+
+  beforeEach(async () => {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    const user = await storage.createUser({ username: `esign-${suffix}`, email: `esign-${suffix}@example.com`, password: "hashed" });
+    const client = await storage.createClient({ userId: user.id, name: "Pat", email: `pat-${suffix}@client.com` });
+    const draft = await storage.createContract({ clientId: client.id, title: "Agreement", status: "draft" });
+    const documentKey = `contracts/${draft.id}/document.pdf`;
+    await fileStore.save(documentKey, Buffer.from("%PDF-1.4 contract"), "application/pdf");
+    const prepared = (await storage.updateContract(draft.id, { documentKey }))!;
+
+    contract = await sendThroughProvider(prepared, user, {});
+  });
+
+  it("sends the prepared document to both signers", () => {
+    const envelope = fake.envelopes.get(contract.docusignEnvelopeId!);
+    expect(contract.status).toBe("sent");
+    expect(envelope?.signers.map(signer => signer.anchor)).toEqual(["Client Signature:", "Freelancer Signature:"]);
+    expect(envelope?.document.toString()).toBe("%PDF-1.4 contract");
+  });
+
+  it("stores the signed document when the envelope completes", async () => {
+    const signed = await deliver(fake.simulate(contract.docusignEnvelopeId!, "completed"));
+
+    expect(signed).toMatchObject({ status: "signed", signedDocumentKey: `contracts/${contract.id}/signed.pdf` });
+    expect(signed?.signedDocumentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect((await storage.getClient(contract.clientId))?.contractStatus).toBe("signed");
+    expect((await storage.getContractEvents(contract.id)).map(event => [event.type, event.actor])).toContainEqual(["completed", "fake"]);
+
+    const client = (await storage.getClient(contract.clientId))!;
+    await vi.waitFor(async () => {
+      const [notification] = await storage.getNotifications(client.userId, 1);
+      expect(notification).toMatchObject({ type: "contract_signed", title: "Pat signed Agreement" });
+    });
+  });
+
+  it("lets the freelancer send again after a decline", async () => {
+    const declined = await deliver(fake.simulate(contract.docusignEnvelopeId!, "declined"));
+
+    expect(declined?.status).toBe("declined");
+    expect((await storage.getClient(contract.clientId))?.contractStatus).toBe("not_sent");
+  });
+
+  it("ignores repeated deliveries once the contract has finished", async () => {
+    await deliver(fake.simulate(contract.docusignEnvelopeId!, "voided"));
+    const repeated = await deliver(fake.simulate(contract.docusignEnvelopeId!, "completed"));
+
+    expect(repeated?.status).toBe("voided");
+    expect(repeated?.signedDocumentKey).toBeNull();
+  });
+
+  it("records deliveries to the signer as views", async () => {
+    await deliver(fake.simulate(contract.docusignEnvelopeId!, "delivered"));
+
+    expect((await storage.getContract(contract.id))?.status).toBe("sent");
+    expect((await storage.getContractEvents(contract.id)).map(event => event.type)).toContain("viewed");
+  });
+
+  it("rejects deliveries for envelopes it didn't create", () => {
+    expect(() => fake.parseWebhook(Buffer.from(JSON.stringify({ envelopeId: "fake-unknown", status: "completed" })))).toThrow(WebhookVerificationError);
+    expect(() => fake.parseWebhook(Buffer.from("not json"))).toThrow(WebhookVerificationError);
+  });
+});
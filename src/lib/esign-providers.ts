@@ -0,0 +1,265 @@
+import { createHmac, createSign, randomUUID, timingSafeEqual } from "crypto";
+
+export interface EnvelopeSigner {
+  name: string;
+  email: string;
+  // Text in the PDF the provider places this signer's signature next to
+  anchor: string;
+}
+
+export interface CreateEnvelopeInput {
+  contractId: string;
+  title: string;
+  document: Buffer;
+  // In signing order: the client, then the freelancer
+  signers: EnvelopeSigner[];
+}
+
+export type EnvelopeStatus = "sent" | "delivered" | "completed" | "declined" | "voided";
+
+// A status change reported by the provider's webhook
+export interface EnvelopeUpdate {
+  envelopeId: string;
+  status: EnvelopeStatus;
+}
+
+// Thrown when a webhook can't be verified or parsed; the route answers 400
+export class WebhookVerificationError extends Error {}
+
+// Sends contracts out for signature through a third-party service and reports back
+// through a webhook. The in-app signing flow doesn't go through here.
+export interface SignatureProvider {
+  readonly name: string;
+  createEnvelope(input: CreateEnvelopeInput): Promise<{ envelopeId: string }>;
+  // Verify a webhook delivery against its raw body and turn it into a status update.
+  // Returns undefined for events we don't act on.
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): EnvelopeUpdate | undefined;
+  // The completed PDF with every signature applied
+  downloadSignedDocument(envelopeId: string): Promise<Buffer>;
+}
+
+const envelopeStatuses: EnvelopeStatus[] = ["sent", "delivered", "completed", "declined", "voided"];
+
+function verifyHmac(rawBody: Buffer, secret: string, signatures: string[]): boolean {
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  return signatures.some(signature => {
+    const given = Buffer.from(signature, "base64");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+// DocuSign eSignature REST API v2.1 with JWT grant auth. Connect posts envelope
+// events to /api/webhook/esign, signed with HMAC using the Connect key.
+export class DocuSignProvider implements SignatureProvider {
+  readonly name = "docusign";
+  private accessToken: { value: string; expiresAt: number } | undefined;
+
+  constructor(
+    private integrationKey = process.env.DOCUSIGN_INTEGRATION_KEY,
+    private userId = process.env.DOCUSIGN_USER_ID,
+    private accountId = process.env.DOCUSIGN_ACCOUNT_ID,
+    private privateKey = process.env.DOCUSIGN_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+    private connectSecret = process.env.DOCUSIGN_CONNECT_SECRET,
+    // Demo environment by default; production accounts use account.docusign.com and their own base path
+    private oauthHost = process.env.DOCUSIGN_OAUTH_HOST || "account-d.docusign.com",
+    private basePath = process.env.DOCUSIGN_BASE_PATH || "https://demo.docusign.net/restapi",
+  ) {
+    // Without the Connect secret anyone could post envelope events and void or complete contracts
+    if (!integrationKey || !userId || !accountId || !privateKey || !connectSecret) {
+      throw new Error("DOCUSIGN_INTEGRATION_KEY, DOCUSIGN_USER_ID, DOCUSIGN_ACCOUNT_ID, DOCUSIGN_PRIVATE_KEY and DOCUSIGN_CONNECT_SECRET must be set when ESIGN_PROVIDER=docusign");
+    }
+  }
+
+  // Exchange a signed JWT for an access token, reused until shortly before it expires
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64url(JSON.stringify({
+      iss: this.integrationKey,
+      sub: this.userId,
+      aud: this.oauthHost,
+      iat: now,
+      exp: now + 3600,
+      scope: "signature impersonation",
+    }));
+    const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(this.privateKey!);
+    const assertion = `${header}.${payload}.${base64url(signature)}`;
+
+    const res = await fetch(`https://${this.oauthHost}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+    });
+    if (!res.ok) {
+      throw new Error(`DocuSign authentication failed: ${await res.text()}`);
+    }
+    const token = await res.json() as { access_token: string; expires_in: number };
+    this.accessToken = { value: token.access_token, expiresAt: Date.now() + token.expires_in * 1000 };
+    return token.access_token;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<Response> {
+    const res = await fetch(`${this.basePath}/v2.1/accounts/${this.accountId}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({})) as { message?: string };
+      throw new Error(`DocuSign request failed: ${error.message || res.statusText}`);
+    }
+    return res;
+  }
+
+  async createEnvelope(input: CreateEnvelopeInput): Promise<{ envelopeId: string }> {
+    const res = await this.request("POST", "/envelopes", {
+      emailSubject: `Please sign: ${input.title}`,
+      documents: [{
+        documentId: "1",
+        name: input.title,
+        fileExtension: "pdf",
+        documentBase64: input.document.toString("base64"),
+      }],
+      recipients: {
+        signers: input.signers.map((signer, i) => ({
+          recipientId: String(i + 1),
+          routingOrder: String(i + 1),
+          name: signer.name,
+          email: signer.email,
+          tabs: {
+            signHereTabs: [{ anchorString: signer.anchor, anchorUnits: "pixels", anchorXOffset: "120", anchorYOffset: "-4" }],
+          },
+        })),
+      },
+      customFields: {
+        textCustomFields: [{ name: "contractId", value: input.contractId, show: "false" }],
+      },
+      status: "sent",
+    });
+    const envelope = await res.json() as { envelopeId: string };
+    return { envelopeId: envelope.envelopeId };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): EnvelopeUpdate | undefined {
+    // DocuSign sends one X-DocuSign-Signature-N header per active Connect key
+    const signatures = Object.entries(headers)
+      .filter(([name]) => /^x-docusign-signature-\d+$/i.test(name))
+      .flatMap(([, value]) => (Array.isArray(value) ? value : value ? [value] : []));
+    if (!verifyHmac(rawBody, this.connectSecret!, signatures)) {
+      throw new WebhookVerificationError("Invalid DocuSign Connect signature");
+    }
+
+    let event: { event?: string; data?: { envelopeId?: string; envelopeSummary?: { status?: string } } };
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new WebhookVerificationError("Connect payload is not JSON");
+    }
+
+    // JSON (restv2.1) Connect messages, e.g. { event: "envelope-completed", data: { envelopeId } }
+    const envelopeId = event.data?.envelopeId;
+    const status = (event.event?.replace(/^envelope-/, "") || event.data?.envelopeSummary?.status) as EnvelopeStatus;
+    if (!envelopeId || !envelopeStatuses.includes(status)) return undefined;
+    return { envelopeId, status };
+  }
+
+  async downloadSignedDocument(envelopeId: string): Promise<Buffer> {
+    // The combined document includes DocuSign's certificate of completion
+    const res = await this.request("GET", `/envelopes/${envelopeId}/documents/combined?certificate=true`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+}
+
+interface FakeEnvelope extends CreateEnvelopeInput {
+  envelopeId: string;
+  status: EnvelopeStatus;
+}
+
+// In-process stand-in for local development and tests. Envelopes live in memory and are moved
+// along by simulate(), which produces the same webhook payload a real provider would send.
+export class FakeSignatureProvider implements SignatureProvider {
+  readonly name = "fake";
+  readonly envelopes = new Map<string, FakeEnvelope>();
+
+  async createEnvelope(input: CreateEnvelopeInput): Promise<{ envelopeId: string }> {
+    const envelopeId = `fake-${randomUUID()}`;
+    this.envelopes.set(envelopeId, { ...input, envelopeId, status: "sent" });
+    return { envelopeId };
+  }
+
+  // The body to POST to the webhook to report a status change
+  simulate(envelopeId: string, status: EnvelopeStatus): Buffer {
+    const envelope = this.envelopes.get(envelopeId);
+    if (!envelope) {
+      throw new Error(`No fake envelope ${envelopeId}`);
+    }
+    envelope.status = status;
+    return Buffer.from(JSON.stringify({ envelopeId, status }));
+  }
+
+  parseWebhook(rawBody: Buffer): EnvelopeUpdate | undefined {
+    let update: Partial<EnvelopeUpdate>;
+    try {
+      update = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new WebhookVerificationError("Webhook payload is not JSON");
+    }
+    if (!update.envelopeId || !this.envelopes.has(update.envelopeId)) {
+      throw new WebhookVerificationError("Unknown envelope");
+    }
+    return update.status && envelopeStatuses.includes(update.status)
+      ? { envelopeId: update.envelopeId, status: update.status }
+      : undefined;
+  }
+
+  async downloadSignedDocument(envelopeId: string): Promise<Buffer> {
+    const envelope = this.envelopes.get(envelopeId);
+    if (!envelope || envelope.status !== "completed") {
+      throw new Error(`Fake envelope ${envelopeId} isn't completed`);
+    }
+    return envelope.document;
+  }
+}
+
+// Thrown when something needs the provider while e-signatures are disabled
+export class SignatureProviderDisabledError extends Error {
+  constructor() {
+    super("E-signatures aren't enabled on this server");
+  }
+}
+
+// ESIGN_PROVIDER=fake|docusign picks the provider. Outside production it defaults to the fake so local
+// setups work without credentials. Production leaves e-signatures disabled until one is chosen, since
+// the fake never reaches any signer; contracts can still be signed in the app.
+function createSignatureProvider(): SignatureProvider | undefined {
+  const provider = process.env.ESIGN_PROVIDER || (process.env.NODE_ENV === "production" ? undefined : "fake");
+
+  switch (provider) {
+    case "fake":
+      return new FakeSignatureProvider();
+    case "docusign":
+      return new DocuSignProvider();
+    case undefined:
+      return undefined;
+    default:
+      throw new Error(`Unknown ESIGN_PROVIDER "${provider}", expected "fake" or "docusign"`);
+  }
+}
+
+export const signatureProvider = createSignatureProvider();
+
+export function getSignatureProvider(): SignatureProvider {
+  if (!signatureProvider) {
+    throw new SignatureProviderDisabledError();
+  }
+  return signatureProvider;
+}
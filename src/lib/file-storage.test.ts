@@ -0,0 +1,39 @@
+import * as fs from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalFileStore } from "./file-storage";
+
+describe("LocalFileStore", () => {
+  let root: string;
+  let store: LocalFileStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(tmpdir(), "clientzap-files-"));
+    store = new LocalFileStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("joins the parts in order and removes them", async () => {
+    const uploadId = await store.createUpload("forms/a");
+    await store.writePart(uploadId, 2, Buffer.from("world"));
+    await store.writePart(uploadId, 1, Buffer.from("hello "));
+
+    expect((await store.listParts(uploadId)).map(part => [part.PartNumber, part.Size])).toEqual([[1, 6], [2, 5]]);
+    expect(await store.completeUpload(uploadId, "forms/a", [1, 2])).toBe(11);
+    expect(await fs.readFile(path.join(root, "objects", "forms/a"), "utf8")).toBe("hello world");
+    expect(await store.listParts(uploadId)).toEqual([]);
+  });
+
+  it("leaves no object behind when a part is missing", async () => {
+    const uploadId = await store.createUpload("forms/b");
+    await store.writePart(uploadId, 1, Buffer.from("hello "));
+
+    await expect(store.completeUpload(uploadId, "forms/b", [1, 2])).rejects.toThrow();
+    await expect(fs.stat(path.join(root, "objects", "forms/b"))).rejects.toThrow();
+    expect(await fs.readdir(path.join(root, "objects", "forms"))).toEqual([]);
+  });
+});
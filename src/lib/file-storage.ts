@@ -0,0 +1,204 @@
+import { Storage as GcsStorage, type Bucket } from "@google-cloud/storage";
+import { createHash, randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { Readable } from "stream";
+
+export interface UploadedPart {
+  PartNumber: number;
+  Size: number;
+  ETag: string;
+}
+
+// Object storage for uploaded files. Uploads are multipart so the browser can
+// retry or resume individual parts instead of starting over.
+export interface FileStore {
+  createUpload(key: string): Promise<string>;
+  writePart(uploadId: string, partNumber: number, data: Buffer): Promise<string>;
+  listParts(uploadId: string): Promise<UploadedPart[]>;
+  // Joins the parts in order into the object at `key` and returns its size in bytes
+  completeUpload(uploadId: string, key: string, partNumbers: number[]): Promise<number>;
+  abortUpload(uploadId: string): Promise<void>;
+  // Small objects produced by the server itself (e.g. processed images) skip multipart
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  createReadStream(key: string): Readable;
+  delete(key: string): Promise<void>;
+}
+
+const partName = (partNumber: number) => String(partNumber).padStart(5, "0");
+const md5 = (data: Buffer) => createHash("md5").update(data).digest("hex");
+
+export class LocalFileStore implements FileStore {
+  constructor(private root = process.env.FILE_STORAGE_DIR || path.join(process.cwd(), "uploads")) {}
+
+  private objectPath(key: string) {
+    return path.join(this.root, "objects", key);
+  }
+
+  private partsDir(uploadId: string) {
+    return path.join(this.root, "multipart", uploadId);
+  }
+
+  async createUpload(_key: string): Promise<string> {
+    const uploadId = randomUUID();
+    await fs.mkdir(this.partsDir(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  async writePart(uploadId: string, partNumber: number, data: Buffer): Promise<string> {
+    await fs.writeFile(path.join(this.partsDir(uploadId), partName(partNumber)), data);
+    return md5(data);
+  }
+
+  async listParts(uploadId: string): Promise<UploadedPart[]> {
+    const names = await fs.readdir(this.partsDir(uploadId)).catch(() => []);
+    return Promise.all(names.sort().map(async name => {
+      const data = await fs.readFile(path.join(this.partsDir(uploadId), name));
+      return { PartNumber: Number(name), Size: data.length, ETag: md5(data) };
+    }));
+  }
+
+  async completeUpload(uploadId: string, key: string, partNumbers: number[]): Promise<number> {
+    const destination = this.objectPath(key);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+
+    // Joined beside the destination and moved into place, so a failure never leaves a truncated object
+    const partial = `${destination}.${uploadId}.partial`;
+    const handle = await fs.open(partial, "w");
+    try {
+      for (const partNumber of partNumbers) {
+        await handle.write(await fs.readFile(path.join(this.partsDir(uploadId), partName(partNumber))));
+      }
+    } catch (error) {
+      await handle.close();
+      await fs.rm(partial, { force: true });
+      throw error;
+    }
+    await handle.close();
+    await fs.rename(partial, destination);
+
+    await this.abortUpload(uploadId);
+    return (await fs.stat(destination)).size;
+  }
+
+  async abortUpload(uploadId: string): Promise<void> {
+    await fs.rm(this.partsDir(uploadId), { recursive: true, force: true });
+  }
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const destination = this.objectPath(key);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.writeFile(destination, data);
+  }
+
+  createReadStream(key: string): Readable {
+    return createReadStream(this.objectPath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.objectPath(key), { force: true });
+  }
+}
+
+// Parts are stored as temporary objects and composed into the final object on completion
+export class GcsFileStore implements FileStore {
+  private bucket: Bucket;
+
+  constructor(bucketName = process.env.GCS_BUCKET) {
+    if (!bucketName) {
+      throw new Error("GCS_BUCKET must be set when FILE_STORAGE_DRIVER=gcs");
+    }
+    this.bucket = new GcsStorage().bucket(bucketName);
+  }
+
+  private partsPrefix(uploadId: string) {
+    return `multipart/${uploadId}/`;
+  }
+
+  async createUpload(_key: string): Promise<string> {
+    return randomUUID();
+  }
+
+  async writePart(uploadId: string, partNumber: number, data: Buffer): Promise<string> {
+    await this.bucket.file(`${this.partsPrefix(uploadId)}${partName(partNumber)}`).save(data, { resumable: false });
+    return md5(data);
+  }
+
+  async listParts(uploadId: string): Promise<UploadedPart[]> {
+    const [files] = await this.bucket.getFiles({ prefix: this.partsPrefix(uploadId) });
+    return files
+      .filter(file => /^\d+$/.test(path.basename(file.name)))
+      .map(file => ({
+        PartNumber: Number(path.basename(file.name)),
+        Size: Number(file.metadata.size),
+        // GCS reports base64 MD5s; parts were acknowledged with hex
+        ETag: Buffer.from(String(file.metadata.md5Hash), "base64").toString("hex"),
+      }))
+      .sort((a, b) => a.PartNumber - b.PartNumber);
+  }
+
+  async completeUpload(uploadId: string, key: string, partNumbers: number[]): Promise<number> {
+    const prefix = this.partsPrefix(uploadId);
+    let sources = partNumbers.map(partNumber => this.bucket.file(`${prefix}${partName(partNumber)}`));
+
+    // A single compose request accepts at most 32 source objects
+    for (let round = 0; sources.length > 32; round++) {
+      const composed = [];
+      for (let i = 0; i < sources.length; i += 32) {
+        const intermediate = this.bucket.file(`${prefix}compose-${round}-${i / 32}`);
+        await this.bucket.combine(sources.slice(i, i + 32), intermediate);
+        composed.push(intermediate);
+      }
+      sources = composed;
+    }
+
+    const destination = this.bucket.file(key);
+    await this.bucket.combine(sources, destination);
+    await this.abortUpload(uploadId);
+
+    const [metadata] = await destination.getMetadata();
+    return Number(metadata.size);
+  }
+
+  async abortUpload(uploadId: string): Promise<void> {
+    await this.bucket.deleteFiles({ prefix: this.partsPrefix(uploadId) });
+  }
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.bucket.file(key).save(data, { resumable: false, contentType });
+  }
+
+  createReadStream(key: string): Readable {
+    return this.bucket.file(key).createReadStream();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+}
+
+// FILE_STORAGE_DRIVER=local|gcs picks where uploads are kept; local disk by default
+function createFileStore(): FileStore {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalFileStore();
+    case "gcs":
+      return new GcsFileStore();
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${driver}", expected "local" or "gcs"`);
+  }
+}
+
+export const fileStore = createFileStore();
+
+// Read a whole object into memory; only for small files like images and contract PDFs
+export async function readStoredObject(key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of fileStore.createReadStream(key)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,108 @@
+import type { Client, ClientFlow, Flow, Form } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+
+export interface FlowStep {
+  formId: string;
+  title: string;
+  shareableLink: string | null;
+}
+
+// What GET /api/flows returns for each flow
+export type FlowWithSteps = Flow & { steps: FlowStep[]; startUrl: string | null };
+
+// What the dashboard pipeline shows for each client in a flow
+export type ClientFlowSummary = ClientFlow & {
+  flow: Pick<Flow, "id" | "name">;
+  client: Pick<Client, "id" | "name" | "email">;
+  totalSteps: number;
+  currentStepTitle: string | null;
+};
+
+// What a client continuing a flow sees on the public form page
+export interface PublicFlowProgress {
+  flowName: string;
+  currentStep: number;
+  totalSteps: number;
+  status: string;
+  steps: { title: string }[];
+  clientName?: string;
+  clientEmail?: string;
+}
+
+// flows.formIds is jsonb, so guard against anything that isn't a list of ids
+export function parseFlowFormIds(formIds: unknown): string[] {
+  return Array.isArray(formIds) ? formIds.filter((id): id is string => typeof id === "string") : [];
+}
+
+// The first form starts the flow; later forms carry the client's access token
+export function getFlowStartUrl(flow: Pick<Flow, "shareableLink">, firstForm: Pick<Form, "shareableLink">): string {
+  return `/form/${firstForm.shareableLink}?flow=${flow.shareableLink}`;
+}
+
+export function getFlowStepUrl(form: Pick<Form, "shareableLink">, clientFlow: Pick<ClientFlow, "accessToken">): string {
+  return `/form/${form.shareableLink}?run=${clientFlow.accessToken}`;
+}
+
+export async function getFlowSteps(flow: Flow): Promise<FlowStep[]> {
+  const forms = await Promise.all(parseFlowFormIds(flow.formIds).map(id => storage.getForm(id)));
+  return forms
+    .filter((form): form is Form => !!form)
+    .map(form => ({ formId: form.id, title: form.title, shareableLink: form.shareableLink }));
+}
+
+export async function withSteps(flow: Flow): Promise<FlowWithSteps> {
+  const steps = await getFlowSteps(flow);
+  return {
+    ...flow,
+    steps,
+    startUrl: steps.length > 0 ? getFlowStartUrl(flow, steps[0]) : null,
+  };
+}
+
+// Runs keep their position as an index into formIds, so the steps can't change while a client is partway through
+export async function hasClientsInProgress(flow: Flow): Promise<boolean> {
+  const clientFlows = await storage.getClientFlowsByUserId(flow.userId);
+  return clientFlows.some(clientFlow => clientFlow.flowId === flow.id && clientFlow.status === "in_progress");
+}
+
+// Start a flow for whoever submitted its first form, reusing the client record for a known email
+export async function startClientFlow(flow: Flow, clientName: string, clientEmail: string): Promise<ClientFlow> {
+  const client = await storage.getClientByEmail(flow.userId, clientEmail)
+    ?? await storage.createClient({ userId: flow.userId, name: clientName, email: clientEmail });
+
+  return storage.createClientFlow({
+    flowId: flow.id,
+    clientId: client.id,
+    currentStep: 0,
+    status: "in_progress",
+    accessToken: randomUUID(),
+  });
+}
+
+// Mark the client's current step done and return the form for the next step, if any
+export async function completeFlowStep(clientFlow: ClientFlow, flow: Flow): Promise<{ clientFlow: ClientFlow; nextForm?: Form }> {
+  const formIds = parseFlowFormIds(flow.formIds);
+  const nextStep = clientFlow.currentStep + 1;
+  const completed = nextStep >= formIds.length;
+
+  const updated = await storage.updateClientFlow(clientFlow.id, {
+    currentStep: nextStep,
+    status: completed ? "completed" : "in_progress",
+    completedAt: completed ? new Date() : null,
+  });
+
+  const client = await storage.getClient(clientFlow.clientId);
+  if (client) {
+    // Forms are the first third of onboarding (contract sent = 66%, call scheduled = 100%)
+    await storage.updateClient(client.id, {
+      formStatus: completed ? "completed" : "pending",
+      progress: Math.max(client.progress, Math.round((33 * nextStep) / formIds.length)),
+    });
+  }
+
+  return {
+    clientFlow: updated ?? clientFlow,
+    nextForm: completed ? undefined : await storage.getForm(formIds[nextStep]),
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { FormField } from "@shared/schema";
+import { evaluateCondition, getVisibleFields, splitIntoPages, stripHiddenAnswers } from "./form-logic";
+import { validateSubmission } from "./form-validation";
+
+const visibleIds = (fields: FormField[], answers: Record<string, unknown>) => getVisibleFields(fields, answers).map(field => field.id);
+
+describe("evaluateCondition", () => {
+  it("compares answers case-insensitively", () => {
+    expect(evaluateCondition({ fieldId: "service", operator: "equals", value: "Design " }, { service: "design" })).toBe(true);
+    expect(evaluateCondition({ fieldId: "service", operator: "not_equals", value: "Design" }, { service: "DESIGN" })).toBe(false);
+    expect(evaluateCondition({ fieldId: "service", operator: "contains", value: "sign" }, { service: "Web design" })).toBe(true);
+    expect(evaluateCondition({ fieldId: "service", operator: "contains", value: "" }, { service: "Web design" })).toBe(false);
+  });
+
+  it("reads numbers out of ranges and shorthand", () => {
+    const over5k = { fieldId: "budget", operator: "greater_than", value: "5000" } as const;
+
+    expect(evaluateCondition(over5k, { budget: "$10,000 - $20,000" })).toBe(true);
+    expect(evaluateCondition(over5k, { budget: "$1,000 - $5,000" })).toBe(false);
+    expect(evaluateCondition(over5k, { budget: "Not sure" })).toBe(false);
+    expect(evaluateCondition(over5k, {})).toBe(false);
+  });
+});
+
+describe("conditional fields", () => {
+  const fields: FormField[] = [
+    { id: "name", type: "text", label: "Name", required: true },
+    { id: "service", type: "radio", label: "Service", required: true, options: ["Design", "Development"] },
+    {
+      id: "brand",
+      type: "textarea",
+      label: "Describe your brand",
+      required: true,
+      logic: { action: "show", match: "all", conditions: [{ fieldId: "service", operator: "equals", value: "Design" }] },
+    },
+    {
+      id: "repo",
+      type: "text",
+      label: "Repository URL",
+      required: true,
+      logic: { action: "hide", match: "any", conditions: [{ fieldId: "service", operator: "equals", value: "Design" }, { fieldId: "service", operator: "equals", value: "" }] },
+    },
+  ];
+
+  it("shows and hides fields from earlier answers", () => {
+    expect(visibleIds(fields, { service: "Design" })).toEqual(["name", "service", "brand"]);
+    expect(visibleIds(fields, { service: "Development" })).toEqual(["name", "service", "repo"]);
+    expect(visibleIds(fields, {})).toEqual(["name", "service"]);
+  });
+
+  it("doesn't demand required fields that logic hides", () => {
+    expect(validateSubmission(fields, { name: "Pat", service: "Development", repo: "github.com/pat/site" })).toEqual({
+      success: true,
+      data: { name: "Pat", service: "Development", repo: "github.com/pat/site" },
+    });
+  });
+
+  it("still demands required fields that logic shows", () => {
+    expect(validateSubmission(fields, { name: "Pat", service: "Design" })).toEqual({
+      success: false,
+      errors: { brand: "Describe your brand is required" },
+    });
+  });
+
+  it("drops answers to hidden fields instead of storing them", () => {
+    const answers = { name: "Pat", service: "Design", brand: "Bold", repo: "github.com/pat/site" };
+
+    expect(stripHiddenAnswers(fields, answers)).toEqual({ name: "Pat", service: "Design", brand: "Bold" });
+    expect(validateSubmission(fields, answers)).toEqual({ success: true, data: { name: "Pat", service: "Design", brand: "Bold" } });
+  });
+
+  it("treats a condition on a hidden field as unanswered", () => {
+    const chained: FormField[] = [
+      ...fields,
+      {
+        id: "palette",
+        type: "text",
+        label: "Colors",
+        required: true,
+        logic: { action: "show", match: "all", conditions: [{ fieldId: "brand", operator: "contains", value: "bold" }] },
+      },
+    ];
+
+    expect(visibleIds(chained, { service: "Development", brand: "Bold" })).toEqual(["name", "service", "repo"]);
+  });
+});
+
+describe("skipped pages", () => {
+  const fields: FormField[] = [
+    { id: "name", type: "text", label: "Name", required: true },
+    {
+      id: "hasSite",
+      type: "radio",
+      label: "Do you have a website?",
+      required: true,
+      options: ["Yes", "No"],
+      logic: { action: "skip", match: "all", conditions: [{ fieldId: "hasSite", operator: "equals", value: "No" }], targetFieldId: "timeline-page" },
+    },
+    { id: "site-page", type: "page_break", label: "Your website", required: false },
+    { id: "url", type: "text", label: "Website URL", required: true },
+    { id: "traffic", type: "text", label: "Monthly visitors", required: true },
+    { id: "timeline-page", type: "page_break", label: "Timeline", required: false },
+    { id: "deadline", type: "text", label: "Deadline", required: true },
+  ];
+
+  it("jumps over the pages between the rule and its target", () => {
+    expect(visibleIds(fields, { hasSite: "No" })).toEqual(["name", "hasSite", "timeline-page", "deadline"]);
+    expect(splitIntoPages(getVisibleFields(fields, { hasSite: "No" })).map(page => page.title)).toEqual([undefined, "Timeline"]);
+  });
+
+  it("doesn't demand required fields on a skipped page", () => {
+    expect(validateSubmission(fields, { name: "Pat", hasSite: "No", deadline: "March" }).success).toBe(true);
+  });
+
+  it("demands them when the page isn't skipped", () => {
+    expect(validateSubmission(fields, { name: "Pat", hasSite: "Yes", deadline: "March" })).toEqual({
+      success: false,
+      errors: { url: "Website URL is required", traffic: "Monthly visitors is required" },
+    });
+  });
+
+  it("only jumps forward", () => {
+    const backwards: FormField[] = [
+      { id: "deadline", type: "text", label: "Deadline", required: true },
+      {
+        id: "rush",
+        type: "radio",
+        label: "Rush job?",
+        required: true,
+        options: ["Yes", "No"],
+        logic: { action: "skip", match: "all", conditions: [{ fieldId: "rush", operator: "equals", value: "Yes" }], targetFieldId: "deadline" },
+      },
+      { id: "budget", type: "text", label: "Budget", required: true },
+    ];
+
+    expect(visibleIds(backwards, { rush: "Yes" })).toEqual(["deadline", "rush", "budget"]);
+  });
+});
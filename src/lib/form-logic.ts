@@ -0,0 +1,119 @@
+import type { FieldCondition, FieldConditionOperator, FormField } from "@shared/schema";
+
+export interface FormPage {
+  // Title and description come from the page_break field that opens the page
+  title?: string;
+  description?: string;
+  fields: FormField[];
+}
+
+export function isInputField(field: FormField): boolean {
+  return field.type !== "page_break";
+}
+
+export function hasPageBreaks(fields: FormField[]): boolean {
+  return fields.some(field => !isInputField(field));
+}
+
+export const conditionOperatorLabels: Record<FieldConditionOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  greater_than: "is greater than",
+};
+
+function answerToString(answer: unknown): string {
+  if (answer === undefined || answer === null) return "";
+  if (Array.isArray(answer)) return answer.map(answerToString).join(", ");
+  return String(answer).trim();
+}
+
+// Pull the first number out of answers like "$5,000 - $10,000" or "25k"
+function answerToNumber(answer: string): number {
+  const match = answer.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : NaN;
+}
+
+export function evaluateCondition(condition: FieldCondition, answers: Record<string, unknown>): boolean {
+  const answer = answerToString(answers[condition.fieldId]).toLowerCase();
+  const expected = condition.value.trim().toLowerCase();
+
+  switch (condition.operator) {
+    case "equals":
+      return answer === expected;
+    case "not_equals":
+      return answer !== expected;
+    case "contains":
+      return expected !== "" && answer.includes(expected);
+    case "greater_than": {
+      const actual = answerToNumber(answer);
+      const threshold = answerToNumber(expected);
+      return Number.isFinite(actual) && Number.isFinite(threshold) && actual > threshold;
+    }
+    default:
+      return false;
+  }
+}
+
+function logicMatches(field: FormField, answers: Record<string, unknown>): boolean {
+  const { conditions, match } = field.logic!;
+  return match === "any"
+    ? conditions.some(condition => evaluateCondition(condition, answers))
+    : conditions.every(condition => evaluateCondition(condition, answers));
+}
+
+// Walk the fields in order and return the ones the respondent should see.
+// Answers to hidden fields are ignored, so a condition on a hidden field sees no answer.
+export function getVisibleFields(fields: FormField[], answers: Record<string, unknown>): FormField[] {
+  const visible: FormField[] = [];
+  const visibleAnswers: Record<string, unknown> = {};
+  const positions = new Map(fields.map((field, index) => [field.id, index]));
+  let skipUntil: string | null = null;
+
+  fields.forEach((field, index) => {
+    if (skipUntil) {
+      if (field.id !== skipUntil) return;
+      skipUntil = null;
+    }
+
+    const logic = field.logic;
+    if (logic?.action === "show" && !logicMatches(field, visibleAnswers)) return;
+    if (logic?.action === "hide" && logicMatches(field, visibleAnswers)) return;
+
+    visible.push(field);
+    visibleAnswers[field.id] = answers[field.id];
+
+    // Skip rules are evaluated once the field itself has been answered and only jump forward
+    const target = logic?.action === "skip" && logic.targetFieldId ? positions.get(logic.targetFieldId) : undefined;
+    if (target !== undefined && target > index && logicMatches(field, visibleAnswers)) {
+      skipUntil = logic!.targetFieldId!;
+    }
+  });
+
+  return visible;
+}
+
+// Drop answers to fields that conditional logic hides
+export function stripHiddenAnswers(fields: FormField[], answers: Record<string, unknown>): Record<string, unknown> {
+  const hiddenIds = new Set(fields.map(field => field.id));
+  for (const field of getVisibleFields(fields, answers)) {
+    hiddenIds.delete(field.id);
+  }
+
+  return Object.fromEntries(Object.entries(answers).filter(([key]) => !hiddenIds.has(key)));
+}
+
+// Group fields into pages at each page_break, dropping pages left empty by conditional logic
+export function splitIntoPages(fields: FormField[]): FormPage[] {
+  const pages: FormPage[] = [{ fields: [] }];
+
+  for (const field of fields) {
+    if (isInputField(field)) {
+      pages[pages.length - 1].fields.push(field);
+    } else {
+      pages.push({ title: field.label, description: field.placeholder, fields: [] });
+    }
+  }
+
+  return pages.filter(page => page.fields.length > 0);
+}
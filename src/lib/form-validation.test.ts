@@ -0,0 +1,129 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { FormField } from "@shared/schema";
+import { FORM_ERROR_KEY, validateSubmission } from "./form-validation";
+import { storage } from "./storage";
+
+const fields: FormField[] = [
+  { id: "name", type: "text", label: "Your name", required: true },
+  { id: "email", type: "email", label: "Email", required: true },
+  { id: "budget", type: "select", label: "Budget", required: false, options: ["Under $5k", "$5k+"] },
+  { id: "service", type: "radio", label: "Service", required: true, options: ["Design", "Development"] },
+  { id: "terms", type: "checkbox", label: "Terms", required: true },
+  { id: "notes", type: "textarea", label: "Notes", required: false },
+];
+
+const answers = { name: "Pat Lee", email: "pat@client.com", service: "Design", terms: true };
+
+describe("validateSubmission", () => {
+  it("accepts answers to the form's fields, trimmed", () => {
+    expect(validateSubmission(fields, { ...answers, name: "  Pat Lee  ", budget: "$5k+", notes: "" })).toEqual({
+      success: true,
+      data: { ...answers, budget: "$5k+", notes: "" },
+    });
+  });
+
+  it("rejects keys that aren't fields on the form", () => {
+    expect(validateSubmission(fields, { ...answers, isAdmin: true, userId: "someone" })).toEqual({
+      success: false,
+      errors: {
+        isAdmin: '"isAdmin" is not a field on this form',
+        userId: '"userId" is not a field on this form',
+      },
+    });
+  });
+
+  it("demands required fields, missing or blank", () => {
+    const result = validateSubmission(fields, { name: "   ", terms: false });
+
+    expect(result).toEqual({
+      success: false,
+      errors: {
+        name: "Your name is required",
+        email: "Email is required",
+        service: "Service is required",
+        terms: "Terms is required",
+      },
+    });
+  });
+
+  it("rejects options the field doesn't list", () => {
+    const result = validateSubmission(fields, { ...answers, budget: "$1M", service: "design" });
+
+    expect(result).toEqual({
+      success: false,
+      errors: {
+        budget: "Budget must be one of the listed options",
+        service: "Service must be one of the listed options",
+      },
+    });
+  });
+
+  it.each(["pat", "pat@", "@client.com", "pat client@client.com"])("rejects %j as an email address", (email) => {
+    expect(validateSubmission(fields, { ...answers, email })).toEqual({
+      success: false,
+      errors: { email: "Email must be a valid email address" },
+    });
+  });
+
+  it("rejects answers of the wrong type", () => {
+    expect(validateSubmission(fields, { ...answers, name: ["Pat"], terms: "yes" })).toEqual({
+      success: false,
+      errors: {
+        name: "Your name must be text",
+        terms: "Terms must be checked or unchecked",
+      },
+    });
+  });
+
+  it("reports a body that isn't an object against the whole form", () => {
+    const result = validateSubmission(fields, ["Pat Lee"]);
+
+    expect(result.success).toBe(false);
+    expect(Object.keys(!result.success ? result.errors : {})).toEqual([FORM_ERROR_KEY]);
+  });
+});
+
+describe("POST /api/public/forms/:shareableLink/submit", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_form_validation");
+    vi.stubEnv("SESSION_SECRET", "session-secret");
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  it("answers invalid submissions with the errors for each field", async () => {
+    const owner = await storage.createUser({ username: "validation-owner", email: "validation-owner@example.com", password: "hashed" });
+    const form = await storage.createForm({ userId: owner.id, title: "Project intake", isPublished: true, shareableLink: "unused", fields });
+
+    const response = await fetch(`${baseUrl}/api/public/forms/${form.shareableLink}/submit`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...answers, email: "pat", extra: "x" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      message: "Please correct the highlighted fields",
+      errors: {
+        email: "Email must be a valid email address",
+        extra: '"extra" is not a field on this form',
+      },
+    });
+    expect(await storage.getFormSubmissions(owner.id)).toEqual([]);
+  });
+});
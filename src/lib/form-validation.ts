@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { uploadedFileRefSchema, type FormField } from "@shared/schema";
+import { getVisibleFields, isInputField, stripHiddenAnswers } from "./form-logic";
+
+export type SubmissionErrors = Record<string, string>;
+
+export type SubmissionValidationResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; errors: SubmissionErrors };
+
+// Key used for errors that don't belong to a single field (e.g. a non-object body)
+export const FORM_ERROR_KEY = "_form";
+
+// forms.fields is jsonb, but older rows were saved as a JSON string
+export function parseFormFields(fields: unknown): FormField[] {
+  if (typeof fields === "string") {
+    try {
+      return parseFormFields(JSON.parse(fields));
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(fields) ? (fields as FormField[]) : [];
+}
+
+const emailFormat = z.string().email();
+
+// Per-file size limit for file fields; fields may lower it but not raise it
+export const DEFAULT_MAX_FILE_SIZE_MB = 10;
+export const MAX_FILE_SIZE_MB = 100;
+
+export function getMaxFileSize(field: FormField): number {
+  return Math.min(field.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB, MAX_FILE_SIZE_MB) * 1024 * 1024;
+}
+
+// Files are uploaded in parts of exactly this size, except a smaller last part
+export const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+
+export function getUploadPartCount(fileSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / UPLOAD_PART_SIZE));
+}
+
+// Expected size of a part, so a file's parts can never add up to more than the file
+export function getUploadPartSize(fileSize: number, partNumber: number): number {
+  return Math.min(UPLOAD_PART_SIZE, fileSize - (partNumber - 1) * UPLOAD_PART_SIZE);
+}
+
+// Accepts "image/*" style wildcards, exact MIME types and ".ext" extensions
+export function isAcceptedFileType(field: FormField, file: { name: string; type: string }): boolean {
+  const accepted = field.acceptedFileTypes ?? [];
+  if (accepted.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return accepted.some(rule => {
+    const pattern = rule.trim().toLowerCase();
+    if (pattern.startsWith(".")) return name.endsWith(pattern);
+    if (pattern.endsWith("/*")) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+// Returns why a file can't be uploaded to the field, or undefined when it can
+export function checkFileAgainstField(field: FormField, file: { name: string; type: string; size: number }): string | undefined {
+  if (file.size > getMaxFileSize(field)) {
+    return `${file.name} is larger than ${getMaxFileSize(field) / (1024 * 1024)} MB`;
+  }
+  if (!isAcceptedFileType(field, file)) {
+    return `${file.name} isn't an accepted file type (${field.acceptedFileTypes!.join(", ")})`;
+  }
+  return undefined;
+}
+
+function fieldSchema(field: FormField): z.ZodTypeAny {
+  const requiredMessage = `${field.label} is required`;
+  const text = (invalidTypeMessage: string) =>
+    z.string({ required_error: requiredMessage, invalid_type_error: invalidTypeMessage }).trim();
+  // Optional fields accept a missing key or an empty answer
+  const answer = (schema: z.ZodString) => field.required ? schema.min(1, requiredMessage) : schema.optional();
+
+  switch (field.type) {
+    case "email":
+      return answer(text(`${field.label} must be text`)).refine(
+        value => !value || emailFormat.safeParse(value).success,
+        `${field.label} must be a valid email address`,
+      );
+
+    case "select":
+    case "radio": {
+      const options = field.options ?? [];
+      const message = `${field.label} must be one of the listed options`;
+      return answer(text(message)).refine(value => !value || options.includes(value), message);
+    }
+
+    case "checkbox": {
+      const checked = z.boolean({ required_error: requiredMessage, invalid_type_error: `${field.label} must be checked or unchecked` });
+      return field.required
+        ? checked.refine(value => value, requiredMessage)
+        : checked.optional();
+    }
+
+    case "file": {
+      const maxFiles = field.maxFiles ?? 1;
+      const files = z.array(uploadedFileRefSchema, {
+        required_error: requiredMessage,
+        invalid_type_error: `${field.label} must be a list of uploaded files`,
+      })
+        .max(maxFiles, `${field.label} accepts at most ${maxFiles} file${maxFiles === 1 ? "" : "s"}`)
+        .superRefine((refs, ctx) => {
+          for (const ref of refs) {
+            const problem = checkFileAgainstField(field, ref);
+            if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+          }
+        });
+      return field.required ? files.refine(refs => refs.length > 0, requiredMessage) : files.optional();
+    }
+
+    case "text":
+    case "textarea":
+    default:
+      return answer(text(`${field.label} must be text`));
+  }
+}
+
+// Compile a form's field definitions into a schema for its submissions.
+// Answers are keyed by field id and any key not declared on the form is rejected.
+export function buildSubmissionSchema(fields: FormField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields.filter(isInputField)) {
+    shape[field.id] = fieldSchema(field);
+  }
+  return z.object(shape).strict();
+}
+
+// Fields hidden by conditional logic are neither required nor stored
+export function validateSubmission(fields: FormField[], data: unknown): SubmissionValidationResult {
+  const isAnswerObject = typeof data === "object" && data !== null && !Array.isArray(data);
+  const answers = isAnswerObject ? stripHiddenAnswers(fields, data as Record<string, unknown>) : data;
+  const visibleFields = isAnswerObject ? getVisibleFields(fields, answers as Record<string, unknown>) : fields;
+
+  const result = buildSubmissionSchema(visibleFields).safeParse(answers);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const errors: SubmissionErrors = {};
+  for (const issue of result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        errors[key] = `"${key}" is not a field on this form`;
+      }
+      continue;
+    }
+
+    const key = issue.path.length > 0 ? String(issue.path[0]) : FORM_ERROR_KEY;
+    // Keep the first message per field
+    if (!errors[key]) {
+      errors[key] = issue.message;
+    }
+  }
+
+  return { success: false, errors };
+}
+
+// The fields a client's name and email are read from, and prefilled into when continuing a flow
+export function getIdentityFields(fields: FormField[]) {
+  const textFields = fields.filter(field => field.type === "text");
+  return {
+    nameField: textFields.find(field => /name/i.test(field.label)) ?? textFields[0],
+    emailField: fields.find(field => field.type === "email"),
+  };
+}
+
+// Pick the client's name and email out of validated answers using the field definitions
+export function getClientIdentity(fields: FormField[], answers: Record<string, unknown>) {
+  const answerFor = (field?: FormField) => {
+    const value = field ? answers[field.id] : undefined;
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+
+  const { nameField } = getIdentityFields(fields);
+  const emailField = fields.find(field => field.type === "email" && answerFor(field));
+
+  return {
+    clientName: answerFor(nameField),
+    clientEmail: answerFor(emailField),
+  };
+}
+
+// Validate a single page of a multi-page form, reporting only that page's errors
+export function validateStep(fields: FormField[], stepFields: FormField[], data: Record<string, unknown>): SubmissionErrors {
+  const result = validateSubmission(fields, data);
+  if (result.success) return {};
+
+  const stepIds = new Set(stepFields.map(field => field.id));
+  return Object.fromEntries(Object.entries(result.errors).filter(([key]) => stepIds.has(key)));
+}
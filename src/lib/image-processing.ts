@@ -0,0 +1,89 @@
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { fileStore, readStoredObject } from "./file-storage";
+
+export type ImageKind = "avatar" | "logo";
+
+// Raw upload limit for profile images, checked before decoding
+export const MAX_IMAGE_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Processed images are served from here; the rest of the URL is the file store key
+export const IMAGE_URL_PREFIX = "/api/public/images/";
+
+const acceptedFormats = new Set(["jpeg", "png", "webp", "gif", "avif", "tiff"]);
+
+interface ImageVariant {
+  contentType: string;
+  extension: string;
+  process: (image: sharp.Sharp) => sharp.Sharp;
+}
+
+// Avatars are cropped square; logos keep their aspect ratio and transparency.
+// Logos are PNG because contract PDFs can embed PNG but not WebP.
+const variants: Record<ImageKind, ImageVariant> = {
+  avatar: {
+    contentType: "image/webp",
+    extension: "webp",
+    process: image => image.resize(256, 256, { fit: "cover", position: "attention" }).webp({ quality: 85 }),
+  },
+  logo: {
+    contentType: "image/png",
+    extension: "png",
+    process: image => image.resize(600, 200, { fit: "inside", withoutEnlargement: true }).png({ compressionLevel: 9 }),
+  },
+};
+
+export class ImageValidationError extends Error {}
+
+// Decode, normalise orientation, resize and re-encode an uploaded image, then store it.
+// Returns the public URL of the stored image.
+export async function processAndStoreImage(userId: string, kind: ImageKind, data: Buffer): Promise<string> {
+  // limitInputPixels guards against decompression bombs
+  const image = sharp(data, { limitInputPixels: 40_000_000, animated: false });
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await image.metadata();
+  } catch {
+    throw new ImageValidationError("That file isn't an image we can read");
+  }
+  if (!metadata.format || !acceptedFormats.has(metadata.format)) {
+    throw new ImageValidationError("Images must be JPG, PNG, GIF, WebP or AVIF");
+  }
+  if ((metadata.width ?? 0) < 32 || (metadata.height ?? 0) < 32) {
+    throw new ImageValidationError("Images must be at least 32×32 pixels");
+  }
+
+  const variant = variants[kind];
+  // rotate() applies EXIF orientation; re-encoding drops the rest of the metadata
+  const output = await variant.process(image.rotate()).toBuffer();
+
+  const key = `users/${userId}/${kind}-${randomUUID()}.${variant.extension}`;
+  await fileStore.save(key, output, variant.contentType);
+  return `${IMAGE_URL_PREFIX}${key}`;
+}
+
+export function imageKeyFromUrl(url: string | null | undefined): string | undefined {
+  if (!url?.startsWith(IMAGE_URL_PREFIX)) return undefined;
+  const key = url.slice(IMAGE_URL_PREFIX.length);
+  return /^users\/[\w-]+\/(avatar|logo)-[\w-]+\.(webp|png)$/.test(key) ? key : undefined;
+}
+
+export function imageContentType(key: string): string {
+  return key.endsWith(".png") ? variants.logo.contentType : variants.avatar.contentType;
+}
+
+export async function deleteStoredImage(url: string | null | undefined): Promise<void> {
+  const key = imageKeyFromUrl(url);
+  if (key) {
+    await fileStore.delete(key);
+  }
+}
+
+// Read a stored image back, e.g. to embed a logo in a contract PDF
+export async function loadStoredImage(url: string | null | undefined): Promise<Buffer | undefined> {
+  const key = imageKeyFromUrl(url);
+  if (!key) return undefined;
+
+  return readStoredObject(key).catch(() => undefined);
+}
@@ -0,0 +1,196 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Client, Contract, Form, FormSubmission, InsertNotification, Notification, User } from "@shared/schema";
+import { sessionUserId, storage } from "./storage";
+
+export const NOTIFICATIONS_SOCKET_PATH = "/ws/notifications";
+// How many notifications the bell lists
+export const NOTIFICATION_LIST_LIMIT = 30;
+
+// Dead connections are dropped, and signed-out sessions disconnected, this often
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Close code sent when the session behind a socket has been signed out
+const SIGNED_OUT_CLOSE_CODE = 4001;
+// The socket only pushes to the browser, so anything the browser sends is kept tiny
+const MAX_CLIENT_MESSAGE_BYTES = 1024;
+
+// Messages pushed to the browser over the notifications socket
+export type NotificationEvent =
+  | { type: "notification"; notification: Notification; unreadCount: number }
+  // Read in another tab or device
+  | { type: "notifications_read"; unreadCount: number };
+
+export type NotificationInput = Omit<InsertNotification, "userId">;
+
+interface SocketSession {
+  sid: string;
+  userId: string;
+  alive: boolean;
+}
+
+// Open sockets per user; a user can have several tabs and devices connected
+const userSockets = new Map<string, Set<WebSocket>>();
+const socketSessions = new WeakMap<WebSocket, SocketSession>();
+
+const senderName = (user: User) => user.displayName || user.username;
+
+export const newSubmissionNotification = (form: Form, submission: FormSubmission): NotificationInput => ({
+  type: "submission_received",
+  title: `New response to ${form.title}`,
+  body: `From ${submission.clientName}`,
+  link: "/submissions",
+});
+
+export const zapRespondedNotification = (recipient: User, form: Form): NotificationInput => ({
+  type: "zap_responded",
+  title: `${senderName(recipient)} responded to ${form.title}`,
+  body: "Their answers are in your submissions.",
+  link: "/submissions",
+});
+
+export const zapReceivedNotification = (sender: User, form: Form): NotificationInput => ({
+  type: "zap_received",
+  title: `${senderName(sender)} sent you ${form.title}`,
+  body: "It's waiting in your Zap Inbox.",
+  link: "/zap-inbox",
+});
+
+export const contractSignedNotification = (client: Client, contract: Contract, complete: boolean): NotificationInput => ({
+  type: "contract_signed",
+  title: `${client.name} signed ${contract.title || "your contract"}`,
+  body: complete ? "The contract is fully signed." : "Countersign it to complete the contract.",
+  link: "/submissions",
+});
+
+function publish(userId: string, event: NotificationEvent) {
+  const message = JSON.stringify(event);
+  for (const socket of Array.from(userSockets.get(userId) ?? [])) {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(message);
+    }
+  }
+}
+
+// Saves the notification for the bell and pushes it to the user's open tabs.
+// Like emails, a failure here never fails the request that triggered it.
+export function notifyUser(userId: string, input: NotificationInput): void {
+  (async () => {
+    const notification = await storage.createNotification({ ...input, userId });
+    if (!userSockets.has(userId)) return;
+    publish(userId, { type: "notification", notification, unreadCount: await storage.getUnreadNotificationCount(userId) });
+  })().catch(error => console.error("Error sending notification:", error.message));
+}
+
+// Keeps the unread count in step across the user's tabs after they read something
+export async function publishNotificationsRead(userId: string): Promise<number> {
+  const unreadCount = await storage.getUnreadNotificationCount(userId);
+  publish(userId, { type: "notifications_read", unreadCount });
+  return unreadCount;
+}
+
+// Runs the app's session middleware on the upgrade request, so the socket is signed in
+// exactly when the page that opened it is
+function authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<SocketSession | undefined> {
+  return new Promise((resolve, reject) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, (error?: unknown) => {
+      if (error) return reject(error);
+      const userId = request.session && sessionUserId(request.session);
+      resolve(userId ? { sid: request.sessionID, userId, alive: true } : undefined);
+    });
+  });
+}
+
+// Browsers send cookies with cross-site WebSocket requests, so only accept our own pages
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function refuseUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function sessionStillSignedIn({ sid, userId }: SocketSession): Promise<boolean> {
+  return new Promise(resolve => {
+    storage.sessionStore.get(sid, (error, data) => resolve(!error && !!data && sessionUserId(data) === userId));
+  });
+}
+
+function track(socket: WebSocket, session: SocketSession) {
+  socketSessions.set(socket, session);
+  const sockets = userSockets.get(session.userId) ?? new Set();
+  sockets.add(socket);
+  userSockets.set(session.userId, sockets);
+
+  socket.on("pong", () => {
+    session.alive = true;
+  });
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) userSockets.delete(session.userId);
+  });
+  // Bad frames, such as messages over the size limit, arrive here; unhandled they would crash the server
+  socket.on("error", (error) => {
+    console.error("Notifications socket error:", error.message);
+    socket.terminate();
+  });
+}
+
+async function heartbeat(wss: WebSocketServer) {
+  for (const socket of Array.from(wss.clients)) {
+    const session = socketSessions.get(socket);
+    if (!session || !session.alive) {
+      socket.terminate();
+      continue;
+    }
+    if (!(await sessionStillSignedIn(session))) {
+      socket.close(SIGNED_OUT_CLOSE_CODE, "Signed out");
+      continue;
+    }
+    session.alive = false;
+    socket.ping();
+  }
+}
+
+// Serves the notifications socket on the app's HTTP server. Other upgrade requests
+// (e.g. the dev server's hot reload) are left alone.
+export function attachNotificationSocket(server: Server, sessionMiddleware: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_CLIENT_MESSAGE_BYTES });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== NOTIFICATIONS_SOCKET_PATH) return;
+
+    try {
+      if (!isSameOrigin(req)) return refuseUpgrade(socket, "403 Forbidden");
+      const session = await authenticate(req, sessionMiddleware);
+      if (!session) return refuseUpgrade(socket, "401 Unauthorized");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        track(ws, session);
+        wss.emit("connection", ws, req);
+      });
+    } catch (error: any) {
+      console.error("Error opening notifications socket:", error.message);
+      refuseUpgrade(socket, "500 Internal Server Error");
+    }
+  });
+
+  const interval = setInterval(() => {
+    heartbeat(wss).catch(error => console.error("Error checking notification sockets:", error.message));
+  }, HEARTBEAT_INTERVAL_MS);
+  interval.unref();
+
+  server.on("close", () => {
+    clearInterval(interval);
+    wss.close();
+  });
+}
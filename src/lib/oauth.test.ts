@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { insertUserSchema } from "@shared/schema";
+import { type OAuthClient, OAuthSignInError, signInWithOAuth } from "./oauth";
+import { storage } from "./storage";
+
+const google: OAuthClient = {
+  provider: "google",
+  name: "Google",
+  getAuthorizationUrl: () => "https://accounts.google.com/o/oauth2/auth",
+  getProfile: async () => {
+    throw new Error("Not used in these tests");
+  },
+};
+
+describe("signInWithOAuth", () => {
+  it("links to an existing account whose email was typed in a different case", async () => {
+    const existing = await storage.createUser({ username: "jo-mixed", email: "Jo.Mixed@Example.com", password: "hashed" });
+    await storage.updateUser(existing.id, { emailVerifiedAt: new Date() });
+
+    const user = await signInWithOAuth(google, { providerUserId: "google-jo-mixed", email: "jo.mixed@example.com", emailVerified: true });
+
+    expect(user.id).toBe(existing.id);
+    expect((await storage.getOAuthIdentity("google", "google-jo-mixed"))?.userId).toBe(existing.id);
+  });
+
+  it("won't link an unverified account, whatever the case", async () => {
+    await storage.createUser({ username: "sam-mixed", email: "SAM.MIXED@example.com", password: "hashed" });
+
+    await expect(signInWithOAuth(google, { providerUserId: "google-sam-mixed", email: "sam.mixed@example.com", emailVerified: true }))
+      .rejects.toThrow(OAuthSignInError);
+  });
+
+  it("signs in new accounts registered with a lowercase email", async () => {
+    const registration = insertUserSchema.parse({ username: "pat-mixed", email: " Pat.Mixed@Example.COM ", password: "password1" });
+    expect(registration.email).toBe("pat.mixed@example.com");
+    const registered = await storage.createUser(registration);
+    await storage.updateUser(registered.id, { emailVerifiedAt: new Date() });
+
+    const user = await signInWithOAuth(google, { providerUserId: "google-pat-mixed", email: "pat.mixed@example.com", emailVerified: true });
+    expect(user.id).toBe(registered.id);
+  });
+});
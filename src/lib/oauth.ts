@@ -0,0 +1,228 @@
+import { randomInt } from "crypto";
+import { OAuth2Client } from "google-auth-library";
+import type { OAuthIdentity, OAuthProvider, User } from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl } from "./email";
+
+const GITHUB_API = "https://api.github.com";
+
+// What we need from the provider's account to sign someone in
+export interface OAuthProfile {
+  providerUserId: string;
+  email?: string;
+  // Only verified addresses are used to find or create accounts
+  emailVerified: boolean;
+  displayName?: string;
+  // Starting point for the username of a new account
+  preferredUsername?: string;
+}
+
+// Thrown when a provider rejects the sign-in or the account can't be used; routes
+// send the user back with the message
+export class OAuthSignInError extends Error {}
+
+export interface OAuthClient {
+  readonly provider: OAuthProvider;
+  readonly name: string;
+  getAuthorizationUrl(state: string): string;
+  // Exchanges the code from the callback for the signed-in account
+  getProfile(code: string): Promise<OAuthProfile>;
+}
+
+export const getOAuthCallbackUrl = (provider: OAuthProvider) => appUrl(`/api/auth/${provider}/callback`);
+
+export class GoogleOAuthClient implements OAuthClient {
+  readonly provider = "google";
+  readonly name = "Google";
+  private client: OAuth2Client;
+
+  constructor(private clientId: string, clientSecret: string) {
+    this.client = new OAuth2Client({ clientId, clientSecret, redirectUri: getOAuthCallbackUrl("google") });
+  }
+
+  getAuthorizationUrl(state: string): string {
+    return this.client.generateAuthUrl({
+      scope: ["openid", "email", "profile"],
+      state,
+      prompt: "select_account",
+    });
+  }
+
+  async getProfile(code: string): Promise<OAuthProfile> {
+    let idToken: string | null | undefined;
+    try {
+      ({ tokens: { id_token: idToken } } = await this.client.getToken(code));
+    } catch (error: any) {
+      throw new OAuthSignInError(`Google: ${error.message}`);
+    }
+    if (!idToken) {
+      throw new OAuthSignInError("Google didn't confirm who you are. Please try again.");
+    }
+
+    const ticket = await this.client.verifyIdToken({ idToken, audience: this.clientId });
+    const payload = ticket.getPayload();
+    if (!payload?.sub) {
+      throw new OAuthSignInError("Google didn't confirm who you are. Please try again.");
+    }
+    return {
+      providerUserId: payload.sub,
+      email: payload.email?.toLowerCase(),
+      emailVerified: payload.email_verified === true,
+      displayName: payload.name,
+      preferredUsername: payload.email?.split("@")[0],
+    };
+  }
+}
+
+export class GitHubOAuthClient implements OAuthClient {
+  readonly provider = "github";
+  readonly name = "GitHub";
+
+  constructor(private clientId: string, private clientSecret: string) {}
+
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: getOAuthCallbackUrl("github"),
+      scope: "read:user user:email",
+      state,
+    });
+    return `https://github.com/login/oauth/authorize?${params}`;
+  }
+
+  private async api(accessToken: string, path: string): Promise<any> {
+    const res = await fetch(`${GITHUB_API}${path}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github+json",
+        "User-Agent": "ClientZap",
+      },
+    });
+    if (!res.ok) {
+      throw new OAuthSignInError(`GitHub: ${res.statusText}`);
+    }
+    return res.json();
+  }
+
+  async getProfile(code: string): Promise<OAuthProfile> {
+    const res = await fetch("https://github.com/login/oauth/access_token", {
+      method: "POST",
+      headers: { Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        code,
+        redirect_uri: getOAuthCallbackUrl("github"),
+      }),
+    });
+    const token = await res.json().catch(() => ({})) as { access_token?: string; error_description?: string };
+    if (!token.access_token) {
+      throw new OAuthSignInError(`GitHub: ${token.error_description || res.statusText}`);
+    }
+
+    const account = await this.api(token.access_token, "/user");
+    // The profile email can be hidden or unverified, so use the primary address from the emails API
+    const emails: { email: string; primary: boolean; verified: boolean }[] = await this.api(token.access_token, "/user/emails");
+    const primary = emails.find(email => email.primary);
+    return {
+      providerUserId: String(account.id),
+      email: primary?.email.toLowerCase(),
+      emailVerified: !!primary?.verified,
+      displayName: account.name || account.login,
+      preferredUsername: account.login,
+    };
+  }
+}
+
+// Providers are offered only when their credentials are configured
+function createOAuthClients(): Partial<Record<OAuthProvider, OAuthClient>> {
+  const clients: Partial<Record<OAuthProvider, OAuthClient>> = {};
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    clients.google = new GoogleOAuthClient(process.env.GOOGLE_CLIENT_ID, process.env.GOOGLE_CLIENT_SECRET);
+  }
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    clients.github = new GitHubOAuthClient(process.env.GITHUB_CLIENT_ID, process.env.GITHUB_CLIENT_SECRET);
+  }
+  return clients;
+}
+
+export const oauthClients = createOAuthClients();
+
+export const getOAuthClient = (provider: string): OAuthClient | undefined =>
+  oauthClients[provider as OAuthProvider];
+
+export const listOAuthProviders = () =>
+  Object.values(oauthClients).map(client => ({ id: client.provider, name: client.name }));
+
+const createIdentity = (userId: string, client: OAuthClient, profile: OAuthProfile) =>
+  storage.createOAuthIdentity({
+    userId,
+    provider: client.provider,
+    providerUserId: profile.providerUserId,
+    email: profile.email ?? null,
+    displayName: profile.displayName ?? null,
+  });
+
+// Usernames are unique, so add digits to the provider's name until it's free
+async function generateUsername(profile: OAuthProfile): Promise<string> {
+  const base = (profile.preferredUsername || "").replace(/[^a-zA-Z0-9_.-]/g, "").slice(0, 30) || "user";
+  let username = base;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    if (!(await storage.getUserByUsername(username))) return username;
+    username = `${base}${randomInt(1000, 10000)}`;
+  }
+  throw new Error("Unable to generate a unique username");
+}
+
+// The user the provider account signs in as: the one it's linked to, an existing account with
+// the same verified email (which gets linked), or a new account
+export async function signInWithOAuth(client: OAuthClient, profile: OAuthProfile): Promise<User> {
+  const identity = await storage.getOAuthIdentity(client.provider, profile.providerUserId);
+  if (identity) {
+    const user = await storage.getUser(identity.userId);
+    if (user) return user;
+    await storage.deleteOAuthIdentity(identity.id, identity.userId);
+  }
+
+  if (!profile.email || !profile.emailVerified) {
+    throw new OAuthSignInError(`Your ${client.name} account doesn't have a verified email address. Verify it with ${client.name}, or sign up with a password.`);
+  }
+
+  const existing = await storage.getUserByEmail(profile.email);
+  if (existing) {
+    // An unverified address could have been typed in by anyone, so don't hand them the account
+    if (!existing.emailVerifiedAt) {
+      throw new OAuthSignInError(`An account already uses ${profile.email}. Sign in with your password, then connect ${client.name} from Settings.`);
+    }
+    await createIdentity(existing.id, client, profile);
+    return existing;
+  }
+
+  // createUser gives every new account its ZapLink
+  const created = await storage.createUser({
+    username: await generateUsername(profile),
+    email: profile.email,
+    password: null,
+  });
+  const user = await storage.updateUser(created.id, {
+    displayName: profile.displayName ?? null,
+    emailVerifiedAt: new Date(),
+  });
+  await createIdentity(created.id, client, profile);
+  return user ?? created;
+}
+
+// Connect a provider account to a user who is already signed in
+export async function linkOAuthIdentity(user: User, client: OAuthClient, profile: OAuthProfile): Promise<OAuthIdentity> {
+  const identity = await storage.getOAuthIdentity(client.provider, profile.providerUserId);
+  if (identity) {
+    if (identity.userId === user.id) return identity;
+    throw new OAuthSignInError(`That ${client.name} account is already connected to another ClientZap account.`);
+  }
+
+  const identities = await storage.getOAuthIdentitiesByUser(user.id);
+  if (identities.some(linked => linked.provider === client.provider)) {
+    throw new OAuthSignInError(`You've already connected a ${client.name} account. Disconnect it first to use a different one.`);
+  }
+  return createIdentity(user.id, client, profile);
+}
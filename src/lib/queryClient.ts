@@ -1,8 +1,30 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { PlanDenial } from "./entitlements";
+
+// Thrown for 402 responses so callers can offer an upgrade instead of a generic error
+export class PlanLimitError extends Error {
+  constructor(public denial: PlanDenial) {
+    super(denial.message);
+    this.name = "PlanLimitError";
+  }
+}
+
+function parsePlanDenial(text: string): PlanDenial | undefined {
+  try {
+    const body = JSON.parse(text);
+    return body?.code === "plan_limit_reached" || body?.code === "plan_feature_required" ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    const denial = res.status === 402 ? parsePlanDenial(text) : undefined;
+    if (denial) {
+      throw new PlanLimitError(denial);
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
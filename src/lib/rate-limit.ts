@@ -0,0 +1,91 @@
+import type { Request, RequestHandler, Response } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // What to count requests against, e.g. the client IP or the email being asked about.
+  // Requests without a key aren't limited.
+  key: (req: Request) => string | undefined;
+  message?: string;
+}
+
+// Fixed-window request counter kept in memory, so limits apply per server process
+export function rateLimit({ windowMs, max, key, message = "Too many requests. Please try again later." }: RateLimitOptions): RequestHandler {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop finished windows so the map doesn't grow with every key ever seen
+  setInterval(() => {
+    const now = Date.now();
+    hits.forEach((hit, hitKey) => {
+      if (hit.resetAt <= now) hits.delete(hitKey);
+    });
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const hitKey = key(req);
+    if (!hitKey) return next();
+
+    const now = Date.now();
+    const hit = hits.get(hitKey);
+    if (!hit || hit.resetAt <= now) {
+      hits.set(hitKey, { count: 1, resetAt: now + windowMs });
+      return next();
+    }
+
+    hit.count++;
+    if (hit.count > max) {
+      return sendTooManyRequests(res, hit.resetAt - now, message);
+    }
+    next();
+  };
+}
+
+export function sendTooManyRequests(res: Response, retryAfterMs: number, message: string) {
+  res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  return res.status(429).json({ message });
+}
+
+interface FailureBackoffOptions {
+  // Failures allowed before any waiting
+  freeFailures: number;
+  // Wait after the first failure past freeFailures, doubled for each one after it
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A key's failures are forgotten once it has gone this long without one
+  resetAfterMs: number;
+}
+
+export interface FailureBackoff {
+  // How long the key must wait before trying again, or 0
+  retryAfterMs(key: string): number;
+  recordFailure(key: string): void;
+}
+
+// Exponential backoff on failed attempts, kept in memory like rateLimit
+export function failureBackoff({ freeFailures, baseDelayMs, maxDelayMs, resetAfterMs }: FailureBackoffOptions): FailureBackoff {
+  const failures = new Map<string, { count: number; lastFailureAt: number; blockedUntil: number }>();
+
+  setInterval(() => {
+    const now = Date.now();
+    failures.forEach((failure, failureKey) => {
+      if (failure.lastFailureAt + resetAfterMs <= now) failures.delete(failureKey);
+    });
+  }, resetAfterMs).unref();
+
+  return {
+    retryAfterMs(key) {
+      const failure = failures.get(key);
+      return failure ? Math.max(0, failure.blockedUntil - Date.now()) : 0;
+    },
+
+    recordFailure(key) {
+      const now = Date.now();
+      const previous = failures.get(key);
+      const count = previous && previous.lastFailureAt + resetAfterMs > now ? previous.count + 1 : 1;
+      const delay = count > freeFailures ? Math.min(baseDelayMs * 2 ** (count - freeFailures - 1), maxDelayMs) : 0;
+      failures.set(key, { count, lastFailureAt: now, blockedUntil: now + delay });
+    },
+  };
+}
+
+export const clientIp = (req: Request) => req.ip;
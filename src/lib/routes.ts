@@ -4,9 +4,34 @@ import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
 import { generateContractPDF } from "./contract-generator";
+import { getBranding } from "./branding";
+import { buildClauseLibrary, validateTemplateBody } from "./contract-templates";
+import { applyEnvelopeUpdate, ContractStateError, countersign, getContractFreelancer, getPublicSigningDetails, loadContractDocument, prepareContract, recordContractViewed, renderContractBody, sendContract, sendThroughProvider, signAsClient, toContractSummary, type RequestMeta } from "./contract-signing";
+import { parseFormFields, validateSubmission, getClientIdentity, checkFileAgainstField, getUploadPartCount, getUploadPartSize } from "./form-validation";
+import { fileStore } from "./file-storage";
+import { scheduleUploadCleanup } from "./uploads";
+import { sendEmailVerification } from "./auth-tokens";
+import { listOAuthProviders } from "./oauth";
+import { clientIp, failureBackoff, rateLimit, sendTooManyRequests } from "./rate-limit";
+import { formatWait } from "./account-lockout";
+import { recordSecurityEvent } from "./audit-log";
+import { listUserSessions, signOutOtherSessions, signOutSession } from "./user-sessions";
+import { beginTwoFactorSetup, enableTwoFactor, isTwoFactorEnabled, parseRecoveryCodes, regenerateRecoveryCodes, requireSecondFactor } from "./two-factor";
+import { emailTransport, MemoryEmailTransport, queueEmail } from "./email";
+import { newSubmissionEmail, passwordChangedEmail } from "./email-templates";
+import { bookSlot, BookingConflictError, buildBookingInvite, cancelBooking, getBookableSlots, getOrCreateAvailability } from "./bookings";
+import { getBookingPageUrl } from "./scheduling";
+import { applyInviteeEvent, CALENDLY_SIGNATURE_HEADER, CalendlyApiError, calendlyApi, connectCalendly, disconnectCalendly, FakeCalendlyApi, prefillSchedulingLink, verifyCalendlyWebhook, type InviteeEvent } from "./calendly";
+import { FakeSignatureProvider, signatureProvider, type EnvelopeUpdate } from "./esign-providers";
+import { deleteStoredImage, imageContentType, imageKeyFromUrl, ImageValidationError, MAX_IMAGE_UPLOAD_BYTES, processAndStoreImage } from "./image-processing";
+import { hasPageBreaks } from "./form-logic";
+import { checkFormAcceptsResponses, checkPlanFeature, checkPlanLimit, getPlan, getPlanLimits, getUsage } from "./entitlements";
+import { attachNotificationSocket, NOTIFICATION_LIST_LIMIT, newSubmissionNotification, notifyUser, publishNotificationsRead, zapRespondedNotification } from "./notifications";
+import { blockZapSender, changeZapLink, findUserByZapLink, getReminderWaitMs, getZapProfile, getZapStatus, isZapLinkAvailable, markZapResponded, markZapViewed, regenerateZapLink, remindZapRecipient, reportZap, sendZap, sendZaps, toBlockedZapUser, toInboxZap, toSentZap, toZapContact, toZapRecipientStatus, ZapSendError } from "./zaps";
+import { completeFlowStep, getFlowStepUrl, getFlowSteps, hasClientsInProgress, parseFlowFormIds, startClientFlow, withSteps, type ClientFlowSummary, type PublicFlowProgress } from "./flows";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { insertClientSchema, insertFormSchema, insertContractSchema, insertSharedFormSchema, updateUserProfileSchema, updatePasswordSchema } from "@shared/schema";
+import { insertClientSchema, insertFormSchema, insertContractSchema, insertSharedFormSchema, insertFlowSchema, insertContractTemplateSchema, insertContractClauseSchema, updateUserProfileSchema, updatePasswordSchema, twoFactorCodeSchema, signContractSchema, connectCalendlySchema, updateAvailabilitySchema, createBookingSchema, bulkSendZapSchema, addZapContactSchema, updateZapPrivacySchema, reportZapSchema, vanityZapLinkSchema, type ClientFlow, type Flow, type Form, type FormSubmission, type SharedForm, type UploadedFile, type UploadedFileRef, type User } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -35,7 +60,7 @@ async function comparePasswords(supplied: string, stored: string) {
 
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Serve static contract files
   app.use('/contracts', express.static(path.join(process.cwd(), 'contracts')));
@@ -66,15 +91,44 @@ export function registerRoutes(app: Express): Server {
     next();
   };
 
+  // Changing the sign-in email needs the second factor, like a password change; other profile edits don't
+  const requireSecondFactorForEmailChange = (req: any, res: any, next: any) => {
+    const email = req.body?.email;
+    if (typeof email === "string" && email.trim().toLowerCase() !== req.user.email.toLowerCase()) {
+      return requireSecondFactor(req, res, next);
+    }
+    next();
+  };
+
   // User profile routes
-  app.put("/api/user/profile", requireAuth, async (req: any, res) => {
+  app.put("/api/user/profile", requireAuth, requireSecondFactorForEmailChange, async (req: any, res) => {
     try {
       const validatedData = updateUserProfileSchema.parse(req.body);
-      const updatedUser = await storage.updateUser(req.user.id, validatedData);
+
+      // Images can only be set to ones this user uploaded, or cleared
+      for (const column of ["profilePicture", "businessLogo"] as const) {
+        const url = validatedData[column];
+        if (url && !imageKeyFromUrl(url)?.startsWith(`users/${req.user.id}/`)) {
+          return res.status(400).json({ message: "Upload images through the image upload endpoints" });
+        }
+      }
+
+      // A new address has to be verified again
+      const emailChanged = validatedData.email !== undefined && validatedData.email !== req.user.email.toLowerCase();
+      const updatedUser = await storage.updateUser(req.user.id, emailChanged ? { ...validatedData, emailVerifiedAt: null } : validatedData);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (emailChanged) {
+        sendEmailVerification(updatedUser).catch(error => console.error("Error sending verification email:", error.message));
+      }
+
+      for (const column of ["profilePicture", "businessLogo"] as const) {
+        if (validatedData[column] !== undefined && req.user[column] !== updatedUser[column]) {
+          await deleteStoredImage(req.user[column]);
+        }
+      }
       
       res.json(updatedUser);
     } catch (error: any) {
@@ -82,6 +136,68 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Profile picture and business logo uploads; the request body is the raw image
+  const profileImages = [
+    { path: "/api/user/profile-picture", kind: "avatar", column: "profilePicture" },
+    { path: "/api/user/business-logo", kind: "logo", column: "businessLogo" },
+  ] as const;
+
+  for (const { path: imagePath, kind, column } of profileImages) {
+    app.post(imagePath, requireAuth, express.raw({ type: "image/*", limit: MAX_IMAGE_UPLOAD_BYTES }), async (req: any, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Send the image as the request body with an image/* content type" });
+        }
+
+        const url = await processAndStoreImage(req.user.id, kind, req.body);
+        const updatedUser = await storage.updateUser(req.user.id, { [column]: url });
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        await deleteStoredImage(req.user[column]);
+        res.json(updatedUser);
+      } catch (error: any) {
+        res.status(error instanceof ImageValidationError ? 400 : 500).json({ message: error.message });
+      }
+    });
+
+    app.delete(imagePath, requireAuth, async (req: any, res) => {
+      try {
+        const updatedUser = await storage.updateUser(req.user.id, { [column]: null });
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        await deleteStoredImage(req.user[column]);
+        res.json(updatedUser);
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      }
+    });
+  }
+
+  // Processed profile images, public so they can appear on public forms
+  app.get("/api/public/images/*", async (req, res) => {
+    const key = imageKeyFromUrl(req.path);
+    if (!key) {
+      return res.status(404).json({ message: "Image not found" });
+    }
+
+    res.setHeader("Content-Type", imageContentType(key));
+    // Keys are never reused, so images can be cached indefinitely
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    fileStore.createReadStream(key)
+      .on("error", () => {
+        if (!res.headersSent) {
+          res.status(404).json({ message: "Image not found" });
+        } else {
+          res.destroy();
+        }
+      })
+      .pipe(res);
+  });
+
   // ===== STRIPE BILLING ROUTES =====
 
   // Create Stripe Checkout Session for Pro subscription
@@ -283,18 +399,41 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.put("/api/user/password", requireAuth, async (req: any, res) => {
+  // Wrong current passwords slow down exponentially for the account
+  const passwordChangeBackoff = failureBackoff({
+    freeFailures: 5,
+    baseDelayMs: 30 * 1000,
+    maxDelayMs: 60 * 60 * 1000,
+    resetAfterMs: 60 * 60 * 1000,
+  });
+
+  app.put("/api/user/password", requireAuth, requireSecondFactor, async (req: any, res) => {
     try {
-      const validatedData = updatePasswordSchema.parse(req.body);
+      const waitMs = passwordChangeBackoff.retryAfterMs(req.user.id);
+      if (waitMs > 0) {
+        return sendTooManyRequests(res, waitMs, `Too many wrong passwords. Please wait ${formatWait(waitMs)} and try again.`);
+      }
+
+      const parsed = updatePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const validatedData = parsed.data;
       const user = await storage.getUser(req.user.id);
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
+      // Accounts created through Google or GitHub set their first password with a reset link
+      if (!user.password) {
+        return res.status(400).json({ message: "Your account doesn't have a password yet. Use the reset link to set one." });
+      }
+
       // Verify current password
       const isCurrentPasswordValid = await comparePasswords(validatedData.currentPassword, user.password);
       if (!isCurrentPasswordValid) {
+        passwordChangeBackoff.recordFailure(req.user.id);
         return res.status(400).json({ message: "Current password is incorrect" });
       }
       
@@ -307,14 +446,175 @@ export function registerRoutes(app: Express): Server {
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json({ message: "Password updated successfully" });
+
+      // Sign out everywhere else, in case the old password was the reason for the change
+      const signedOutSessions = await signOutOtherSessions(req.user.id, req.sessionID);
+      recordSecurityEvent(req, "password_changed", req.user.id, { signedOutSessions });
+      queueEmail(passwordChangedEmail(updatedUser));
+      res.json({ message: "Password updated successfully", signedOutSessions });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/user/account", requireAuth, async (req: any, res) => {
+  // Two-factor authentication
+  app.get("/api/user/two-factor", requireAuth, async (req: any, res) => {
+    try {
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      res.json({
+        enabled: !!credential?.enabledAt,
+        recoveryCodesRemaining: credential?.enabledAt ? parseRecoveryCodes(credential.recoveryCodes).length : 0,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/setup", requireAuth, async (req: any, res) => {
+    try {
+      if (await isTwoFactorEnabled(req.user.id)) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+
+      res.json(await beginTwoFactorSetup(req.user));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      if (!credential) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (credential.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const recoveryCodes = await enableTwoFactor(credential, parsed.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "That code isn't valid. Check your app and try the latest code." });
+      }
+      recordSecurityEvent(req, "two_factor_enabled", req.user.id);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/recovery-codes", requireAuth, requireSecondFactor, async (req: any, res) => {
+    try {
+      if (!(await isTwoFactorEnabled(req.user.id))) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(req.user.id);
+      recordSecurityEvent(req, "recovery_codes_regenerated", req.user.id);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/user/two-factor", requireAuth, requireSecondFactor, async (req: any, res) => {
+    try {
+      await storage.deleteTwoFactorCredential(req.user.id);
+      recordSecurityEvent(req, "two_factor_disabled", req.user.id);
+      res.json({ message: "Two-factor authentication is off" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Recent sign-ins and security changes, for the Security tab
+  app.get("/api/user/security-events", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getSecurityEventsByUser(req.user.id, 20));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Browsers and devices signed in to the account
+  app.get("/api/user/sessions", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await listUserSessions(req));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", requireAuth, async (req: any, res) => {
+    try {
+      const sessions = await listUserSessions(req);
+      if (sessions.find(session => session.id === req.params.id)?.current) {
+        return res.status(400).json({ message: "Use Log Out to end this session" });
+      }
+      if (!(await signOutSession(req.user.id, req.params.id))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      recordSecurityEvent(req, "sessions_revoked", req.user.id, { signedOutSessions: 1 });
+      res.json({ message: "Session signed out" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/user/sessions/sign-out-others", requireAuth, async (req: any, res) => {
+    try {
+      const signedOutSessions = await signOutOtherSessions(req.user.id, req.sessionID);
+      if (signedOutSessions > 0) {
+        recordSecurityEvent(req, "sessions_revoked", req.user.id, { signedOutSessions });
+      }
+      res.json({ signedOutSessions });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Google and GitHub accounts the user can sign in with
+  app.get("/api/user/identities", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const identities = await storage.getOAuthIdentitiesByUser(req.user.id);
+      res.json({
+        identities,
+        hasPassword: !!user?.password,
+        providers: listOAuthProviders(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/user/identities/:id", requireAuth, requireSecondFactor, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const identities = await storage.getOAuthIdentitiesByUser(req.user.id);
+      const identity = identities.find(linked => linked.id === req.params.id);
+      if (!identity) {
+        return res.status(404).json({ message: "Connected account not found" });
+      }
+      // Keep at least one way to sign in
+      if (!user?.password && identities.length === 1) {
+        return res.status(400).json({ message: "Set a password before disconnecting your only sign-in method" });
+      }
+
+      await storage.deleteOAuthIdentity(identity.id, req.user.id);
+      recordSecurityEvent(req, "identity_unlinked", req.user.id, { provider: identity.provider });
+      res.json({ message: "Account disconnected" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/user/account", requireAuth, requireSecondFactor, async (req: any, res) => {
     try {
       const deleted = await storage.deleteUser(req.user.id);
       
@@ -343,15 +643,73 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "User not found" });
       }
       
+      // Replaced ZapLinks that still reach the user
+      const redirects = await storage.getZapLinkRedirectsByUser(user.id);
+      const previousZapLinks = redirects
+        .filter(redirect => redirect.expiresAt.getTime() > Date.now())
+        .map(({ zapLink, expiresAt }) => ({ zapLink, expiresAt }));
+
       res.json({ 
         zapLink: user.zapLink,
-        fullUrl: `clientzap.com/zap/${user.zapLink}`
+        fullUrl: `clientzap.com/zap/${user.zapLink}`,
+        previousZapLinks,
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Claim a vanity ZapLink (Pro)
+  app.put("/api/user/zaplink", requireAuth, async (req: any, res) => {
+    try {
+      const denial = checkPlanFeature(req.user, "hasVanityZapLink");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+      const parsed = vanityZapLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { zapLink } = parsed.data;
+      if (zapLink === req.user.zapLink.toLowerCase()) {
+        return res.status(400).json({ message: "That's already your ZapLink" });
+      }
+      if (!(await isZapLinkAvailable(req.user, zapLink))) {
+        return res.status(409).json({ message: "That ZapLink is taken" });
+      }
+
+      const user = await changeZapLink(req.user, zapLink);
+      recordSecurityEvent(req, "zaplink_changed", user.id, { from: req.user.zapLink, to: user.zapLink });
+      res.json(user);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Swap the ZapLink for a new random code, e.g. after it's been spammed
+  app.post("/api/user/zaplink/regenerate", requireAuth, async (req: any, res) => {
+    try {
+      const user = await regenerateZapLink(req.user);
+      recordSecurityEvent(req, "zaplink_changed", user.id, { from: req.user.zapLink, to: user.zapLink, regenerated: true });
+      res.json(user);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public ZapLink profile: who the freelancer is and their published forms
+  app.get("/api/public/zap/:code", async (req, res) => {
+    try {
+      const user = await findUserByZapLink(req.params.code);
+      if (!user) {
+        return res.status(404).json({ message: "❌ Zap Link not found" });
+      }
+      res.json(await getZapProfile(user));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Billing API endpoints
   app.get("/api/billing", requireAuth, async (req: any, res) => {
     try {
@@ -387,15 +745,12 @@ export function registerRoutes(app: Express): Server {
 
   app.get("/api/subscription/usage", requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const forms = await storage.getFormsByUserId(userId);
-      const clients = await storage.getClientsByUserId(userId);
-      const formSubmissions = await storage.getFormSubmissions(userId);
+      const usage = await getUsage(req.user);
       
       res.json({
-        formsCount: forms.length,
-        zapsCount: formSubmissions.length,
-        clientsCount: clients.length,
+        ...usage,
+        plan: getPlan(req.user),
+        limits: getPlanLimits(req.user),
       });
     } catch (error: any) {
       console.error("Error fetching usage stats:", error);
@@ -502,6 +857,11 @@ export function registerRoutes(app: Express): Server {
 
   app.post("/api/clients", requireAuth, async (req: any, res) => {
     try {
+      const denial = await checkPlanLimit(req.user, "clients");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
       const validatedData = insertClientSchema.parse({
         ...req.body,
         userId: req.user.id,
@@ -553,10 +913,23 @@ export function registerRoutes(app: Express): Server {
 
   app.post("/api/forms", requireAuth, async (req: any, res) => {
     try {
+      const denial = await checkPlanLimit(req.user, "forms");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
       const validatedData = insertFormSchema.parse({
         ...req.body,
         userId: req.user.id,
       });
+
+      if (hasPageBreaks(validatedData.fields)) {
+        const featureDenial = checkPlanFeature(req.user, "hasMultiFormFlows");
+        if (featureDenial) {
+          return res.status(402).json(featureDenial);
+        }
+      }
+
       const form = await storage.createForm(validatedData);
       res.status(201).json(form);
     } catch (error: any) {
@@ -571,6 +944,23 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Form not found" });
       }
 
+      if (req.body.fields && hasPageBreaks(parseFormFields(req.body.fields))) {
+        const featureDenial = checkPlanFeature(req.user, "hasMultiFormFlows");
+        if (featureDenial) {
+          return res.status(402).json(featureDenial);
+        }
+      }
+
+      // Publishing counts against the plan's form limit
+      if (req.body.isPublished && !form.isPublished) {
+        const forms = await storage.getFormsByUserId(req.user.id);
+        const publishedCount = forms.filter(f => f.isPublished && f.id !== form.id).length;
+        const denial = await checkPlanLimit(req.user, "forms", publishedCount);
+        if (denial) {
+          return res.status(402).json(denial);
+        }
+      }
+
       const updatedForm = await storage.updateForm(req.params.id, req.body);
       res.json(updatedForm);
     } catch (error: any) {
@@ -585,6 +975,12 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Form not found" });
       }
 
+      const flows = await storage.getFlowsByUserId(req.user.id);
+      const flow = flows.find(f => parseFlowFormIds(f.formIds).includes(form.id));
+      if (flow) {
+        return res.status(409).json({ message: `This form is a step in the "${flow.name}" onboarding flow. Remove it from the flow first.` });
+      }
+
       const deleted = await storage.deleteForm(req.params.id);
       if (deleted) {
         res.status(204).send();
@@ -596,330 +992,1552 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Public form submission endpoint
-  app.get("/api/public/forms/:shareableLink", async (req, res) => {
+  // Onboarding flow routes
+  app.get("/api/flows", requireAuth, async (req: any, res) => {
     try {
-      const form = await storage.getFormByShareableLink(req.params.shareableLink);
-      if (!form || !form.isPublished) {
-        return res.status(404).json({ message: "Form not found" });
-      }
-      res.json(form);
+      const flows = await storage.getFlowsByUserId(req.user.id);
+      res.json(await Promise.all(flows.map(withSteps)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Submit public form (no authentication required)
-  app.post("/api/public/forms/:shareableLink/submit", async (req, res) => {
+  app.post("/api/flows", requireAuth, async (req: any, res) => {
     try {
-      const form = await storage.getFormByShareableLink(req.params.shareableLink);
-      if (!form || !form.isPublished) {
-        return res.status(404).json({ message: "Form not found" });
+      const denial = checkPlanFeature(req.user, "hasMultiFormFlows");
+      if (denial) {
+        return res.status(402).json(denial);
       }
 
-      // Extract client name and email from submission data
-      const submissionData = req.body;
-      const clientName = submissionData.name || submissionData.fullName || submissionData.clientName || "Unknown";
-      const clientEmail = submissionData.email || submissionData.clientEmail || "";
+      const validatedData = insertFlowSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
 
-      if (!clientEmail) {
-        return res.status(400).json({ message: "Email is required" });
+      const forms = await storage.getFormsByUserId(req.user.id);
+      if (!validatedData.formIds.every(id => forms.some(form => form.id === id))) {
+        return res.status(400).json({ message: "Flows can only include your own forms" });
       }
 
-      // Create form submission
-      const submission = await storage.createFormSubmission({
-        formId: form.id,
-        clientName,
-        clientEmail,
-        submissionData,
-        calendlyLink: form.calendlyLink || undefined
-      });
-
-      res.status(201).json({
-        message: "Form submitted successfully",
-        submissionId: submission.id,
-        calendlyLink: submission.calendlyLink,
-        showCalendlyButton: !!submission.calendlyLink
-      });
+      const flow = await storage.createFlow(validatedData);
+      res.status(201).json(await withSteps(flow));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  // Send form to zapLink
-  app.post("/api/forms/:formId/send", requireAuth, async (req: any, res) => {
+  app.put("/api/flows/:id", requireAuth, async (req: any, res) => {
     try {
-      const formId = req.params.formId;
-      const { zapLink } = req.body;
-
-      if (!zapLink) {
-        return res.status(400).json({ message: "ZapLink is required" });
+      const flow = await storage.getFlow(req.params.id);
+      if (!flow || flow.userId !== req.user.id) {
+        return res.status(404).json({ message: "Flow not found" });
       }
 
-      // Extract zapLink ID from full URL or use as is
-      let zapLinkId = zapLink;
-      if (zapLink.includes('clientzap.com/zap/')) {
-        zapLinkId = zapLink.split('clientzap.com/zap/')[1];
-      }
-      if (zapLinkId.startsWith('/')) {
-        zapLinkId = zapLinkId.substring(1);
+      const denial = checkPlanFeature(req.user, "hasMultiFormFlows");
+      if (denial) {
+        return res.status(402).json(denial);
       }
 
-      // Verify the form exists and belongs to the sender
-      const form = await storage.getForm(formId);
-      if (!form) {
-        return res.status(404).json({ message: "Form not found" });
-      }
-      if (form.userId !== req.user.id) {
-        return res.status(403).json({ message: "You don't have permission to send this form" });
+      const updates = insertFlowSchema.omit({ userId: true }).partial().parse(req.body);
+      if (updates.formIds) {
+        const forms = await storage.getFormsByUserId(req.user.id);
+        if (!updates.formIds.every(id => forms.some(form => form.id === id))) {
+          return res.status(400).json({ message: "Flows can only include your own forms" });
+        }
+        const stepsChanged = updates.formIds.join(",") !== parseFlowFormIds(flow.formIds).join(",");
+        if (stepsChanged && await hasClientsInProgress(flow)) {
+          return res.status(409).json({
+            message: "Clients are partway through this flow, so its forms can't be changed. Create a new flow instead.",
+          });
+        }
       }
 
-      // Find the recipient by zapLink
-      const recipient = await storage.getUserByZapLink(zapLinkId);
-      if (!recipient) {
-        return res.status(404).json({ message: "❌ Zap Link not found" });
-      }
+      const updatedFlow = await storage.updateFlow(req.params.id, updates);
+      res.json(await withSteps(updatedFlow!));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      // Prevent sending to yourself
-      if (recipient.id === req.user.id) {
-        return res.status(400).json({ message: "You cannot send a form to yourself" });
+  app.delete("/api/flows/:id", requireAuth, async (req: any, res) => {
+    try {
+      const flow = await storage.getFlow(req.params.id);
+      if (!flow || flow.userId !== req.user.id) {
+        return res.status(404).json({ message: "Flow not found" });
       }
 
-      // Create the shared form record
-      const sharedForm = await storage.shareFormToUser({
-        formId: form.id,
-        senderId: req.user.id,
-        recipientId: recipient.id,
-      });
-
-      res.json({ 
-        message: "✅ Form sent successfully!",
-        sharedFormId: sharedForm.id,
-        recipientName: recipient.displayName || recipient.username
-      });
+      await storage.deleteFlow(req.params.id);
+      res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get shared forms (Zap Inbox)
-  app.get("/api/zap-inbox", requireAuth, async (req: any, res) => {
+  // Where each client is in the user's flows, for the dashboard pipeline
+  app.get("/api/flows/clients", requireAuth, async (req: any, res) => {
     try {
-      const sharedForms = await storage.getSharedFormsForUser(req.user.id);
-      res.json(sharedForms);
+      const clientFlows = await storage.getClientFlowsByUserId(req.user.id);
+      const summaries: ClientFlowSummary[] = await Promise.all(clientFlows.map(async ({ flow, client, ...clientFlow }) => {
+        const steps = await getFlowSteps(flow);
+        return {
+          ...clientFlow,
+          flow: { id: flow.id, name: flow.name },
+          client: { id: client.id, name: client.name, email: client.email },
+          totalSteps: steps.length,
+          currentStepTitle: steps[clientFlow.currentStep]?.title ?? null,
+        };
+      }));
+      res.json(summaries);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Delete a shared form from user's Zap Inbox
-  app.delete("/api/zap-inbox/:sharedFormId", requireAuth, async (req: any, res) => {
+  // Public flow details shown before the client has started
+  app.get("/api/public/flows/:shareableLink", async (req, res) => {
     try {
-      const { sharedFormId } = req.params;
-      await storage.deleteSharedForm(sharedFormId, req.user.id);
-      res.json({ success: true });
+      const flow = await storage.getFlowByShareableLink(req.params.shareableLink);
+      if (!flow) {
+        return res.status(404).json({ message: "Onboarding flow not found" });
+      }
+
+      const steps = await getFlowSteps(flow);
+      const progress: PublicFlowProgress = {
+        flowName: flow.name,
+        currentStep: 0,
+        totalSteps: steps.length,
+        status: "not_started",
+        steps: steps.map(step => ({ title: step.title })),
+      };
+      res.json(progress);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get form submissions for authenticated user
-  app.get("/api/submissions", requireAuth, async (req: any, res) => {
+  // A client's progress through a flow, looked up by the token in their step links
+  app.get("/api/public/flow-runs/:accessToken", async (req, res) => {
     try {
-      const submissions = await storage.getFormSubmissions(req.user.id);
-      res.json(submissions);
+      const clientFlow = await storage.getClientFlowByToken(req.params.accessToken);
+      const flow = clientFlow && await storage.getFlow(clientFlow.flowId);
+      const client = clientFlow && await storage.getClient(clientFlow.clientId);
+      if (!clientFlow || !flow || !client) {
+        return res.status(404).json({ message: "Onboarding flow not found" });
+      }
+
+      const steps = await getFlowSteps(flow);
+      const progress: PublicFlowProgress = {
+        flowName: flow.name,
+        currentStep: clientFlow.currentStep,
+        totalSteps: steps.length,
+        status: clientFlow.status,
+        steps: steps.map(step => ({ title: step.title })),
+        clientName: client.name,
+        clientEmail: client.email,
+      };
+      res.json(progress);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Generate contract from form submission
-  app.post("/api/submissions/:id/contract", requireAuth, async (req: any, res) => {
+  // Public form submission endpoint
+  app.get("/api/public/forms/:shareableLink", async (req, res) => {
     try {
-      const submission = await storage.getFormSubmissionById(req.params.id);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
-      }
+      const form = await storage.getFormByShareableLink(req.params.shareableLink);
+      if (!form || !form.isPublished) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      // The owner's branding, as allowed by their plan
+      const owner = await storage.getUser(form.userId);
+      if (!owner) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      res.json({ ...form, branding: getBranding(owner, getPlanLimits(owner)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Submit public form (no authentication required)
+  app.post("/api/public/forms/:shareableLink/submit", async (req, res) => {
+    try {
+      const form = await storage.getFormByShareableLink(req.params.shareableLink);
+      if (!form || !form.isPublished) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const owner = await storage.getUser(form.userId);
+      if (!owner) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      const denial = await checkFormAcceptsResponses(owner, form);
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
+      // Forms opened from an onboarding flow either start it (?flow=) or continue a client's run (?run=)
+      let flow: Flow | undefined;
+      let clientFlow: ClientFlow | undefined;
+      if (typeof req.query.run === "string") {
+        clientFlow = await storage.getClientFlowByToken(req.query.run);
+        flow = clientFlow && await storage.getFlow(clientFlow.flowId);
+        if (!clientFlow || !flow) {
+          return res.status(404).json({ message: "Onboarding flow not found" });
+        }
+        if (parseFlowFormIds(flow.formIds)[clientFlow.currentStep] !== form.id) {
+          return res.status(409).json({ message: "This form isn't the next step of your onboarding" });
+        }
+      } else if (typeof req.query.flow === "string") {
+        flow = await storage.getFlowByShareableLink(req.query.flow);
+        if (!flow || flow.userId !== form.userId || parseFlowFormIds(flow.formIds)[0] !== form.id) {
+          return res.status(404).json({ message: "Onboarding flow not found" });
+        }
+      }
+
+      // Forms opened from the Zap Inbox (?zap=) are answered by the signed-in recipient, and the
+      // submission goes back to the sender linked to the zap
+      let sharedForm: SharedForm | undefined;
+      if (typeof req.query.zap === "string") {
+        if (!req.user) {
+          return res.status(401).json({ message: "Sign in to respond to this zap" });
+        }
+        sharedForm = await storage.getSharedForm(req.query.zap);
+        if (!sharedForm || sharedForm.recipientId !== req.user.id || sharedForm.formId !== form.id) {
+          return res.status(404).json({ message: "Zap not found" });
+        }
+        if (getZapStatus(sharedForm) === "responded") {
+          return res.status(409).json({ message: "You've already responded to this zap" });
+        }
+      }
+      const zapRecipient = sharedForm ? req.user : undefined;
+
+      // Validate answers against the form's field definitions
+      const fields = parseFormFields(form.fields);
+      const validation = validateSubmission(fields, req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Please correct the highlighted fields",
+          errors: validation.errors,
+        });
+      }
+
+      // Uploaded files must have finished uploading to this field of this form
+      const uploads: UploadedFile[] = [];
+      for (const field of fields.filter(f => f.type === "file")) {
+        const refs = (validation.data[field.id] ?? []) as UploadedFileRef[];
+        const fieldUploads = await Promise.all(refs.map(ref => storage.getUploadedFile(ref.id)));
+        if (fieldUploads.some(upload => !upload || upload.formId !== form.id || upload.fieldId !== field.id || upload.status !== "complete" || upload.submissionId)) {
+          return res.status(400).json({
+            message: "Please correct the highlighted fields",
+            errors: { [field.id]: `${field.label} has a file that didn't finish uploading` },
+          });
+        }
+        uploads.push(...fieldUploads as UploadedFile[]);
+        // Store what was actually uploaded rather than what the browser claimed
+        validation.data[field.id] = (fieldUploads as UploadedFile[]).map(upload => ({
+          id: upload.id,
+          name: upload.fileName,
+          size: upload.size,
+          type: upload.contentType,
+        }));
+      }
+
+      // Extract client name and email from submission data, falling back to
+      // the client already known from earlier steps of their flow
+      const submissionData = validation.data as Record<string, any>;
+      const identity = getClientIdentity(fields, submissionData);
+      const flowClient = clientFlow && await storage.getClient(clientFlow.clientId);
+      const clientName = identity.clientName || submissionData.name || submissionData.fullName || submissionData.clientName || flowClient?.name || zapRecipient?.displayName || zapRecipient?.username || "Unknown";
+      const clientEmail = identity.clientEmail || submissionData.email || submissionData.clientEmail || flowClient?.email || zapRecipient?.email || "";
+
+      if (!clientEmail) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      if (flow && !clientFlow) {
+        clientFlow = await startClientFlow(flow, clientName, clientEmail);
+      }
+
+      // The form's own scheduling link wins over the owner's connected Calendly page,
+      // then the built-in booking page
+      const calendly = await storage.getCalendlyConnection(form.userId);
+      const availability = await storage.getAvailabilitySettings(form.userId);
+      const schedulingLink = form.calendlyLink || calendly?.schedulingUrl;
+
+      // Create form submission
+      const submission = await storage.createFormSubmission({
+        formId: form.id,
+        clientName,
+        clientEmail,
+        submissionData,
+        calendlyLink: schedulingLink ? prefillSchedulingLink(schedulingLink, { name: clientName, email: clientEmail }) : undefined,
+        clientFlowId: clientFlow?.id,
+        sharedFormId: sharedForm?.id,
+      });
+      if (!schedulingLink && availability?.enabled) {
+        // The booking page links the booking back to this submission
+        submission.calendlyLink = getBookingPageUrl(availability.bookingLink, { name: clientName, email: clientEmail, submissionId: submission.id });
+        await storage.updateFormSubmission(submission.id, { calendlyLink: submission.calendlyLink });
+      }
+
+      await Promise.all(uploads.map(upload => storage.updateUploadedFile(upload.id, { submissionId: submission.id })));
+      queueEmail(newSubmissionEmail(owner, form, submission));
+      if (sharedForm) {
+        await markZapResponded(sharedForm);
+      }
+      notifyUser(owner.id, zapRecipient ? zapRespondedNotification(zapRecipient, form) : newSubmissionNotification(form, submission));
+
+      let nextStepUrl: string | undefined;
+      if (flow && clientFlow) {
+        const { clientFlow: progressed, nextForm } = await completeFlowStep(clientFlow, flow);
+        nextStepUrl = nextForm ? getFlowStepUrl(nextForm, progressed) : undefined;
+      }
+
+      res.status(201).json({
+        message: "Form submitted successfully",
+        submissionId: submission.id,
+        calendlyLink: submission.calendlyLink,
+        showCalendlyButton: !!submission.calendlyLink && !nextStepUrl,
+        nextStepUrl,
+        flowCompleted: !!flow && !nextStepUrl,
+        zapResponded: !!sharedForm,
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Resumable uploads for file fields, driven by Uppy's multipart uploader on the public form.
+  // The file id returned here is the capability for the remaining upload calls. Uploads that
+  // never make it into a submission are deleted after a day (see uploads.ts).
+  const limitUploadsByIp = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 100,
+    key: clientIp,
+    message: "Too many uploads. Please try again later.",
+  });
+  app.post("/api/public/forms/:shareableLink/uploads", limitUploadsByIp, async (req, res) => {
+    try {
+      const form = await storage.getFormByShareableLink(req.params.shareableLink);
+      if (!form || !form.isPublished) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const { fieldId, fileName, contentType, size } = req.body;
+      const field = parseFormFields(form.fields).find(f => f.id === fieldId && f.type === "file");
+      if (!field) {
+        return res.status(400).json({ message: "This form has no such file field" });
+      }
+      if (typeof fileName !== "string" || !fileName || typeof size !== "number" || size < 0) {
+        return res.status(400).json({ message: "File name and size are required" });
+      }
+
+      const file = { name: fileName, type: typeof contentType === "string" ? contentType : "", size };
+      const problem = checkFileAgainstField(field, file);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const storageKey = `forms/${form.id}/${randomUUID()}`;
+      const upload = await storage.createUploadedFile({
+        userId: form.userId,
+        formId: form.id,
+        fieldId: field.id,
+        storageKey,
+        uploadId: await fileStore.createUpload(storageKey),
+        fileName: file.name,
+        contentType: file.type || "application/octet-stream",
+        size: file.size,
+        status: "uploading",
+      });
+
+      res.status(201).json({ fileId: upload.id, key: storageKey });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/public/uploads/:fileId/parts", async (req, res) => {
+    try {
+      const upload = await storage.getUploadedFile(req.params.fileId);
+      if (!upload || upload.status !== "uploading") {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      res.json(await fileStore.listParts(upload.uploadId!));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/public/uploads/:fileId/parts/:partNumber", express.raw({ type: () => true, limit: "6mb" }), async (req, res) => {
+    try {
+      const upload = await storage.getUploadedFile(req.params.fileId);
+      if (!upload || upload.status !== "uploading") {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      // Every part has a fixed size, so together they can't hold more than the declared file size
+      const partNumber = Number(req.params.partNumber);
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > getUploadPartCount(upload.size)) {
+        return res.status(400).json({ message: "Invalid part number" });
+      }
+      const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (data.length !== getUploadPartSize(upload.size, partNumber)) {
+        return res.status(400).json({ message: "Part size doesn't match the file" });
+      }
+
+      const etag = await fileStore.writePart(upload.uploadId!, partNumber, data);
+      res.set("ETag", etag).json({ ETag: etag });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/public/uploads/:fileId/complete", async (req, res) => {
+    try {
+      const upload = await storage.getUploadedFile(req.params.fileId);
+      if (!upload || upload.status !== "uploading") {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const partNumbers: number[] = (Array.isArray(req.body.parts) ? req.body.parts : [])
+        .map((part: any) => Number(part.PartNumber))
+        .sort((a: number, b: number) => a - b);
+      // Every part of the file must have arrived, each listed once
+      const stored = new Set((await fileStore.listParts(upload.uploadId!)).map(part => part.PartNumber));
+      const partCount = getUploadPartCount(upload.size);
+      if (partNumbers.length !== partCount || partNumbers.some((partNumber, i) => partNumber !== i + 1 || !stored.has(partNumber))) {
+        return res.status(400).json({ message: "Upload was incomplete, please try again" });
+      }
+      const size = await fileStore.completeUpload(upload.uploadId!, upload.storageKey, partNumbers);
+
+      // The declared size was checked against the field's limit when the upload started
+      if (size !== upload.size) {
+        await fileStore.delete(upload.storageKey);
+        await storage.deleteUploadedFile(upload.id);
+        return res.status(400).json({ message: "Upload was incomplete, please try again" });
+      }
+
+      await storage.updateUploadedFile(upload.id, { status: "complete", uploadId: null });
+      const ref: UploadedFileRef = { id: upload.id, name: upload.fileName, size, type: upload.contentType };
+      res.json(ref);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/public/uploads/:fileId", async (req, res) => {
+    try {
+      const upload = await storage.getUploadedFile(req.params.fileId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      // Files attached to a submission belong to the form owner now
+      if (upload.submissionId) {
+        return res.status(409).json({ message: "This file has already been submitted" });
+      }
+
+      if (upload.status === "uploading") {
+        await fileStore.abortUpload(upload.uploadId!);
+      } else {
+        await fileStore.delete(upload.storageKey);
+      }
+      await storage.deleteUploadedFile(upload.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Download a file uploaded to one of the user's forms
+  app.get("/api/files/:fileId", requireAuth, async (req: any, res) => {
+    try {
+      const upload = await storage.getUploadedFile(req.params.fileId);
+      if (!upload || upload.userId !== req.user.id || upload.status !== "complete") {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      res.setHeader("Content-Type", upload.contentType);
+      res.setHeader("Content-Length", upload.size);
+      res.setHeader("Content-Disposition", `attachment; filename="${upload.fileName.replace(/["\\\r\n]/g, "_")}"`);
+      fileStore.createReadStream(upload.storageKey)
+        .on("error", () => res.destroy())
+        .pipe(res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Send form to zapLink
+  app.post("/api/forms/:formId/send", requireAuth, async (req: any, res) => {
+    try {
+      const formId = req.params.formId;
+      const { zapLink } = req.body;
+
+      if (!zapLink) {
+        return res.status(400).json({ message: "ZapLink is required" });
+      }
+
+      // Verify the form exists and belongs to the sender
+      const form = await storage.getForm(formId);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      if (form.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to send this form" });
+      }
+
+      const { sharedForm, recipient } = await sendZap(req.user, form, String(zapLink));
+      res.json({ 
+        message: "✅ Form sent successfully!",
+        sharedFormId: sharedForm.id,
+        recipientName: recipient.displayName || recipient.username
+      });
+    } catch (error: any) {
+      if (error instanceof ZapSendError) {
+        return res.status(error.status).json(error.denial ?? { message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Send a form to several ZapLinks, reporting how each one went
+  app.post("/api/forms/:formId/send/bulk", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = bulkSendZapSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const form = await storage.getForm(req.params.formId);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      if (form.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to send this form" });
+      }
+
+      const results = await sendZaps(req.user, form, parsed.data.zapLinks);
+      res.json({ sentCount: results.filter(result => result.sent).length, results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The sender's outbox: every zap they've sent, with each recipient's progress
+  app.get("/api/zaps/sent", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForms = await storage.getSharedFormsSentWithDetails(req.user.id);
+      res.json(sharedForms.map(toSentZap));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Take back a zap the recipient hasn't opened yet
+  app.delete("/api/zaps/sent/:sharedFormId", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForm = await storage.getSharedForm(req.params.sharedFormId);
+      if (!sharedForm || sharedForm.senderId !== req.user.id) {
+        return res.status(404).json({ message: "Zap not found" });
+      }
+      if (getZapStatus(sharedForm) !== "pending") {
+        return res.status(409).json({ message: "This zap has already been opened, so it can't be recalled" });
+      }
+
+      await storage.deleteSharedForm(sharedForm.id, sharedForm.recipientId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Email the recipient again about a zap they haven't answered
+  app.post("/api/zaps/sent/:sharedFormId/remind", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForm = await storage.getSharedForm(req.params.sharedFormId);
+      if (!sharedForm || sharedForm.senderId !== req.user.id) {
+        return res.status(404).json({ message: "Zap not found" });
+      }
+      if (getZapStatus(sharedForm) === "responded") {
+        return res.status(409).json({ message: "The recipient has already responded" });
+      }
+      const waitMs = getReminderWaitMs(sharedForm);
+      if (waitMs > 0) {
+        return sendTooManyRequests(res, waitMs, `You've already sent a reminder. You can send another in ${formatWait(waitMs)}.`);
+      }
+
+      const updated = await remindZapRecipient(req.user, sharedForm);
+      res.json({ message: "Reminder sent", lastReminderAt: updated.lastReminderAt });
+    } catch (error: any) {
+      if (error instanceof ZapSendError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Who a form was zapped to, and whether each recipient has opened or answered it
+  app.get("/api/forms/:formId/zaps", requireAuth, async (req: any, res) => {
+    try {
+      const form = await storage.getForm(req.params.formId);
+      if (!form || form.userId !== req.user.id) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const sharedForms = await storage.getSharedFormsForForm(form.id);
+      res.json(sharedForms.map(toZapRecipientStatus));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get shared forms (Zap Inbox)
+  app.get("/api/zap-inbox", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForms = await storage.getSharedFormsForUser(req.user.id);
+      res.json(sharedForms.map(toInboxZap));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Called when the recipient opens a zapped form, so the sender can see it's been viewed
+  app.post("/api/zap-inbox/:sharedFormId/view", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForm = await storage.getSharedForm(req.params.sharedFormId);
+      if (!sharedForm || sharedForm.recipientId !== req.user.id) {
+        return res.status(404).json({ message: "Zap not found" });
+      }
+      res.json(await markZapViewed(sharedForm));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a shared form from user's Zap Inbox
+  app.delete("/api/zap-inbox/:sharedFormId", requireAuth, async (req: any, res) => {
+    try {
+      const { sharedFormId } = req.params;
+      await storage.deleteSharedForm(sharedFormId, req.user.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Block the sender of a zap: their zaps stop arriving and the unanswered ones are removed
+  app.post("/api/zap-inbox/:sharedFormId/block", requireAuth, async (req: any, res) => {
+    try {
+      const sharedForm = await storage.getSharedForm(req.params.sharedFormId);
+      if (!sharedForm || sharedForm.recipientId !== req.user.id) {
+        return res.status(404).json({ message: "Zap not found" });
+      }
+
+      await blockZapSender(req.user, sharedForm.senderId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/zap-inbox/:sharedFormId/report", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = reportZapSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const sharedForm = await storage.getSharedForm(req.params.sharedFormId);
+      if (!sharedForm || sharedForm.recipientId !== req.user.id) {
+        return res.status(404).json({ message: "Zap not found" });
+      }
+
+      await reportZap(req.user, sharedForm, parsed.data.reason, parsed.data.details);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Who can send forms to the user's ZapLink
+  app.put("/api/user/zap-privacy", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = updateZapPrivacySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const user = await storage.updateUser(req.user.id, parsed.data);
+      res.json({ zapPrivacy: user!.zapPrivacy });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ZapLink contacts, used for autocomplete when sending and for contacts-only privacy
+  app.get("/api/zap-contacts", requireAuth, async (req: any, res) => {
+    try {
+      const contacts = await storage.getZapContacts(req.user.id);
+      res.json(contacts.map(toZapContact));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/zap-contacts", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = addZapContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const contact = await findUserByZapLink(parsed.data.zapLink);
+      if (!contact) {
+        return res.status(404).json({ message: "❌ Zap Link not found" });
+      }
+      if (contact.id === req.user.id) {
+        return res.status(400).json({ message: "You can't add yourself as a contact" });
+      }
+
+      const zapContact = await storage.addZapContact({ userId: req.user.id, contactId: contact.id });
+      res.status(201).json(toZapContact({ ...zapContact, contact }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/zap-contacts/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!(await storage.deleteZapContact(req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/zap-blocks", requireAuth, async (req: any, res) => {
+    try {
+      const blocks = await storage.getZapBlocks(req.user.id);
+      res.json(blocks.map(toBlockedZapUser));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/zap-blocks/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!(await storage.deleteZapBlock(req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "Blocked user not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The notification bell. New notifications also arrive over the notifications socket.
+  app.get("/api/notifications", requireAuth, async (req: any, res) => {
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user.id, NOTIFICATION_LIST_LIMIT),
+        storage.getUnreadNotificationCount(req.user.id),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req: any, res) => {
+    try {
+      if (!(await storage.markNotificationRead(req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json({ unreadCount: await publishNotificationsRead(req.user.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req: any, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user.id);
+      res.json({ unreadCount: await publishNotificationsRead(req.user.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get form submissions for authenticated user
+  app.get("/api/submissions", requireAuth, async (req: any, res) => {
+    try {
+      const submissions = await storage.getFormSubmissions(req.user.id);
+      res.json(submissions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Render a submission's contract PDF from one of the user's templates, or the default
+  // template when none is given. Returns undefined if the template isn't theirs.
+  async function renderSubmissionContract(user: User, submission: FormSubmission, form: Form, templateId?: string) {
+    const body = await renderContractBody(user, submission, form, templateId);
+    if (body === undefined) return undefined;
+    return generateContractPDF(body, await getContractFreelancer(user));
+  }
+
+  // Generate contract from form submission
+  app.post("/api/submissions/:id/contract", requireAuth, async (req: any, res) => {
+    try {
+      const submission = await storage.getFormSubmissionById(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Verify the submission belongs to a form owned by this user
+      const form = await storage.getForm(submission.formId);
+      if (!form || form.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Generate the actual PDF contract from the chosen template
+      const contractPDF = await renderSubmissionContract(req.user, submission, form, req.body?.templateId);
+      if (!contractPDF) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
+      
+      // Save the PDF file
+      const contractDir = path.join(process.cwd(), 'contracts');
+      await fs.mkdir(contractDir, { recursive: true });
+      
+      const contractFilename = `contract-${submission.id}.pdf`;
+      const contractPath = path.join(contractDir, contractFilename);
+      await fs.writeFile(contractPath, contractPDF);
+      
+      // Contracts can be regenerated with another template, so bust cached copies
+      const contractUrl = `/contracts/${contractFilename}?v=${Date.now()}`;
+      
+      const updatedSubmission = await storage.updateFormSubmission(submission.id, {
+        contractGenerated: true,
+        contractUrl: contractUrl
+      });
+
+      res.json({
+        message: "Contract generated successfully",
+        contractUrl: contractUrl,
+        submission: updatedSubmission
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/public/forms/:shareableLink/submit", async (req, res) => {
+    try {
+      const form = await storage.getFormByShareableLink(req.params.shareableLink);
+      if (!form || !form.isPublished) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      // Extract client info from form data
+      const submissionData = req.body;
+      const clientName = submissionData.name || submissionData.clientname || submissionData.fullname || "Unknown Client";
+      const clientEmail = submissionData.email || submissionData.emailaddress || "";
+
+      if (!clientEmail) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      // Create form submission record
+      const submission = await storage.createFormSubmission({
+        formId: form.id,
+        clientName,
+        clientEmail,
+        submissionData,
+        calendlyLink: form.calendlyLink || null,
+      });
+
+      // Create client record for compatibility
+      const client = await storage.createClient({
+        name: clientName,
+        email: clientEmail,
+        userId: form.userId,
+        formStatus: "completed",
+        contractStatus: "not_sent",
+        callStatus: "not_scheduled",
+        progress: 33,
+        formData: submissionData,
+      });
+
+      res.status(201).json({ 
+        success: true, 
+        submission,
+        client,
+        calendlyLink: form.calendlyLink,
+        formTitle: form.title 
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form submissions management
+  app.get("/api/submissions", requireAuth, async (req: any, res) => {
+    try {
+      const submissions = await storage.getFormSubmissions(req.user.id);
+      res.json(submissions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/submissions/:id", requireAuth, async (req: any, res) => {
+    try {
+      const submission = await storage.getFormSubmissionById(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Verify ownership through form
+      const form = await storage.getForm(submission.formId);
+      if (!form || form.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(submission);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Generate contract PDF
+  app.post("/api/submissions/:id/generate-contract", requireAuth, async (req: any, res) => {
+    try {
+      const submission = await storage.getFormSubmissionById(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Verify ownership
+      const form = await storage.getForm(submission.formId);
+      if (!form || form.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Generate the actual PDF contract from the chosen template
+      const contractPDF = await renderSubmissionContract(req.user, submission, form, req.body?.templateId);
+      if (!contractPDF) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
+      
+      // Save the PDF file
+      const contractDir = path.join(process.cwd(), 'contracts');
+      await fs.mkdir(contractDir, { recursive: true });
+      
+      const contractFilename = `contract-${submission.id}.pdf`;
+      const contractPath = path.join(contractDir, contractFilename);
+      await fs.writeFile(contractPath, contractPDF);
+      
+      // Contracts can be regenerated with another template, so bust cached copies
+      const contractUrl = `/contracts/${contractFilename}?v=${Date.now()}`;
+      
+      const updatedSubmission = await storage.updateFormSubmission(submission.id, {
+        contractGenerated: true,
+        contractUrl: contractUrl
+      });
+
+      res.json({ contractUrl, submission: updatedSubmission });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Contract template routes
+  app.get("/api/contract-templates", requireAuth, async (req: any, res) => {
+    try {
+      const templates = await storage.getContractTemplatesByUserId(req.user.id);
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/contract-templates", requireAuth, async (req: any, res) => {
+    try {
+      const denial = checkPlanFeature(req.user, "hasSavedContracts");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
+      const validatedData = insertContractTemplateSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+
+      const clauses = buildClauseLibrary(await storage.getContractClausesByUserId(req.user.id));
+      const invalid = validateTemplateBody(validatedData.body, clauses);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const template = await storage.createContractTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/contract-templates/:id", requireAuth, async (req: any, res) => {
+    try {
+      const template = await storage.getContractTemplate(req.params.id);
+      if (!template || template.userId !== req.user.id) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
+
+      const denial = checkPlanFeature(req.user, "hasSavedContracts");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
+      const updates = insertContractTemplateSchema.omit({ userId: true }).partial().parse(req.body);
+      if (updates.body) {
+        const clauses = buildClauseLibrary(await storage.getContractClausesByUserId(req.user.id));
+        const invalid = validateTemplateBody(updates.body, clauses);
+        if (invalid) {
+          return res.status(400).json({ message: invalid });
+        }
+      }
+
+      const updatedTemplate = await storage.updateContractTemplate(req.params.id, updates);
+      res.json(updatedTemplate);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/contract-templates/:id", requireAuth, async (req: any, res) => {
+    try {
+      const template = await storage.getContractTemplate(req.params.id);
+      if (!template || template.userId !== req.user.id) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
+
+      await storage.deleteContractTemplate(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Clause library: the user's clauses plus the built-in ones they haven't overridden
+  app.get("/api/contract-clauses", requireAuth, async (req: any, res) => {
+    try {
+      const clauses = await storage.getContractClausesByUserId(req.user.id);
+      res.json(buildClauseLibrary(clauses));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/contract-clauses", requireAuth, async (req: any, res) => {
+    try {
+      const denial = checkPlanFeature(req.user, "hasSavedContracts");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
+      const validatedData = insertContractClauseSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+
+      const existing = await storage.getContractClausesByUserId(req.user.id);
+      if (existing.some(clause => clause.key === validatedData.key)) {
+        return res.status(409).json({ message: `You already have a clause with the key "${validatedData.key}"` });
+      }
+
+      // Clauses can use merge fields but can't nest other clauses
+      const invalid = validateTemplateBody(validatedData.body, []);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const clause = await storage.createContractClause(validatedData);
+      res.status(201).json(clause);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/contract-clauses/:id", requireAuth, async (req: any, res) => {
+    try {
+      const clause = await storage.getContractClause(req.params.id);
+      if (!clause || clause.userId !== req.user.id) {
+        return res.status(404).json({ message: "Clause not found" });
+      }
+
+      const denial = checkPlanFeature(req.user, "hasSavedContracts");
+      if (denial) {
+        return res.status(402).json(denial);
+      }
+
+      // The key is how templates refer to the clause, so it can't change
+      const updates = insertContractClauseSchema.omit({ userId: true, key: true }).partial().parse(req.body);
+      if (updates.body) {
+        const invalid = validateTemplateBody(updates.body, []);
+        if (invalid) {
+          return res.status(400).json({ message: invalid });
+        }
+      }
+
+      const updatedClause = await storage.updateContractClause(req.params.id, updates);
+      res.json(updatedClause);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/contract-clauses/:id", requireAuth, async (req: any, res) => {
+    try {
+      const clause = await storage.getContractClause(req.params.id);
+      if (!clause || clause.userId !== req.user.id) {
+        return res.status(404).json({ message: "Clause not found" });
+      }
+
+      // Built-in clauses with the same key take over again, so only block keys with no fallback
+      const templates = await storage.getContractTemplatesByUserId(req.user.id);
+      const remaining = buildClauseLibrary((await storage.getContractClausesByUserId(req.user.id)).filter(c => c.id !== clause.id));
+      const usedBy = templates.find(template => validateTemplateBody(template.body, remaining));
+      if (usedBy) {
+        return res.status(409).json({ message: `This clause is used by the "${usedBy.name}" template. Remove it from the template first.` });
+      }
+
+      await storage.deleteContractClause(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Contract routes
+  app.get("/api/contracts/client/:clientId", requireAuth, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.clientId);
+      if (!client || client.userId !== req.user.id) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const contracts = await storage.getContractsByClientId(req.params.clientId);
+      res.json(contracts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/contracts", requireAuth, async (req: any, res) => {
+    try {
+      const validatedData = insertContractSchema.parse(req.body);
+      
+      // Verify the client belongs to the authenticated user
+      const client = await storage.getClient(validatedData.clientId);
+      if (!client || client.userId !== req.user.id) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const contract = await storage.createContract(validatedData);
+      res.status(201).json(contract);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // In-app e-signature. Contracts are frozen as a PDF when prepared, sent to the client
+  // through a tokenized signing page, then countersigned by the freelancer.
+  const requestMeta = (req: any): RequestMeta => ({
+    ipAddress: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+  });
+
+  // Load a contract and check it belongs to one of the user's clients
+  async function getOwnedContract(userId: string, contractId: string) {
+    const contract = await storage.getContract(contractId);
+    if (!contract) return undefined;
+    const client = await storage.getClient(contract.clientId);
+    return client?.userId === userId ? contract : undefined;
+  }
+
+  app.get("/api/contracts", requireAuth, async (req: any, res) => {
+    try {
+      const contracts = await storage.getContractsByUserId(req.user.id);
+      res.json(await Promise.all(contracts.map(toContractSummary)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/submissions/:id/contracts", requireAuth, async (req: any, res) => {
+    try {
+      const submission = await storage.getFormSubmissionById(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      const form = await storage.getForm(submission.formId);
+      if (!form || form.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const templateId = typeof req.body?.templateId === "string" ? req.body.templateId : undefined;
+      const body = await renderContractBody(req.user, submission, form, templateId);
+      if (body === undefined) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
+
+      const contract = await prepareContract(req.user, submission, form, body, templateId ?? null, requestMeta(req));
+      res.status(201).json(await toContractSummary(contract));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/contracts/:id/send", requireAuth, async (req: any, res) => {
+    try {
+      const contract = await getOwnedContract(req.user.id, req.params.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const sent = await sendContract(contract, requestMeta(req));
+      res.json(await toContractSummary(sent));
+    } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Verify the submission belongs to a form owned by this user
-      const form = await storage.getForm(submission.formId);
-      if (!form || form.userId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
+  app.post("/api/contracts/:id/countersign", requireAuth, async (req: any, res) => {
+    try {
+      const contract = await getOwnedContract(req.user.id, req.params.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
 
-      // Generate the actual PDF contract
-      const contractPDF = await generateContractPDF(submission, form.title);
-      
-      // Save the PDF file
-      const contractDir = path.join(process.cwd(), 'contracts');
-      await fs.mkdir(contractDir, { recursive: true });
-      
-      const contractFilename = `contract-${submission.id}.pdf`;
-      const contractPath = path.join(contractDir, contractFilename);
-      await fs.writeFile(contractPath, contractPDF);
-      
-      const contractUrl = `/contracts/${contractFilename}`;
-      
-      const updatedSubmission = await storage.updateFormSubmission(submission.id, {
-        contractGenerated: true,
-        contractUrl: contractUrl
-      });
+      const parsed = signContractSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
 
-      res.json({
-        message: "Contract generated successfully",
-        contractUrl: contractUrl,
-        submission: updatedSubmission
-      });
+      const signed = await countersign(contract, req.user, parsed.data, requestMeta(req));
+      res.json(await toContractSummary(signed));
     } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/public/forms/:shareableLink/submit", async (req, res) => {
+  // Send a prepared contract through the e-signature provider instead of the signing page
+  app.post("/api/contracts/:id/envelope", requireAuth, async (req: any, res) => {
+    if (!signatureProvider) {
+      return res.status(503).json({ message: "E-signatures aren't enabled on this server" });
+    }
+
     try {
-      const form = await storage.getFormByShareableLink(req.params.shareableLink);
-      if (!form || !form.isPublished) {
-        return res.status(404).json({ message: "Form not found" });
+      const contract = await getOwnedContract(req.user.id, req.params.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
 
-      // Extract client info from form data
-      const submissionData = req.body;
-      const clientName = submissionData.name || submissionData.clientname || submissionData.fullname || "Unknown Client";
-      const clientEmail = submissionData.email || submissionData.emailaddress || "";
+      const sent = await sendThroughProvider(contract, req.user, requestMeta(req));
+      res.json(await toContractSummary(sent));
+    } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (!clientEmail) {
-        return res.status(400).json({ message: "Email is required" });
+  // E-signature provider webhook (DocuSign Connect)
+  app.post("/api/webhook/esign", express.raw({ type: "application/json" }), async (req, res) => {
+    if (!signatureProvider) {
+      return res.status(503).json({ message: "E-signatures aren't enabled on this server" });
+    }
+
+    let update: EnvelopeUpdate | undefined;
+    try {
+      update = signatureProvider.parseWebhook(req.body, req.headers);
+    } catch (err: any) {
+      console.error('E-signature webhook verification failed:', err.message);
+      return res.status(400).json({ message: err.message });
+    }
+
+    try {
+      if (update) {
+        await applyEnvelopeUpdate(update);
       }
+      res.json({ received: true });
+    } catch (error: any) {
+      // A non-2xx response makes the provider retry the delivery
+      console.error('Error handling e-signature webhook:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Create form submission record
-      const submission = await storage.createFormSubmission({
-        formId: form.id,
-        clientName,
-        clientEmail,
-        submissionData,
-        calendlyLink: form.calendlyLink || null,
-      });
+  // Local development: move a fake envelope along as if the signers had acted on it
+  if (signatureProvider instanceof FakeSignatureProvider) {
+    const fakeProvider = signatureProvider;
+    app.post("/api/integrations/esign/fake/:contractId/:status", requireAuth, async (req: any, res) => {
+      try {
+        const contract = await getOwnedContract(req.user.id, req.params.contractId);
+        if (!contract?.docusignEnvelopeId) {
+          return res.status(404).json({ message: "Contract not found" });
+        }
 
-      // Create client record for compatibility
-      const client = await storage.createClient({
-        name: clientName,
-        email: clientEmail,
-        userId: form.userId,
-        formStatus: "completed",
-        contractStatus: "not_sent",
-        callStatus: "not_scheduled",
-        progress: 33,
-        formData: submissionData,
-      });
+        const update = fakeProvider.parseWebhook(fakeProvider.simulate(contract.docusignEnvelopeId, req.params.status));
+        const updated = update ? await applyEnvelopeUpdate(update) : contract;
+        res.json(await toContractSummary(updated ?? contract));
+      } catch (error: any) {
+        res.status(400).json({ message: error.message });
+      }
+    });
+  }
 
-      res.status(201).json({ 
-        success: true, 
-        submission,
-        client,
-        calendlyLink: form.calendlyLink,
-        formTitle: form.title 
-      });
+  app.get("/api/contracts/:id/document", requireAuth, async (req: any, res) => {
+    try {
+      const contract = await getOwnedContract(req.user.id, req.params.id);
+      const pdf = contract && await loadContractDocument(contract);
+      if (!contract || !pdf) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const suffix = contract.status === "signed" ? "-signed" : "";
+      res.set("Content-Type", "application/pdf");
+      res.set("Content-Disposition", `inline; filename="contract-${contract.id}${suffix}.pdf"`);
+      res.send(pdf);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Form submissions management
-  app.get("/api/submissions", requireAuth, async (req: any, res) => {
+  // Public signing page for the client; the token is the only credential
+  app.get("/api/public/sign/:token", async (req, res) => {
     try {
-      const submissions = await storage.getFormSubmissions(req.user.id);
-      res.json(submissions);
+      const contract = await storage.getContractBySigningToken(req.params.token);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const details = await getPublicSigningDetails(contract, req.params.token);
+      if (contract.status === "sent") {
+        await recordContractViewed(contract, requestMeta(req));
+      }
+      res.json(details);
     } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(404).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/submissions/:id", requireAuth, async (req: any, res) => {
+  app.get("/api/public/sign/:token/document", async (req, res) => {
     try {
-      const submission = await storage.getFormSubmissionById(req.params.id);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
+      const contract = await storage.getContractBySigningToken(req.params.token);
+      const pdf = contract && await loadContractDocument(contract);
+      if (!contract || !pdf) {
+        return res.status(404).json({ message: "Contract not found" });
       }
 
-      // Verify ownership through form
-      const form = await storage.getForm(submission.formId);
-      if (!form || form.userId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
+      res.set("Content-Type", "application/pdf");
+      res.set("Content-Disposition", `inline; filename="contract-${contract.id}.pdf"`);
+      res.set("Cache-Control", "no-store");
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/public/sign/:token", async (req, res) => {
+    try {
+      const contract = await storage.getContractBySigningToken(req.params.token);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
 
-      res.json(submission);
+      const parsed = signContractSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      await signAsClient(contract, parsed.data, requestMeta(req));
+      res.json(await getPublicSigningDetails(contract, req.params.token));
     } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Generate contract PDF
-  app.post("/api/submissions/:id/generate-contract", requireAuth, async (req: any, res) => {
+  // Built-in scheduler
+  app.get("/api/availability", requireAuth, async (req: any, res) => {
     try {
-      const submission = await storage.getFormSubmissionById(req.params.id);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
+      res.json(await getOrCreateAvailability(req.user.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/availability", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = updateAvailabilitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      // Verify ownership
-      const form = await storage.getForm(submission.formId);
-      if (!form || form.userId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
+      await getOrCreateAvailability(req.user.id);
+      const settings = await storage.updateAvailabilitySettings(req.user.id, parsed.data);
+      res.json(settings);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/bookings", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getBookingsByUserId(req.user.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/bookings/:id/cancel", requireAuth, async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking || booking.userId !== req.user.id) {
+        return res.status(404).json({ message: "Booking not found" });
       }
 
-      // Generate the actual PDF contract
-      const contractPDF = await generateContractPDF(submission, form.title);
-      
-      // Save the PDF file
-      const contractDir = path.join(process.cwd(), 'contracts');
-      await fs.mkdir(contractDir, { recursive: true });
-      
-      const contractFilename = `contract-${submission.id}.pdf`;
-      const contractPath = path.join(contractDir, contractFilename);
-      await fs.writeFile(contractPath, contractPDF);
-      
-      const contractUrl = `/contracts/${contractFilename}`;
-      
-      const updatedSubmission = await storage.updateFormSubmission(submission.id, {
-        contractGenerated: true,
-        contractUrl: contractUrl
+      res.json(await cancelBooking(booking));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public booking page
+  app.get("/api/public/booking-pages/:bookingLink", async (req, res) => {
+    try {
+      const settings = await storage.getAvailabilitySettingsByBookingLink(req.params.bookingLink);
+      const owner = settings?.enabled ? await storage.getUser(settings.userId) : undefined;
+      if (!settings || !owner) {
+        return res.status(404).json({ message: "Booking page not found" });
+      }
+
+      res.json({
+        ownerName: owner.businessName || owner.displayName || owner.username,
+        meetingTitle: settings.meetingTitle,
+        meetingMinutes: settings.meetingMinutes,
+        timeZone: settings.timeZone,
+        location: settings.location,
+        branding: getBranding(owner, getPlanLimits(owner)),
+        slots: await getBookableSlots(settings),
       });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ contractUrl, submission: updatedSubmission });
+  app.post("/api/public/booking-pages/:bookingLink", async (req, res) => {
+    try {
+      const settings = await storage.getAvailabilitySettingsByBookingLink(req.params.bookingLink);
+      if (!settings?.enabled) {
+        return res.status(404).json({ message: "Booking page not found" });
+      }
+
+      const parsed = createBookingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const booking = await bookSlot(settings, parsed.data);
+      res.status(201).json({ manageToken: booking.manageToken, startsAt: booking.startsAt, endsAt: booking.endsAt });
     } catch (error: any) {
+      if (error instanceof BookingConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Contract routes
-  app.get("/api/contracts/client/:clientId", requireAuth, async (req: any, res) => {
+  // The invitee's view of their booking; the manage token is the only credential
+  async function getPublicBooking(token: string) {
+    const booking = await storage.getBookingByManageToken(token);
+    const settings = booking && await storage.getAvailabilitySettings(booking.userId);
+    const owner = booking && await storage.getUser(booking.userId);
+    return booking && settings && owner ? { booking, settings, owner } : undefined;
+  }
+
+  app.get("/api/public/bookings/:token", async (req, res) => {
     try {
-      const client = await storage.getClient(req.params.clientId);
-      if (!client || client.userId !== req.user.id) {
-        return res.status(404).json({ message: "Client not found" });
+      const found = await getPublicBooking(req.params.token);
+      if (!found) {
+        return res.status(404).json({ message: "Booking not found" });
       }
 
-      const contracts = await storage.getContractsByClientId(req.params.clientId);
-      res.json(contracts);
+      const { booking, settings, owner } = found;
+      res.json({
+        ownerName: owner.businessName || owner.displayName || owner.username,
+        meetingTitle: settings.meetingTitle,
+        location: settings.location,
+        branding: getBranding(owner, getPlanLimits(owner)),
+        inviteeName: booking.inviteeName,
+        inviteeEmail: booking.inviteeEmail,
+        startsAt: booking.startsAt,
+        endsAt: booking.endsAt,
+        status: booking.status,
+        bookingPageUrl: settings.enabled ? getBookingPageUrl(settings.bookingLink, { name: booking.inviteeName, email: booking.inviteeEmail }) : null,
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/contracts", requireAuth, async (req: any, res) => {
+  app.get("/api/public/bookings/:token/invite.ics", async (req, res) => {
     try {
-      const validatedData = insertContractSchema.parse(req.body);
-      
-      // Verify the client belongs to the authenticated user
-      const client = await storage.getClient(validatedData.clientId);
-      if (!client || client.userId !== req.user.id) {
-        return res.status(404).json({ message: "Client not found" });
+      const found = await getPublicBooking(req.params.token);
+      if (!found) {
+        return res.status(404).json({ message: "Booking not found" });
       }
 
-      const contract = await storage.createContract(validatedData);
-      res.status(201).json(contract);
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Content-Disposition", 'attachment; filename="invite.ics"');
+      res.send(buildBookingInvite(found.booking, found.settings, found.owner));
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/public/bookings/:token/cancel", async (req, res) => {
+    try {
+      const booking = await storage.getBookingByManageToken(req.params.token);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (booking.startsAt <= new Date()) {
+        return res.status(409).json({ message: "This call has already started" });
+      }
+
+      const canceled = await cancelBooking(booking);
+      res.json({ status: canceled.status });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
   });
 
@@ -927,12 +2545,15 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/dashboard/stats", requireAuth, async (req: any, res) => {
     try {
       const clients = await storage.getClientsByUserId(req.user.id);
+      const clientFlows = await storage.getClientFlowsByUserId(req.user.id);
       
       const stats = {
         activeClients: clients.length,
         pendingForms: clients.filter(c => c.formStatus === "pending").length,
         signedContracts: clients.filter(c => c.contractStatus === "signed").length,
         scheduledCalls: clients.filter(c => c.callStatus === "scheduled").length,
+        flowsInProgress: clientFlows.filter(cf => cf.status === "in_progress").length,
+        flowsCompleted: clientFlows.filter(cf => cf.status === "completed").length,
       };
 
       res.json(stats);
@@ -941,36 +2562,47 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Integration endpoints for DocuSign and Calendly
+  // Integration endpoints for DocuSign and Calendly. Sends the client's most recent
+  // submission as a contract through the configured e-signature provider.
   app.post("/api/integrations/docusign/send-contract", requireAuth, async (req: any, res) => {
+    if (!signatureProvider) {
+      return res.status(503).json({ message: "E-signatures aren't enabled on this server" });
+    }
+
     try {
-      const { clientId, contractData } = req.body;
+      const { clientId, templateId } = req.body;
       
       const client = await storage.getClient(clientId);
       if (!client || client.userId !== req.user.id) {
         return res.status(404).json({ message: "Client not found" });
       }
 
-      // TODO: Integrate with DocuSign API
-      // For now, create a contract record
-      const contract = await storage.createContract({
-        clientId,
-        status: "sent",
-        contractData,
-      });
+      const submission = (await storage.getFormSubmissions(req.user.id))
+        .filter(s => s.clientEmail.toLowerCase() === client.email.toLowerCase())
+        .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())[0];
+      const form = submission && await storage.getForm(submission.formId);
+      if (!submission || !form) {
+        return res.status(400).json({ message: "This client hasn't submitted a form yet" });
+      }
 
-      // Update client contract status
-      await storage.updateClient(clientId, { 
-        contractStatus: "sent",
-        progress: Math.max(client.progress, 66) // Contract sent = 66% progress
-      });
+      const body = await renderContractBody(req.user, submission, form, typeof templateId === "string" ? templateId : undefined);
+      if (body === undefined) {
+        return res.status(404).json({ message: "Contract template not found" });
+      }
 
-      res.json({ message: "Contract sent successfully", contractId: contract.id });
+      const prepared = await prepareContract(req.user, submission, form, body, templateId ?? null, requestMeta(req));
+      const contract = await sendThroughProvider(prepared, req.user, requestMeta(req));
+      res.json({ message: "Contract sent successfully", contractId: contract.id, envelopeId: contract.docusignEnvelopeId });
     } catch (error: any) {
+      if (error instanceof ContractStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
+  // The client's scheduling link, prefilled with their name and email. The call is marked
+  // scheduled when Calendly reports the booking, not here.
   app.post("/api/integrations/calendly/schedule", requireAuth, async (req: any, res) => {
     try {
       const { clientId } = req.body;
@@ -980,19 +2612,113 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Client not found" });
       }
 
-      // TODO: Integrate with Calendly API
-      // Update client call status
-      await storage.updateClient(clientId, { 
-        callStatus: "scheduled",
-        progress: 100 // All steps completed
-      });
+      const connection = await storage.getCalendlyConnection(req.user.id);
+      if (!connection) {
+        return res.status(400).json({ message: "Connect your Calendly account in Profile Settings first" });
+      }
+
+      res.json({ schedulingUrl: prefillSchedulingLink(connection.schedulingUrl, client) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/integrations/calendly", requireAuth, async (req: any, res) => {
+    try {
+      const connection = await storage.getCalendlyConnection(req.user.id);
+      res.json(connection
+        ? { connected: true, schedulingUrl: connection.schedulingUrl, connectedAt: connection.connectedAt }
+        : { connected: false });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/integrations/calendly", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = connectCalendlySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const connection = await connectCalendly(req.user.id, parsed.data.accessToken);
+      res.json({ connected: true, schedulingUrl: connection.schedulingUrl, connectedAt: connection.connectedAt });
+    } catch (error: any) {
+      if (error instanceof CalendlyApiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/integrations/calendly", requireAuth, async (req: any, res) => {
+    try {
+      await disconnectCalendly(req.user.id);
+      res.json({ connected: false });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Calendly booking webhook; one subscription per connected user, each with its own signing key
+  app.post("/api/webhook/calendly/:userId", express.raw({ type: "application/json" }), async (req, res) => {
+    const connection = await storage.getCalendlyConnection(req.params.userId).catch(() => undefined);
+    if (!connection) {
+      return res.status(404).json({ message: "No Calendly connection" });
+    }
+
+    let delivery: InviteeEvent;
+    try {
+      delivery = verifyCalendlyWebhook(req.body, req.get(CALENDLY_SIGNATURE_HEADER), connection.webhookSigningKey);
+    } catch (err: any) {
+      console.error('Calendly webhook verification failed:', err.message);
+      return res.status(400).json({ message: err.message });
+    }
 
-      res.json({ message: "Call scheduled successfully" });
+    try {
+      await applyInviteeEvent(connection.userId, delivery);
+      res.json({ received: true });
     } catch (error: any) {
+      console.error('Error handling Calendly webhook:', error);
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Local development: book or cancel a call for a client as if they'd used Calendly
+  if (calendlyApi instanceof FakeCalendlyApi) {
+    const fakeCalendly = calendlyApi;
+    app.post("/api/integrations/calendly/fake/:clientId/:event", requireAuth, async (req: any, res) => {
+      try {
+        const client = await storage.getClient(req.params.clientId);
+        const connection = await storage.getCalendlyConnection(req.user.id);
+        if (!client || client.userId !== req.user.id || !connection) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+
+        const event = req.params.event === "canceled" ? "invitee.canceled" : "invitee.created";
+        const { body, signature } = fakeCalendly.simulateInvitee(connection, event, {
+          name: client.name,
+          email: client.email,
+          uri: event === "invitee.canceled" ? client.callBookingUri ?? undefined : undefined,
+        });
+        const updated = await applyInviteeEvent(req.user.id, verifyCalendlyWebhook(body, signature, connection.webhookSigningKey));
+        res.json(updated ?? client);
+      } catch (error: any) {
+        res.status(400).json({ message: error.message });
+      }
+    });
+  }
+
+  // Local development: read the emails an in-memory transport has captured, to or on behalf of the user
+  if (emailTransport instanceof MemoryEmailTransport) {
+    const memoryTransport = emailTransport;
+    app.get("/api/dev/emails", requireAuth, async (req: any, res) => {
+      res.json(memoryTransport.sent.filter(message => message.to === req.user.email || message.replyTo === req.user.email).reverse());
+    });
+  }
+
   const httpServer = createServer(app);
+  attachNotificationSocket(httpServer, sessionMiddleware);
+  scheduleUploadCleanup();
   return httpServer;
 }
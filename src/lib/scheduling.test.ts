@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { Booking } from "@shared/schema";
+import { getAvailableSlots, zonedDate, zonedTimeToUtc, type SchedulingSettings } from "./scheduling";
+
+const settings = (overrides: Partial<SchedulingSettings> = {}): SchedulingSettings => ({
+  timeZone: "UTC",
+  meetingMinutes: 30,
+  bufferMinutes: 0,
+  minimumNoticeHours: 0,
+  bookingWindowDays: 6,
+  weeklyRules: [{ day: 1, start: "09:00", end: "12:00" }],
+  ...overrides,
+});
+
+const booking = (startsAt: string, endsAt: string): Pick<Booking, "startsAt" | "endsAt"> =>
+  ({ startsAt: new Date(startsAt), endsAt: new Date(endsAt) });
+
+// Sunday 2026-03-08 and Sunday 2026-11-01 are the DST changes in New York
+describe("zonedTimeToUtc", () => {
+  it("follows the zone's offset across the spring change", () => {
+    expect(zonedTimeToUtc("2026-03-07", "09:00", "America/New_York").toISOString()).toBe("2026-03-07T14:00:00.000Z");
+    expect(zonedTimeToUtc("2026-03-08", "01:30", "America/New_York").toISOString()).toBe("2026-03-08T06:30:00.000Z");
+    expect(zonedTimeToUtc("2026-03-08", "03:00", "America/New_York").toISOString()).toBe("2026-03-08T07:00:00.000Z");
+    expect(zonedTimeToUtc("2026-03-09", "09:00", "America/New_York").toISOString()).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("follows the zone's offset across the autumn change", () => {
+    expect(zonedTimeToUtc("2026-10-31", "09:00", "America/New_York").toISOString()).toBe("2026-10-31T13:00:00.000Z");
+    expect(zonedTimeToUtc("2026-11-01", "03:00", "America/New_York").toISOString()).toBe("2026-11-01T08:00:00.000Z");
+    expect(zonedTimeToUtc("2026-11-02", "09:00", "America/New_York").toISOString()).toBe("2026-11-02T14:00:00.000Z");
+  });
+
+  it("handles zones ahead of UTC", () => {
+    expect(zonedTimeToUtc("2026-03-27", "09:00", "Europe/London").toISOString()).toBe("2026-03-27T09:00:00.000Z");
+    expect(zonedTimeToUtc("2026-03-30", "09:00", "Europe/London").toISOString()).toBe("2026-03-30T08:00:00.000Z");
+    expect(zonedTimeToUtc("2026-06-01", "00:30", "Asia/Tokyo").toISOString()).toBe("2026-05-31T15:30:00.000Z");
+  });
+});
+
+describe("zonedDate", () => {
+  it("gives the calendar date in the zone, not in UTC", () => {
+    expect(zonedDate(new Date("2026-03-10T03:00:00Z"), "America/New_York")).toBe("2026-03-09");
+    expect(zonedDate(new Date("2026-03-10T03:00:00Z"), "UTC")).toBe("2026-03-10");
+  });
+});
+
+describe("getAvailableSlots", () => {
+  // Monday 2026-03-02, before any rule opens
+  const monday = new Date("2026-03-02T06:00:00Z");
+
+  it("splits each rule into meetings", () => {
+    expect(getAvailableSlots(settings(), [], monday)).toEqual([
+      "2026-03-02T09:00:00.000Z",
+      "2026-03-02T09:30:00.000Z",
+      "2026-03-02T10:00:00.000Z",
+      "2026-03-02T10:30:00.000Z",
+      "2026-03-02T11:00:00.000Z",
+      "2026-03-02T11:30:00.000Z",
+    ]);
+  });
+
+  it("keeps the buffer free on both sides of a booking", () => {
+    const existing = [booking("2026-03-02T10:00:00Z", "2026-03-02T10:30:00Z")];
+
+    expect(getAvailableSlots(settings({ bufferMinutes: 15 }), existing, monday)).toEqual([
+      "2026-03-02T09:00:00.000Z",
+      "2026-03-02T11:00:00.000Z",
+      "2026-03-02T11:30:00.000Z",
+    ]);
+    // Without a buffer, meetings can sit right against the booking
+    expect(getAvailableSlots(settings(), existing, monday)).toEqual([
+      "2026-03-02T09:00:00.000Z",
+      "2026-03-02T09:30:00.000Z",
+      "2026-03-02T10:30:00.000Z",
+      "2026-03-02T11:00:00.000Z",
+      "2026-03-02T11:30:00.000Z",
+    ]);
+  });
+
+  it("leaves the minimum notice before the first slot", () => {
+    const now = new Date("2026-03-02T09:10:00Z");
+
+    expect(getAvailableSlots(settings({ minimumNoticeHours: 2 }), [], now)).toEqual(["2026-03-02T11:30:00.000Z"]);
+    expect(getAvailableSlots(settings(), [], now)[0]).toBe("2026-03-02T09:30:00.000Z");
+  });
+
+  it("stops at the end of the booking window", () => {
+    const now = new Date("2026-03-02T10:00:00Z");
+
+    // A week out lands on the next Monday at 10:00, so only the slots up to then are bookable
+    expect(getAvailableSlots(settings({ bookingWindowDays: 7 }), [], now)).toEqual([
+      "2026-03-02T10:00:00.000Z",
+      "2026-03-02T10:30:00.000Z",
+      "2026-03-02T11:00:00.000Z",
+      "2026-03-02T11:30:00.000Z",
+      "2026-03-09T09:00:00.000Z",
+      "2026-03-09T09:30:00.000Z",
+      "2026-03-09T10:00:00.000Z",
+    ]);
+    expect(getAvailableSlots(settings({ bookingWindowDays: 6 }), [], now)).toHaveLength(4);
+  });
+
+  it("keeps slots at the same wall-clock time across a DST change", () => {
+    const newYork = settings({
+      timeZone: "America/New_York",
+      bookingWindowDays: 7,
+      weeklyRules: [{ day: 5, start: "09:00", end: "10:00" }, { day: 1, start: "09:00", end: "10:00" }],
+    });
+
+    // Friday 2026-03-06 at 7am EST; the window closes before 9am EDT the next Friday
+    expect(getAvailableSlots(newYork, [], new Date("2026-03-06T12:00:00Z"))).toEqual([
+      "2026-03-06T14:00:00.000Z",
+      "2026-03-06T14:30:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+      "2026-03-09T13:30:00.000Z",
+    ]);
+  });
+
+  it("counts days from the freelancer's date, not UTC's", () => {
+    const newYork = settings({ timeZone: "America/New_York", bookingWindowDays: 1, weeklyRules: [{ day: 1, start: "21:00", end: "22:00" }] });
+
+    // 00:30 UTC on Tuesday is still 8:30pm Monday in New York
+    expect(getAvailableSlots(newYork, [], new Date("2026-03-10T00:30:00Z"))).toEqual([
+      "2026-03-10T01:00:00.000Z",
+      "2026-03-10T01:30:00.000Z",
+    ]);
+  });
+});
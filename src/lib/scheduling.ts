@@ -0,0 +1,161 @@
+import type { AvailabilitySettings, Booking, WeeklyRule } from "@shared/schema";
+
+// Availability is defined in the freelancer's time zone; everything stored and sent
+// over the wire is UTC. The booking page shows times in the invitee's own zone.
+
+export const weekdayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday to Friday, 9 to 5
+export const DEFAULT_WEEKLY_RULES: WeeklyRule[] = [1, 2, 3, 4, 5].map(day => ({ day, start: "09:00", end: "17:00" }));
+
+export type SchedulingSettings = Pick<
+  AvailabilitySettings,
+  "timeZone" | "meetingMinutes" | "bufferMinutes" | "minimumNoticeHours" | "bookingWindowDays" | "weeklyRules"
+>;
+
+const MINUTE = 60_000;
+
+// Minutes to add to UTC to get wall-clock time in the zone at that instant
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE);
+}
+
+// "2026-03-09" + "09:00" in America/New_York -> the UTC instant
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset can differ between the guess and the result around DST changes, so check twice
+  const firstGuess = wallClock - timeZoneOffset(new Date(wallClock), timeZone) * MINUTE;
+  return new Date(wallClock - timeZoneOffset(new Date(firstGuess), timeZone) * MINUTE);
+}
+
+// The calendar date ("YYYY-MM-DD") of an instant in the zone
+export function zonedDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export function parseWeeklyRules(rules: unknown): WeeklyRule[] {
+  return Array.isArray(rules) ? (rules as WeeklyRule[]) : [];
+}
+
+// A slot conflicts with a booking when they overlap once the buffer is added around the booking
+export function conflictsWithBookings(
+  start: Date,
+  end: Date,
+  bufferMinutes: number,
+  existing: Pick<Booking, "startsAt" | "endsAt">[],
+): boolean {
+  const buffer = bufferMinutes * MINUTE;
+  return existing.some(booking =>
+    start.getTime() < new Date(booking.endsAt).getTime() + buffer &&
+    end.getTime() > new Date(booking.startsAt).getTime() - buffer);
+}
+
+// Start times (UTC ISO strings) that can still be booked, soonest first
+export function getAvailableSlots(
+  settings: SchedulingSettings,
+  existing: Pick<Booking, "startsAt" | "endsAt">[],
+  now = new Date(),
+): string[] {
+  const meeting = settings.meetingMinutes * MINUTE;
+  const earliest = now.getTime() + settings.minimumNoticeHours * 60 * MINUTE;
+  const latest = now.getTime() + settings.bookingWindowDays * 24 * 60 * MINUTE;
+  const rules = parseWeeklyRules(settings.weeklyRules);
+  const today = zonedDate(now, settings.timeZone);
+  const slots: string[] = [];
+
+  for (let i = 0; i <= settings.bookingWindowDays; i++) {
+    const date = addDays(today, i);
+    const dayRules = rules
+      .filter(rule => rule.day === weekdayOf(date))
+      .sort((a, b) => a.start.localeCompare(b.start));
+
+    for (const rule of dayRules) {
+      const ruleEnd = zonedTimeToUtc(date, rule.end, settings.timeZone).getTime();
+      for (let start = zonedTimeToUtc(date, rule.start, settings.timeZone).getTime(); start + meeting <= ruleEnd; start += meeting) {
+        if (start < earliest || start > latest) continue;
+        if (conflictsWithBookings(new Date(start), new Date(start + meeting), settings.bufferMinutes, existing)) continue;
+        slots.push(new Date(start).toISOString());
+      }
+    }
+  }
+
+  // Overlapping rules on the same day can produce the same slot twice
+  return Array.from(new Set(slots)).sort();
+}
+
+// Public booking page URL, prefilled with what we already know about the client
+export function getBookingPageUrl(bookingLink: string, invitee: { name?: string; email?: string; submissionId?: string } = {}): string {
+  const params = new URLSearchParams();
+  if (invitee.name) params.set("name", invitee.name);
+  if (invitee.email) params.set("email", invitee.email);
+  if (invitee.submissionId) params.set("submission", invitee.submissionId);
+  const query = params.toString();
+  return `/book/${bookingLink}${query ? `?${query}` : ""}`;
+}
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const icsText = (value: string) => value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+const foldLine = (line: string) => line.match(/.{1,73}/g)!.join("\r\n ");
+
+export interface CalendarInvite {
+  uid: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  start: Date;
+  end: Date;
+  organizer: { name: string; email: string };
+  attendee: { name: string; email: string };
+  canceled?: boolean;
+}
+
+// An iCalendar (RFC 5545) invite; a canceled invite removes the event from the attendee's calendar
+export function buildIcsInvite(invite: CalendarInvite): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ClientZap//Scheduler//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${invite.canceled ? "CANCEL" : "REQUEST"}`,
+    "BEGIN:VEVENT",
+    `UID:${invite.uid}`,
+    `DTSTAMP:${icsDate(new Date())}`,
+    `DTSTART:${icsDate(invite.start)}`,
+    `DTEND:${icsDate(invite.end)}`,
+    `SUMMARY:${icsText(invite.title)}`,
+    ...(invite.description ? [`DESCRIPTION:${icsText(invite.description)}`] : []),
+    ...(invite.location ? [`LOCATION:${icsText(invite.location)}`] : []),
+    `ORGANIZER;CN=${icsText(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+    `ATTENDEE;CN=${icsText(invite.attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${invite.attendee.email}`,
+    `STATUS:${invite.canceled ? "CANCELLED" : "CONFIRMED"}`,
+    `SEQUENCE:${invite.canceled ? 1 : 0}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
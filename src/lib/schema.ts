@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, json, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,7 +7,7 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password"), // Null for accounts created through Google or GitHub sign-in until a password is set
   zapLink: text("zap_link").notNull().unique(), // Unique 6-character alphanumeric code
   createdAt: timestamp("created_at").defaultNow().notNull(),
   // Profile settings
@@ -25,6 +25,10 @@ export const users = pgTable("users", {
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
   subscriptionEndsAt: timestamp("subscription_ends_at"),
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the user follows the link in their verification email
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // Wrong passwords since the last successful sign-in
+  lockedUntil: timestamp("locked_until"), // Password sign-in is refused until then
+  zapPrivacy: text("zap_privacy").notNull().default("anyone"), // anyone, contacts: who can send forms to this ZapLink
 });
 
 export const clients = pgTable("clients", {
@@ -38,6 +42,8 @@ export const clients = pgTable("clients", {
   progress: integer("progress").notNull().default(0), // 0-100
   formData: jsonb("form_data"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  callScheduledAt: timestamp("call_scheduled_at"), // Start of the booked call
+  callBookingUri: text("call_booking_uri"), // Calendly invitee URI or "booking:<id>", used to match cancellations
 });
 
 export const forms = pgTable("forms", {
@@ -59,16 +65,98 @@ export const sharedForms = pgTable("shared_forms", {
   senderId: varchar("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   recipientId: varchar("recipient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   sentAt: timestamp("sent_at").defaultNow().notNull(),
-  viewedAt: timestamp("viewed_at"),
+  viewedAt: timestamp("viewed_at"), // First time the recipient opened the form
+  respondedAt: timestamp("responded_at"), // Set when the recipient's answers are submitted back to the sender
+  lastReminderAt: timestamp("last_reminder_at"), // Last reminder email the sender had us send
   status: text("status").default("pending"), // pending, viewed, responded
 });
 
+// A user's ZapLink contacts. Added by hand, or automatically when a zap is sent (the recipient
+// becomes the sender's contact) and answered (the sender becomes the recipient's contact).
+export const zapContacts = pgTable("zap_contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("zap_contacts_user_contact_idx").on(table.userId, table.contactId),
+]);
+
+// Users whose zaps someone refuses
+export const zapBlocks = pgTable("zap_blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  blockedUserId: varchar("blocked_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("zap_blocks_user_blocked_idx").on(table.userId, table.blockedUserId),
+]);
+
+// ZapLinks a user has moved off. They keep resolving to the user until expiresAt,
+// so links already shared don't break straight away.
+export const zapLinkRedirects = pgTable("zap_link_redirects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  zapLink: text("zap_link").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const zapReportReasons = ["spam", "harassment", "inappropriate", "other"] as const;
+
+// Abuse reports filed from the Zap Inbox, kept for review
+export const zapReports = pgTable("zap_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reporterId: varchar("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reportedUserId: varchar("reported_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  formId: varchar("form_id").references(() => forms.id, { onDelete: "set null" }), // The form that was zapped
+  reason: text("reason").notNull(), // spam, harassment, inappropriate, other
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const contracts = pgTable("contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
-  status: text("status").notNull().default("draft"), // draft, sent, signed
-  docusignEnvelopeId: text("docusign_envelope_id"),
-  contractData: jsonb("contract_data"),
+  status: text("status").notNull().default("draft"), // draft, sent, signed, declined, voided
+  docusignEnvelopeId: text("docusign_envelope_id"), // Set when sent through the e-signature provider instead of in-app
+  contractData: jsonb("contract_data"), // { body, templateId } for contracts prepared in-app
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // In-app signing
+  submissionId: varchar("submission_id").references(() => formSubmissions.id, { onDelete: "set null" }),
+  title: text("title"),
+  documentKey: text("document_key"), // File store key of the PDF the client is asked to sign
+  documentHash: text("document_hash"), // SHA-256 of that PDF
+  signedDocumentKey: text("signed_document_key"), // Final PDF with signatures and certificate
+  signedDocumentHash: text("signed_document_hash"),
+  signingToken: text("signing_token").unique(), // Capability for the client's public signing page
+  sentAt: timestamp("sent_at"),
+  signedAt: timestamp("signed_at"), // Set once both parties have signed
+});
+
+// One row per signature: the client's, then the freelancer's countersignature
+export const contractSignatures = pgTable("contract_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // client, freelancer
+  signerName: text("signer_name").notNull(),
+  signerEmail: text("signer_email").notNull(),
+  method: text("method").notNull(), // typed, drawn
+  signature: text("signature").notNull(), // Typed name, or a PNG data URL when drawn
+  documentHash: text("document_hash").notNull(), // Hash of the document as signed
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+});
+
+// Audit trail printed on the signature certificate
+export const contractEvents = pgTable("contract_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // created, sent, viewed, signed, countersigned, completed, declined, voided
+  actor: text("actor").notNull(), // client, freelancer, or the e-signature provider (docusign, fake)
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -88,12 +176,235 @@ export const formSubmissions = pgTable("form_submissions", {
   contractGenerated: boolean("contract_generated").default(false),
   contractUrl: text("contract_url"),
   calendlyLink: text("calendly_link"), // Store scheduling link for this submission
+  clientFlowId: varchar("client_flow_id").references(() => clientFlows.id, { onDelete: "set null" }), // Set when submitted as a flow step
+  sharedFormId: varchar("shared_form_id").references(() => sharedForms.id, { onDelete: "set null" }), // Set when a Zap Inbox recipient responds in-app
+});
+
+// Onboarding flows chain several forms that the same client fills in order
+export const flows = pgTable("flows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  formIds: jsonb("form_ids").notNull(), // Ordered form ids, one per step
+  shareableLink: text("shareable_link").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One client's progress through a flow
+export const clientFlows = pgTable("client_flows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flowId: varchar("flow_id").notNull().references(() => flows.id, { onDelete: "cascade" }),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  currentStep: integer("current_step").notNull().default(0), // Index into flows.formIds of the next form to fill
+  status: text("status").notNull().default("in_progress"), // in_progress, completed
+  accessToken: text("access_token").notNull().unique(), // Lets the client continue without an account
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const authTokenPurposes = ["password_reset", "email_verification", "account_unlock"] as const;
+
+// Single-use links emailed for password resets, email verification and unlocking accounts. The emailed token
+// is the row id plus an HMAC over the row, so ids read from the table can't be used as links.
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // password_reset, email_verification, account_unlock
+  email: text("email").notNull(), // The address the link was sent to
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set when the link is used or replaced by a newer one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const securityEventTypes = [
+  "registered",
+  "login_succeeded",
+  "login_failed",
+  "login_blocked",
+  "account_locked",
+  "account_unlocked",
+  "password_changed",
+  "password_reset",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "recovery_codes_regenerated",
+  "identity_linked",
+  "identity_unlinked",
+  "sessions_revoked",
+  "zaplink_changed",
+] as const;
+
+// Signed-in sessions, in the layout connect-pg-simple reads and writes. Declared here so
+// schema pushes keep the table and storage can list a user's sessions.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(), // express-session data: passport.user, device, etc.
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Audit log of sign-ins and account security changes. userId is null for failed sign-ins
+// with a username or email that doesn't belong to any account.
+export const securityEvents = pgTable("security_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  details: jsonb("details"), // e.g. { method: "google" } or { identifier } for unknown accounts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationTypes = ["submission_received", "zap_received", "zap_responded", "contract_signed"] as const;
+
+// What the notification bell lists. New ones are also pushed live over the notifications socket.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // submission_received, zap_received, zap_responded, contract_signed
+  title: text("title").notNull(),
+  body: text("body"),
+  link: text("link"), // In-app path the notification opens
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// A user's authenticator app. Kept out of the users table so the secret never travels
+// with the user object. enabledAt stays null until the first code is confirmed.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32 TOTP secret
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodes: jsonb("recovery_codes").notNull().default([]), // SHA-256 hashes of the unused recovery codes
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, so a code can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const oauthProviders = ["google", "github"] as const;
+
+// Google and GitHub accounts a user can sign in with. An account can be linked to only one
+// ClientZap user, and each user can link one account per provider.
+export const oauthIdentities = pgTable("oauth_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // google, github
+  providerUserId: text("provider_user_id").notNull(), // Google "sub" or GitHub user id
+  email: text("email"), // The provider account's email, shown in settings
+  displayName: text("display_name"), // Name or GitHub login, shown in settings
+  linkedAt: timestamp("linked_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("oauth_identities_provider_account_idx").on(table.provider, table.providerUserId),
+  uniqueIndex("oauth_identities_user_provider_idx").on(table.userId, table.provider),
+]);
+
+// A user's Calendly account, connected with a personal access token. Bookings arrive
+// through a webhook subscription created on connect.
+export const calendlyConnections = pgTable("calendly_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  accessToken: text("access_token").notNull(),
+  calendlyUserUri: text("calendly_user_uri").notNull(),
+  organizationUri: text("organization_uri").notNull(),
+  schedulingUrl: text("scheduling_url").notNull(),
+  webhookSubscriptionUri: text("webhook_subscription_uri"),
+  webhookSigningKey: text("webhook_signing_key").notNull(),
+  connectedAt: timestamp("connected_at").defaultNow().notNull(),
+});
+
+// Built-in scheduler: when a user can be booked, in their own time zone
+export const availabilitySettings = pgTable("availability_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  enabled: boolean("enabled").notNull().default(false),
+  bookingLink: text("booking_link").notNull().unique(), // Public booking page at /book/:bookingLink
+  timeZone: text("time_zone").notNull().default("UTC"),
+  meetingTitle: text("meeting_title").notNull().default("Kickoff call"),
+  meetingMinutes: integer("meeting_minutes").notNull().default(30),
+  bufferMinutes: integer("buffer_minutes").notNull().default(15), // Kept free before and after every booking
+  minimumNoticeHours: integer("minimum_notice_hours").notNull().default(12),
+  bookingWindowDays: integer("booking_window_days").notNull().default(30),
+  location: text("location"), // Video link, phone number or address
+  weeklyRules: jsonb("weekly_rules").notNull(), // [{ day: 0-6 (Sunday first), start: "09:00", end: "17:00" }]
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const bookings = pgTable("bookings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "set null" }),
+  submissionId: varchar("submission_id").references(() => formSubmissions.id, { onDelete: "set null" }),
+  inviteeName: text("invitee_name").notNull(),
+  inviteeEmail: text("invitee_email").notNull(),
+  notes: text("notes"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: text("status").notNull().default("confirmed"), // confirmed, canceled
+  manageToken: text("manage_token").notNull().unique(), // Lets the invitee view and cancel without an account
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  canceledAt: timestamp("canceled_at"),
+}, (table) => [
+  // Backstop for two people grabbing the same slot at once
+  uniqueIndex("bookings_confirmed_slot_idx").on(table.userId, table.startsAt).where(sql`${table.status} = 'confirmed'`),
+]);
+
+// Files uploaded through file fields on public forms
+export const uploadedFiles = pgTable("uploaded_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner of the form
+  formId: varchar("form_id").notNull().references(() => forms.id, { onDelete: "cascade" }),
+  fieldId: text("field_id").notNull(),
+  submissionId: varchar("submission_id").references(() => formSubmissions.id, { onDelete: "set null" }), // Set once the form is submitted
+  storageKey: text("storage_key").notNull(), // Object key in the configured file store
+  uploadId: text("upload_id"), // File store's multipart upload id while uploading
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  status: text("status").notNull().default("uploading"), // uploading, complete
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Reusable contract templates; the body uses the markup and merge fields from contract-templates.ts
+export const contractTemplates = pgTable("contract_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Clauses are inserted into templates with {{clause.<key>}}; a user's clause overrides the built-in one with the same key
+export const contractClauses = pgTable("contract_clauses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  title: text("title").notNull(),
+  category: text("category").notNull().default("general"), // payment, ip, cancellation, confidentiality, general
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Password rules shared by sign-up, password changes and resets
+export const passwordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[a-zA-Z]/, "Password must include a letter")
+  .regex(/[0-9]/, "Password must include a number");
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
   password: true,
+}).extend({
+  username: z.string().trim().min(1, "Username is required"),
+  // Stored lowercase so sign-in, linking and resets find the account however it's typed
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  password: passwordSchema,
 });
 
 export const updateUserProfileSchema = createInsertSchema(users).pick({
@@ -105,9 +416,11 @@ export const updateUserProfileSchema = createInsertSchema(users).pick({
   socialLinks: true,
   brandColor: true,
   emailSignature: true,
+  profilePicture: true,
+  businessLogo: true,
 }).extend({
   displayName: z.string().min(1, "Display name is required"),
-  email: z.string().email("Invalid email address"),
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
   freelancerType: z.string().optional(),
   businessName: z.string().optional(),
   website: z.string().url("Invalid website URL").optional().or(z.literal("")),
@@ -120,17 +433,84 @@ export const updateUserProfileSchema = createInsertSchema(users).pick({
   }).optional(),
   brandColor: z.string().regex(/^#[0-9A-F]{6}$/i, "Invalid hex color").optional(),
   emailSignature: z.string().optional(),
+  // URLs returned by the image upload endpoints, or null to remove
+  profilePicture: z.string().nullable().optional(),
+  businessLogo: z.string().nullable().optional(),
 });
 
 export const updatePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+  newPassword: passwordSchema,
   confirmPassword: z.string().min(1, "Please confirm your password"),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "This reset link is invalid"),
+  newPassword: passwordSchema,
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "This verification link is invalid"),
+});
+
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, "This unlock link is invalid"),
+});
+
+// Form field definitions stored in forms.fields
+// page_break is a layout marker: it starts a new page titled by its label and holds no answer
+export const formFieldTypes = ["text", "email", "textarea", "select", "radio", "checkbox", "file", "page_break"] as const;
+
+// Conditional logic: compare another field's answer to a fixed value
+export const fieldConditionOperators = ["equals", "not_equals", "contains", "greater_than"] as const;
+
+export const fieldConditionSchema = z.object({
+  fieldId: z.string().min(1),
+  operator: z.enum(fieldConditionOperators),
+  value: z.string(),
+});
+
+// show/hide apply to the field carrying the rule; skip jumps from it to targetFieldId
+export const fieldLogicSchema = z.object({
+  action: z.enum(["show", "hide", "skip"]),
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(fieldConditionSchema).min(1),
+  targetFieldId: z.string().optional(),
+});
+
+export const formFieldSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(formFieldTypes),
+  label: z.string(),
+  placeholder: z.string().optional(),
+  required: z.boolean(),
+  options: z.array(z.string()).optional(),
+  logic: fieldLogicSchema.optional(),
+  // File fields only
+  maxFileSizeMb: z.number().positive().optional(),
+  maxFiles: z.number().int().positive().optional(),
+  acceptedFileTypes: z.array(z.string()).optional(), // MIME types ("image/*") or extensions (".pdf")
+});
+
+// Answer stored for each file uploaded to a file field
+export const uploadedFileRefSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  size: z.number().int().nonnegative(),
+  type: z.string(),
+});
+
 export const insertClientSchema = createInsertSchema(clients).omit({
   id: true,
   createdAt: true,
@@ -141,6 +521,7 @@ export const insertFormSchema = createInsertSchema(forms).omit({
   createdAt: true,
   shareableLink: true,
 }).extend({
+  fields: z.array(formFieldSchema),
   calendlyLink: z.string().optional(), // Add optional Calendly link to form creation
 });
 
@@ -149,6 +530,34 @@ export const insertContractSchema = createInsertSchema(contracts).omit({
   createdAt: true,
 });
 
+export const insertContractSignatureSchema = createInsertSchema(contractSignatures).omit({
+  id: true,
+  signedAt: true,
+});
+
+export const insertContractEventSchema = createInsertSchema(contractEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const signatureMethods = ["typed", "drawn"] as const;
+
+// What the signer submits from the signing page or the countersign dialog
+export const signContractSchema = z.object({
+  signerName: z.string().trim().min(1, "Enter your full name"),
+  method: z.enum(signatureMethods),
+  signature: z.string().min(1, "Add your signature"),
+  agreed: z.literal(true, { errorMap: () => ({ message: "You must agree to sign electronically" }) }),
+}).superRefine((data, ctx) => {
+  if (data.method === "drawn" && !/^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(data.signature)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["signature"], message: "Drawn signatures must be a PNG image" });
+  }
+  // Drawn signatures are small canvases; anything bigger isn't one
+  if (data.signature.length > 300_000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["signature"], message: "Signature is too large" });
+  }
+});
+
 export const insertWaitlistSchema = createInsertSchema(waitlistSignups).pick({
   email: true,
 });
@@ -160,6 +569,151 @@ export const insertFormSubmissionSchema = createInsertSchema(formSubmissions).om
   contractUrl: true,
 });
 
+export const insertFlowSchema = createInsertSchema(flows).omit({
+  id: true,
+  createdAt: true,
+  shareableLink: true,
+}).extend({
+  name: z.string().min(1, "Flow name is required"),
+  formIds: z.array(z.string().min(1)).min(2, "A flow needs at least two forms"),
+});
+
+export const insertClientFlowSchema = createInsertSchema(clientFlows).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const clauseCategories = ["payment", "ip", "cancellation", "confidentiality", "general"] as const;
+
+export const insertContractTemplateSchema = createInsertSchema(contractTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Template name is required"),
+  body: z.string().min(1, "Template body is required"),
+});
+
+export const insertContractClauseSchema = createInsertSchema(contractClauses).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  key: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Keys can only use lowercase letters, numbers and dashes"),
+  title: z.string().min(1, "Clause title is required"),
+  category: z.enum(clauseCategories),
+  body: z.string().min(1, "Clause text is required"),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertSecurityEventSchema = createInsertSchema(securityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials).omit({
+  id: true,
+  createdAt: true,
+});
+
+// A code from the authenticator app, or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+export const insertOAuthIdentitySchema = createInsertSchema(oauthIdentities).omit({
+  id: true,
+  linkedAt: true,
+});
+
+export const insertCalendlyConnectionSchema = createInsertSchema(calendlyConnections).omit({
+  id: true,
+  connectedAt: true,
+});
+
+export const connectCalendlySchema = z.object({
+  accessToken: z.string().trim().min(1, "Paste your Calendly personal access token"),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const weeklyRuleSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  start: timeOfDay,
+  end: timeOfDay,
+}).refine(rule => rule.start < rule.end, { message: "End time must be after start time", path: ["end"] });
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const insertAvailabilitySettingsSchema = createInsertSchema(availabilitySettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const updateAvailabilitySchema = createInsertSchema(availabilitySettings).pick({
+  enabled: true,
+  timeZone: true,
+  meetingTitle: true,
+  meetingMinutes: true,
+  bufferMinutes: true,
+  minimumNoticeHours: true,
+  bookingWindowDays: true,
+  location: true,
+}).extend({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  meetingTitle: z.string().trim().min(1, "Meeting title is required").max(100),
+  meetingMinutes: z.number().int().min(10, "Meetings must be at least 10 minutes").max(240),
+  bufferMinutes: z.number().int().min(0).max(120),
+  minimumNoticeHours: z.number().int().min(0).max(336),
+  bookingWindowDays: z.number().int().min(1).max(365),
+  location: z.string().max(500).nullable().optional(),
+  weeklyRules: z.array(weeklyRuleSchema).max(28),
+}).partial();
+
+export const insertBookingSchema = createInsertSchema(bookings).omit({
+  id: true,
+  createdAt: true,
+  canceledAt: true,
+});
+
+// What the public booking page submits
+export const createBookingSchema = z.object({
+  start: z.string().datetime({ message: "Pick a time" }),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().email("Invalid email address"),
+  notes: z.string().max(1000).optional(),
+  submissionId: z.string().optional(),
+});
+
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type FormField = z.infer<typeof formFieldSchema>;
+export type FormFieldType = FormField["type"];
+export type FieldCondition = z.infer<typeof fieldConditionSchema>;
+export type FieldConditionOperator = FieldCondition["operator"];
+export type FieldLogic = z.infer<typeof fieldLogicSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertClient = z.infer<typeof insertClientSchema>;
@@ -172,11 +726,123 @@ export type InsertWaitlist = z.infer<typeof insertWaitlistSchema>;
 export type WaitlistSignup = typeof waitlistSignups.$inferSelect;
 export type InsertFormSubmission = z.infer<typeof insertFormSubmissionSchema>;
 export type FormSubmission = typeof formSubmissions.$inferSelect;
+export type InsertFlow = z.infer<typeof insertFlowSchema>;
+export type Flow = typeof flows.$inferSelect;
+export type InsertClientFlow = z.infer<typeof insertClientFlowSchema>;
+export type ClientFlow = typeof clientFlows.$inferSelect;
+export type AuthTokenPurpose = typeof authTokenPurposes[number];
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type SecurityEventType = typeof securityEventTypes[number];
+export type InsertSecurityEvent = z.infer<typeof insertSecurityEventSchema>;
+export type NotificationType = typeof notificationTypes[number];
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type OAuthProvider = typeof oauthProviders[number];
+export type InsertOAuthIdentity = z.infer<typeof insertOAuthIdentitySchema>;
+export type OAuthIdentity = typeof oauthIdentities.$inferSelect;
+export type InsertCalendlyConnection = z.infer<typeof insertCalendlyConnectionSchema>;
+export type CalendlyConnection = typeof calendlyConnections.$inferSelect;
+export type WeeklyRule = z.infer<typeof weeklyRuleSchema>;
+export type AvailabilitySettings = typeof availabilitySettings.$inferSelect;
+export type InsertAvailabilitySettings = z.infer<typeof insertAvailabilitySettingsSchema>;
+export type UpdateAvailability = z.infer<typeof updateAvailabilitySchema>;
+export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type Booking = typeof bookings.$inferSelect;
+export type CreateBooking = z.infer<typeof createBookingSchema>;
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+export type UploadedFileRef = z.infer<typeof uploadedFileRefSchema>;
+export type InsertContractTemplate = z.infer<typeof insertContractTemplateSchema>;
+export type ContractTemplate = typeof contractTemplates.$inferSelect;
+export type InsertContractClause = z.infer<typeof insertContractClauseSchema>;
+export type ContractClause = typeof contractClauses.$inferSelect;
+export type ClauseCategory = typeof clauseCategories[number];
+export type InsertContractSignature = z.infer<typeof insertContractSignatureSchema>;
+export type ContractSignature = typeof contractSignatures.$inferSelect;
+export type InsertContractEvent = z.infer<typeof insertContractEventSchema>;
+export type ContractEvent = typeof contractEvents.$inferSelect;
+export type SignatureMethod = typeof signatureMethods[number];
+export type SignContract = z.infer<typeof signContractSchema>;
 
 export const insertSharedFormSchema = createInsertSchema(sharedForms).omit({
   id: true,
   sentAt: true,
 });
 
+export const zapPrivacySettings = ["anyone", "contacts"] as const;
+
+export const updateZapPrivacySchema = z.object({
+  zapPrivacy: z.enum(zapPrivacySettings),
+});
+
+export const addZapContactSchema = z.object({
+  zapLink: z.string().trim().min(1, "ZapLink is required"),
+});
+
+export const insertZapContactSchema = createInsertSchema(zapContacts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertZapBlockSchema = createInsertSchema(zapBlocks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertZapReportSchema = createInsertSchema(zapReports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertZapLinkRedirectSchema = createInsertSchema(zapLinkRedirects).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Handles that would read as ClientZap itself or clash with app routes
+export const reservedZapLinks = [
+  "about", "account", "admin", "api", "app", "auth", "billing", "blog", "clientzap", "contact",
+  "dashboard", "form", "forms", "help", "inbox", "login", "logout", "official", "pricing", "privacy",
+  "root", "security", "settings", "signup", "staff", "support", "system", "team", "terms", "zap",
+];
+
+// Vanity ZapLinks are stored lowercase; lookups ignore case either way
+export const vanityZapLinkSchema = z.object({
+  zapLink: z.string().trim().toLowerCase()
+    .min(3, "Your ZapLink must be at least 3 characters")
+    .max(30, "Your ZapLink can be at most 30 characters")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use letters, numbers and single hyphens, starting and ending with a letter or number")
+    .refine(zapLink => !reservedZapLinks.includes(zapLink), "That ZapLink is reserved"),
+});
+
+export const reportZapSchema = z.object({
+  reason: z.enum(zapReportReasons),
+  details: z.string().trim().max(1000).optional(),
+});
+
+// Send one form to several ZapLinks at once
+export const bulkSendZapSchema = z.object({
+  zapLinks: z.array(z.string().trim().min(1)).min(1, "Enter at least one ZapLink").max(25, "You can send to up to 25 ZapLinks at a time"),
+});
+
 export type InsertSharedForm = z.infer<typeof insertSharedFormSchema>;
 export type SharedForm = typeof sharedForms.$inferSelect;
+export type BulkSendZap = z.infer<typeof bulkSendZapSchema>;
+export type ZapPrivacy = typeof zapPrivacySettings[number];
+export type InsertZapContact = z.infer<typeof insertZapContactSchema>;
+export type ZapContact = typeof zapContacts.$inferSelect;
+export type InsertZapBlock = z.infer<typeof insertZapBlockSchema>;
+export type ZapBlock = typeof zapBlocks.$inferSelect;
+export type ZapReportReason = typeof zapReportReasons[number];
+export type InsertZapReport = z.infer<typeof insertZapReportSchema>;
+export type ZapReport = typeof zapReports.$inferSelect;
+export type ReportZap = z.infer<typeof reportZapSchema>;
+export type InsertZapLinkRedirect = z.infer<typeof insertZapLinkRedirectSchema>;
+export type ZapLinkRedirect = typeof zapLinkRedirects.$inferSelect;
+export type VanityZapLink = z.infer<typeof vanityZapLinkSchema>;
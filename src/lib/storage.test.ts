@@ -0,0 +1,426 @@
+import { createRequire } from "module";
+import { randomUUID } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't be loaded by vitest, its CommonJS one can
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+const MemoryStore = createMemoryStore(session);
+
+// An in-process Postgres with the current schema, the same tables `npm run db:push` creates
+async function createPgliteStorage(): Promise<IStorage> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return new DatabaseStorage(drizzle({ client, schema }), new MemoryStore());
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage (pglite)", createPgliteStorage],
+];
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Both backends must behave the same for everything the app relies on
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  const createUser = (name = `user-${randomUUID().slice(0, 8)}`) =>
+    storage.createUser({ username: name, email: `${name}@example.com`, password: "hashed" });
+
+  const createForm = async (userId: string) =>
+    storage.createForm({ userId, title: "Intake", fields: [], isPublished: true, shareableLink: randomUUID() });
+
+  const createClient = (userId: string, email = `${randomUUID().slice(0, 8)}@client.com`) =>
+    storage.createClient({ userId, name: "Client", email });
+
+  describe("users", () => {
+    it("creates users with a unique ZapLink and finds them by username, email and ZapLink", async () => {
+      const user = await createUser();
+      const other = await createUser();
+
+      expect(user.zapLink).toMatch(/^[A-Z0-9]{6}$/);
+      expect(user.zapLink).not.toBe(other.zapLink);
+      expect(user.zapPrivacy).toBe("anyone");
+      expect(user.failedLoginCount).toBe(0);
+      expect((await storage.getUser(user.id))?.username).toBe(user.username);
+      expect((await storage.getUserByUsername(user.username))?.id).toBe(user.id);
+      expect((await storage.getUserByEmail(user.email))?.id).toBe(user.id);
+      expect((await storage.getUserByEmail(user.email.toUpperCase()))?.id).toBe(user.id);
+      expect((await storage.getUserByZapLink(user.zapLink.toLowerCase()))?.id).toBe(user.id);
+      expect(await storage.getUser(randomUUID())).toBeUndefined();
+    });
+
+    it("updates and deletes users", async () => {
+      const user = await createUser();
+
+      const updated = await storage.updateUser(user.id, { displayName: "Ada", zapPrivacy: "contacts" });
+      expect(updated).toMatchObject({ id: user.id, displayName: "Ada", zapPrivacy: "contacts" });
+      expect(await storage.updateUser(randomUUID(), { displayName: "Nobody" })).toBeUndefined();
+
+      const withStripe = await storage.updateUserStripeInfo(user.id, { customerId: "cus_1", subscriptionId: "sub_1" });
+      expect(withStripe).toMatchObject({ stripeCustomerId: "cus_1", stripeSubscriptionId: "sub_1" });
+
+      expect(await storage.deleteUser(user.id)).toBe(true);
+      expect(await storage.getUser(user.id)).toBeUndefined();
+      expect(await storage.deleteUser(user.id)).toBe(false);
+    });
+
+    it("counts failed logins", async () => {
+      const user = await createUser();
+
+      await Promise.all([storage.recordFailedLogin(user.id), storage.recordFailedLogin(user.id)]);
+
+      expect((await storage.getUser(user.id))?.failedLoginCount).toBe(2);
+      expect(await storage.recordFailedLogin(randomUUID())).toBeUndefined();
+    });
+  });
+
+  describe("clients, forms and submissions", () => {
+    it("scopes clients to their freelancer", async () => {
+      const user = await createUser();
+      const other = await createUser();
+      const client = await createClient(user.id, "pat@client.com");
+      await createClient(other.id, "pat@client.com");
+
+      expect(client).toMatchObject({ formStatus: "pending", contractStatus: "not_sent", callStatus: "not_scheduled", progress: 0 });
+      expect((await storage.getClientsByUserId(user.id)).map(c => c.id)).toEqual([client.id]);
+      expect((await storage.getClientByEmail(user.id, "pat@client.com"))?.id).toBe(client.id);
+
+      const updated = await storage.updateClient(client.id, { callStatus: "scheduled", callBookingUri: "booking:1" });
+      expect(updated?.callStatus).toBe("scheduled");
+      expect((await storage.getClientByCallBookingUri(user.id, "booking:1"))?.id).toBe(client.id);
+      expect(await storage.getClientByCallBookingUri(other.id, "booking:1")).toBeUndefined();
+
+      expect(await storage.deleteClient(client.id)).toBe(true);
+      expect(await storage.getClient(client.id)).toBeUndefined();
+    });
+
+    it("finds forms by owner and shareable link", async () => {
+      const user = await createUser();
+      const form = await createForm(user.id);
+
+      expect((await storage.getFormsByUserId(user.id)).map(f => f.id)).toEqual([form.id]);
+      expect((await storage.getFormByShareableLink(form.shareableLink!))?.id).toBe(form.id);
+      expect((await storage.updateForm(form.id, { title: "Kickoff" }))?.title).toBe("Kickoff");
+      expect(await storage.deleteForm(form.id)).toBe(true);
+      expect(await storage.getForm(form.id)).toBeUndefined();
+    });
+
+    it("lists submissions to the user's forms, newest first", async () => {
+      const user = await createUser();
+      const other = await createUser();
+      const form = await createForm(user.id);
+      const otherForm = await createForm(other.id);
+
+      const first = await storage.createFormSubmission({ formId: form.id, clientName: "A", clientEmail: "a@client.com", submissionData: { q: 1 } });
+      await tick();
+      const second = await storage.createFormSubmission({ formId: form.id, clientName: "B", clientEmail: "b@client.com", submissionData: { q: 2 } });
+      await storage.createFormSubmission({ formId: otherForm.id, clientName: "C", clientEmail: "c@client.com", submissionData: {} });
+
+      expect((await storage.getFormSubmissions(user.id)).map(s => s.id)).toEqual([second.id, first.id]);
+      expect((await storage.getFormSubmissionById(first.id))?.submissionData).toEqual({ q: 1 });
+      expect((await storage.updateFormSubmission(first.id, { contractGenerated: true })).contractGenerated).toBe(true);
+    });
+  });
+
+  describe("contracts", () => {
+    it("stores contracts with their signatures and events", async () => {
+      const user = await createUser();
+      const client = await createClient(user.id);
+      const contract = await storage.createContract({ clientId: client.id, title: "Agreement", signingToken: randomUUID() });
+
+      expect(contract.status).toBe("draft");
+      expect((await storage.getContractsByClientId(client.id)).map(c => c.id)).toEqual([contract.id]);
+      expect((await storage.getContractsByUserId(user.id)).map(c => c.id)).toEqual([contract.id]);
+      expect((await storage.getContractBySigningToken(contract.signingToken!))?.id).toBe(contract.id);
+
+      await storage.updateContract(contract.id, { docusignEnvelopeId: "env-1", status: "sent" });
+      expect((await storage.getContractByEnvelopeId("env-1"))?.status).toBe("sent");
+
+      await storage.createContractSignature({
+        contractId: contract.id,
+        role: "client",
+        signerName: "Pat",
+        signerEmail: "pat@client.com",
+        method: "typed",
+        signature: "Pat",
+        documentHash: "abc",
+      });
+      await storage.createContractEvent({ contractId: contract.id, type: "signed", actor: "client" });
+
+      expect(await storage.getContractSignatures(contract.id)).toHaveLength(1);
+      expect((await storage.getContractEvents(contract.id)).map(e => e.type)).toEqual(["signed"]);
+    });
+
+    it("keeps templates and clauses per user", async () => {
+      const user = await createUser();
+      const template = await storage.createContractTemplate({ userId: user.id, name: "Standard", body: "Hello {{client.name}}" });
+      const clause = await storage.createContractClause({ userId: user.id, key: "payment", title: "Payment", body: "Net 30" });
+
+      expect((await storage.getContractTemplatesByUserId(user.id)).map(t => t.id)).toEqual([template.id]);
+      expect((await storage.updateContractTemplate(template.id, { name: "Updated" }))?.name).toBe("Updated");
+      expect((await storage.getContractClausesByUserId(user.id)).map(c => c.id)).toEqual([clause.id]);
+      expect(clause.category).toBe("general");
+      expect(await storage.deleteContractClause(clause.id)).toBe(true);
+      expect(await storage.deleteContractTemplate(template.id)).toBe(true);
+      expect(await storage.getContractTemplate(template.id)).toBeUndefined();
+    });
+  });
+
+  describe("zaps", () => {
+    it("joins shared forms with their form and sender", async () => {
+      const sender = await createUser();
+      const recipient = await createUser();
+      const form = await createForm(sender.id);
+
+      const shared = await storage.shareFormToUser({ formId: form.id, senderId: sender.id, recipientId: recipient.id });
+
+      const inbox = await storage.getSharedFormsForUser(recipient.id);
+      expect(inbox).toHaveLength(1);
+      expect(inbox[0]).toMatchObject({ id: shared.id, status: "pending" });
+      expect(inbox[0].form.id).toBe(form.id);
+      expect(inbox[0].sender.id).toBe(sender.id);
+
+      const outbox = await storage.getSharedFormsSentWithDetails(sender.id);
+      expect(outbox.map(s => s.recipient.id)).toEqual([recipient.id]);
+      expect((await storage.getSharedFormsForForm(form.id)).map(s => s.id)).toEqual([shared.id]);
+      expect((await storage.getSharedFormsSentByUser(sender.id)).map(s => s.id)).toEqual([shared.id]);
+
+      expect((await storage.updateSharedForm(shared.id, { status: "viewed" }))?.status).toBe("viewed");
+      await expect(storage.deleteSharedForm(shared.id, sender.id)).rejects.toThrow();
+      expect(await storage.deleteSharedForm(shared.id, recipient.id)).toBe(true);
+      expect(await storage.getSharedFormsForUser(recipient.id)).toEqual([]);
+    });
+
+    it("adds contacts and blocks only once", async () => {
+      const user = await createUser();
+      const contact = await createUser();
+
+      const added = await storage.addZapContact({ userId: user.id, contactId: contact.id });
+      expect((await storage.addZapContact({ userId: user.id, contactId: contact.id })).id).toBe(added.id);
+      expect((await storage.getZapContacts(user.id)).map(c => c.contact.id)).toEqual([contact.id]);
+      expect(await storage.deleteZapContact(added.id, contact.id)).toBe(false);
+      expect(await storage.deleteZapContact(added.id, user.id)).toBe(true);
+
+      const block = await storage.createZapBlock({ userId: user.id, blockedUserId: contact.id });
+      expect((await storage.createZapBlock({ userId: user.id, blockedUserId: contact.id })).id).toBe(block.id);
+      expect((await storage.getZapBlock(user.id, contact.id))?.id).toBe(block.id);
+      expect((await storage.getZapBlocks(user.id)).map(b => b.blockedUser.id)).toEqual([contact.id]);
+      expect(await storage.deleteZapBlock(block.id, user.id)).toBe(true);
+      expect(await storage.getZapBlock(user.id, contact.id)).toBeUndefined();
+    });
+
+    it("keeps redirects from old ZapLinks", async () => {
+      const user = await createUser();
+      const expiresAt = new Date(Date.now() + 60_000);
+
+      const redirect = await storage.createZapLinkRedirect({ userId: user.id, zapLink: `old-${user.zapLink.toLowerCase()}`, expiresAt });
+
+      expect((await storage.getZapLinkRedirect(redirect.zapLink.toUpperCase()))?.userId).toBe(user.id);
+      expect((await storage.getZapLinkRedirectsByUser(user.id)).map(r => r.id)).toEqual([redirect.id]);
+      await storage.deleteZapLinkRedirect(redirect.id);
+      expect(await storage.getZapLinkRedirect(redirect.zapLink)).toBeUndefined();
+    });
+  });
+
+  describe("flows and uploads", () => {
+    it("tracks a client's run through a flow", async () => {
+      const user = await createUser();
+      const form = await createForm(user.id);
+      const client = await createClient(user.id);
+      const flow = await storage.createFlow({ userId: user.id, name: "Onboarding", formIds: [form.id], shareableLink: randomUUID() });
+
+      expect((await storage.getFlowByShareableLink(flow.shareableLink!))?.id).toBe(flow.id);
+
+      const run = await storage.createClientFlow({ flowId: flow.id, clientId: client.id, accessToken: randomUUID() });
+      expect(run).toMatchObject({ currentStep: 0, status: "in_progress" });
+      expect((await storage.getClientFlowByToken(run.accessToken))?.id).toBe(run.id);
+
+      await storage.updateClientFlow(run.id, { currentStep: 1, status: "completed" });
+      const runs = await storage.getClientFlowsByUserId(user.id);
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ status: "completed", flow: { id: flow.id }, client: { id: client.id } });
+
+      expect(await storage.deleteFlow(flow.id)).toBe(true);
+      expect(await storage.getFlowsByUserId(user.id)).toEqual([]);
+    });
+
+    it("stores uploaded file records", async () => {
+      const user = await createUser();
+      const form = await createForm(user.id);
+
+      const file = await storage.createUploadedFile({
+        userId: user.id,
+        formId: form.id,
+        fieldId: "resume",
+        storageKey: `uploads/${randomUUID()}`,
+        fileName: "resume.pdf",
+        contentType: "application/pdf",
+        size: 1024,
+      });
+
+      expect(file.status).toBe("uploading");
+      expect((await storage.updateUploadedFile(file.id, { status: "complete" }))?.status).toBe("complete");
+      expect(await storage.deleteUploadedFile(file.id)).toBe(true);
+      expect(await storage.getUploadedFile(file.id)).toBeUndefined();
+    });
+
+    it("finds uploads that never made it into a submission", async () => {
+      const user = await createUser();
+      const form = await createForm(user.id);
+      const submission = await storage.createFormSubmission({ formId: form.id, clientName: "A", clientEmail: "a@client.com", submissionData: {} });
+      const upload = (submissionId?: string) => storage.createUploadedFile({
+        userId: user.id,
+        formId: form.id,
+        fieldId: "resume",
+        storageKey: `uploads/${randomUUID()}`,
+        fileName: "resume.pdf",
+        contentType: "application/pdf",
+        size: 1024,
+        submissionId,
+      });
+      const abandoned = await upload();
+      await upload(submission.id);
+      await tick();
+      const cutoff = new Date();
+      await tick();
+      await upload();
+
+      const found = await storage.getUnsubmittedUploadedFiles(cutoff);
+      expect(found.filter(file => file.formId === form.id).map(file => file.id)).toEqual([abandoned.id]);
+    });
+  });
+
+  describe("account security", () => {
+    it("uses auth tokens once and revokes outstanding ones", async () => {
+      const user = await createUser();
+      const expiresAt = new Date(Date.now() + 60_000);
+      const token = await storage.createAuthToken({ userId: user.id, purpose: "password_reset", email: user.email, expiresAt });
+      const other = await storage.createAuthToken({ userId: user.id, purpose: "password_reset", email: user.email, expiresAt });
+
+      expect(await storage.useAuthToken(token.id)).toBe(true);
+      expect(await storage.useAuthToken(token.id)).toBe(false);
+
+      await storage.revokeAuthTokens(user.id, "password_reset");
+      expect((await storage.getAuthToken(other.id))?.usedAt).toBeInstanceOf(Date);
+      expect(await storage.useAuthToken(other.id)).toBe(false);
+    });
+
+    it("replaces a user's two-factor credential", async () => {
+      const user = await createUser();
+
+      const first = await storage.saveTwoFactorCredential({ userId: user.id, secret: "FIRST" });
+      expect(first).toMatchObject({ enabledAt: null, recoveryCodes: [], lastUsedStep: null });
+      await storage.saveTwoFactorCredential({ userId: user.id, secret: "SECOND" });
+      expect((await storage.getTwoFactorCredential(user.id))?.secret).toBe("SECOND");
+
+      const updated = await storage.updateTwoFactorCredential(user.id, { lastUsedStep: 42 });
+      expect(updated?.lastUsedStep).toBe(42);
+      expect(await storage.deleteTwoFactorCredential(user.id)).toBe(true);
+      expect(await storage.getTwoFactorCredential(user.id)).toBeUndefined();
+    });
+
+    it("lists security events newest first", async () => {
+      const user = await createUser();
+      await storage.createSecurityEvent({ userId: user.id, type: "registered" });
+      await tick();
+      await storage.createSecurityEvent({ userId: user.id, type: "login_succeeded", details: { method: "password" } });
+
+      const events = await storage.getSecurityEventsByUser(user.id, 1);
+      expect(events.map(e => e.type)).toEqual(["login_succeeded"]);
+      expect(events[0].details).toEqual({ method: "password" });
+    });
+
+    it("links OAuth identities to one user", async () => {
+      const user = await createUser();
+      const identity = await storage.createOAuthIdentity({ userId: user.id, provider: "github", providerUserId: randomUUID() });
+
+      expect((await storage.getOAuthIdentity("github", identity.providerUserId))?.userId).toBe(user.id);
+      expect((await storage.getOAuthIdentitiesByUser(user.id)).map(i => i.id)).toEqual([identity.id]);
+      expect(await storage.deleteOAuthIdentity(identity.id, randomUUID())).toBe(false);
+      expect(await storage.deleteOAuthIdentity(identity.id, user.id)).toBe(true);
+    });
+  });
+
+  describe("notifications", () => {
+    it("lists, counts and marks notifications read per user", async () => {
+      const user = await createUser();
+      const other = await createUser();
+      const first = await storage.createNotification({ userId: user.id, type: "zap_received", title: "First" });
+      await tick();
+      const second = await storage.createNotification({ userId: user.id, type: "submission_received", title: "Second" });
+
+      expect((await storage.getNotifications(user.id, 10)).map(n => n.id)).toEqual([second.id, first.id]);
+      expect(await storage.getUnreadNotificationCount(user.id)).toBe(2);
+
+      expect(await storage.markNotificationRead(first.id, other.id)).toBe(false);
+      expect(await storage.markNotificationRead(first.id, user.id)).toBe(true);
+      expect(await storage.getUnreadNotificationCount(user.id)).toBe(1);
+
+      await storage.markAllNotificationsRead(user.id);
+      expect(await storage.getUnreadNotificationCount(user.id)).toBe(0);
+    });
+  });
+
+  describe("scheduling", () => {
+    it("keeps one Calendly connection per user", async () => {
+      const user = await createUser();
+      const connection = {
+        userId: user.id,
+        accessToken: "token",
+        calendlyUserUri: "https://api.calendly.com/users/1",
+        organizationUri: "https://api.calendly.com/organizations/1",
+        schedulingUrl: "https://calendly.com/someone",
+        webhookSigningKey: "key",
+      };
+
+      await storage.saveCalendlyConnection(connection);
+      await storage.saveCalendlyConnection({ ...connection, accessToken: "rotated" });
+
+      expect((await storage.getCalendlyConnection(user.id))?.accessToken).toBe("rotated");
+      expect(await storage.deleteCalendlyConnection(user.id)).toBe(true);
+      expect(await storage.getCalendlyConnection(user.id)).toBeUndefined();
+    });
+
+    it("finds confirmed bookings overlapping a range", async () => {
+      const user = await createUser();
+      const settings = await storage.createAvailabilitySettings({ userId: user.id, bookingLink: randomUUID(), weeklyRules: [] });
+      expect((await storage.getAvailabilitySettingsByBookingLink(settings.bookingLink))?.userId).toBe(user.id);
+      expect((await storage.updateAvailabilitySettings(user.id, { enabled: true }))?.enabled).toBe(true);
+
+      const at = (hour: number) => new Date(Date.UTC(2030, 0, 1, hour));
+      const booking = (startsAt: Date, endsAt: Date) => storage.createBooking({
+        userId: user.id,
+        inviteeName: "Pat",
+        inviteeEmail: "pat@client.com",
+        startsAt,
+        endsAt,
+        manageToken: randomUUID(),
+      });
+      const morning = await booking(at(9), at(10));
+      const noon = await booking(at(12), at(13));
+      await booking(at(15), at(16));
+      await storage.updateBooking(noon.id, { status: "canceled", canceledAt: new Date() });
+
+      const overlapping = await storage.getConfirmedBookingsBetween(user.id, at(9), at(14));
+      expect(overlapping.map(b => b.id)).toEqual([morning.id]);
+      expect((await storage.getBookingByManageToken(morning.manageToken))?.id).toBe(morning.id);
+      expect(await storage.getBookingsByUserId(user.id)).toHaveLength(3);
+    });
+  });
+});
@@ -1,10 +1,22 @@
-import { type User, type InsertUser, type Client, type InsertClient, type Form, type InsertForm, type Contract, type InsertContract, type WaitlistSignup, type InsertWaitlist, type FormSubmission, type InsertFormSubmission, type SharedForm, type InsertSharedForm } from "@shared/schema";
+import { users, clients, sessions, zapContacts, zapBlocks, zapReports, zapLinkRedirects, type ZapLinkRedirect, type InsertZapLinkRedirect, type ZapContact, type InsertZapContact, type ZapBlock, type InsertZapBlock, type ZapReport, type InsertZapReport, forms, contracts, waitlistSignups, formSubmissions, sharedForms, flows, clientFlows, uploadedFiles, calendlyConnections, securityEvents, type SecurityEvent, type InsertSecurityEvent, notifications, type Notification, type InsertNotification, oauthIdentities, type OAuthIdentity, type InsertOAuthIdentity, twoFactorCredentials, type TwoFactorCredential, type InsertTwoFactorCredential, authTokens, type AuthToken, type AuthTokenPurpose, type InsertAuthToken, availabilitySettings, bookings, type AvailabilitySettings, type InsertAvailabilitySettings, type Booking, type InsertBooking, type CalendlyConnection, type InsertCalendlyConnection, contractTemplates, contractClauses, contractSignatures, contractEvents, type ContractSignature, type InsertContractSignature, type ContractEvent, type InsertContractEvent, type ContractTemplate, type InsertContractTemplate, type ContractClause, type InsertContractClause, type UploadedFile, type InsertUploadedFile, type Flow, type InsertFlow, type ClientFlow, type InsertClientFlow, type User, type InsertUser, type Client, type InsertClient, type Form, type InsertForm, type Contract, type InsertContract, type WaitlistSignup, type InsertWaitlist, type FormSubmission, type InsertFormSubmission, type SharedForm, type InsertSharedForm } from "@shared/schema";
 import { randomUUID } from "crypto";
-import session from "express-session";
+import { and, asc, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import { createDb, type Database as DrizzleDatabase } from "./db";
+import session, { type SessionData } from "express-session";
 import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
 import Database from "@replit/database";
 
 const MemoryStore = createMemoryStore(session);
+const PgStore = connectPgSimple(session);
+
+// A signed-in session as kept by the session store
+export interface StoredSession {
+  sid: string;
+  data: SessionData;
+}
+
+export const sessionUserId = (data: SessionData) => (data as { passport?: { user?: string } }).passport?.user;
 
 export interface IStorage {
   // User methods
@@ -12,15 +24,19 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByZapLink(zapLink: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  // Accounts created through Google or GitHub have no password
+  createUser(user: Omit<InsertUser, "password"> & Pick<User, "password">): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   updateStripeCustomerId(userId: string, stripeCustomerId: string): Promise<User | undefined>;
   updateUserStripeInfo(userId: string, data: { customerId: string; subscriptionId: string }): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
+  // Adds one to failedLoginCount in a single update, so concurrent attempts all count
+  recordFailedLogin(userId: string): Promise<User | undefined>;
 
   // Client methods
   getClientsByUserId(userId: string): Promise<Client[]>;
   getClient(id: string): Promise<Client | undefined>;
+  getClientByEmail(userId: string, email: string): Promise<Client | undefined>;
   createClient(client: InsertClient): Promise<Client>;
   updateClient(id: string, updates: Partial<Client>): Promise<Client | undefined>;
   deleteClient(id: string): Promise<boolean>;
@@ -38,6 +54,13 @@ export interface IStorage {
   getContract(id: string): Promise<Contract | undefined>;
   createContract(contract: InsertContract): Promise<Contract>;
   updateContract(id: string, updates: Partial<Contract>): Promise<Contract | undefined>;
+  getContractsByUserId(userId: string): Promise<Contract[]>;
+  getContractBySigningToken(token: string): Promise<Contract | undefined>;
+  getContractByEnvelopeId(envelopeId: string): Promise<Contract | undefined>;
+  createContractSignature(signature: InsertContractSignature): Promise<ContractSignature>;
+  getContractSignatures(contractId: string): Promise<ContractSignature[]>;
+  createContractEvent(event: InsertContractEvent): Promise<ContractEvent>;
+  getContractEvents(contractId: string): Promise<ContractEvent[]>;
 
   // Waitlist methods
   createWaitlistSignup(signup: InsertWaitlist): Promise<WaitlistSignup>;
@@ -49,14 +72,154 @@ export interface IStorage {
   // Shared form methods
   shareFormToUser(sharedForm: InsertSharedForm): Promise<SharedForm>;
   getSharedFormsForUser(recipientId: string): Promise<(SharedForm & { form: Form; sender: User })[]>;
+  getSharedFormsSentByUser(senderId: string): Promise<SharedForm[]>;
+  // The sender's outbox, newest first
+  getSharedFormsSentWithDetails(senderId: string): Promise<(SharedForm & { form: Form; recipient: User })[]>;
+  // Every zap of the form, with who it went to
+  getSharedFormsForForm(formId: string): Promise<(SharedForm & { recipient: User })[]>;
   getSharedForm(id: string): Promise<SharedForm | undefined>;
+  updateSharedForm(id: string, updates: Partial<SharedForm>): Promise<SharedForm | undefined>;
   deleteSharedForm(id: string, userId: string): Promise<boolean>;
+
+  // ZapLink contact methods
+  getZapContacts(userId: string): Promise<(ZapContact & { contact: User })[]>;
+  getZapContact(userId: string, contactId: string): Promise<ZapContact | undefined>;
+  // Returns the existing contact when they're already in the list
+  addZapContact(contact: InsertZapContact): Promise<ZapContact>;
+  deleteZapContact(id: string, userId: string): Promise<boolean>;
+  getZapBlocks(userId: string): Promise<(ZapBlock & { blockedUser: User })[]>;
+  getZapBlock(userId: string, blockedUserId: string): Promise<ZapBlock | undefined>;
+  // Returns the existing block when the user is already blocked
+  createZapBlock(block: InsertZapBlock): Promise<ZapBlock>;
+  deleteZapBlock(id: string, userId: string): Promise<boolean>;
+  createZapReport(report: InsertZapReport): Promise<ZapReport>;
+  // Old ZapLinks kept during their grace period
+  getZapLinkRedirect(zapLink: string): Promise<ZapLinkRedirect | undefined>;
+  getZapLinkRedirectsByUser(userId: string): Promise<ZapLinkRedirect[]>;
+  createZapLinkRedirect(redirect: InsertZapLinkRedirect): Promise<ZapLinkRedirect>;
+  deleteZapLinkRedirect(id: string): Promise<void>;
   getFormSubmissions(userId: string): Promise<FormSubmission[]>;
   getFormSubmissionById(id: string): Promise<FormSubmission | undefined>;
   updateFormSubmission(id: string, updates: Partial<FormSubmission>): Promise<FormSubmission>;
 
+  // Onboarding flow methods
+  getFlowsByUserId(userId: string): Promise<Flow[]>;
+  getFlow(id: string): Promise<Flow | undefined>;
+  getFlowByShareableLink(link: string): Promise<Flow | undefined>;
+  createFlow(flow: InsertFlow): Promise<Flow>;
+  updateFlow(id: string, updates: Partial<Flow>): Promise<Flow | undefined>;
+  deleteFlow(id: string): Promise<boolean>;
+  createClientFlow(clientFlow: InsertClientFlow): Promise<ClientFlow>;
+  getClientFlowByToken(accessToken: string): Promise<ClientFlow | undefined>;
+  getClientFlowsByUserId(userId: string): Promise<(ClientFlow & { flow: Flow; client: Client })[]>;
+  updateClientFlow(id: string, updates: Partial<ClientFlow>): Promise<ClientFlow | undefined>;
+
+  // Uploaded file methods
+  createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
+  getUploadedFile(id: string): Promise<UploadedFile | undefined>;
+  updateUploadedFile(id: string, updates: Partial<UploadedFile>): Promise<UploadedFile | undefined>;
+  deleteUploadedFile(id: string): Promise<boolean>;
+  // Uploads started before the date that never made it into a submission
+  getUnsubmittedUploadedFiles(startedBefore: Date): Promise<UploadedFile[]>;
+
+  // Contract template and clause methods
+  getContractTemplatesByUserId(userId: string): Promise<ContractTemplate[]>;
+  getContractTemplate(id: string): Promise<ContractTemplate | undefined>;
+  createContractTemplate(template: InsertContractTemplate): Promise<ContractTemplate>;
+  updateContractTemplate(id: string, updates: Partial<ContractTemplate>): Promise<ContractTemplate | undefined>;
+  deleteContractTemplate(id: string): Promise<boolean>;
+  getContractClausesByUserId(userId: string): Promise<ContractClause[]>;
+  getContractClause(id: string): Promise<ContractClause | undefined>;
+  createContractClause(clause: InsertContractClause): Promise<ContractClause>;
+  updateContractClause(id: string, updates: Partial<ContractClause>): Promise<ContractClause | undefined>;
+  deleteContractClause(id: string): Promise<boolean>;
+
+  // Auth token methods
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthToken(id: string): Promise<AuthToken | undefined>;
+  // Marks the token used; false if it had already been used
+  useAuthToken(id: string): Promise<boolean>;
+  // Marks the user's outstanding tokens for the purpose as used
+  revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void>;
+
+  // Two-factor methods
+  getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined>;
+  // Creates the user's credential or replaces it
+  saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential>;
+  updateTwoFactorCredential(userId: string, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: string): Promise<boolean>;
+
+  // Security audit log methods
+  createSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent>;
+  // Newest first
+  getSecurityEventsByUser(userId: string, limit: number): Promise<SecurityEvent[]>;
+
+  // Notification methods
+  getNotifications(userId: string, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Only marks the notification if it belongs to the user
+  markNotificationRead(id: string, userId: string): Promise<boolean>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  // OAuth identity methods
+  getOAuthIdentity(provider: string, providerUserId: string): Promise<OAuthIdentity | undefined>;
+  getOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]>;
+  createOAuthIdentity(identity: InsertOAuthIdentity): Promise<OAuthIdentity>;
+  // Only deletes the identity if it belongs to the user
+  deleteOAuthIdentity(id: string, userId: string): Promise<boolean>;
+
+  // Calendly methods
+  getCalendlyConnection(userId: string): Promise<CalendlyConnection | undefined>;
+  saveCalendlyConnection(connection: InsertCalendlyConnection): Promise<CalendlyConnection>;
+  deleteCalendlyConnection(userId: string): Promise<boolean>;
+  getClientByCallBookingUri(userId: string, uri: string): Promise<Client | undefined>;
+
+  // Scheduler methods
+  getAvailabilitySettings(userId: string): Promise<AvailabilitySettings | undefined>;
+  getAvailabilitySettingsByBookingLink(bookingLink: string): Promise<AvailabilitySettings | undefined>;
+  createAvailabilitySettings(settings: InsertAvailabilitySettings): Promise<AvailabilitySettings>;
+  updateAvailabilitySettings(userId: string, updates: Partial<AvailabilitySettings>): Promise<AvailabilitySettings | undefined>;
+  getBookingsByUserId(userId: string): Promise<Booking[]>;
+  // Confirmed bookings overlapping the range, ordered by start
+  getConfirmedBookingsBetween(userId: string, from: Date, to: Date): Promise<Booking[]>;
+  getBooking(id: string): Promise<Booking | undefined>;
+  getBookingByManageToken(token: string): Promise<Booking | undefined>;
+  createBooking(booking: InsertBooking): Promise<Booking>;
+  updateBooking(id: string, updates: Partial<Booking>): Promise<Booking | undefined>;
+
   // Session store
-  sessionStore: any;
+  sessionStore: session.Store;
+  // Unexpired sessions signed in as the user
+  getSessionsByUser(userId: string): Promise<StoredSession[]>;
+  deleteSession(sid: string): Promise<void>;
+}
+
+// Generate unique zapLink
+function generateZapLink(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let result = '';
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+export async function generateUniqueZapLink(storage: Pick<IStorage, "getUserByZapLink">): Promise<string> {
+  let zapLink = generateZapLink();
+  let attempts = 0;
+  const maxAttempts = 100;
+  
+  while (await storage.getUserByZapLink(zapLink) && attempts < maxAttempts) {
+    zapLink = generateZapLink();
+    attempts++;
+  }
+  
+  if (attempts >= maxAttempts) {
+    throw new Error('Unable to generate unique zapLink after maximum attempts');
+  }
+  
+  return zapLink;
 }
 
 export class MemStorage implements IStorage {
@@ -67,8 +230,27 @@ export class MemStorage implements IStorage {
   private waitlistSignups: Map<string, WaitlistSignup>;
   private formSubmissions: Map<string, FormSubmission>;
   private sharedForms: Map<string, SharedForm>;
+  private flows: Map<string, Flow>;
+  private clientFlows: Map<string, ClientFlow>;
+  private uploadedFiles: Map<string, UploadedFile>;
+  private contractTemplates: Map<string, ContractTemplate>;
+  private contractClauses: Map<string, ContractClause>;
+  private contractSignatures: Map<string, ContractSignature>;
+  private contractEvents: Map<string, ContractEvent>;
+  private authTokens: Map<string, AuthToken>;
+  private twoFactorCredentials: Map<string, TwoFactorCredential>;
+  private securityEvents: Map<string, SecurityEvent>;
+  private oauthIdentities: Map<string, OAuthIdentity>;
+  private calendlyConnections: Map<string, CalendlyConnection>;
+  private availabilitySettings: Map<string, AvailabilitySettings>;
+  private bookings: Map<string, Booking>;
+  private zapContacts: Map<string, ZapContact>;
+  private zapBlocks: Map<string, ZapBlock>;
+  private zapReports: Map<string, ZapReport>;
+  private zapLinkRedirects: Map<string, ZapLinkRedirect>;
+  private notifications: Map<string, Notification>;
   private db: Database;
-  public sessionStore: any;
+  public sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
@@ -78,6 +260,25 @@ export class MemStorage implements IStorage {
     this.waitlistSignups = new Map();
     this.formSubmissions = new Map();
     this.sharedForms = new Map();
+    this.flows = new Map();
+    this.clientFlows = new Map();
+    this.uploadedFiles = new Map();
+    this.contractTemplates = new Map();
+    this.contractClauses = new Map();
+    this.contractSignatures = new Map();
+    this.contractEvents = new Map();
+    this.authTokens = new Map();
+    this.twoFactorCredentials = new Map();
+    this.securityEvents = new Map();
+    this.oauthIdentities = new Map();
+    this.calendlyConnections = new Map();
+    this.availabilitySettings = new Map();
+    this.bookings = new Map();
+    this.zapContacts = new Map();
+    this.zapBlocks = new Map();
+    this.zapReports = new Map();
+    this.zapLinkRedirects = new Map();
+    this.notifications = new Map();
     this.db = new Database();
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // prune expired entries every 24h
@@ -114,6 +315,10 @@ export class MemStorage implements IStorage {
           stripeCustomerId: userData.stripeCustomerId || null,
           stripeSubscriptionId: userData.stripeSubscriptionId || null,
           subscriptionEndsAt: userData.subscriptionEndsAt ? new Date(userData.subscriptionEndsAt) : null,
+          emailVerifiedAt: userData.emailVerifiedAt ? new Date(userData.emailVerifiedAt) : null,
+          failedLoginCount: userData.failedLoginCount || 0,
+          lockedUntil: userData.lockedUntil ? new Date(userData.lockedUntil) : null,
+          zapPrivacy: userData.zapPrivacy || "anyone",
         };
         this.users.set(user.id, user);
       }
@@ -137,50 +342,24 @@ export class MemStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.email === email,
+      (user) => user.email.toLowerCase() === email.toLowerCase(),
     );
   }
 
   async getUserByZapLink(zapLink: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.zapLink === zapLink,
+      (user) => user.zapLink.toLowerCase() === zapLink.toLowerCase(),
     );
   }
 
-  // Generate unique zapLink
-  private generateZapLink(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
-  }
-
-  private async generateUniqueZapLink(): Promise<string> {
-    let zapLink = this.generateZapLink();
-    let attempts = 0;
-    const maxAttempts = 100;
-    
-    while (await this.getUserByZapLink(zapLink) && attempts < maxAttempts) {
-      zapLink = this.generateZapLink();
-      attempts++;
-    }
-    
-    if (attempts >= maxAttempts) {
-      throw new Error('Unable to generate unique zapLink after maximum attempts');
-    }
-    
-    return zapLink;
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: Omit<InsertUser, "password"> & Pick<User, "password">): Promise<User> {
     const id = randomUUID();
-    const zapLink = await this.generateUniqueZapLink();
+    const zapLink = await generateUniqueZapLink(this);
     
     const user: User = { 
       ...insertUser, 
       id,
+      password: insertUser.password ?? null,
       zapLink,
       createdAt: new Date(),
       displayName: null,
@@ -197,6 +376,10 @@ export class MemStorage implements IStorage {
       stripeCustomerId: null,
       stripeSubscriptionId: null,
       subscriptionEndsAt: null,
+      emailVerifiedAt: null,
+      failedLoginCount: 0,
+      lockedUntil: null,
+      zapPrivacy: "anyone",
     };
     
     // Store in memory
@@ -224,6 +407,10 @@ export class MemStorage implements IStorage {
         subscriptionType: user.subscriptionType,
         stripeCustomerId: user.stripeCustomerId,
         stripeSubscriptionId: user.stripeSubscriptionId,
+        emailVerifiedAt: null,
+        failedLoginCount: 0,
+        lockedUntil: null,
+        zapPrivacy: user.zapPrivacy,
       };
       
       const updatedUsers = Array.isArray(existingUsers) ? [...existingUsers, userData] : [userData];
@@ -268,6 +455,10 @@ export class MemStorage implements IStorage {
             stripeCustomerId: updatedUser.stripeCustomerId,
             stripeSubscriptionId: updatedUser.stripeSubscriptionId,
             subscriptionEndsAt: updatedUser.subscriptionEndsAt ? updatedUser.subscriptionEndsAt.toISOString() : null,
+            emailVerifiedAt: updatedUser.emailVerifiedAt ? updatedUser.emailVerifiedAt.toISOString() : null,
+            failedLoginCount: updatedUser.failedLoginCount,
+            lockedUntil: updatedUser.lockedUntil ? updatedUser.lockedUntil.toISOString() : null,
+            zapPrivacy: updatedUser.zapPrivacy,
           } : u)
         : [];
       await this.db.set("users", updatedUsers);
@@ -308,6 +499,12 @@ export class MemStorage implements IStorage {
     });
   }
 
+  async recordFailedLogin(userId: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    return this.updateUser(userId, { failedLoginCount: user.failedLoginCount + 1 });
+  }
+
   // Client methods
   async getClientsByUserId(userId: string): Promise<Client[]> {
     return Array.from(this.clients.values()).filter(
@@ -319,6 +516,12 @@ export class MemStorage implements IStorage {
     return this.clients.get(id);
   }
 
+  async getClientByEmail(userId: string, email: string): Promise<Client | undefined> {
+    return Array.from(this.clients.values()).find(
+      (client) => client.userId === userId && client.email.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
   async createClient(insertClient: InsertClient): Promise<Client> {
     const id = randomUUID();
     const client: Client = { 
@@ -329,7 +532,9 @@ export class MemStorage implements IStorage {
       formStatus: insertClient.formStatus || "pending",
       contractStatus: insertClient.contractStatus || "not_sent",
       callStatus: insertClient.callStatus || "not_scheduled",
-      formData: insertClient.formData || null
+      formData: insertClient.formData || null,
+      callScheduledAt: insertClient.callScheduledAt || null,
+      callBookingUri: insertClient.callBookingUri || null,
     };
     this.clients.set(id, client);
     return client;
@@ -413,7 +618,16 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       status: insertContract.status || "draft",
       docusignEnvelopeId: insertContract.docusignEnvelopeId || null,
-      contractData: insertContract.contractData || null
+      contractData: insertContract.contractData || null,
+      submissionId: insertContract.submissionId || null,
+      title: insertContract.title || null,
+      documentKey: insertContract.documentKey || null,
+      documentHash: insertContract.documentHash || null,
+      signedDocumentKey: insertContract.signedDocumentKey || null,
+      signedDocumentHash: insertContract.signedDocumentHash || null,
+      signingToken: insertContract.signingToken || null,
+      sentAt: insertContract.sentAt || null,
+      signedAt: insertContract.signedAt || null,
     };
     this.contracts.set(id, contract);
     return contract;
@@ -428,6 +642,62 @@ export class MemStorage implements IStorage {
     return updatedContract;
   }
 
+  async getContractsByUserId(userId: string): Promise<Contract[]> {
+    return Array.from(this.contracts.values())
+      .filter(contract => this.clients.get(contract.clientId)?.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getContractBySigningToken(token: string): Promise<Contract | undefined> {
+    return Array.from(this.contracts.values()).find(
+      (contract) => contract.signingToken === token,
+    );
+  }
+
+  async getContractByEnvelopeId(envelopeId: string): Promise<Contract | undefined> {
+    return Array.from(this.contracts.values()).find(
+      (contract) => contract.docusignEnvelopeId === envelopeId,
+    );
+  }
+
+  async createContractSignature(insertSignature: InsertContractSignature): Promise<ContractSignature> {
+    const id = randomUUID();
+    const signature: ContractSignature = {
+      ...insertSignature,
+      id,
+      ipAddress: insertSignature.ipAddress || null,
+      userAgent: insertSignature.userAgent || null,
+      signedAt: new Date(),
+    };
+    this.contractSignatures.set(id, signature);
+    return signature;
+  }
+
+  async getContractSignatures(contractId: string): Promise<ContractSignature[]> {
+    return Array.from(this.contractSignatures.values())
+      .filter(signature => signature.contractId === contractId)
+      .sort((a, b) => a.signedAt.getTime() - b.signedAt.getTime());
+  }
+
+  async createContractEvent(insertEvent: InsertContractEvent): Promise<ContractEvent> {
+    const id = randomUUID();
+    const event: ContractEvent = {
+      ...insertEvent,
+      id,
+      ipAddress: insertEvent.ipAddress || null,
+      userAgent: insertEvent.userAgent || null,
+      createdAt: new Date(),
+    };
+    this.contractEvents.set(id, event);
+    return event;
+  }
+
+  async getContractEvents(contractId: string): Promise<ContractEvent[]> {
+    return Array.from(this.contractEvents.values())
+      .filter(event => event.contractId === contractId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   // Waitlist methods
   async createWaitlistSignup(insertWaitlist: InsertWaitlist): Promise<WaitlistSignup> {
     const id = randomUUID();
@@ -470,7 +740,9 @@ export class MemStorage implements IStorage {
       submittedAt: new Date(),
       contractGenerated: false,
       contractUrl: null,
-      calendlyLink: insertSubmission.calendlyLink || null
+      calendlyLink: insertSubmission.calendlyLink || null,
+      clientFlowId: insertSubmission.clientFlowId || null,
+      sharedFormId: insertSubmission.sharedFormId || null
     };
     this.formSubmissions.set(id, submission);
     return submission;
@@ -508,6 +780,8 @@ export class MemStorage implements IStorage {
       id,
       sentAt: new Date(),
       viewedAt: null,
+      respondedAt: null,
+      lastReminderAt: null,
       status: "pending",
     };
 
@@ -536,10 +810,47 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async getSharedFormsSentByUser(senderId: string): Promise<SharedForm[]> {
+    return Array.from(this.sharedForms.values())
+      .filter(sf => sf.senderId === senderId);
+  }
+
+  async getSharedFormsSentWithDetails(senderId: string): Promise<(SharedForm & { form: Form; recipient: User })[]> {
+    const result = [];
+    for (const sharedForm of await this.getSharedFormsSentByUser(senderId)) {
+      const form = this.forms.get(sharedForm.formId);
+      const recipient = this.users.get(sharedForm.recipientId);
+      if (form && recipient) {
+        result.push({ ...sharedForm, form, recipient });
+      }
+    }
+    return result.sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime());
+  }
+
+  async getSharedFormsForForm(formId: string): Promise<(SharedForm & { recipient: User })[]> {
+    const result = [];
+    for (const sharedForm of Array.from(this.sharedForms.values())) {
+      const recipient = this.users.get(sharedForm.recipientId);
+      if (sharedForm.formId === formId && recipient) {
+        result.push({ ...sharedForm, recipient });
+      }
+    }
+    return result.sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime());
+  }
+
   async getSharedForm(id: string): Promise<SharedForm | undefined> {
     return this.sharedForms.get(id);
   }
 
+  async updateSharedForm(id: string, updates: Partial<SharedForm>): Promise<SharedForm | undefined> {
+    const sharedForm = this.sharedForms.get(id);
+    if (!sharedForm) return undefined;
+
+    const updatedSharedForm = { ...sharedForm, ...updates };
+    this.sharedForms.set(id, updatedSharedForm);
+    return updatedSharedForm;
+  }
+
   async deleteSharedForm(id: string, userId: string): Promise<boolean> {
     const sharedForm = this.sharedForms.get(id);
     if (!sharedForm) {
@@ -553,6 +864,1491 @@ export class MemStorage implements IStorage {
     
     return this.sharedForms.delete(id);
   }
+
+  // ZapLink contact methods
+  async getZapContacts(userId: string): Promise<(ZapContact & { contact: User })[]> {
+    const result = [];
+    for (const zapContact of Array.from(this.zapContacts.values())) {
+      const contact = this.users.get(zapContact.contactId);
+      if (zapContact.userId === userId && contact) {
+        result.push({ ...zapContact, contact });
+      }
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getZapContact(userId: string, contactId: string): Promise<ZapContact | undefined> {
+    return Array.from(this.zapContacts.values()).find(
+      (zapContact) => zapContact.userId === userId && zapContact.contactId === contactId,
+    );
+  }
+
+  async addZapContact(insertContact: InsertZapContact): Promise<ZapContact> {
+    const existing = await this.getZapContact(insertContact.userId, insertContact.contactId);
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const zapContact: ZapContact = { ...insertContact, id, createdAt: new Date() };
+    this.zapContacts.set(id, zapContact);
+    return zapContact;
+  }
+
+  async deleteZapContact(id: string, userId: string): Promise<boolean> {
+    const zapContact = this.zapContacts.get(id);
+    if (!zapContact || zapContact.userId !== userId) return false;
+    return this.zapContacts.delete(id);
+  }
+
+  async getZapBlocks(userId: string): Promise<(ZapBlock & { blockedUser: User })[]> {
+    const result = [];
+    for (const zapBlock of Array.from(this.zapBlocks.values())) {
+      const blockedUser = this.users.get(zapBlock.blockedUserId);
+      if (zapBlock.userId === userId && blockedUser) {
+        result.push({ ...zapBlock, blockedUser });
+      }
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getZapBlock(userId: string, blockedUserId: string): Promise<ZapBlock | undefined> {
+    return Array.from(this.zapBlocks.values()).find(
+      (zapBlock) => zapBlock.userId === userId && zapBlock.blockedUserId === blockedUserId,
+    );
+  }
+
+  async createZapBlock(insertBlock: InsertZapBlock): Promise<ZapBlock> {
+    const existing = await this.getZapBlock(insertBlock.userId, insertBlock.blockedUserId);
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const zapBlock: ZapBlock = { ...insertBlock, id, createdAt: new Date() };
+    this.zapBlocks.set(id, zapBlock);
+    return zapBlock;
+  }
+
+  async deleteZapBlock(id: string, userId: string): Promise<boolean> {
+    const zapBlock = this.zapBlocks.get(id);
+    if (!zapBlock || zapBlock.userId !== userId) return false;
+    return this.zapBlocks.delete(id);
+  }
+
+  async createZapReport(insertReport: InsertZapReport): Promise<ZapReport> {
+    const id = randomUUID();
+    const zapReport: ZapReport = {
+      ...insertReport,
+      id,
+      formId: insertReport.formId ?? null,
+      details: insertReport.details ?? null,
+      createdAt: new Date(),
+    };
+    this.zapReports.set(id, zapReport);
+    return zapReport;
+  }
+
+  async getZapLinkRedirect(zapLink: string): Promise<ZapLinkRedirect | undefined> {
+    return Array.from(this.zapLinkRedirects.values()).find(
+      (redirect) => redirect.zapLink.toLowerCase() === zapLink.toLowerCase(),
+    );
+  }
+
+  async getZapLinkRedirectsByUser(userId: string): Promise<ZapLinkRedirect[]> {
+    return Array.from(this.zapLinkRedirects.values())
+      .filter(redirect => redirect.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createZapLinkRedirect(insertRedirect: InsertZapLinkRedirect): Promise<ZapLinkRedirect> {
+    const id = randomUUID();
+    const redirect: ZapLinkRedirect = { ...insertRedirect, id, createdAt: new Date() };
+    this.zapLinkRedirects.set(id, redirect);
+    return redirect;
+  }
+
+  async deleteZapLinkRedirect(id: string): Promise<void> {
+    this.zapLinkRedirects.delete(id);
+  }
+
+  // Onboarding flow methods
+  async getFlowsByUserId(userId: string): Promise<Flow[]> {
+    return Array.from(this.flows.values()).filter(
+      (flow) => flow.userId === userId,
+    );
+  }
+
+  async getFlow(id: string): Promise<Flow | undefined> {
+    return this.flows.get(id);
+  }
+
+  async getFlowByShareableLink(link: string): Promise<Flow | undefined> {
+    return Array.from(this.flows.values()).find(
+      (flow) => flow.shareableLink === link,
+    );
+  }
+
+  async createFlow(insertFlow: InsertFlow): Promise<Flow> {
+    const id = randomUUID();
+    const flow: Flow = {
+      ...insertFlow,
+      id,
+      shareableLink: randomUUID(),
+      createdAt: new Date(),
+      description: insertFlow.description || null,
+    };
+    this.flows.set(id, flow);
+    return flow;
+  }
+
+  async updateFlow(id: string, updates: Partial<Flow>): Promise<Flow | undefined> {
+    const flow = this.flows.get(id);
+    if (!flow) return undefined;
+
+    const updatedFlow = { ...flow, ...updates };
+    this.flows.set(id, updatedFlow);
+    return updatedFlow;
+  }
+
+  async deleteFlow(id: string): Promise<boolean> {
+    Array.from(this.clientFlows.values())
+      .filter(clientFlow => clientFlow.flowId === id)
+      .forEach(clientFlow => this.clientFlows.delete(clientFlow.id));
+    return this.flows.delete(id);
+  }
+
+  async createClientFlow(insertClientFlow: InsertClientFlow): Promise<ClientFlow> {
+    const id = randomUUID();
+    const clientFlow: ClientFlow = {
+      ...insertClientFlow,
+      id,
+      startedAt: new Date(),
+      currentStep: insertClientFlow.currentStep || 0,
+      status: insertClientFlow.status || "in_progress",
+      completedAt: insertClientFlow.completedAt || null,
+    };
+    this.clientFlows.set(id, clientFlow);
+    return clientFlow;
+  }
+
+  async getClientFlowByToken(accessToken: string): Promise<ClientFlow | undefined> {
+    return Array.from(this.clientFlows.values()).find(
+      (clientFlow) => clientFlow.accessToken === accessToken,
+    );
+  }
+
+  async getClientFlowsByUserId(userId: string): Promise<(ClientFlow & { flow: Flow; client: Client })[]> {
+    const result = [];
+    for (const clientFlow of Array.from(this.clientFlows.values())) {
+      const flow = this.flows.get(clientFlow.flowId);
+      const client = this.clients.get(clientFlow.clientId);
+
+      if (flow && client && flow.userId === userId) {
+        result.push({
+          ...clientFlow,
+          flow,
+          client,
+        });
+      }
+    }
+
+    return result.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async updateClientFlow(id: string, updates: Partial<ClientFlow>): Promise<ClientFlow | undefined> {
+    const clientFlow = this.clientFlows.get(id);
+    if (!clientFlow) return undefined;
+
+    const updatedClientFlow = { ...clientFlow, ...updates };
+    this.clientFlows.set(id, updatedClientFlow);
+    return updatedClientFlow;
+  }
+
+  // Uploaded file methods
+  async createUploadedFile(insertFile: InsertUploadedFile): Promise<UploadedFile> {
+    const id = randomUUID();
+    const file: UploadedFile = {
+      ...insertFile,
+      id,
+      createdAt: new Date(),
+      submissionId: insertFile.submissionId || null,
+      uploadId: insertFile.uploadId || null,
+      status: insertFile.status || "uploading",
+    };
+    this.uploadedFiles.set(id, file);
+    return file;
+  }
+
+  async getUploadedFile(id: string): Promise<UploadedFile | undefined> {
+    return this.uploadedFiles.get(id);
+  }
+
+  async updateUploadedFile(id: string, updates: Partial<UploadedFile>): Promise<UploadedFile | undefined> {
+    const file = this.uploadedFiles.get(id);
+    if (!file) return undefined;
+
+    const updatedFile = { ...file, ...updates };
+    this.uploadedFiles.set(id, updatedFile);
+    return updatedFile;
+  }
+
+  async deleteUploadedFile(id: string): Promise<boolean> {
+    return this.uploadedFiles.delete(id);
+  }
+
+  async getUnsubmittedUploadedFiles(startedBefore: Date): Promise<UploadedFile[]> {
+    return Array.from(this.uploadedFiles.values()).filter(
+      (file) => !file.submissionId && file.createdAt < startedBefore,
+    );
+  }
+
+  // Contract template and clause methods
+  async getContractTemplatesByUserId(userId: string): Promise<ContractTemplate[]> {
+    return Array.from(this.contractTemplates.values()).filter(
+      (template) => template.userId === userId,
+    );
+  }
+
+  async getContractTemplate(id: string): Promise<ContractTemplate | undefined> {
+    return this.contractTemplates.get(id);
+  }
+
+  async createContractTemplate(insertTemplate: InsertContractTemplate): Promise<ContractTemplate> {
+    const id = randomUUID();
+    const template: ContractTemplate = {
+      ...insertTemplate,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.contractTemplates.set(id, template);
+    return template;
+  }
+
+  async updateContractTemplate(id: string, updates: Partial<ContractTemplate>): Promise<ContractTemplate | undefined> {
+    const template = this.contractTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate = { ...template, ...updates, updatedAt: new Date() };
+    this.contractTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteContractTemplate(id: string): Promise<boolean> {
+    return this.contractTemplates.delete(id);
+  }
+
+  async getContractClausesByUserId(userId: string): Promise<ContractClause[]> {
+    return Array.from(this.contractClauses.values()).filter(
+      (clause) => clause.userId === userId,
+    );
+  }
+
+  async getContractClause(id: string): Promise<ContractClause | undefined> {
+    return this.contractClauses.get(id);
+  }
+
+  async createContractClause(insertClause: InsertContractClause): Promise<ContractClause> {
+    const id = randomUUID();
+    const clause: ContractClause = {
+      ...insertClause,
+      id,
+      category: insertClause.category ?? "general",
+      createdAt: new Date(),
+    };
+    this.contractClauses.set(id, clause);
+    return clause;
+  }
+
+  async updateContractClause(id: string, updates: Partial<ContractClause>): Promise<ContractClause | undefined> {
+    const clause = this.contractClauses.get(id);
+    if (!clause) return undefined;
+
+    const updatedClause = { ...clause, ...updates };
+    this.contractClauses.set(id, updatedClause);
+    return updatedClause;
+  }
+
+  async deleteContractClause(id: string): Promise<boolean> {
+    return this.contractClauses.delete(id);
+  }
+
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const token: AuthToken = {
+      ...insertToken,
+      id: randomUUID(),
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.authTokens.set(token.id, token);
+    return token;
+  }
+
+  async getAuthToken(id: string): Promise<AuthToken | undefined> {
+    return this.authTokens.get(id);
+  }
+
+  async useAuthToken(id: string): Promise<boolean> {
+    const token = this.authTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.authTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    this.authTokens.forEach((token, id) => {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.authTokens.set(id, { ...token, usedAt: new Date() });
+      }
+    });
+  }
+
+  // Two-factor methods, keyed by user id
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+
+  async saveTwoFactorCredential(insertCredential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const credential: TwoFactorCredential = {
+      ...insertCredential,
+      id: this.twoFactorCredentials.get(insertCredential.userId)?.id ?? randomUUID(),
+      enabledAt: insertCredential.enabledAt ?? null,
+      recoveryCodes: insertCredential.recoveryCodes ?? [],
+      lastUsedStep: insertCredential.lastUsedStep ?? null,
+      createdAt: new Date(),
+    };
+    this.twoFactorCredentials.set(credential.userId, credential);
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: string, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential) return undefined;
+    const updated = { ...credential, ...updates };
+    this.twoFactorCredentials.set(userId, updated);
+    return updated;
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<boolean> {
+    return this.twoFactorCredentials.delete(userId);
+  }
+
+  // Security audit log methods
+  async createSecurityEvent(insertEvent: InsertSecurityEvent): Promise<SecurityEvent> {
+    const event: SecurityEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      userId: insertEvent.userId ?? null,
+      ipAddress: insertEvent.ipAddress ?? null,
+      userAgent: insertEvent.userAgent ?? null,
+      details: insertEvent.details ?? null,
+      createdAt: new Date(),
+    };
+    this.securityEvents.set(event.id, event);
+    return event;
+  }
+
+  async getSecurityEventsByUser(userId: string, limit: number): Promise<SecurityEvent[]> {
+    return Array.from(this.securityEvents.values())
+      .filter(event => event.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      body: insertNotification.body ?? null,
+      link: insertNotification.link ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<boolean> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return false;
+    notification.readAt ??= new Date();
+    return true;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    const now = new Date();
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        notification.readAt = now;
+      }
+    }
+  }
+
+  // OAuth identity methods
+  async getOAuthIdentity(provider: string, providerUserId: string): Promise<OAuthIdentity | undefined> {
+    return Array.from(this.oauthIdentities.values()).find(
+      (identity) => identity.provider === provider && identity.providerUserId === providerUserId,
+    );
+  }
+
+  async getOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]> {
+    return Array.from(this.oauthIdentities.values())
+      .filter(identity => identity.userId === userId)
+      .sort((a, b) => a.linkedAt.getTime() - b.linkedAt.getTime());
+  }
+
+  async createOAuthIdentity(insertIdentity: InsertOAuthIdentity): Promise<OAuthIdentity> {
+    const identity: OAuthIdentity = {
+      ...insertIdentity,
+      id: randomUUID(),
+      email: insertIdentity.email ?? null,
+      displayName: insertIdentity.displayName ?? null,
+      linkedAt: new Date(),
+    };
+    this.oauthIdentities.set(identity.id, identity);
+    return identity;
+  }
+
+  async deleteOAuthIdentity(id: string, userId: string): Promise<boolean> {
+    if (this.oauthIdentities.get(id)?.userId !== userId) return false;
+    return this.oauthIdentities.delete(id);
+  }
+
+  // Calendly methods, keyed by user id since each user has at most one connection
+  async getCalendlyConnection(userId: string): Promise<CalendlyConnection | undefined> {
+    return this.calendlyConnections.get(userId);
+  }
+
+  async saveCalendlyConnection(insertConnection: InsertCalendlyConnection): Promise<CalendlyConnection> {
+    const connection: CalendlyConnection = {
+      ...insertConnection,
+      id: this.calendlyConnections.get(insertConnection.userId)?.id ?? randomUUID(),
+      webhookSubscriptionUri: insertConnection.webhookSubscriptionUri ?? null,
+      connectedAt: new Date(),
+    };
+    this.calendlyConnections.set(connection.userId, connection);
+    return connection;
+  }
+
+  async deleteCalendlyConnection(userId: string): Promise<boolean> {
+    return this.calendlyConnections.delete(userId);
+  }
+
+  async getClientByCallBookingUri(userId: string, uri: string): Promise<Client | undefined> {
+    return Array.from(this.clients.values()).find(
+      (client) => client.userId === userId && client.callBookingUri === uri,
+    );
+  }
+
+  // Scheduler methods; availability is keyed by user id
+  async getAvailabilitySettings(userId: string): Promise<AvailabilitySettings | undefined> {
+    return this.availabilitySettings.get(userId);
+  }
+
+  async getAvailabilitySettingsByBookingLink(bookingLink: string): Promise<AvailabilitySettings | undefined> {
+    return Array.from(this.availabilitySettings.values()).find(
+      (settings) => settings.bookingLink === bookingLink,
+    );
+  }
+
+  async createAvailabilitySettings(insertSettings: InsertAvailabilitySettings): Promise<AvailabilitySettings> {
+    const settings: AvailabilitySettings = {
+      id: randomUUID(),
+      enabled: false,
+      timeZone: "UTC",
+      meetingTitle: "Kickoff call",
+      meetingMinutes: 30,
+      bufferMinutes: 15,
+      minimumNoticeHours: 12,
+      bookingWindowDays: 30,
+      location: null,
+      ...insertSettings,
+      updatedAt: new Date(),
+    };
+    this.availabilitySettings.set(settings.userId, settings);
+    return settings;
+  }
+
+  async updateAvailabilitySettings(userId: string, updates: Partial<AvailabilitySettings>): Promise<AvailabilitySettings | undefined> {
+    const settings = this.availabilitySettings.get(userId);
+    if (!settings) return undefined;
+
+    const updatedSettings = { ...settings, ...updates, updatedAt: new Date() };
+    this.availabilitySettings.set(userId, updatedSettings);
+    return updatedSettings;
+  }
+
+  async getBookingsByUserId(userId: string): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.userId === userId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getConfirmedBookingsBetween(userId: string, from: Date, to: Date): Promise<Booking[]> {
+    return (await this.getBookingsByUserId(userId)).filter(
+      (booking) => booking.status === "confirmed" && booking.endsAt > from && booking.startsAt < to,
+    );
+  }
+
+  async getBooking(id: string): Promise<Booking | undefined> {
+    return this.bookings.get(id);
+  }
+
+  async getBookingByManageToken(token: string): Promise<Booking | undefined> {
+    return Array.from(this.bookings.values()).find(
+      (booking) => booking.manageToken === token,
+    );
+  }
+
+  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
+    // Mirror the unique index on confirmed (userId, startsAt)
+    const status = insertBooking.status || "confirmed";
+    const taken = Array.from(this.bookings.values()).some(
+      (booking) => booking.userId === insertBooking.userId && booking.status === "confirmed" && status === "confirmed" &&
+        booking.startsAt.getTime() === insertBooking.startsAt.getTime(),
+    );
+    if (taken) {
+      throw Object.assign(new Error("duplicate key value violates unique constraint \"bookings_confirmed_slot_idx\""), { code: "23505" });
+    }
+
+    const id = randomUUID();
+    const booking: Booking = {
+      ...insertBooking,
+      id,
+      status,
+      clientId: insertBooking.clientId || null,
+      submissionId: insertBooking.submissionId || null,
+      notes: insertBooking.notes || null,
+      createdAt: new Date(),
+      canceledAt: null,
+    };
+    this.bookings.set(id, booking);
+    return booking;
+  }
+
+  async updateBooking(id: string, updates: Partial<Booking>): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+
+    const updatedBooking = { ...booking, ...updates };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  // Session methods
+  async getSessionsByUser(userId: string): Promise<StoredSession[]> {
+    const all = await new Promise<Record<string, SessionData>>((resolve, reject) => {
+      this.sessionStore.all!((err, sessions) => err ? reject(err) : resolve((sessions ?? {}) as Record<string, SessionData>));
+    });
+    return Object.entries(all)
+      .filter(([, data]) => sessionUserId(data) === userId)
+      .map(([sid, data]) => ({ sid, data }));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => err ? reject(err) : resolve());
+    });
+  }
+}
+
+// Sessions live in Postgres so deploys and restarts don't sign everyone out. The store must
+// write to the same database as db, since getSessionsByUser reads the table through it.
+function createPgSessionStore(connectionString = process.env.DATABASE_URL): session.Store {
+  return new PgStore({
+    conString: connectionString,
+    createTableIfMissing: true,
+    errorLog: (...args) => console.error("Session store error:", ...args),
+  });
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(
+    private db: DrizzleDatabase = createDb(),
+    public sessionStore: session.Store = createPgSessionStore(),
+  ) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async getUserByZapLink(zapLink: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.zapLink}) = lower(${zapLink})`);
+    return user;
+  }
+
+  async createUser(insertUser: Omit<InsertUser, "password"> & Pick<User, "password">): Promise<User> {
+    const zapLink = await generateUniqueZapLink(this);
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, zapLink })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  async updateStripeCustomerId(userId: string, stripeCustomerId: string): Promise<User | undefined> {
+    return this.updateUser(userId, { stripeCustomerId });
+  }
+
+  async updateUserStripeInfo(userId: string, data: { customerId: string; subscriptionId: string }): Promise<User | undefined> {
+    return this.updateUser(userId, {
+      stripeCustomerId: data.customerId,
+      stripeSubscriptionId: data.subscriptionId,
+    });
+  }
+
+  async recordFailedLogin(userId: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Client methods
+  async getClientsByUserId(userId: string): Promise<Client[]> {
+    return this.db.select().from(clients).where(eq(clients.userId, userId));
+  }
+
+  async getClient(id: string): Promise<Client | undefined> {
+    const [client] = await this.db.select().from(clients).where(eq(clients.id, id));
+    return client;
+  }
+
+  async getClientByEmail(userId: string, email: string): Promise<Client | undefined> {
+    const [client] = await this.db
+      .select()
+      .from(clients)
+      .where(and(eq(clients.userId, userId), sql`lower(${clients.email}) = ${email.toLowerCase()}`));
+    return client;
+  }
+
+  async createClient(insertClient: InsertClient): Promise<Client> {
+    const [client] = await this.db.insert(clients).values(insertClient).returning();
+    return client;
+  }
+
+  async updateClient(id: string, updates: Partial<Client>): Promise<Client | undefined> {
+    const [client] = await this.db
+      .update(clients)
+      .set(updates)
+      .where(eq(clients.id, id))
+      .returning();
+    return client;
+  }
+
+  async deleteClient(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(clients).where(eq(clients.id, id)).returning({ id: clients.id });
+    return deleted.length > 0;
+  }
+
+  // Form methods
+  async getFormsByUserId(userId: string): Promise<Form[]> {
+    return this.db.select().from(forms).where(eq(forms.userId, userId));
+  }
+
+  async getForm(id: string): Promise<Form | undefined> {
+    const [form] = await this.db.select().from(forms).where(eq(forms.id, id));
+    return form;
+  }
+
+  async getFormByShareableLink(link: string): Promise<Form | undefined> {
+    const [form] = await this.db.select().from(forms).where(eq(forms.shareableLink, link));
+    return form;
+  }
+
+  async createForm(insertForm: InsertForm): Promise<Form> {
+    const [form] = await this.db
+      .insert(forms)
+      .values({ ...insertForm, shareableLink: randomUUID() })
+      .returning();
+    return form;
+  }
+
+  async updateForm(id: string, updates: Partial<Form>): Promise<Form | undefined> {
+    const [form] = await this.db
+      .update(forms)
+      .set(updates)
+      .where(eq(forms.id, id))
+      .returning();
+    return form;
+  }
+
+  async deleteForm(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(forms).where(eq(forms.id, id)).returning({ id: forms.id });
+    return deleted.length > 0;
+  }
+
+  // Contract methods
+  async getContractsByClientId(clientId: string): Promise<Contract[]> {
+    return this.db.select().from(contracts).where(eq(contracts.clientId, clientId));
+  }
+
+  async getContract(id: string): Promise<Contract | undefined> {
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.id, id));
+    return contract;
+  }
+
+  async createContract(insertContract: InsertContract): Promise<Contract> {
+    const [contract] = await this.db.insert(contracts).values(insertContract).returning();
+    return contract;
+  }
+
+  async updateContract(id: string, updates: Partial<Contract>): Promise<Contract | undefined> {
+    const [contract] = await this.db
+      .update(contracts)
+      .set(updates)
+      .where(eq(contracts.id, id))
+      .returning();
+    return contract;
+  }
+
+  async getContractsByUserId(userId: string): Promise<Contract[]> {
+    const rows = await this.db
+      .select({ contract: contracts })
+      .from(contracts)
+      .innerJoin(clients, eq(contracts.clientId, clients.id))
+      .where(eq(clients.userId, userId))
+      .orderBy(desc(contracts.createdAt));
+    return rows.map(({ contract }) => contract);
+  }
+
+  async getContractBySigningToken(token: string): Promise<Contract | undefined> {
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.signingToken, token));
+    return contract;
+  }
+
+  async getContractByEnvelopeId(envelopeId: string): Promise<Contract | undefined> {
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.docusignEnvelopeId, envelopeId));
+    return contract;
+  }
+
+  async createContractSignature(insertSignature: InsertContractSignature): Promise<ContractSignature> {
+    const [signature] = await this.db.insert(contractSignatures).values(insertSignature).returning();
+    return signature;
+  }
+
+  async getContractSignatures(contractId: string): Promise<ContractSignature[]> {
+    return this.db
+      .select()
+      .from(contractSignatures)
+      .where(eq(contractSignatures.contractId, contractId))
+      .orderBy(contractSignatures.signedAt);
+  }
+
+  async createContractEvent(insertEvent: InsertContractEvent): Promise<ContractEvent> {
+    const [event] = await this.db.insert(contractEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getContractEvents(contractId: string): Promise<ContractEvent[]> {
+    return this.db
+      .select()
+      .from(contractEvents)
+      .where(eq(contractEvents.contractId, contractId))
+      .orderBy(contractEvents.createdAt);
+  }
+
+  // Waitlist methods
+  async createWaitlistSignup(insertWaitlist: InsertWaitlist): Promise<WaitlistSignup> {
+    const [signup] = await this.db.insert(waitlistSignups).values(insertWaitlist).returning();
+    return signup;
+  }
+
+  async getWaitlistSignups(): Promise<WaitlistSignup[]> {
+    return this.db.select().from(waitlistSignups);
+  }
+
+  // Form submission methods
+  async createFormSubmission(insertSubmission: InsertFormSubmission): Promise<FormSubmission> {
+    const [submission] = await this.db.insert(formSubmissions).values(insertSubmission).returning();
+    return submission;
+  }
+
+  async getFormSubmissions(userId: string): Promise<FormSubmission[]> {
+    // Get submissions for forms owned by this user
+    const rows = await this.db
+      .select({ submission: formSubmissions })
+      .from(formSubmissions)
+      .innerJoin(forms, eq(formSubmissions.formId, forms.id))
+      .where(eq(forms.userId, userId))
+      .orderBy(desc(formSubmissions.submittedAt));
+    return rows.map(row => row.submission);
+  }
+
+  async getFormSubmissionById(id: string): Promise<FormSubmission | undefined> {
+    const [submission] = await this.db.select().from(formSubmissions).where(eq(formSubmissions.id, id));
+    return submission;
+  }
+
+  async updateFormSubmission(id: string, updates: Partial<FormSubmission>): Promise<FormSubmission> {
+    const [submission] = await this.db
+      .update(formSubmissions)
+      .set(updates)
+      .where(eq(formSubmissions.id, id))
+      .returning();
+    if (!submission) {
+      throw new Error(`Form submission with id ${id} not found`);
+    }
+    return submission;
+  }
+
+  // Shared form methods
+  async shareFormToUser(sharedForm: InsertSharedForm): Promise<SharedForm> {
+    const [newSharedForm] = await this.db
+      .insert(sharedForms)
+      .values({ ...sharedForm, viewedAt: null, status: "pending" })
+      .returning();
+    return newSharedForm;
+  }
+
+  async getSharedFormsForUser(recipientId: string): Promise<(SharedForm & { form: Form; sender: User })[]> {
+    const rows = await this.db
+      .select({ sharedForm: sharedForms, form: forms, sender: users })
+      .from(sharedForms)
+      .innerJoin(forms, eq(sharedForms.formId, forms.id))
+      .innerJoin(users, eq(sharedForms.senderId, users.id))
+      .where(eq(sharedForms.recipientId, recipientId));
+
+    return rows.map(({ sharedForm, form, sender }) => ({
+      ...sharedForm,
+      form,
+      sender,
+    }));
+  }
+
+  async getSharedFormsSentByUser(senderId: string): Promise<SharedForm[]> {
+    return this.db.select().from(sharedForms).where(eq(sharedForms.senderId, senderId));
+  }
+
+  async getSharedFormsSentWithDetails(senderId: string): Promise<(SharedForm & { form: Form; recipient: User })[]> {
+    const rows = await this.db
+      .select({ sharedForm: sharedForms, form: forms, recipient: users })
+      .from(sharedForms)
+      .innerJoin(forms, eq(sharedForms.formId, forms.id))
+      .innerJoin(users, eq(sharedForms.recipientId, users.id))
+      .where(eq(sharedForms.senderId, senderId))
+      .orderBy(desc(sharedForms.sentAt));
+
+    return rows.map(({ sharedForm, form, recipient }) => ({ ...sharedForm, form, recipient }));
+  }
+
+  async getSharedFormsForForm(formId: string): Promise<(SharedForm & { recipient: User })[]> {
+    const rows = await this.db
+      .select({ sharedForm: sharedForms, recipient: users })
+      .from(sharedForms)
+      .innerJoin(users, eq(sharedForms.recipientId, users.id))
+      .where(eq(sharedForms.formId, formId))
+      .orderBy(desc(sharedForms.sentAt));
+
+    return rows.map(({ sharedForm, recipient }) => ({ ...sharedForm, recipient }));
+  }
+
+  async getSharedForm(id: string): Promise<SharedForm | undefined> {
+    const [sharedForm] = await this.db.select().from(sharedForms).where(eq(sharedForms.id, id));
+    return sharedForm;
+  }
+
+  async updateSharedForm(id: string, updates: Partial<SharedForm>): Promise<SharedForm | undefined> {
+    const [sharedForm] = await this.db
+      .update(sharedForms)
+      .set(updates)
+      .where(eq(sharedForms.id, id))
+      .returning();
+    return sharedForm;
+  }
+
+  async deleteSharedForm(id: string, userId: string): Promise<boolean> {
+    const sharedForm = await this.getSharedForm(id);
+    if (!sharedForm) {
+      throw new Error("Shared form not found");
+    }
+
+    // Verify the user is the recipient of the shared form
+    if (sharedForm.recipientId !== userId) {
+      throw new Error("You don't have permission to delete this shared form");
+    }
+
+    const deleted = await this.db
+      .delete(sharedForms)
+      .where(and(eq(sharedForms.id, id), eq(sharedForms.recipientId, userId)))
+      .returning({ id: sharedForms.id });
+    return deleted.length > 0;
+  }
+
+  // ZapLink contact methods
+  async getZapContacts(userId: string): Promise<(ZapContact & { contact: User })[]> {
+    const rows = await this.db
+      .select({ zapContact: zapContacts, contact: users })
+      .from(zapContacts)
+      .innerJoin(users, eq(zapContacts.contactId, users.id))
+      .where(eq(zapContacts.userId, userId))
+      .orderBy(desc(zapContacts.createdAt));
+
+    return rows.map(({ zapContact, contact }) => ({ ...zapContact, contact }));
+  }
+
+  async getZapContact(userId: string, contactId: string): Promise<ZapContact | undefined> {
+    const [zapContact] = await this.db
+      .select()
+      .from(zapContacts)
+      .where(and(eq(zapContacts.userId, userId), eq(zapContacts.contactId, contactId)));
+    return zapContact;
+  }
+
+  async addZapContact(insertContact: InsertZapContact): Promise<ZapContact> {
+    const [zapContact] = await this.db
+      .insert(zapContacts)
+      .values(insertContact)
+      .onConflictDoNothing({ target: [zapContacts.userId, zapContacts.contactId] })
+      .returning();
+    return zapContact ?? (await this.getZapContact(insertContact.userId, insertContact.contactId))!;
+  }
+
+  async deleteZapContact(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(zapContacts)
+      .where(and(eq(zapContacts.id, id), eq(zapContacts.userId, userId)))
+      .returning({ id: zapContacts.id });
+    return deleted.length > 0;
+  }
+
+  async getZapBlocks(userId: string): Promise<(ZapBlock & { blockedUser: User })[]> {
+    const rows = await this.db
+      .select({ zapBlock: zapBlocks, blockedUser: users })
+      .from(zapBlocks)
+      .innerJoin(users, eq(zapBlocks.blockedUserId, users.id))
+      .where(eq(zapBlocks.userId, userId))
+      .orderBy(desc(zapBlocks.createdAt));
+
+    return rows.map(({ zapBlock, blockedUser }) => ({ ...zapBlock, blockedUser }));
+  }
+
+  async getZapBlock(userId: string, blockedUserId: string): Promise<ZapBlock | undefined> {
+    const [zapBlock] = await this.db
+      .select()
+      .from(zapBlocks)
+      .where(and(eq(zapBlocks.userId, userId), eq(zapBlocks.blockedUserId, blockedUserId)));
+    return zapBlock;
+  }
+
+  async createZapBlock(insertBlock: InsertZapBlock): Promise<ZapBlock> {
+    const [zapBlock] = await this.db
+      .insert(zapBlocks)
+      .values(insertBlock)
+      .onConflictDoNothing({ target: [zapBlocks.userId, zapBlocks.blockedUserId] })
+      .returning();
+    return zapBlock ?? (await this.getZapBlock(insertBlock.userId, insertBlock.blockedUserId))!;
+  }
+
+  async deleteZapBlock(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(zapBlocks)
+      .where(and(eq(zapBlocks.id, id), eq(zapBlocks.userId, userId)))
+      .returning({ id: zapBlocks.id });
+    return deleted.length > 0;
+  }
+
+  async createZapReport(insertReport: InsertZapReport): Promise<ZapReport> {
+    const [zapReport] = await this.db.insert(zapReports).values(insertReport).returning();
+    return zapReport;
+  }
+
+  async getZapLinkRedirect(zapLink: string): Promise<ZapLinkRedirect | undefined> {
+    const [redirect] = await this.db
+      .select()
+      .from(zapLinkRedirects)
+      .where(sql`lower(${zapLinkRedirects.zapLink}) = lower(${zapLink})`);
+    return redirect;
+  }
+
+  async getZapLinkRedirectsByUser(userId: string): Promise<ZapLinkRedirect[]> {
+    return this.db
+      .select()
+      .from(zapLinkRedirects)
+      .where(eq(zapLinkRedirects.userId, userId))
+      .orderBy(desc(zapLinkRedirects.createdAt));
+  }
+
+  async createZapLinkRedirect(insertRedirect: InsertZapLinkRedirect): Promise<ZapLinkRedirect> {
+    const [redirect] = await this.db.insert(zapLinkRedirects).values(insertRedirect).returning();
+    return redirect;
+  }
+
+  async deleteZapLinkRedirect(id: string): Promise<void> {
+    await this.db.delete(zapLinkRedirects).where(eq(zapLinkRedirects.id, id));
+  }
+
+  // Onboarding flow methods
+  async getFlowsByUserId(userId: string): Promise<Flow[]> {
+    return this.db.select().from(flows).where(eq(flows.userId, userId));
+  }
+
+  async getFlow(id: string): Promise<Flow | undefined> {
+    const [flow] = await this.db.select().from(flows).where(eq(flows.id, id));
+    return flow;
+  }
+
+  async getFlowByShareableLink(link: string): Promise<Flow | undefined> {
+    const [flow] = await this.db.select().from(flows).where(eq(flows.shareableLink, link));
+    return flow;
+  }
+
+  async createFlow(insertFlow: InsertFlow): Promise<Flow> {
+    const [flow] = await this.db
+      .insert(flows)
+      .values({ ...insertFlow, shareableLink: randomUUID() })
+      .returning();
+    return flow;
+  }
+
+  async updateFlow(id: string, updates: Partial<Flow>): Promise<Flow | undefined> {
+    const [flow] = await this.db
+      .update(flows)
+      .set(updates)
+      .where(eq(flows.id, id))
+      .returning();
+    return flow;
+  }
+
+  async deleteFlow(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(flows).where(eq(flows.id, id)).returning({ id: flows.id });
+    return deleted.length > 0;
+  }
+
+  async createClientFlow(insertClientFlow: InsertClientFlow): Promise<ClientFlow> {
+    const [clientFlow] = await this.db.insert(clientFlows).values(insertClientFlow).returning();
+    return clientFlow;
+  }
+
+  async getClientFlowByToken(accessToken: string): Promise<ClientFlow | undefined> {
+    const [clientFlow] = await this.db.select().from(clientFlows).where(eq(clientFlows.accessToken, accessToken));
+    return clientFlow;
+  }
+
+  async getClientFlowsByUserId(userId: string): Promise<(ClientFlow & { flow: Flow; client: Client })[]> {
+    const rows = await this.db
+      .select({ clientFlow: clientFlows, flow: flows, client: clients })
+      .from(clientFlows)
+      .innerJoin(flows, eq(clientFlows.flowId, flows.id))
+      .innerJoin(clients, eq(clientFlows.clientId, clients.id))
+      .where(eq(flows.userId, userId))
+      .orderBy(desc(clientFlows.startedAt));
+
+    return rows.map(({ clientFlow, flow, client }) => ({
+      ...clientFlow,
+      flow,
+      client,
+    }));
+  }
+
+  async updateClientFlow(id: string, updates: Partial<ClientFlow>): Promise<ClientFlow | undefined> {
+    const [clientFlow] = await this.db
+      .update(clientFlows)
+      .set(updates)
+      .where(eq(clientFlows.id, id))
+      .returning();
+    return clientFlow;
+  }
+
+  // Uploaded file methods
+  async createUploadedFile(insertFile: InsertUploadedFile): Promise<UploadedFile> {
+    const [file] = await this.db.insert(uploadedFiles).values(insertFile).returning();
+    return file;
+  }
+
+  async getUploadedFile(id: string): Promise<UploadedFile | undefined> {
+    const [file] = await this.db.select().from(uploadedFiles).where(eq(uploadedFiles.id, id));
+    return file;
+  }
+
+  async updateUploadedFile(id: string, updates: Partial<UploadedFile>): Promise<UploadedFile | undefined> {
+    const [file] = await this.db
+      .update(uploadedFiles)
+      .set(updates)
+      .where(eq(uploadedFiles.id, id))
+      .returning();
+    return file;
+  }
+
+  async deleteUploadedFile(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(uploadedFiles).where(eq(uploadedFiles.id, id)).returning({ id: uploadedFiles.id });
+    return deleted.length > 0;
+  }
+
+  async getUnsubmittedUploadedFiles(startedBefore: Date): Promise<UploadedFile[]> {
+    return this.db
+      .select()
+      .from(uploadedFiles)
+      .where(and(isNull(uploadedFiles.submissionId), lt(uploadedFiles.createdAt, startedBefore)));
+  }
+
+  // Contract template and clause methods
+  async getContractTemplatesByUserId(userId: string): Promise<ContractTemplate[]> {
+    return this.db.select().from(contractTemplates).where(eq(contractTemplates.userId, userId));
+  }
+
+  async getContractTemplate(id: string): Promise<ContractTemplate | undefined> {
+    const [template] = await this.db.select().from(contractTemplates).where(eq(contractTemplates.id, id));
+    return template;
+  }
+
+  async createContractTemplate(insertTemplate: InsertContractTemplate): Promise<ContractTemplate> {
+    const [template] = await this.db.insert(contractTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateContractTemplate(id: string, updates: Partial<ContractTemplate>): Promise<ContractTemplate | undefined> {
+    const [template] = await this.db
+      .update(contractTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contractTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteContractTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(contractTemplates).where(eq(contractTemplates.id, id)).returning({ id: contractTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getContractClausesByUserId(userId: string): Promise<ContractClause[]> {
+    return this.db.select().from(contractClauses).where(eq(contractClauses.userId, userId));
+  }
+
+  async getContractClause(id: string): Promise<ContractClause | undefined> {
+    const [clause] = await this.db.select().from(contractClauses).where(eq(contractClauses.id, id));
+    return clause;
+  }
+
+  async createContractClause(insertClause: InsertContractClause): Promise<ContractClause> {
+    const [clause] = await this.db.insert(contractClauses).values(insertClause).returning();
+    return clause;
+  }
+
+  async updateContractClause(id: string, updates: Partial<ContractClause>): Promise<ContractClause | undefined> {
+    const [clause] = await this.db
+      .update(contractClauses)
+      .set(updates)
+      .where(eq(contractClauses.id, id))
+      .returning();
+    return clause;
+  }
+
+  async deleteContractClause(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(contractClauses).where(eq(contractClauses.id, id)).returning({ id: contractClauses.id });
+    return deleted.length > 0;
+  }
+
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await this.db.insert(authTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getAuthToken(id: string): Promise<AuthToken | undefined> {
+    const [token] = await this.db.select().from(authTokens).where(eq(authTokens.id, id));
+    return token;
+  }
+
+  async useAuthToken(id: string): Promise<boolean> {
+    // Conditional on used_at so two requests racing with the same link can't both succeed
+    const used = await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.id, id), isNull(authTokens.usedAt)))
+      .returning({ id: authTokens.id });
+    return used.length > 0;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  // Two-factor methods
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveTwoFactorCredential(insertCredential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const [credential] = await this.db
+      .insert(twoFactorCredentials)
+      .values(insertCredential)
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { ...insertCredential, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: string, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db
+      .update(twoFactorCredentials)
+      .set(updates)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return credential;
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).returning({ id: twoFactorCredentials.id });
+    return deleted.length > 0;
+  }
+
+  // Security audit log methods
+  async createSecurityEvent(insertEvent: InsertSecurityEvent): Promise<SecurityEvent> {
+    const [event] = await this.db.insert(securityEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getSecurityEventsByUser(userId: string, limit: number): Promise<SecurityEvent[]> {
+    return await this.db
+      .select()
+      .from(securityEvents)
+      .where(eq(securityEvents.userId, userId))
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(limit);
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return count;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<boolean> {
+    const marked = await this.db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning({ id: notifications.id });
+    return marked.length > 0;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // OAuth identity methods
+  async getOAuthIdentity(provider: string, providerUserId: string): Promise<OAuthIdentity | undefined> {
+    const [identity] = await this.db
+      .select()
+      .from(oauthIdentities)
+      .where(and(eq(oauthIdentities.provider, provider), eq(oauthIdentities.providerUserId, providerUserId)));
+    return identity;
+  }
+
+  async getOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]> {
+    return await this.db.select().from(oauthIdentities).where(eq(oauthIdentities.userId, userId)).orderBy(asc(oauthIdentities.linkedAt));
+  }
+
+  async createOAuthIdentity(insertIdentity: InsertOAuthIdentity): Promise<OAuthIdentity> {
+    const [identity] = await this.db.insert(oauthIdentities).values(insertIdentity).returning();
+    return identity;
+  }
+
+  async deleteOAuthIdentity(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(oauthIdentities)
+      .where(and(eq(oauthIdentities.id, id), eq(oauthIdentities.userId, userId)))
+      .returning({ id: oauthIdentities.id });
+    return deleted.length > 0;
+  }
+
+  // Calendly methods
+  async getCalendlyConnection(userId: string): Promise<CalendlyConnection | undefined> {
+    const [connection] = await this.db.select().from(calendlyConnections).where(eq(calendlyConnections.userId, userId));
+    return connection;
+  }
+
+  async saveCalendlyConnection(insertConnection: InsertCalendlyConnection): Promise<CalendlyConnection> {
+    const [connection] = await this.db
+      .insert(calendlyConnections)
+      .values(insertConnection)
+      .onConflictDoUpdate({
+        target: calendlyConnections.userId,
+        set: { ...insertConnection, connectedAt: new Date() },
+      })
+      .returning();
+    return connection;
+  }
+
+  async deleteCalendlyConnection(userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(calendlyConnections).where(eq(calendlyConnections.userId, userId)).returning({ id: calendlyConnections.id });
+    return deleted.length > 0;
+  }
+
+  async getClientByCallBookingUri(userId: string, uri: string): Promise<Client | undefined> {
+    const [client] = await this.db
+      .select()
+      .from(clients)
+      .where(and(eq(clients.userId, userId), eq(clients.callBookingUri, uri)));
+    return client;
+  }
+
+  // Scheduler methods
+  async getAvailabilitySettings(userId: string): Promise<AvailabilitySettings | undefined> {
+    const [settings] = await this.db.select().from(availabilitySettings).where(eq(availabilitySettings.userId, userId));
+    return settings;
+  }
+
+  async getAvailabilitySettingsByBookingLink(bookingLink: string): Promise<AvailabilitySettings | undefined> {
+    const [settings] = await this.db.select().from(availabilitySettings).where(eq(availabilitySettings.bookingLink, bookingLink));
+    return settings;
+  }
+
+  async createAvailabilitySettings(insertSettings: InsertAvailabilitySettings): Promise<AvailabilitySettings> {
+    const [settings] = await this.db.insert(availabilitySettings).values(insertSettings).returning();
+    return settings;
+  }
+
+  async updateAvailabilitySettings(userId: string, updates: Partial<AvailabilitySettings>): Promise<AvailabilitySettings | undefined> {
+    const [settings] = await this.db
+      .update(availabilitySettings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(availabilitySettings.userId, userId))
+      .returning();
+    return settings;
+  }
+
+  async getBookingsByUserId(userId: string): Promise<Booking[]> {
+    return this.db.select().from(bookings).where(eq(bookings.userId, userId)).orderBy(asc(bookings.startsAt));
+  }
+
+  async getConfirmedBookingsBetween(userId: string, from: Date, to: Date): Promise<Booking[]> {
+    return this.db
+      .select()
+      .from(bookings)
+      .where(and(
+        eq(bookings.userId, userId),
+        eq(bookings.status, "confirmed"),
+        gt(bookings.endsAt, from),
+        lt(bookings.startsAt, to),
+      ))
+      .orderBy(asc(bookings.startsAt));
+  }
+
+  async getBooking(id: string): Promise<Booking | undefined> {
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookingByManageToken(token: string): Promise<Booking | undefined> {
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.manageToken, token));
+    return booking;
+  }
+
+  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
+    const [booking] = await this.db.insert(bookings).values(insertBooking).returning();
+    return booking;
+  }
+
+  async updateBooking(id: string, updates: Partial<Booking>): Promise<Booking | undefined> {
+    const [booking] = await this.db
+      .update(bookings)
+      .set(updates)
+      .where(eq(bookings.id, id))
+      .returning();
+    return booking;
+  }
+
+  // Session methods
+  async getSessionsByUser(userId: string): Promise<StoredSession[]> {
+    const rows = await this.db
+      .select()
+      .from(sessions)
+      .where(and(
+        sql`${sessions.sess}->'passport'->>'user' = ${userId}`,
+        gt(sessions.expire, new Date()),
+      ));
+    return rows.map(row => ({ sid: row.sid, data: row.sess as SessionData }));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => err ? reject(err) : resolve());
+    });
+  }
+}
+
+// STORAGE_DRIVER=memory|database picks the backend explicitly; otherwise use
+// Postgres whenever a DATABASE_URL is provisioned.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  switch (driver) {
+    case "database":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "database"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,130 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { enableTwoFactor, generateTotp, matchTotp, totpStep, verifySecondFactor } from "./two-factor";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", SHA-1, last six of the eight digits
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const rfcVectors: [seconds: number, code: string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+async function createCredential(username: string) {
+  const user = await storage.createUser({ username, email: `${username}@example.com`, password: "hashed" });
+  await storage.saveTwoFactorCredential({ userId: user.id, secret: RFC_SECRET, enabledAt: null, recoveryCodes: [], lastUsedStep: null });
+  return user;
+}
+
+describe("TOTP", () => {
+  it.each(rfcVectors)("matches the RFC 6238 code at %d seconds", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it("accepts the neighbouring codes for drifted clocks, and nothing further", () => {
+    const now = 1111111111 * 1000;
+    const step = totpStep(now);
+
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), null, now)).toBeUndefined();
+  });
+
+  it("refuses codes at or before the last step used", () => {
+    const now = 1111111111 * 1000;
+    const step = totpStep(now);
+    const code = generateTotp(RFC_SECRET, step);
+
+    expect(matchTotp(RFC_SECRET, code, step - 1, now)).toBe(step);
+    expect(matchTotp(RFC_SECRET, code, step, now)).toBeUndefined();
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), step - 1, now)).toBeUndefined();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts a code from the app once", async () => {
+    const user = await createCredential("totp-replay");
+    const step = totpStep();
+    const code = generateTotp(RFC_SECRET, step);
+
+    expect(await verifySecondFactor((await storage.getTwoFactorCredential(user.id))!, code)).toBe(true);
+    expect((await storage.getTwoFactorCredential(user.id))?.lastUsedStep).toBe(step);
+    expect(await verifySecondFactor((await storage.getTwoFactorCredential(user.id))!, code)).toBe(false);
+  });
+
+  it("uses up each recovery code", async () => {
+    const user = await createCredential("totp-recovery");
+    const codes = (await enableTwoFactor((await storage.getTwoFactorCredential(user.id))!, generateTotp(RFC_SECRET, totpStep())))!;
+    expect(codes).toHaveLength(10);
+
+    // Dashes and case don't matter
+    expect(await verifySecondFactor((await storage.getTwoFactorCredential(user.id))!, codes[0].replace("-", "").toUpperCase())).toBe(true);
+    expect(await verifySecondFactor((await storage.getTwoFactorCredential(user.id))!, codes[0])).toBe(false);
+    expect(await verifySecondFactor((await storage.getTwoFactorCredential(user.id))!, codes[1])).toBe(true);
+    expect((await storage.getTwoFactorCredential(user.id))?.recoveryCodes).toHaveLength(8);
+  });
+});
+
+describe("account changes with two-factor on", () => {
+  let server: Server;
+  let baseUrl: string;
+  let cookie: string;
+
+  const put = (path: string, body: object) => fetch(`${baseUrl}${path}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json", cookie },
+    body: JSON.stringify(body),
+  });
+
+  beforeAll(async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_two_factor");
+    vi.stubEnv("SESSION_SECRET", "session-secret");
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const registered = await fetch(`${baseUrl}/api/register`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username: "totp-account", email: "totp-account@example.com", password: "password1" }),
+    });
+    cookie = registered.headers.get("set-cookie")!.split(";")[0];
+    const { id } = await registered.json();
+    await storage.saveTwoFactorCredential({ userId: id, secret: RFC_SECRET, enabledAt: new Date(), recoveryCodes: [], lastUsedStep: null });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  it("needs a code to change the password", async () => {
+    const change = { currentPassword: "password1", newPassword: "password2", confirmPassword: "password2" };
+
+    const refused = await put("/api/user/password", change);
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toMatchObject({ code: "two_factor_required" });
+
+    const changed = await put("/api/user/password", { ...change, twoFactorCode: generateTotp(RFC_SECRET, totpStep()) });
+    expect(changed.status).toBe(200);
+  });
+
+  it("needs a code to change the email, but not the rest of the profile", async () => {
+    const refused = await put("/api/user/profile", { displayName: "Totp", email: "someone-else@example.com" });
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toMatchObject({ code: "two_factor_required" });
+
+    const renamed = await put("/api/user/profile", { displayName: "Totp", email: "TOTP-Account@example.com" });
+    expect(renamed.status).toBe(200);
+    expect(await renamed.json()).toMatchObject({ displayName: "Totp", email: "totp-account@example.com" });
+  });
+});
@@ -0,0 +1,169 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { RequestHandler } from "express";
+import QRCode from "qrcode";
+import type { TwoFactorCredential, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// RFC 6238 TOTP with the parameters every authenticator app supports: SHA-1, 6 digits, 30 seconds
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, for clocks that have drifted a little
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "ClientZap";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+export const totpStep = (now = Date.now()) => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// The time step the code belongs to, or undefined if it doesn't match. Steps at or before
+// lastUsedStep are refused so a code that has been used once can't be used again.
+export function matchTotp(secret: string, code: string, lastUsedStep: number | null, now = Date.now()): number | undefined {
+  const current = totpStep(now);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(generateTotp(secret, step));
+    const given = Buffer.from(code);
+    if (given.length === expected.length && timingSafeEqual(given, expected)) return step;
+  }
+  return undefined;
+}
+
+// The otpauth:// URI authenticator apps read from the QR code
+export function getProvisioningUri(secret: string, accountName: string): string {
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(`${ISSUER}:${accountName}`)}?${params}`;
+}
+
+// Recovery codes are random enough that a fast hash is fine; dashes and case don't matter
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+const hashRecoveryCode = (code: string) => createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+// Returns the codes to show the user once; only their hashes are kept
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export const parseRecoveryCodes = (codes: unknown): string[] => (Array.isArray(codes) ? (codes as string[]) : []);
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  return !!credential?.enabledAt;
+}
+
+// Start (or restart) enrollment. Nothing changes for login until enableTwoFactor confirms a code.
+export async function beginTwoFactorSetup(user: User): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = generateTotpSecret();
+  await storage.saveTwoFactorCredential({ userId: user.id, secret, enabledAt: null, recoveryCodes: [], lastUsedStep: null });
+  const otpauthUrl = getProvisioningUri(secret, user.email);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Confirm the first code from the app, turn two-factor on and hand out recovery codes
+export async function enableTwoFactor(credential: TwoFactorCredential, code: string): Promise<string[] | undefined> {
+  const step = matchTotp(credential.secret, code.replace(/\s/g, ""), credential.lastUsedStep);
+  if (step === undefined) return undefined;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateTwoFactorCredential(credential.userId, { enabledAt: new Date(), recoveryCodes: hashes, lastUsedStep: step });
+  return codes;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateTwoFactorCredential(userId, { recoveryCodes: hashes });
+  return codes;
+}
+
+// Check a code from the app, or use up a recovery code. True if it was accepted.
+export async function verifySecondFactor(credential: TwoFactorCredential, code: string): Promise<boolean> {
+  const trimmed = code.replace(/\s/g, "");
+
+  if (/^\d+$/.test(trimmed)) {
+    const step = matchTotp(credential.secret, trimmed, credential.lastUsedStep);
+    if (step === undefined) return false;
+    await storage.updateTwoFactorCredential(credential.userId, { lastUsedStep: step });
+    return true;
+  }
+
+  const hash = hashRecoveryCode(trimmed);
+  const remaining = parseRecoveryCodes(credential.recoveryCodes);
+  if (!remaining.includes(hash)) return false;
+  await storage.updateTwoFactorCredential(credential.userId, { recoveryCodes: remaining.filter(h => h !== hash) });
+  return true;
+}
+
+// For sensitive actions: when the user has two-factor on, the request body must carry a
+// current code (or a recovery code) as twoFactorCode. Use after the route's auth check.
+export const requireSecondFactor: RequestHandler = async (req, res, next) => {
+  try {
+    const credential = await storage.getTwoFactorCredential(req.user!.id);
+    if (!credential?.enabledAt) return next();
+
+    const code = req.body?.twoFactorCode;
+    if (typeof code !== "string" || !code.trim()) {
+      return res.status(403).json({ message: "Enter a code from your authenticator app to continue", code: "two_factor_required" });
+    }
+    if (!(await verifySecondFactor(credential, code))) {
+      return res.status(403).json({ message: "That code isn't valid. Try the latest one from your app.", code: "two_factor_invalid" });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
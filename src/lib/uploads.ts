@@ -0,0 +1,27 @@
+import { fileStore } from "./file-storage";
+import { storage } from "./storage";
+
+// Uploads not attached to a submission by then are treated as abandoned forms
+export const ABANDONED_UPLOAD_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Deletes abandoned uploads with their parts or stored object, and returns how many were removed
+export async function expireAbandonedUploads(now = new Date()): Promise<number> {
+  const abandoned = await storage.getUnsubmittedUploadedFiles(new Date(now.getTime() - ABANDONED_UPLOAD_MS));
+
+  for (const upload of abandoned) {
+    if (upload.status === "uploading") {
+      await fileStore.abortUpload(upload.uploadId!);
+    } else {
+      await fileStore.delete(upload.storageKey);
+    }
+    await storage.deleteUploadedFile(upload.id);
+  }
+  return abandoned.length;
+}
+
+export function scheduleUploadCleanup(): void {
+  setInterval(() => {
+    expireAbandonedUploads().catch(error => console.error("Error expiring abandoned uploads:", error.message));
+  }, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import type { Request, RequestHandler } from "express";
+import { storage, type StoredSession } from "./storage";
+import { clientIp } from "./rate-limit";
+
+declare module "express-session" {
+  interface SessionData {
+    // The browser that signed in, shown in the Sessions list in settings
+    device?: { userAgent?: string; ipAddress?: string; signedInAt: number; lastSeenAt: number };
+  }
+}
+
+// lastSeenAt is only rewritten this often, so most requests don't save the session
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// A session as listed to its owner
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+}
+
+// The session id works as a bearer token in the store, so the client only ever sees a hash of it
+const publicSessionId = (sid: string) => createHash("sha256").update(sid).digest("hex").slice(0, 32);
+
+// Records the device on the first request of a signed-in session, and keeps lastSeenAt fresh
+export const trackSessionDevice: RequestHandler = (req, _res, next) => {
+  if (req.isAuthenticated()) {
+    const now = Date.now();
+    const device = req.session.device;
+    if (!device) {
+      req.session.device = { userAgent: req.get("user-agent"), ipAddress: clientIp(req), signedInAt: now, lastSeenAt: now };
+    } else if (now - device.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+      device.lastSeenAt = now;
+      device.ipAddress = clientIp(req);
+    }
+  }
+  next();
+};
+
+const toActiveSession = ({ sid, data }: StoredSession, currentSid: string): ActiveSession => ({
+  id: publicSessionId(sid),
+  current: sid === currentSid,
+  userAgent: data.device?.userAgent ?? null,
+  ipAddress: data.device?.ipAddress ?? null,
+  signedInAt: data.device ? new Date(data.device.signedInAt).toISOString() : null,
+  lastSeenAt: data.device ? new Date(data.device.lastSeenAt).toISOString() : null,
+});
+
+// The signed-in user's sessions, this one first and the rest most recently used first
+export async function listUserSessions(req: Request): Promise<ActiveSession[]> {
+  // This request's changes to its own session aren't saved yet, so read that one from req
+  const sessions = (await storage.getSessionsByUser(req.user!.id)).map(({ sid, data }) =>
+    toActiveSession({ sid, data: sid === req.sessionID ? req.session : data }, req.sessionID));
+  return sessions.sort((a, b) =>
+    Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+}
+
+// Signs out the session with the given public id. Returns false if the user has no such session.
+export async function signOutSession(userId: string, id: string): Promise<boolean> {
+  const stored = (await storage.getSessionsByUser(userId)).find(({ sid }) => publicSessionId(sid) === id);
+  if (!stored) return false;
+  await storage.deleteSession(stored.sid);
+  return true;
+}
+
+// Signs out everywhere except keepSid (everywhere, when it's omitted). Returns how many were signed out.
+export async function signOutOtherSessions(userId: string, keepSid?: string): Promise<number> {
+  const others = (await storage.getSessionsByUser(userId)).filter(({ sid }) => sid !== keepSid);
+  await Promise.all(others.map(({ sid }) => storage.deleteSession(sid)));
+  return others.length;
+}
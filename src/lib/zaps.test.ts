@@ -0,0 +1,59 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { sendZap } from "./zaps";
+
+describe("GET /api/zap-inbox", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_zaps");
+    vi.stubEnv("SESSION_SECRET", "session-secret");
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  it("shows the sender without their account details", async () => {
+    const registered = await fetch(`${baseUrl}/api/register`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username: "inbox-recipient", email: "inbox-recipient@example.com", password: "password1" }),
+    });
+    expect(registered.status).toBe(201);
+    const cookie = registered.headers.get("set-cookie")!.split(";")[0];
+    const recipient = (await storage.getUserByUsername("inbox-recipient"))!;
+
+    const created = await storage.createUser({ username: "inbox-sender", email: "inbox-sender@example.com", password: "hashed-password" });
+    const sender = (await storage.updateUser(created.id, { displayName: "Jo Rivera", stripeCustomerId: "cus_123" }))!;
+    const form = await storage.createForm({ userId: sender.id, title: "Project intake", isPublished: true, shareableLink: "unused", fields: [] });
+    await sendZap(sender, form, recipient.zapLink);
+
+    const response = await fetch(`${baseUrl}/api/zap-inbox`, { headers: { cookie } });
+    expect(response.status).toBe(200);
+    const [zap] = await response.json();
+
+    expect(zap).toMatchObject({ status: "pending", form: { title: "Project intake" } });
+    expect(zap.sender).toEqual({
+      username: "inbox-sender",
+      displayName: "Jo Rivera",
+      profilePicture: null,
+      freelancerType: null,
+      zapLink: sender.zapLink,
+    });
+    expect(zap.sender).not.toHaveProperty("password");
+    expect(zap.sender).not.toHaveProperty("email");
+    expect(zap.sender).not.toHaveProperty("stripeCustomerId");
+  });
+});
@@ -0,0 +1,328 @@
+import type { Form, SharedForm, User, ZapBlock, ZapContact, ZapReportReason } from "@shared/schema";
+import { generateUniqueZapLink, storage } from "./storage";
+import { checkPlanLimit, getPlanLimits, type PlanLimitDenial } from "./entitlements";
+import { getBranding, type Branding } from "./branding";
+import { queueEmail } from "./email";
+import { zapReceivedEmail, zapReminderEmail } from "./email-templates";
+import { notifyUser, zapReceivedNotification } from "./notifications";
+
+// A recipient can be reminded about the same zap once a day
+export const ZAP_REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How long a replaced ZapLink keeps reaching its old owner
+export const ZAP_LINK_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ZapStatus = "pending" | "viewed" | "responded";
+
+// What the sender sees for each person a form was zapped to
+export interface ZapRecipientStatus {
+  id: string;
+  recipient: Pick<User, "username" | "displayName" | "profilePicture" | "zapLink">;
+  status: ZapStatus;
+  sentAt: Date;
+  viewedAt: Date | null;
+  respondedAt: Date | null;
+  lastReminderAt: Date | null;
+}
+
+// A row of the sender's outbox
+export interface SentZap extends ZapRecipientStatus {
+  form: Pick<Form, "id" | "title">;
+  // Only zaps the recipient hasn't opened can be taken back
+  canRecall: boolean;
+  canRemind: boolean;
+}
+
+// Outcome of one ZapLink in a bulk send
+export interface ZapSendResult {
+  zapLink: string;
+  sent: boolean;
+  message: string;
+  sharedFormId?: string;
+  recipientName?: string;
+}
+
+// A person in the contacts or blocked list, without their account details
+export interface ZapLinkUser {
+  id: string;
+  userId: string;
+  username: string;
+  displayName: string | null;
+  profilePicture: string | null;
+  zapLink: string;
+}
+
+// A zap in the recipient's inbox; the sender comes without their account details
+export type InboxZap = SharedForm & {
+  form: Form;
+  sender: Pick<User, "username" | "displayName" | "profilePicture" | "freelancerType" | "zapLink">;
+  status: ZapStatus;
+  responseUrl: string;
+};
+
+// What anyone with the link sees on /zap/:code
+export interface ZapProfile {
+  zapLink: string;
+  username: string;
+  displayName: string | null;
+  businessName: string | null;
+  profilePicture: string | null;
+  freelancerType: string | null;
+  branding: Branding;
+  forms: Pick<Form, "id" | "title" | "description" | "shareableLink">[];
+}
+
+// Thrown when a form can't be sent to a ZapLink; status is the HTTP status the single-send route answers with
+export class ZapSendError extends Error {
+  constructor(message: string, readonly status: number, readonly denial?: PlanLimitDenial) {
+    super(message);
+  }
+}
+
+// The recipient answers on the public form page, signed in, with the zap in the query
+export const getZapResponseUrl = (form: Pick<Form, "shareableLink">, sharedForm: Pick<SharedForm, "id">) =>
+  `/form/${form.shareableLink}?zap=${sharedForm.id}`;
+
+// Accepts the bare code or a /zap/ link on any host, with or without the scheme
+export function parseZapLink(zapLink: string): string {
+  let code = zapLink.trim();
+  const link = code.match(/(?:^|\/)zap\/([^/?#\s]+)/i);
+  if (link) {
+    code = link[1];
+  }
+  return code.replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+// The current owner of a ZapLink, following replaced ones that are still in their grace period
+export async function findUserByZapLink(zapLink: string): Promise<User | undefined> {
+  const code = parseZapLink(zapLink);
+  if (!code) return undefined;
+
+  const user = await storage.getUserByZapLink(code);
+  if (user) return user;
+
+  const redirect = await storage.getZapLinkRedirect(code);
+  if (!redirect || redirect.expiresAt.getTime() <= Date.now()) return undefined;
+  return storage.getUser(redirect.userId);
+}
+
+// Free for the user to take: nobody else has it, now or within a grace period
+export async function isZapLinkAvailable(user: User, zapLink: string): Promise<boolean> {
+  const owner = await findUserByZapLink(zapLink);
+  return !owner || owner.id === user.id;
+}
+
+// Moves the user to a new ZapLink. The old one becomes a redirect for the grace period,
+// and a redirect the new one was held in (the user's own, or an expired one) is released.
+export async function changeZapLink(user: User, zapLink: string): Promise<User> {
+  const held = await storage.getZapLinkRedirect(zapLink);
+  if (held) {
+    await storage.deleteZapLinkRedirect(held.id);
+  }
+  await storage.createZapLinkRedirect({
+    userId: user.id,
+    zapLink: user.zapLink,
+    expiresAt: new Date(Date.now() + ZAP_LINK_GRACE_PERIOD_MS),
+  });
+  return (await storage.updateUser(user.id, { zapLink })) ?? user;
+}
+
+// A fresh random code, for when the current one is being abused
+export async function regenerateZapLink(user: User): Promise<User> {
+  // Old ZapLinks still redirecting count as taken too
+  const zapLink = await generateUniqueZapLink({ getUserByZapLink: findUserByZapLink });
+  return changeZapLink(user, zapLink);
+}
+
+export async function getZapProfile(user: User): Promise<ZapProfile> {
+  const forms = await storage.getFormsByUserId(user.id);
+  return {
+    zapLink: user.zapLink,
+    username: user.username,
+    displayName: user.displayName,
+    businessName: user.businessName,
+    profilePicture: user.profilePicture,
+    freelancerType: user.freelancerType,
+    branding: getBranding(user, getPlanLimits(user)),
+    forms: forms
+      .filter(form => form.isPublished)
+      .map(({ id, title, description, shareableLink }) => ({ id, title, description, shareableLink })),
+  };
+}
+
+export const getZapStatus = (sharedForm: Pick<SharedForm, "status">): ZapStatus =>
+  sharedForm.status === "viewed" || sharedForm.status === "responded" ? sharedForm.status : "pending";
+
+export const toZapRecipientStatus = (sharedForm: SharedForm & { recipient: User }): ZapRecipientStatus => ({
+  id: sharedForm.id,
+  recipient: {
+    username: sharedForm.recipient.username,
+    displayName: sharedForm.recipient.displayName,
+    profilePicture: sharedForm.recipient.profilePicture,
+    zapLink: sharedForm.recipient.zapLink,
+  },
+  status: getZapStatus(sharedForm),
+  sentAt: sharedForm.sentAt,
+  viewedAt: sharedForm.viewedAt,
+  respondedAt: sharedForm.respondedAt,
+  lastReminderAt: sharedForm.lastReminderAt,
+});
+
+const toZapLinkUser = (id: string, user: User): ZapLinkUser => ({
+  id,
+  userId: user.id,
+  username: user.username,
+  displayName: user.displayName,
+  profilePicture: user.profilePicture,
+  zapLink: user.zapLink,
+});
+
+export const toZapContact = (zapContact: ZapContact & { contact: User }) => toZapLinkUser(zapContact.id, zapContact.contact);
+
+export const toBlockedZapUser = (zapBlock: ZapBlock & { blockedUser: User }) => toZapLinkUser(zapBlock.id, zapBlock.blockedUser);
+
+export const getReminderWaitMs = (sharedForm: Pick<SharedForm, "lastReminderAt">, now = Date.now()) =>
+  sharedForm.lastReminderAt ? Math.max(0, sharedForm.lastReminderAt.getTime() + ZAP_REMINDER_INTERVAL_MS - now) : 0;
+
+export const toInboxZap = ({ sender, ...sharedForm }: SharedForm & { form: Form; sender: User }): InboxZap => ({
+  ...sharedForm,
+  sender: {
+    username: sender.username,
+    displayName: sender.displayName,
+    profilePicture: sender.profilePicture,
+    freelancerType: sender.freelancerType,
+    zapLink: sender.zapLink,
+  },
+  status: getZapStatus(sharedForm),
+  responseUrl: getZapResponseUrl(sharedForm.form, sharedForm),
+});
+
+export const toSentZap = (sharedForm: SharedForm & { form: Form; recipient: User }): SentZap => {
+  const status = getZapStatus(sharedForm);
+  return {
+    ...toZapRecipientStatus(sharedForm),
+    form: { id: sharedForm.form.id, title: sharedForm.form.title },
+    canRecall: status === "pending",
+    canRemind: status !== "responded" && getReminderWaitMs(sharedForm) === 0,
+  };
+};
+
+// Puts the form in the recipient's Zap Inbox and emails them. The caller checks the sender owns the form.
+export async function sendZap(sender: User, form: Form, zapLink: string): Promise<{ sharedForm: SharedForm; recipient: User }> {
+  const recipient = await findUserByZapLink(zapLink);
+  if (!recipient) {
+    throw new ZapSendError("❌ Zap Link not found", 404);
+  }
+  if (recipient.id === sender.id) {
+    throw new ZapSendError("You cannot send a form to yourself", 400);
+  }
+
+  // Blocked senders get the same answer as strangers to a contacts-only ZapLink,
+  // so nobody can tell they've been blocked
+  const blocked = !!(await storage.getZapBlock(recipient.id, sender.id));
+  if (blocked || (recipient.zapPrivacy === "contacts" && !(await storage.getZapContact(recipient.id, sender.id)))) {
+    throw new ZapSendError("This ZapLink only accepts zaps from its contacts", 403);
+  }
+
+  const denial = await checkPlanLimit(sender, "zaps");
+  if (denial) {
+    throw new ZapSendError(denial.message, 402, denial);
+  }
+
+  const sharedForm = await storage.shareFormToUser({
+    formId: form.id,
+    senderId: sender.id,
+    recipientId: recipient.id,
+  });
+  queueEmail(zapReceivedEmail(sender, recipient, form));
+  notifyUser(recipient.id, zapReceivedNotification(sender, form));
+  await storage.addZapContact({ userId: sender.id, contactId: recipient.id });
+  return { sharedForm, recipient };
+}
+
+// Sends to each ZapLink in turn, so the plan limit stops the batch partway rather than
+// failing it outright. Repeats of the same ZapLink are only sent once.
+export async function sendZaps(sender: User, form: Form, zapLinks: string[]): Promise<ZapSendResult[]> {
+  const results: ZapSendResult[] = [];
+  const seen = new Set<string>();
+  for (const zapLink of zapLinks) {
+    const code = parseZapLink(zapLink).toLowerCase();
+    if (seen.has(code)) continue;
+    seen.add(code);
+
+    try {
+      const { sharedForm, recipient } = await sendZap(sender, form, zapLink);
+      results.push({
+        zapLink,
+        sent: true,
+        message: "Sent",
+        sharedFormId: sharedForm.id,
+        recipientName: recipient.displayName || recipient.username,
+      });
+    } catch (error: any) {
+      if (!(error instanceof ZapSendError)) throw error;
+      results.push({ zapLink, sent: false, message: error.message });
+    }
+  }
+  return results;
+}
+
+export async function remindZapRecipient(sender: User, sharedForm: SharedForm): Promise<SharedForm> {
+  const form = await storage.getForm(sharedForm.formId);
+  const recipient = await storage.getUser(sharedForm.recipientId);
+  if (!form || !recipient) {
+    throw new ZapSendError("Zap not found", 404);
+  }
+
+  queueEmail(zapReminderEmail(sender, recipient, form, getZapResponseUrl(form, sharedForm)));
+  return (await storage.updateSharedForm(sharedForm.id, { lastReminderAt: new Date() })) ?? sharedForm;
+}
+
+// Only the first open counts; a zap that's been answered stays responded
+export async function markZapViewed(sharedForm: SharedForm): Promise<SharedForm> {
+  if (sharedForm.viewedAt) return sharedForm;
+  const updated = await storage.updateSharedForm(sharedForm.id, {
+    viewedAt: new Date(),
+    ...(getZapStatus(sharedForm) === "pending" ? { status: "viewed" } : {}),
+  });
+  return updated ?? sharedForm;
+}
+
+// Answering completes the exchange, so the sender joins the recipient's contacts too
+export async function markZapResponded(sharedForm: SharedForm): Promise<SharedForm> {
+  const now = new Date();
+  await storage.addZapContact({ userId: sharedForm.recipientId, contactId: sharedForm.senderId });
+  const updated = await storage.updateSharedForm(sharedForm.id, {
+    status: "responded",
+    viewedAt: sharedForm.viewedAt ?? now,
+    respondedAt: now,
+  });
+  return updated ?? sharedForm;
+}
+
+// Stops the sender's zaps reaching the user, and clears the ones they haven't answered out of the inbox
+export async function blockZapSender(user: User, senderId: string): Promise<void> {
+  await storage.createZapBlock({ userId: user.id, blockedUserId: senderId });
+
+  const contact = await storage.getZapContact(user.id, senderId);
+  if (contact) {
+    await storage.deleteZapContact(contact.id, user.id);
+  }
+
+  const inbox = await storage.getSharedFormsForUser(user.id);
+  await Promise.all(inbox
+    .filter(sharedForm => sharedForm.senderId === senderId && getZapStatus(sharedForm) !== "responded")
+    .map(sharedForm => storage.deleteSharedForm(sharedForm.id, user.id)));
+}
+
+// Reports always block as well, so the user doesn't hear from the sender again
+export async function reportZap(user: User, sharedForm: SharedForm, reason: ZapReportReason, details?: string): Promise<void> {
+  await storage.createZapReport({
+    reporterId: user.id,
+    reportedUserId: sharedForm.senderId,
+    formId: sharedForm.formId,
+    reason,
+    details: details || null,
+  });
+  await blockZapSender(user, sharedForm.senderId);
+}
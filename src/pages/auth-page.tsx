@@ -1,19 +1,386 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { Redirect } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link, Redirect, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2 } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { CheckCircle, Loader2, ShieldCheck, XCircle } from "lucide-react";
+import { SiGithub, SiGoogle } from "react-icons/si";
+
+// Matches passwordSchema on the server
+const PASSWORD_HINT = "At least 8 characters, with a letter and a number.";
+
+const providerIcons: Record<string, typeof SiGoogle> = {
+  google: SiGoogle,
+  github: SiGithub,
+};
+
+// Google and GitHub buttons, for whichever providers the server has set up
+function OAuthButtons({ verb }: { verb: string }) {
+  const { data: providers } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  if (!providers?.length) return null;
+
+  return (
+    <div className="space-y-3 mt-6">
+      <div className="relative text-center text-sm text-slate-500">
+        <span className="absolute inset-x-0 top-1/2 border-t" />
+        <span className="relative bg-white px-2">or</span>
+      </div>
+      {providers.map(provider => {
+        const Icon = providerIcons[provider.id];
+        return (
+          <Button key={provider.id} variant="outline" className="w-full" asChild data-testid={`button-oauth-${provider.id}`}>
+            {/* A full page load, since the provider redirects back to the server */}
+            <a href={`/api/auth/${provider.id}`}>
+              {Icon && <Icon className="mr-2 h-4 w-4" />}
+              {verb} with {provider.name}
+            </a>
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Second login step for accounts with two-factor on
+function TwoFactorCard({ onBack }: { onBack: () => void }) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const submit = (value: string) => {
+    if (!twoFactorLoginMutation.isPending) twoFactorLoginMutation.mutate(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor. Each code works once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(code);
+          }}
+          className="space-y-4"
+        >
+          {useRecoveryCode ? (
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxx-xxxx"
+              autoComplete="one-time-code"
+              autoFocus
+              data-testid="input-recovery-code"
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={submit}
+                autoFocus
+                data-testid="input-two-factor-code"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={!code || twoFactorLoginMutation.isPending} data-testid="button-verify-two-factor">
+            {twoFactorLoginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+          </Button>
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+              }}
+              data-testid="button-toggle-recovery-code"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </button>
+            <button type="button" className="text-slate-600 hover:underline" onClick={onBack} data-testid="button-back-to-login">
+              Back to Sign In
+            </button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// "Forgot password": ask for a reset link by email
+function ForgotPasswordCard({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const forgotMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/forgot-password", { email });
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset Your Password</CardTitle>
+        <CardDescription>Enter the email address on your account and we'll send you a link to choose a new password.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {forgotMutation.isSuccess ? (
+          <div className="space-y-4 text-center" data-testid="text-reset-link-sent">
+            <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+            <p className="text-slate-600">{forgotMutation.data.message}</p>
+            <Button variant="outline" className="w-full" onClick={onBack} data-testid="button-back-to-login">
+              Back to Sign In
+            </Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              forgotMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="forgot-email">Email</Label>
+              <Input
+                id="forgot-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                data-testid="input-forgot-email"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={forgotMutation.isPending} data-testid="button-send-reset-link">
+              {forgotMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Reset Link
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={onBack} data-testid="button-back-to-login">
+              Back to Sign In
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Opened from the reset email: /auth?reset=<token>
+function ResetPasswordCard({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reset-password", { token, newPassword, confirmPassword });
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't reset your password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a New Password</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {resetMutation.isSuccess ? (
+          <div className="space-y-4 text-center" data-testid="text-password-reset">
+            <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+            <p className="text-slate-600">{resetMutation.data.message}</p>
+            <Link href="/auth">
+              <Button className="w-full" data-testid="button-go-to-login">Sign In</Button>
+            </Link>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              resetMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New Password</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                data-testid="input-reset-password"
+              />
+              <p className="text-xs text-slate-500">{PASSWORD_HINT}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+              <Input
+                id="reset-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                data-testid="input-reset-confirm-password"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+              {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reset Password
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Opened from the verification email: /auth?verify=<token>. Works signed in or out.
+function VerifyEmailCard({ token }: { token: string }) {
+  const { user } = useAuth();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Links are single-use, so only ever try once
+  useEffect(() => {
+    verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <Card className="text-center">
+      <CardContent className="pt-6 space-y-4">
+        {verifyMutation.isSuccess ? (
+          <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+        ) : verifyMutation.isError ? (
+          <XCircle className="h-10 w-10 text-red-500 mx-auto" />
+        ) : (
+          <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto" />
+        )}
+        <p className="text-slate-600" data-testid="text-verify-email-status">
+          {verifyMutation.isSuccess
+            ? verifyMutation.data.message
+            : verifyMutation.isError
+              ? verifyMutation.error.message
+              : "Verifying your email address..."}
+        </p>
+        <Link href={user ? "/dashboard" : "/auth"}>
+          <Button className="w-full" disabled={verifyMutation.isPending} data-testid="button-continue">
+            {user ? "Go to Dashboard" : "Sign In"}
+          </Button>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Opened from the account locked email: /auth?unlock=<token>
+function UnlockAccountCard({ token }: { token: string }) {
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/unlock-account", { token });
+      return await res.json();
+    },
+  });
+
+  // Links are single-use, so only ever try once
+  useEffect(() => {
+    unlockMutation.mutate();
+  }, [token]);
+
+  return (
+    <Card className="text-center">
+      <CardContent className="pt-6 space-y-4">
+        {unlockMutation.isSuccess ? (
+          <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+        ) : unlockMutation.isError ? (
+          <XCircle className="h-10 w-10 text-red-500 mx-auto" />
+        ) : (
+          <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto" />
+        )}
+        <p className="text-slate-600" data-testid="text-unlock-status">
+          {unlockMutation.isSuccess
+            ? unlockMutation.data.message
+            : unlockMutation.isError
+              ? unlockMutation.error.message
+              : "Unlocking your account..."}
+        </p>
+        <Link href="/auth">
+          <Button className="w-full" disabled={unlockMutation.isPending} data-testid="button-continue">
+            Sign In
+          </Button>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
+  const searchParams = new URLSearchParams(useSearch());
+  const resetToken = searchParams.get("reset");
+  const verifyToken = searchParams.get("verify");
+  const unlockToken = searchParams.get("unlock");
+  // Set when returning from Google or GitHub
+  const oauthError = searchParams.get("oauthError");
+  const twoFactorPending = searchParams.get("twoFactor") === "1";
+  const [, setLocation] = useLocation();
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [loginData, setLoginData] = useState({ username: "", password: "" });
   const [registerData, setRegisterData] = useState({ username: "", email: "", password: "" });
 
-  if (user) {
+  if (user && !verifyToken) {
     return <Redirect to="/dashboard" />;
   }
 
@@ -37,109 +404,146 @@ export default function AuthPage() {
             <p className="text-slate-600 mt-2">Automate your client onboarding</p>
           </div>
 
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
-              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Welcome Back</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={handleLogin} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="login-username">Username</Label>
-                      <Input
-                        id="login-username"
-                        type="text"
-                        value={loginData.username}
-                        onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
-                        required
-                        data-testid="input-login-username"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="login-password">Password</Label>
-                      <Input
-                        id="login-password"
-                        type="password"
-                        value={loginData.password}
-                        onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
-                        required
-                        data-testid="input-login-password"
-                      />
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      disabled={loginMutation.isPending}
-                      data-testid="button-login-submit"
-                    >
-                      {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Sign In
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="register">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Create Account</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={handleRegister} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="register-username">Username</Label>
-                      <Input
-                        id="register-username"
-                        type="text"
-                        value={registerData.username}
-                        onChange={(e) => setRegisterData({ ...registerData, username: e.target.value })}
-                        required
-                        data-testid="input-register-username"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="register-email">Email</Label>
-                      <Input
-                        id="register-email"
-                        type="email"
-                        value={registerData.email}
-                        onChange={(e) => setRegisterData({ ...registerData, email: e.target.value })}
-                        required
-                        data-testid="input-register-email"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="register-password">Password</Label>
-                      <Input
-                        id="register-password"
-                        type="password"
-                        value={registerData.password}
-                        onChange={(e) => setRegisterData({ ...registerData, password: e.target.value })}
-                        required
-                        data-testid="input-register-password"
-                      />
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      disabled={registerMutation.isPending}
-                      data-testid="button-register-submit"
-                    >
-                      {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Create Account
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-          </Tabs>
+          {oauthError && (
+            <Alert variant="destructive" className="mb-4" data-testid="alert-oauth-error">
+              <AlertDescription>{oauthError}</AlertDescription>
+            </Alert>
+          )}
+
+          {verifyToken ? (
+            <VerifyEmailCard token={verifyToken} />
+          ) : resetToken ? (
+            <ResetPasswordCard token={resetToken} />
+          ) : unlockToken ? (
+            <UnlockAccountCard token={unlockToken} />
+          ) : twoFactorPending || (loginMutation.data && "twoFactorRequired" in loginMutation.data) ? (
+            <TwoFactorCard
+              onBack={() => {
+                loginMutation.reset();
+                setLocation("/auth");
+              }}
+            />
+          ) : showForgotPassword ? (
+            <ForgotPasswordCard onBack={() => setShowForgotPassword(false)} />
+          ) : (
+            <Tabs defaultValue="login" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Welcome Back</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={handleLogin} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="login-username">Username or Email</Label>
+                        <Input
+                          id="login-username"
+                          type="text"
+                          autoComplete="username"
+                          value={loginData.username}
+                          onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
+                          required
+                          data-testid="input-login-username"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="login-password">Password</Label>
+                          <button
+                            type="button"
+                            className="text-sm text-primary hover:underline"
+                            onClick={() => setShowForgotPassword(true)}
+                            data-testid="button-forgot-password"
+                          >
+                            Forgot password?
+                          </button>
+                        </div>
+                        <Input
+                          id="login-password"
+                          type="password"
+                          value={loginData.password}
+                          onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                          required
+                          data-testid="input-login-password"
+                        />
+                      </div>
+                      <Button 
+                        type="submit" 
+                        className="w-full"
+                        disabled={loginMutation.isPending}
+                        data-testid="button-login-submit"
+                      >
+                        {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Sign In
+                      </Button>
+                    </form>
+                    <OAuthButtons verb="Sign in" />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Create Account</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={handleRegister} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="register-username">Username</Label>
+                        <Input
+                          id="register-username"
+                          type="text"
+                          value={registerData.username}
+                          onChange={(e) => setRegisterData({ ...registerData, username: e.target.value })}
+                          required
+                          data-testid="input-register-username"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="register-email">Email</Label>
+                        <Input
+                          id="register-email"
+                          type="email"
+                          value={registerData.email}
+                          onChange={(e) => setRegisterData({ ...registerData, email: e.target.value })}
+                          required
+                          data-testid="input-register-email"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="register-password">Password</Label>
+                        <Input
+                          id="register-password"
+                          type="password"
+                          value={registerData.password}
+                          onChange={(e) => setRegisterData({ ...registerData, password: e.target.value })}
+                          required
+                          data-testid="input-register-password"
+                        />
+                        <p className="text-xs text-slate-500">{PASSWORD_HINT}</p>
+                      </div>
+                      <Button 
+                        type="submit" 
+                        className="w-full"
+                        disabled={registerMutation.isPending}
+                        data-testid="button-register-submit"
+                      >
+                        {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Create Account
+                      </Button>
+                    </form>
+                    <OAuthButtons verb="Sign up" />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          )}
         </div>
       </div>
 
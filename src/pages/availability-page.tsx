@@ -0,0 +1,319 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, CalendarClock, Copy, Plus, Trash, X } from "lucide-react";
+import type { AvailabilitySettings, Booking, UpdateAvailability, WeeklyRule } from "@shared/schema";
+import { getBookingPageUrl, parseWeeklyRules, weekdayLabels } from "@/lib/scheduling";
+
+type AvailabilityDraft = Required<Omit<UpdateAvailability, "location">> & { location: string };
+
+// Monday first, the way most people read a working week
+const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+
+function listTimeZones(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+const toDraft = (settings: AvailabilitySettings): AvailabilityDraft => ({
+  enabled: settings.enabled,
+  timeZone: settings.timeZone,
+  meetingTitle: settings.meetingTitle,
+  meetingMinutes: settings.meetingMinutes,
+  bufferMinutes: settings.bufferMinutes,
+  minimumNoticeHours: settings.minimumNoticeHours,
+  bookingWindowDays: settings.bookingWindowDays,
+  location: settings.location ?? "",
+  weeklyRules: parseWeeklyRules(settings.weeklyRules),
+});
+
+export default function AvailabilityPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AvailabilityDraft | null>(null);
+
+  const { data: settings, isLoading } = useQuery<AvailabilitySettings>({
+    queryKey: ["/api/availability"],
+  });
+
+  const { data: bookings } = useQuery<Booking[]>({
+    queryKey: ["/api/bookings"],
+  });
+
+  useEffect(() => {
+    if (settings) setDraft(toDraft(settings));
+  }, [settings]);
+
+  const timeZones = useMemo(() => listTimeZones(draft?.timeZone ?? "UTC"), [draft?.timeZone]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: AvailabilityDraft) => {
+      const res = await apiRequest("PUT", "/api/availability", { ...updates, location: updates.location || null });
+      return await res.json();
+    },
+    onSuccess: (data: AvailabilitySettings) => {
+      queryClient.setQueryData(["/api/availability"], data);
+      toast({
+        title: "Success!",
+        description: data.enabled ? "Your booking page is live" : "Availability saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/bookings/${id}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Booking canceled",
+        description: "The time is open for booking again",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyBookingLink = async () => {
+    if (!settings) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${getBookingPageUrl(settings.bookingLink)}`);
+    toast({
+      title: "Link copied",
+      description: "Share it with clients so they can book a call",
+    });
+  };
+
+  const updateRules = (rules: WeeklyRule[]) => draft && setDraft({ ...draft, weeklyRules: rules });
+
+  const upcoming = (bookings ?? []).filter(booking => booking.status === "confirmed" && new Date(booking.endsAt) > new Date());
+
+  if (isLoading || !draft || !settings) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const numberField = (key: "meetingMinutes" | "bufferMinutes" | "minimumNoticeHours" | "bookingWindowDays", label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type="number"
+        min={0}
+        value={draft[key]}
+        onChange={e => setDraft({ ...draft, [key]: Number(e.target.value) })}
+        data-testid={`input-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm" data-testid="button-back">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Availability</h1>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate(draft)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-availability"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Booking page</CardTitle>
+                    <CardDescription>
+                      Clients pick a time from your open slots. Forms without their own scheduling link send clients here after they submit.
+                    </CardDescription>
+                  </div>
+                  <Switch
+                    checked={draft.enabled}
+                    onCheckedChange={enabled => setDraft({ ...draft, enabled })}
+                    data-testid="switch-booking-enabled"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Input readOnly value={`${window.location.origin}${getBookingPageUrl(settings.bookingLink)}`} data-testid="input-booking-link" />
+                  <Button variant="outline" onClick={copyBookingLink} disabled={!settings.enabled} data-testid="button-copy-booking-link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="meetingTitle">Meeting title</Label>
+                    <Input
+                      id="meetingTitle"
+                      value={draft.meetingTitle}
+                      onChange={e => setDraft({ ...draft, meetingTitle: e.target.value })}
+                      data-testid="input-meeting-title"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="location">Location or video link</Label>
+                    <Input
+                      id="location"
+                      value={draft.location}
+                      onChange={e => setDraft({ ...draft, location: e.target.value })}
+                      placeholder="https://meet.example.com/you"
+                      data-testid="input-location"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Time zone</Label>
+                    <Select value={draft.timeZone} onValueChange={timeZone => setDraft({ ...draft, timeZone })}>
+                      <SelectTrigger data-testid="select-time-zone">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeZones.map(zone => (
+                          <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {numberField("meetingMinutes", "Meeting length (minutes)")}
+                  {numberField("bufferMinutes", "Buffer between calls (minutes)")}
+                  {numberField("minimumNoticeHours", "Minimum notice (hours)")}
+                  {numberField("bookingWindowDays", "Bookable up to (days ahead)")}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly hours</CardTitle>
+                <CardDescription>Times are in {draft.timeZone.replace(/_/g, " ")}.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {weekdayOrder.map(day => {
+                  const dayRules = draft.weeklyRules.filter(rule => rule.day === day);
+                  return (
+                    <div key={day} className="flex items-start gap-4" data-testid={`row-weekday-${day}`}>
+                      <div className="w-28 pt-2 font-medium text-gray-900">{weekdayLabels[day]}</div>
+                      <div className="flex-1 space-y-2">
+                        {dayRules.length === 0 && <p className="pt-2 text-sm text-gray-500">Unavailable</p>}
+                        {dayRules.map((rule, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Input
+                              type="time"
+                              value={rule.start}
+                              onChange={e => updateRules(draft.weeklyRules.map(r => r === rule ? { ...r, start: e.target.value } : r))}
+                              className="w-32"
+                              data-testid={`input-rule-start-${day}-${index}`}
+                            />
+                            <span className="text-gray-500">to</span>
+                            <Input
+                              type="time"
+                              value={rule.end}
+                              onChange={e => updateRules(draft.weeklyRules.map(r => r === rule ? { ...r, end: e.target.value } : r))}
+                              className="w-32"
+                              data-testid={`input-rule-end-${day}-${index}`}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateRules(draft.weeklyRules.filter(r => r !== rule))}
+                              data-testid={`button-remove-rule-${day}-${index}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateRules([...draft.weeklyRules, { day, start: "09:00", end: "17:00" }])}
+                        data-testid={`button-add-rule-${day}`}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Upcoming bookings */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming calls</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {upcoming.length === 0 ? (
+                <div className="text-center py-8">
+                  <CalendarClock className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+                  <p className="text-sm text-gray-600">No calls booked yet</p>
+                </div>
+              ) : (
+                upcoming.map(booking => (
+                  <div key={booking.id} className="flex items-start justify-between border rounded-lg p-3" data-testid={`booking-${booking.id}`}>
+                    <div>
+                      <p className="font-medium text-gray-900">{booking.inviteeName}</p>
+                      <p className="text-sm text-gray-500">{booking.inviteeEmail}</p>
+                      <Badge variant="secondary" className="mt-2">
+                        {new Date(booking.startsAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                      </Badge>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => cancelMutation.mutate(booking.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-booking-${booking.id}`}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -172,7 +172,7 @@ export default function BillingPage() {
                 </div>
                 <div className="text-sm text-slate-600 space-y-1">
                   <div>📝 1 form template</div>
-                  <div>⚡ 3 zaps maximum</div>
+                  <div>⚡ 3 zaps a month</div>
                   <div>🚫 No custom branding</div>
                   <div>🚫 No saved contracts</div>
                 </div>
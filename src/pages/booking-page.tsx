@@ -0,0 +1,197 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useRoute, useSearch } from "wouter";
+import { useMemo, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarClock, Clock, MapPin } from "lucide-react";
+import { brandTheme, type Branding } from "@/lib/branding";
+
+interface BookingPageDetails {
+  ownerName: string;
+  meetingTitle: string;
+  meetingMinutes: number;
+  timeZone: string;
+  location: string | null;
+  branding: Branding;
+  slots: string[];
+}
+
+// Slots come as UTC instants; the invitee sees them on their own calendar
+const inviteeTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function groupByLocalDate(slots: string[]): [string, string[]][] {
+  const days = new Map<string, string[]>();
+  for (const slot of slots) {
+    const day = new Date(slot).toLocaleDateString([], { weekday: "long", month: "long", day: "numeric" });
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+  return Array.from(days);
+}
+
+export default function BookingPage() {
+  const [, params] = useRoute("/book/:bookingLink");
+  const bookingLink = params?.bookingLink;
+  const [, navigate] = useLocation();
+  const searchParams = new URLSearchParams(useSearch());
+  const { toast } = useToast();
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [name, setName] = useState(searchParams.get("name") ?? "");
+  const [email, setEmail] = useState(searchParams.get("email") ?? "");
+  const [notes, setNotes] = useState("");
+
+  const { data: page, isLoading, error } = useQuery<BookingPageDetails>({
+    queryKey: ["/api/public/booking-pages", bookingLink],
+    enabled: !!bookingLink,
+    retry: false,
+  });
+
+  const days = useMemo(() => groupByLocalDate(page?.slots ?? []), [page?.slots]);
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/public/booking-pages/${bookingLink}`, {
+        start: selectedSlot,
+        name,
+        email,
+        notes: notes || undefined,
+        submissionId: searchParams.get("submission") ?? undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: { manageToken: string }) => {
+      navigate(`/booking/${data.manageToken}`);
+    },
+    onError: (error: Error) => {
+      // Someone may have taken the slot; show what's still open
+      setSelectedSlot(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/public/booking-pages", bookingLink] });
+      toast({
+        title: "Couldn't book that time",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !page) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6">
+            <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Booking page not found</h1>
+            <p className="text-gray-600">This link is invalid or the booking page has been turned off.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const branding = page.branding;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4" style={brandTheme(branding)}>
+      <div className="max-w-3xl mx-auto space-y-6">
+        {branding.logo && (
+          <img src={branding.logo} alt={branding.businessName || "Business logo"} className="h-10 max-w-[160px] object-contain" />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="text-meeting-title">{page.meetingTitle} with {page.ownerName}</CardTitle>
+            <CardDescription className="flex flex-wrap gap-4">
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {page.meetingMinutes} minutes
+              </span>
+              {page.location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {page.location}
+                </span>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-500">Times are shown in {inviteeTimeZone.replace(/_/g, " ")}.</p>
+
+            {days.length === 0 ? (
+              <p className="text-center py-8 text-gray-600" data-testid="text-no-slots">
+                There are no open times right now. Please check back later.
+              </p>
+            ) : (
+              days.map(([day, slots]) => (
+                <div key={day}>
+                  <h3 className="font-medium text-gray-900 mb-2">{day}</h3>
+                  <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                    {slots.map(slot => (
+                      <Button
+                        key={slot}
+                        variant={slot === selectedSlot ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setSelectedSlot(slot)}
+                        data-testid={`button-slot-${slot}`}
+                      >
+                        {new Date(slot).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedSlot && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your details</CardTitle>
+              <CardDescription>
+                {new Date(selectedSlot).toLocaleString([], { dateStyle: "full", timeStyle: "short" })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" value={name} onChange={e => setName(e.target.value)} data-testid="input-invitee-name" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" value={email} onChange={e => setEmail(e.target.value)} data-testid="input-invitee-email" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Anything to share before the call?</Label>
+                <Textarea id="notes" value={notes} onChange={e => setNotes(e.target.value)} data-testid="input-invitee-notes" />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => bookMutation.mutate()}
+                disabled={!name || !email || bookMutation.isPending}
+                data-testid="button-confirm-booking"
+              >
+                {bookMutation.isPending ? "Booking..." : "Confirm Booking"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {branding.showAttribution && (
+          <p className="text-center text-sm text-gray-500">Powered by ClientZap</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, PlanLimitError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/use-subscription";
+import { Link } from "wouter";
+import { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UpgradeModal } from "@/components/ui/upgrade-modal";
+import {
+  ArrowLeft,
+  Bold,
+  Edit,
+  Heading1,
+  Heading2,
+  List,
+  Plus,
+  ScrollText,
+  Trash
+} from "lucide-react";
+import { clauseCategories, type ClauseCategory, type ContractTemplate, type Form } from "@shared/schema";
+import {
+  answerMergeFields,
+  clauseCategoryLabels,
+  DEFAULT_TEMPLATE_BODY,
+  mergeFields,
+  parseContractBody,
+  renderTemplate,
+  type LibraryClause,
+  type MergeContext,
+} from "@/lib/contract-templates";
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  body: string;
+}
+
+interface ClauseDraft {
+  id?: string;
+  key: string;
+  title: string;
+  category: ClauseCategory;
+  body: string;
+}
+
+// Renders template markup the same way the PDF lays it out
+function ContractPreview({ text }: { text: string }) {
+  return (
+    <div className="space-y-3 text-sm text-slate-800" data-testid="contract-preview">
+      {parseContractBody(text).map((block, index) => {
+        const content = block.lines.map((line, lineIndex) => (
+          <span key={lineIndex}>
+            {lineIndex > 0 && <br />}
+            {line.map((run, runIndex) => run.bold ? <strong key={runIndex}>{run.text}</strong> : <span key={runIndex}>{run.text}</span>)}
+          </span>
+        ));
+        switch (block.type) {
+          case "heading":
+            return <h2 key={index} className="text-xl font-bold text-primary">{content}</h2>;
+          case "subheading":
+            return <h3 key={index} className="text-base font-semibold text-primary pt-2">{content}</h3>;
+          case "bullet":
+            return <p key={index} className="pl-4">• {content}</p>;
+          default:
+            return <p key={index}>{content}</p>;
+        }
+      })}
+    </div>
+  );
+}
+
+export default function ContractTemplatesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { limits } = useSubscription();
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [clauseDraft, setClauseDraft] = useState<ClauseDraft | null>(null);
+  const [planLimitMessage, setPlanLimitMessage] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const { data: templates, isLoading } = useQuery<ContractTemplate[]>({
+    queryKey: ["/api/contract-templates"],
+  });
+
+  const { data: clauses } = useQuery<LibraryClause[]>({
+    queryKey: ["/api/contract-clauses"],
+  });
+
+  const { data: forms } = useQuery<Form[]>({
+    queryKey: ["/api/forms"],
+  });
+
+  const onSaveError = (error: Error) => {
+    if (error instanceof PlanLimitError) {
+      setTemplateDraft(null);
+      setClauseDraft(null);
+      setPlanLimitMessage(error.message);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, ...template }: TemplateDraft) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/contract-templates/${id}`, template)
+        : await apiRequest("POST", "/api/contract-templates", template);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Contract template saved",
+      });
+      setTemplateDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-templates"] });
+    },
+    onError: onSaveError,
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/contract-templates/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template deleted",
+        description: "Contracts already generated from it are unchanged",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-templates"] });
+    },
+    onError: onSaveError,
+  });
+
+  const saveClauseMutation = useMutation({
+    mutationFn: async ({ id, ...clause }: ClauseDraft) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/contract-clauses/${id}`, clause)
+        : await apiRequest("POST", "/api/contract-clauses", clause);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Clause saved to your library",
+      });
+      setClauseDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-clauses"] });
+    },
+    onError: onSaveError,
+  });
+
+  const deleteClauseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/contract-clauses/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-clauses"] });
+    },
+    onError: onSaveError,
+  });
+
+  const requireSavedContracts = (open: () => void) => {
+    if (!limits.hasSavedContracts) {
+      setPlanLimitMessage("Saved contracts are a Pro feature. Upgrade to Pro to keep reusable contracts.");
+      return;
+    }
+    open();
+  };
+
+  // Answer merge fields from each of the user's forms, keyed by camelCased label
+  const formAnswerFields = useMemo(
+    () => (forms ?? []).map(form => ({ form, fields: answerMergeFields(form) })).filter(group => group.fields.length > 0),
+    [forms],
+  );
+
+  // Sample values so the preview shows where each merge field lands
+  const previewContext = useMemo<MergeContext>(() => {
+    const answerFields = formAnswerFields.flatMap(group => group.fields);
+    return {
+      client: { name: "Jane Client", email: "jane@example.com" },
+      freelancer: {
+        name: user?.displayName || user?.username || "",
+        businessName: user?.businessName || user?.displayName || user?.username || "",
+        email: user?.email || "",
+        website: user?.website || "",
+      },
+      form: { title: formAnswerFields[0]?.form.title ?? "Client Intake" },
+      today: new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+      answers: Object.fromEntries(answerFields.map(({ field, label }) => [field.slice("answers.".length), `[${label}]`])),
+      answerList: (formAnswerFields[0]?.fields ?? []).map(({ label }) => ({ label, value: `[${label}]` })),
+    };
+  }, [formAnswerFields, user]);
+
+  // Insert text at the cursor, or wrap the selection when `after` is given
+  const insertIntoBody = (before: string, after?: string) => {
+    const textarea = bodyRef.current;
+    if (!templateDraft || !textarea) return;
+    const { selectionStart: start, selectionEnd: end, value } = textarea;
+    const inserted = after === undefined ? before : `${before}${value.slice(start, end)}${after}`;
+    setTemplateDraft({ ...templateDraft, body: value.slice(0, start) + inserted + value.slice(end) });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  // Toggle a line prefix such as "# " or "- " on the line holding the cursor
+  const prefixLine = (prefix: string) => {
+    const textarea = bodyRef.current;
+    if (!templateDraft || !textarea) return;
+    const { selectionStart: start, value } = textarea;
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = value.indexOf("\n", start) === -1 ? value.length : value.indexOf("\n", start);
+    const line = value.slice(lineStart, lineEnd);
+    const stripped = line.replace(/^(#{1,2} |- )/, "");
+    const updated = line.startsWith(prefix) ? stripped : prefix + stripped;
+    setTemplateDraft({ ...templateDraft, body: value.slice(0, lineStart) + updated + value.slice(lineEnd) });
+    requestAnimationFrame(() => textarea.focus());
+  };
+
+  const categoriesInUse = clauseCategories.filter(category => clauses?.some(clause => clause.category === category));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm" data-testid="button-back">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Contract Templates</h1>
+          </div>
+          <Button
+            onClick={() => requireSavedContracts(() => setTemplateDraft({ name: "", body: DEFAULT_TEMPLATE_BODY }))}
+            data-testid="button-new-template"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Templates */}
+          <div className="lg:col-span-2 space-y-4">
+            {isLoading ? (
+              <div className="text-center py-12 text-gray-500">Loading templates...</div>
+            ) : !templates || templates.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <ScrollText className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No contract templates yet</h3>
+                  <p className="text-gray-600">
+                    Contracts use the standard service agreement until you create a template. Templates can pull in
+                    client details, form answers and clauses from your library.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              templates.map((template) => (
+                <Card key={template.id} data-testid={`card-template-${template.id}`}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle>{template.name}</CardTitle>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Updated {new Date(template.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTemplateDraft({ id: template.id, name: template.name, body: template.body })}
+                        data-testid={`button-edit-template-${template.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteTemplateMutation.mutate(template.id)}
+                        disabled={deleteTemplateMutation.isPending}
+                        data-testid={`button-delete-template-${template.id}`}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                </Card>
+              ))
+            )}
+          </div>
+
+          {/* Clause library */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Clause Library</CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => requireSavedContracts(() => setClauseDraft({ key: "", title: "", category: "general", body: "" }))}
+                data-testid="button-new-clause"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Clause
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {categoriesInUse.map(category => (
+                <div key={category}>
+                  <p className="text-xs font-semibold uppercase text-gray-500 mb-2">{clauseCategoryLabels[category]}</p>
+                  <div className="space-y-2">
+                    {clauses!.filter(clause => clause.category === category).map(clause => (
+                      <div key={clause.key} className="flex items-center gap-2 p-2 border rounded-lg" data-testid={`clause-${clause.key}`}>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{clause.title}</p>
+                          <code className="text-xs text-gray-500">{`{{clause.${clause.key}}}`}</code>
+                        </div>
+                        {clause.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          // Editing a built-in clause saves a copy with the same key that replaces it
+                          onClick={() => requireSavedContracts(() => setClauseDraft({
+                            id: clause.id ?? undefined,
+                            key: clause.key,
+                            title: clause.title,
+                            category: clause.category,
+                            body: clause.body,
+                          }))}
+                          data-testid={`button-edit-clause-${clause.key}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {!clause.builtIn && clause.id && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteClauseMutation.mutate(clause.id!)}
+                            disabled={deleteClauseMutation.isPending}
+                            data-testid={`button-delete-clause-${clause.key}`}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create / edit template */}
+      <Dialog open={!!templateDraft} onOpenChange={(open) => !open && setTemplateDraft(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{templateDraft?.id ? "Edit Template" : "New Contract Template"}</DialogTitle>
+            <DialogDescription>
+              Use # for headings, - for bullet points and **text** for bold. Merge fields are filled in from the submission.
+            </DialogDescription>
+          </DialogHeader>
+          {templateDraft && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-3">
+                <div>
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={templateDraft.name}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                    placeholder="Website design agreement"
+                    data-testid="input-template-name"
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  <Button type="button" size="sm" variant="outline" onClick={() => insertIntoBody("**", "**")} data-testid="button-format-bold">
+                    <Bold className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => prefixLine("# ")} data-testid="button-format-heading">
+                    <Heading1 className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => prefixLine("## ")} data-testid="button-format-subheading">
+                    <Heading2 className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => prefixLine("- ")} data-testid="button-format-bullet">
+                    <List className="h-4 w-4" />
+                  </Button>
+                  <Select value="" onValueChange={(field) => insertIntoBody(`{{${field}}}`)}>
+                    <SelectTrigger className="w-40 h-9" data-testid="select-insert-field">
+                      <SelectValue placeholder="Insert field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        <SelectLabel>General</SelectLabel>
+                        {mergeFields.map(({ field, label }) => (
+                          <SelectItem key={field} value={field}>{label}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                      {formAnswerFields.map(({ form, fields }) => (
+                        <SelectGroup key={form.id}>
+                          <SelectLabel>{form.title}</SelectLabel>
+                          {fields.map(({ field, label }) => (
+                            <SelectItem key={`${form.id}-${field}`} value={field}>{label}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value="" onValueChange={(key) => insertIntoBody(`\n\n{{clause.${key}}}\n\n`)}>
+                    <SelectTrigger className="w-40 h-9" data-testid="select-insert-clause">
+                      <SelectValue placeholder="Insert clause" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clauses?.map(clause => (
+                        <SelectItem key={clause.key} value={clause.key}>{clause.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Textarea
+                  ref={bodyRef}
+                  value={templateDraft.body}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, body: e.target.value })}
+                  rows={18}
+                  className="font-mono text-sm"
+                  data-testid="textarea-template-body"
+                />
+              </div>
+              <div className="border rounded-lg p-4 bg-white max-h-[32rem] overflow-y-auto">
+                <p className="text-xs font-semibold uppercase text-gray-500 mb-3">Preview with sample answers</p>
+                <ContractPreview text={renderTemplate(templateDraft.body, previewContext, clauses ?? [])} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDraft(null)} data-testid="button-cancel-template">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => templateDraft && saveTemplateMutation.mutate(templateDraft)}
+              disabled={!templateDraft?.name.trim() || !templateDraft?.body.trim() || saveTemplateMutation.isPending}
+              data-testid="button-save-template"
+            >
+              {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / edit clause */}
+      <Dialog open={!!clauseDraft} onOpenChange={(open) => !open && setClauseDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{clauseDraft?.id ? "Edit Clause" : "Save Clause"}</DialogTitle>
+            <DialogDescription>
+              Templates include this clause with {"{{clause.<key>}}"}. Clauses can use merge fields too.
+            </DialogDescription>
+          </DialogHeader>
+          {clauseDraft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="clause-title">Title</Label>
+                  <Input
+                    id="clause-title"
+                    value={clauseDraft.title}
+                    onChange={(e) => setClauseDraft({ ...clauseDraft, title: e.target.value })}
+                    data-testid="input-clause-title"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="clause-key">Key</Label>
+                  <Input
+                    id="clause-key"
+                    value={clauseDraft.key}
+                    // Templates refer to clauses by key, so it's fixed once saved or when replacing a built-in
+                    disabled={!!clauseDraft.id || clauses?.some(clause => clause.builtIn && clause.key === clauseDraft.key)}
+                    onChange={(e) => setClauseDraft({ ...clauseDraft, key: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "-") })}
+                    placeholder="late-fees"
+                    data-testid="input-clause-key"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Category</Label>
+                <Select value={clauseDraft.category} onValueChange={(category) => setClauseDraft({ ...clauseDraft, category: category as ClauseCategory })}>
+                  <SelectTrigger data-testid="select-clause-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clauseCategories.map(category => (
+                      <SelectItem key={category} value={category}>{clauseCategoryLabels[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="clause-body">Text</Label>
+                <Textarea
+                  id="clause-body"
+                  value={clauseDraft.body}
+                  onChange={(e) => setClauseDraft({ ...clauseDraft, body: e.target.value })}
+                  rows={8}
+                  className="font-mono text-sm"
+                  data-testid="textarea-clause-body"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClauseDraft(null)} data-testid="button-cancel-clause">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => clauseDraft && saveClauseMutation.mutate(clauseDraft)}
+              disabled={!clauseDraft?.key || !clauseDraft?.title.trim() || !clauseDraft?.body.trim() || saveClauseMutation.isPending}
+              data-testid="button-save-clause"
+            >
+              {saveClauseMutation.isPending ? "Saving..." : "Save Clause"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Plan limit reached */}
+      <UpgradeModal
+        open={!!planLimitMessage}
+        onOpenChange={(open) => !open && setPlanLimitMessage(null)}
+        limitMessage={planLimitMessage ?? undefined}
+      />
+    </div>
+  );
+}
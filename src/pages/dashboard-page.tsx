@@ -16,7 +16,6 @@ import {
   FileText, 
   Settings, 
   Plus, 
-  Bell,
   Calendar,
   MessageSquare,
   TrendingUp,
@@ -25,10 +24,15 @@ import {
   Send,
   Inbox,
   CreditCard,
-  Crown
+  Crown,
+  GitBranch,
+  ScrollText,
+  CalendarClock
 } from "lucide-react";
 import { SendFormModal } from "@/components/send-form-modal";
+import { NotificationBell } from "@/components/ui/notification-bell";
 import type { Client, Form } from "@shared/schema";
+import type { ClientFlowSummary } from "@/lib/flows";
 import { useState } from "react";
 
 export default function DashboardPage() {
@@ -43,10 +47,21 @@ export default function DashboardPage() {
     enabled: !!user,
   });
 
-  const { data: stats, isLoading: statsLoading } = useQuery({
+  const { data: stats, isLoading: statsLoading } = useQuery<{
+    activeClients: number;
+    pendingForms: number;
+    signedContracts: number;
+    scheduledCalls: number;
+    flowsInProgress: number;
+    flowsCompleted: number;
+  }>({
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: clientFlows } = useQuery<ClientFlowSummary[]>({
+    queryKey: ["/api/flows/clients"],
+  });
+
   const { data: clients, isLoading: clientsLoading } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
@@ -84,12 +99,13 @@ export default function DashboardPage() {
       const res = await apiRequest("POST", "/api/integrations/calendly/schedule", { clientId });
       return await res.json();
     },
-    onSuccess: () => {
+    // The call shows as scheduled once the client books through the link
+    onSuccess: (data: { schedulingUrl: string }) => {
+      navigator.clipboard?.writeText(data.schedulingUrl).catch(() => {});
       toast({
-        title: "Success!",
-        description: "Call scheduled successfully",
+        title: "Scheduling link copied",
+        description: "It's prefilled with your client's name and email.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
     },
     onError: (error: Error) => {
       toast({
@@ -158,12 +174,36 @@ export default function DashboardPage() {
                 Client Submissions
               </a>
             </Link>
+            <Link href="/flows">
+              <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-flows">
+                <GitBranch className="mr-3 h-4 w-4" />
+                Onboarding Flows
+              </a>
+            </Link>
+            <Link href="/contract-templates">
+              <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-contract-templates">
+                <ScrollText className="mr-3 h-4 w-4" />
+                Contract Templates
+              </a>
+            </Link>
+            <Link href="/availability">
+              <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-availability">
+                <CalendarClock className="mr-3 h-4 w-4" />
+                Availability
+              </a>
+            </Link>
             <Link href="/zap-inbox">
               <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-zap-inbox">
                 <Inbox className="mr-3 h-4 w-4" />
                 Zap Inbox
               </a>
             </Link>
+            <Link href="/zaps/sent">
+              <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-sent-zaps">
+                <Send className="mr-3 h-4 w-4" />
+                Sent Zaps
+              </a>
+            </Link>
             <Link href="/billing">
               <a className="flex items-center px-4 py-3 text-slate-600 hover:text-primary hover:bg-slate-50 rounded-lg font-medium" data-testid="link-billing">
                 {user?.subscriptionType === "pro" ? (
@@ -228,9 +268,7 @@ export default function DashboardPage() {
                   Send New Form
                 </Button>
               </Link>
-              <Button variant="ghost" size="icon">
-                <Bell className="h-5 w-5" />
-              </Button>
+              <NotificationBell />
             </div>
           </div>
         </header>
@@ -323,6 +361,45 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Client Pipeline */}
+          {clientFlows && clientFlows.length > 0 && (
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Client Pipeline</CardTitle>
+                {stats && (
+                  <p className="text-sm text-slate-600" data-testid="text-flow-stats">
+                    {stats.flowsCompleted} completed · {stats.flowsInProgress} in progress
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {clientFlows.map((clientFlow) => (
+                    <div key={clientFlow.id} className="p-4 border border-slate-200 rounded-lg" data-testid={`pipeline-${clientFlow.id}`}>
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h3 className="font-medium text-slate-900">{clientFlow.client.name}</h3>
+                          <p className="text-sm text-slate-600">{clientFlow.client.email} · {clientFlow.flow.name}</p>
+                        </div>
+                        {clientFlow.status === "completed"
+                          ? getStatusBadge("completed")
+                          : (
+                            <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                              Step {clientFlow.currentStep + 1} of {clientFlow.totalSteps}
+                            </Badge>
+                          )}
+                      </div>
+                      <Progress value={clientFlow.totalSteps ? (Math.min(clientFlow.currentStep, clientFlow.totalSteps) / clientFlow.totalSteps) * 100 : 0} />
+                      {clientFlow.status !== "completed" && clientFlow.currentStepTitle && (
+                        <p className="text-xs text-slate-500 mt-2">Waiting on: {clientFlow.currentStepTitle}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Your Forms Section */}
           {forms && forms.length > 0 && (
             <Card className="mb-8">
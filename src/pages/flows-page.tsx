@@ -0,0 +1,310 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, PlanLimitError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/use-subscription";
+import { Link } from "wouter";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UpgradeModal } from "@/components/ui/upgrade-modal";
+import {
+  ArrowLeft,
+  ArrowDown,
+  ArrowUp,
+  ArrowRight,
+  Copy,
+  Edit,
+  GitBranch,
+  Plus,
+  Trash,
+  X
+} from "lucide-react";
+import type { Form } from "@shared/schema";
+import type { FlowWithSteps } from "@/lib/flows";
+
+interface FlowDraft {
+  id?: string;
+  name: string;
+  description: string;
+  formIds: string[];
+}
+
+const emptyDraft: FlowDraft = { name: "", description: "", formIds: [] };
+
+export default function FlowsPage() {
+  const { toast } = useToast();
+  const { limits } = useSubscription();
+  const [draft, setDraft] = useState<FlowDraft | null>(null);
+  const [planLimitMessage, setPlanLimitMessage] = useState<string | null>(null);
+
+  const { data: flows, isLoading } = useQuery<FlowWithSteps[]>({
+    queryKey: ["/api/flows"],
+  });
+
+  const { data: forms } = useQuery<Form[]>({
+    queryKey: ["/api/forms"],
+  });
+
+  const saveFlowMutation = useMutation({
+    mutationFn: async ({ id, ...flow }: FlowDraft) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/flows/${id}`, flow)
+        : await apiRequest("POST", "/api/flows", flow);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Onboarding flow saved",
+      });
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/flows"] });
+    },
+    onError: (error: Error) => {
+      if (error instanceof PlanLimitError) {
+        setDraft(null);
+        setPlanLimitMessage(error.message);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFlowMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/flows/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Flow deleted",
+        description: "Clients already in this flow can no longer continue it",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/flows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/flows/clients"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewFlow = () => {
+    if (!limits.hasMultiFormFlows) {
+      setPlanLimitMessage("Onboarding flows are a Pro feature. Upgrade to Pro to chain forms together.");
+      return;
+    }
+    setDraft(emptyDraft);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!draft) return;
+    const formIds = [...draft.formIds];
+    [formIds[index], formIds[index + offset]] = [formIds[index + offset], formIds[index]];
+    setDraft({ ...draft, formIds });
+  };
+
+  const formTitle = (formId: string) => forms?.find(form => form.id === formId)?.title ?? "Deleted form";
+  const publishedForms = forms?.filter(form => form.isPublished) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm" data-testid="button-back">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Onboarding Flows</h1>
+          </div>
+          <Button onClick={openNewFlow} data-testid="button-new-flow">
+            <Plus className="h-4 w-4 mr-2" />
+            New Flow
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-gray-500">Loading flows...</div>
+        ) : !flows || flows.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <GitBranch className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No onboarding flows yet</h3>
+              <p className="text-gray-600">
+                Chain forms like intake, brand questionnaire and asset checklist so each client moves through them in order.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6">
+            {flows.map((flow) => (
+              <Card key={flow.id} data-testid={`card-flow-${flow.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>{flow.name}</CardTitle>
+                    {flow.description && <p className="text-sm text-gray-600 mt-1">{flow.description}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!flow.startUrl}
+                      onClick={() => {
+                        navigator.clipboard.writeText(`${window.location.origin}${flow.startUrl}`);
+                        toast({
+                          title: "✅ Flow link copied!",
+                          description: "Clients start at the first form and continue from there",
+                        });
+                      }}
+                      data-testid={`button-copy-flow-${flow.id}`}
+                    >
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy Link
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft({
+                        id: flow.id,
+                        name: flow.name,
+                        description: flow.description || "",
+                        formIds: flow.steps.map(step => step.formId),
+                      })}
+                      data-testid={`button-edit-flow-${flow.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteFlowMutation.mutate(flow.id)}
+                      disabled={deleteFlowMutation.isPending}
+                      data-testid={`button-delete-flow-${flow.id}`}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {flow.steps.map((step, index) => (
+                      <div key={step.formId} className="flex items-center gap-2">
+                        {index > 0 && <ArrowRight className="h-4 w-4 text-gray-400" />}
+                        <Badge variant="outline">{index + 1}. {step.title}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create / edit flow */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Flow" : "New Onboarding Flow"}</DialogTitle>
+            <DialogDescription>
+              Clients fill these forms in order. Their name and email carry over from one step to the next.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="flow-name">Name</Label>
+                <Input
+                  id="flow-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="New client onboarding"
+                  data-testid="input-flow-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="flow-description">Description (optional)</Label>
+                <Textarea
+                  id="flow-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  rows={2}
+                  data-testid="textarea-flow-description"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Steps</Label>
+                {draft.formIds.map((formId, index) => (
+                  <div key={`${formId}-${index}`} className="flex items-center gap-2 p-2 border rounded-lg" data-testid={`flow-step-${index}`}>
+                    <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                    <span className="flex-1 text-sm font-medium">{formTitle(formId)}</span>
+                    <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={index === draft.formIds.length - 1} onClick={() => moveStep(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, formIds: draft.formIds.filter((_, i) => i !== index) })}
+                      data-testid={`button-remove-step-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Select value="" onValueChange={(formId) => setDraft({ ...draft, formIds: [...draft.formIds, formId] })}>
+                  <SelectTrigger data-testid="select-add-step">
+                    <SelectValue placeholder="Add a published form..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {publishedForms.map(form => (
+                      <SelectItem key={form.id} value={form.id} disabled={draft.formIds.includes(form.id)}>
+                        {form.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-cancel-flow">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => draft && saveFlowMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || (draft?.formIds.length ?? 0) < 2 || saveFlowMutation.isPending}
+              data-testid="button-save-flow"
+            >
+              {saveFlowMutation.isPending ? "Saving..." : "Save Flow"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Plan limit reached */}
+      <UpgradeModal
+        open={!!planLimitMessage}
+        onOpenChange={(open) => !open && setPlanLimitMessage(null)}
+        limitMessage={planLimitMessage ?? undefined}
+      />
+    </div>
+  );
+}
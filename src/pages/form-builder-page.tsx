@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, PlanLimitError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -12,6 +12,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { UpgradeModal } from "@/components/ui/upgrade-modal";
+import { useSubscription } from "@/hooks/use-subscription";
 import { 
   ArrowLeft,
   Edit,
@@ -26,18 +28,15 @@ import {
   Send,
   Trash,
   GripVertical,
-  MoreVertical
+  MoreVertical,
+  GitBranch,
+  SeparatorHorizontal,
+  FileUp,
+  X
 } from "lucide-react";
-import type { Form } from "@shared/schema";
-
-interface FormField {
-  id: string;
-  type: "text" | "email" | "textarea" | "select" | "radio" | "checkbox";
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
-}
+import type { Form, FormField, FieldLogic, FieldCondition } from "@shared/schema";
+import { DEFAULT_MAX_FILE_SIZE_MB, MAX_FILE_SIZE_MB, parseFormFields } from "@/lib/form-validation";
+import { conditionOperatorLabels, isInputField } from "@/lib/form-logic";
 
 const fieldTypes = [
   { type: "text" as const, icon: Edit, label: "Text Input" },
@@ -46,6 +45,8 @@ const fieldTypes = [
   { type: "select" as const, icon: List, label: "Dropdown" },
   { type: "radio" as const, icon: Circle, label: "Radio" },
   { type: "checkbox" as const, icon: CheckSquare, label: "Checkbox" },
+  { type: "file" as const, icon: FileUp, label: "File Upload" },
+  { type: "page_break" as const, icon: SeparatorHorizontal, label: "Page Break" },
 ];
 
 export default function FormBuilderPage() {
@@ -89,6 +90,8 @@ export default function FormBuilderPage() {
   const [showPublishConfirm, setShowPublishConfirm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [editingFormId, setEditingFormId] = useState<string | null>(null);
+  const [planLimitMessage, setPlanLimitMessage] = useState<string | null>(null);
+  const { limits } = useSubscription();
 
   const { data: forms } = useQuery<Form[]>({
     queryKey: ["/api/forms"],
@@ -105,15 +108,20 @@ export default function FormBuilderPage() {
         description: `Form ${data.isPublished ? 'published' : 'saved as draft'} successfully`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/forms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
       setShowSaveConfirm(false);
       setShowPublishConfirm(false);
     },
     onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
+      if (error instanceof PlanLimitError) {
+        setPlanLimitMessage(error.message);
+      } else {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
       setShowSaveConfirm(false);
       setShowPublishConfirm(false);
     },
@@ -167,6 +175,11 @@ export default function FormBuilderPage() {
       ]);
     },
     onError: (error: Error) => {
+      if (error instanceof PlanLimitError) {
+        setPlanLimitMessage(error.message);
+        setShowPublishConfirm(false);
+        return;
+      }
       toast({
         title: "Error",
         description: error.message,
@@ -186,6 +199,7 @@ export default function FormBuilderPage() {
         description: "Form deleted successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/forms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
       setShowDeleteConfirm(null);
     },
     onError: (error: Error) => {
@@ -199,7 +213,25 @@ export default function FormBuilderPage() {
   });
 
   const addField = (type: FormField["type"]) => {
-    const newField: FormField = {
+    if (type === "page_break") {
+      if (!limits.hasMultiFormFlows) {
+        setPlanLimitMessage("Multi-page forms are a Pro feature. Upgrade to Pro to split your form into steps.");
+        return;
+      }
+      const pageBreak: FormField = { id: Date.now().toString(), type, label: "New Page", required: false };
+      setFields([...fields, pageBreak]);
+      setEditingField(pageBreak.id);
+      return;
+    }
+
+    const newField: FormField = type === "file" ? {
+      id: Date.now().toString(),
+      type,
+      label: "Upload a file",
+      required: false,
+      maxFileSizeMb: DEFAULT_MAX_FILE_SIZE_MB,
+      maxFiles: 1,
+    } : {
       id: Date.now().toString(),
       type,
       label: `New ${type} field`,
@@ -215,11 +247,174 @@ export default function FormBuilderPage() {
     setFields(fields.map(field => field.id === id ? { ...field, ...updates } : field));
   };
 
+  // Drop conditions and skip targets that point at a removed field
+  const withoutReferencesTo = (field: FormField, removedId: string): FormField => {
+    if (!field.logic) return field;
+    const conditions = field.logic.conditions.filter(condition => condition.fieldId !== removedId);
+    if (conditions.length === 0 || field.logic.targetFieldId === removedId) {
+      return { ...field, logic: undefined };
+    }
+    return { ...field, logic: { ...field.logic, conditions } };
+  };
+
   const removeField = (id: string) => {
-    setFields(fields.filter(field => field.id !== id));
+    setFields(fields.filter(field => field.id !== id).map(field => withoutReferencesTo(field, id)));
     setEditingField(null);
   };
 
+  const updateLogic = (field: FormField, updates: Partial<FieldLogic>) => {
+    if (!field.logic) return;
+    updateField(field.id, { logic: { ...field.logic, ...updates } });
+  };
+
+  const updateCondition = (field: FormField, index: number, updates: Partial<FieldCondition>) => {
+    if (!field.logic) return;
+    updateLogic(field, {
+      conditions: field.logic.conditions.map((condition, i) => i === index ? { ...condition, ...updates } : condition),
+    });
+  };
+
+  const renderLogicEditor = (field: FormField) => {
+    const position = fields.findIndex(f => f.id === field.id);
+    const earlierFields = fields.slice(0, position).filter(isInputField);
+    const laterFields = fields.slice(position + 1);
+    // Skip rules may also look at this field's own answer
+    const sourceFields = field.logic?.action === "skip" ? fields.slice(0, position + 1).filter(isInputField) : earlierFields;
+    const newCondition = (): FieldCondition => ({ fieldId: sourceFields[0]?.id ?? field.id, operator: "equals", value: "" });
+
+    const setAction = (action: string) => {
+      if (action === "always") {
+        updateField(field.id, { logic: undefined });
+        return;
+      }
+      const nextAction = action as FieldLogic["action"];
+      const sources = nextAction === "skip" ? fields.slice(0, position + 1).filter(isInputField) : earlierFields;
+      const conditions = (field.logic?.conditions ?? []).filter(condition => sources.some(f => f.id === condition.fieldId));
+      updateField(field.id, {
+        logic: {
+          action: nextAction,
+          match: field.logic?.match ?? "all",
+          conditions: conditions.length > 0 ? conditions : [{ fieldId: sources[0]?.id ?? field.id, operator: "equals", value: "" }],
+          targetFieldId: nextAction === "skip" ? field.logic?.targetFieldId ?? laterFields[0]?.id : undefined,
+        },
+      });
+    };
+
+    return (
+      <div className="space-y-3 border-t border-blue-200 pt-4">
+        <Label className="flex items-center">
+          <GitBranch className="h-4 w-4 mr-2" />
+          Conditional Logic
+        </Label>
+        <Select value={field.logic?.action ?? "always"} onValueChange={setAction}>
+          <SelectTrigger data-testid={`select-field-logic-${field.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="always">Always show this field</SelectItem>
+            <SelectItem value="show" disabled={earlierFields.length === 0}>Show this field when...</SelectItem>
+            <SelectItem value="hide" disabled={earlierFields.length === 0}>Hide this field when...</SelectItem>
+            <SelectItem value="skip" disabled={laterFields.length === 0}>Skip ahead after this field when...</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {field.logic && (
+          <div className="space-y-3">
+            {field.logic.conditions.length > 1 && (
+              <Select value={field.logic.match} onValueChange={(match) => updateLogic(field, { match: match as FieldLogic["match"] })}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All conditions match</SelectItem>
+                  <SelectItem value="any">Any condition matches</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {field.logic.conditions.map((condition, index) => (
+              <div key={index} className="flex items-center space-x-2" data-testid={`logic-condition-${field.id}-${index}`}>
+                <Select value={condition.fieldId} onValueChange={(fieldId) => updateCondition(field, index, { fieldId })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceFields.map(source => (
+                      <SelectItem key={source.id} value={source.id}>
+                        {source.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(operator) => updateCondition(field, index, { operator: operator as FieldCondition["operator"] })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(conditionOperatorLabels).map(([operator, label]) => (
+                      <SelectItem key={operator} value={operator}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="flex-1"
+                  placeholder="Value"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(field, index, { value: e.target.value })}
+                  data-testid={`input-logic-value-${field.id}-${index}`}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={field.logic!.conditions.length === 1}
+                  onClick={() => updateLogic(field, { conditions: field.logic!.conditions.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateLogic(field, { conditions: [...field.logic!.conditions, newCondition()] })}
+              data-testid={`button-add-condition-${field.id}`}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Condition
+            </Button>
+
+            {field.logic.action === "skip" && (
+              <div>
+                <Label>Skip to</Label>
+                <Select
+                  value={field.logic.targetFieldId}
+                  onValueChange={(targetFieldId) => updateLogic(field, { targetFieldId })}
+                >
+                  <SelectTrigger data-testid={`select-skip-target-${field.id}`}>
+                    <SelectValue placeholder="Choose a field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {laterFields.map(target => (
+                      <SelectItem key={target.id} value={target.id}>
+                        {target.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const saveForm = (isPublished: boolean = false) => {
     const formData = {
       title: formTitle,
@@ -241,7 +436,7 @@ export default function FormBuilderPage() {
     setFormTitle(form.title);
     setFormDescription(form.description || "");
     setCalendlyLink(form.calendlyLink || "");
-    setFields(form.fields as FormField[]);
+    setFields(parseFormFields(form.fields));
     setEditingField(null);
     toast({
       title: "Form Loaded",
@@ -287,9 +482,75 @@ export default function FormBuilderPage() {
     setEditingField(null);
   };
 
+  // Page breaks start a new step; their label and placeholder are the step's title and description
+  const renderPageBreak = (field: FormField, isEditing: boolean) => {
+    if (isEditing) {
+      return (
+        <div className="space-y-4 p-4 border-2 border-primary rounded-lg bg-blue-50">
+          <div className="flex justify-between items-center">
+            <h4 className="font-medium text-slate-900">Edit Page Break</h4>
+            <div className="flex space-x-2">
+              <Button size="sm" onClick={() => setEditingField(null)} data-testid={`button-save-field-${field.id}`}>
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => removeField(field.id)} data-testid={`button-remove-field-${field.id}`}>
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div>
+            <Label>Page Title</Label>
+            <Input
+              value={field.label}
+              onChange={(e) => updateField(field.id, { label: e.target.value })}
+              data-testid={`input-field-label-${field.id}`}
+            />
+          </div>
+          <div>
+            <Label>Page Description (optional)</Label>
+            <Textarea
+              value={field.placeholder || ""}
+              onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
+              rows={2}
+              data-testid={`input-field-placeholder-${field.id}`}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="group relative py-2" data-testid={`field-preview-${field.id}`}>
+        <div className="flex items-center space-x-3 text-slate-500">
+          <div className="flex-1 border-t-2 border-dashed border-slate-300" />
+          <span className="flex items-center text-sm font-medium">
+            <SeparatorHorizontal className="h-4 w-4 mr-2" />
+            {field.label || "New Page"}
+          </span>
+          <div className="flex-1 border-t-2 border-dashed border-slate-300" />
+        </div>
+        {field.placeholder && <p className="text-center text-xs text-slate-500 mt-1">{field.placeholder}</p>}
+        <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button 
+            size="sm" 
+            variant="outline" 
+            onClick={() => setEditingField(field.id)}
+            data-testid={`button-edit-field-${field.id}`}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   const renderFieldPreview = (field: FormField) => {
     const isEditing = editingField === field.id;
 
+    if (field.type === "page_break") {
+      return renderPageBreak(field, isEditing);
+    }
+
     if (isEditing) {
       return (
         <div className="space-y-4 p-4 border-2 border-primary rounded-lg bg-blue-50">
@@ -314,7 +575,7 @@ export default function FormBuilderPage() {
           </div>
           {field.type !== "select" && field.type !== "radio" && (
             <div>
-              <Label>Placeholder</Label>
+              <Label>{field.type === "file" ? "Help text" : "Placeholder"}</Label>
               <Input
                 value={field.placeholder || ""}
                 onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
@@ -332,6 +593,44 @@ export default function FormBuilderPage() {
               />
             </div>
           )}
+          {field.type === "file" && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Max size per file (MB)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_FILE_SIZE_MB}
+                    value={field.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB}
+                    onChange={(e) => updateField(field.id, { maxFileSizeMb: Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_FILE_SIZE_MB) })}
+                    data-testid={`input-field-max-size-${field.id}`}
+                  />
+                </div>
+                <div>
+                  <Label>Max files</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={field.maxFiles ?? 1}
+                    onChange={(e) => updateField(field.id, { maxFiles: Math.max(Math.floor(Number(e.target.value)) || 1, 1) })}
+                    data-testid={`input-field-max-files-${field.id}`}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Accepted file types (comma separated, blank for any)</Label>
+                <Input
+                  value={field.acceptedFileTypes?.join(", ") || ""}
+                  onChange={(e) => updateField(field.id, {
+                    acceptedFileTypes: e.target.value.split(",").map(t => t.trim()).filter(Boolean),
+                  })}
+                  placeholder=".pdf, image/*"
+                  data-testid={`input-field-file-types-${field.id}`}
+                />
+              </div>
+            </div>
+          )}
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -342,6 +641,7 @@ export default function FormBuilderPage() {
             />
             <Label htmlFor={`required-${field.id}`}>Required field</Label>
           </div>
+          {renderLogicEditor(field)}
         </div>
       );
     }
@@ -350,6 +650,12 @@ export default function FormBuilderPage() {
       <div className="form-field-wrapper group relative" data-testid={`field-preview-${field.id}`}>
         <Label className="block text-sm font-medium text-slate-700 mb-2">
           {field.label} {field.required && "*"}
+          {field.logic && (
+            <span className="ml-2 inline-flex items-center text-xs font-normal text-blue-600">
+              <GitBranch className="h-3 w-3 mr-1" />
+              Conditional
+            </span>
+          )}
         </Label>
         {field.type === "text" && (
           <Input 
@@ -404,6 +710,13 @@ export default function FormBuilderPage() {
             <label>{field.label}</label>
           </div>
         )}
+        {field.type === "file" && (
+          <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center text-sm text-slate-500">
+            <FileUp className="h-6 w-6 mx-auto mb-2 text-slate-400" />
+            Drop files here · up to {field.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB} MB
+            {field.acceptedFileTypes?.length ? ` · ${field.acceptedFileTypes.join(", ")}` : ""}
+          </div>
+        )}
         <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity">
           <Button 
             size="sm" 
@@ -656,7 +969,12 @@ export default function FormBuilderPage() {
               </div>
               
               <form className="space-y-6" data-testid="preview-form">
-                {fields.map((field) => (
+                {fields.map((field) => field.type === "page_break" ? (
+                  <div key={field.id} className="pt-6 border-t border-slate-200">
+                    <h2 className="text-xl font-semibold text-slate-900">{field.label}</h2>
+                    {field.placeholder && <p className="text-slate-600 mt-1">{field.placeholder}</p>}
+                  </div>
+                ) : (
                   <div key={field.id} className="space-y-2">
                     <Label className="text-sm font-medium text-slate-700">
                       {field.label} {field.required && <span className="text-red-500">*</span>}
@@ -700,6 +1018,12 @@ export default function FormBuilderPage() {
                         <Label htmlFor={field.id}>{field.label}</Label>
                       </div>
                     )}
+                    {field.type === "file" && (
+                      <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center text-sm text-slate-500">
+                        <FileUp className="h-6 w-6 mx-auto mb-2 text-slate-400" />
+                        Drop files here or browse
+                      </div>
+                    )}
                   </div>
                 ))}
                 
@@ -760,6 +1084,13 @@ export default function FormBuilderPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Plan limit reached */}
+      <UpgradeModal
+        open={!!planLimitMessage}
+        onOpenChange={(open) => !open && setPlanLimitMessage(null)}
+        limitMessage={planLimitMessage ?? undefined}
+      />
+
       {/* Delete Confirmation Modal */}
       <Dialog open={!!showDeleteConfirm} onOpenChange={() => setShowDeleteConfirm(null)}>
         <DialogContent>
@@ -1,9 +1,10 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useRoute } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useRoute, useSearch } from "wouter";
 import { Link } from "wouter";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,34 +14,67 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { FileUploadField } from "@/components/ui/file-upload-field";
 import { 
   ArrowLeft,
+  ArrowRight,
+  Save,
   FileText,
   Send,
   CheckCircle,
   Calendar,
   Building,
   User,
-  Clock
+  Clock,
+  Inbox
 } from "lucide-react";
-import type { Form } from "@shared/schema";
+import type { Form, FormField } from "@shared/schema";
+import { getIdentityFields, parseFormFields, validateStep, validateSubmission, type SubmissionErrors } from "@/lib/form-validation";
+import { getVisibleFields, splitIntoPages } from "@/lib/form-logic";
+import type { PublicFlowProgress } from "@/lib/flows";
+import { brandTheme, type Branding } from "@/lib/branding";
 
-interface FormField {
-  id: string;
-  type: "text" | "email" | "textarea" | "select" | "radio" | "checkbox";
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
+// Answers to multi-page forms are kept in localStorage until submitted
+// The public form endpoint adds the owner's branding
+interface PublicForm extends Form {
+  branding?: Branding;
+}
+
+interface FormDraft {
+  answers: Record<string, any>;
+  step: number;
+  savedSteps: number[];
 }
 
 export default function FormPreviewPage() {
   const [match, params] = useRoute("/form/:shareableLink");
   const { toast } = useToast();
   const [formData, setFormData] = useState<Record<string, any>>({});
+  const [fieldErrors, setFieldErrors] = useState<SubmissionErrors>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [step, setStep] = useState(0);
+  const [savedSteps, setSavedSteps] = useState<number[]>([]);
+  const [nextStepUrl, setNextStepUrl] = useState<string | null>(null);
+  const [schedulingLink, setSchedulingLink] = useState<string | null>(null);
+  const draftKey = `clientzap:form-draft:${params?.shareableLink}`;
 
-  const { data: form, isLoading } = useQuery<Form>({
+  // Opened from an onboarding flow: ?flow= starts it, ?run= continues a client's progress
+  const searchParams = new URLSearchParams(useSearch());
+  const flowLink = searchParams.get("flow");
+  const runToken = searchParams.get("run");
+  const flowQuery = runToken ? `?run=${encodeURIComponent(runToken)}` : flowLink ? `?flow=${encodeURIComponent(flowLink)}` : "";
+  // Opened from the Zap Inbox: the signed-in recipient's answers go back to the sender
+  const zapId = searchParams.get("zap");
+  const submitQuery = zapId ? `?zap=${encodeURIComponent(zapId)}` : flowQuery;
+  const { user } = useAuth();
+
+  const { data: flowProgress } = useQuery<PublicFlowProgress>({
+    queryKey: runToken ? ["/api/public/flow-runs", runToken] : ["/api/public/flows", flowLink],
+    enabled: !!(runToken || flowLink),
+  });
+
+  const { data: form, isLoading } = useQuery<PublicForm>({
     queryKey: ["/api/public/forms", params?.shareableLink],
     queryFn: async () => {
       const response = await fetch(`/api/public/forms/${params?.shareableLink}`);
@@ -54,7 +88,7 @@ export default function FormPreviewPage() {
 
   const submitFormMutation = useMutation({
     mutationFn: async (submissionData: Record<string, any>) => {
-      const response = await fetch(`/api/public/forms/${params?.shareableLink}/submit`, {
+      const response = await fetch(`/api/public/forms/${params?.shareableLink}/submit${submitQuery}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -62,11 +96,19 @@ export default function FormPreviewPage() {
         body: JSON.stringify(submissionData),
       });
       if (!response.ok) {
-        throw new Error("Failed to submit form");
+        const body = await response.json().catch(() => ({}));
+        throw Object.assign(new Error(body.message || "Failed to submit form"), { errors: body.errors });
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { nextStepUrl?: string; calendlyLink?: string | null; zapResponded?: boolean }) => {
+      localStorage.removeItem(draftKey);
+      if (result.zapResponded) {
+        queryClient.invalidateQueries({ queryKey: ["/api/zap-inbox"] });
+      }
+      setNextStepUrl(result.nextStepUrl ?? null);
+      // Prefilled with the client's name and email
+      setSchedulingLink(result.calendlyLink ?? null);
       setIsSubmitted(true);
       toast({
         title: "Form submitted successfully!",
@@ -74,6 +116,9 @@ export default function FormPreviewPage() {
       });
     },
     onError: (error: any) => {
+      if (error.errors) {
+        showErrors(error.errors);
+      }
       toast({
         title: "Submission failed",
         description: error.message || "An error occurred",
@@ -82,32 +127,124 @@ export default function FormPreviewPage() {
     },
   });
 
+  useEffect(() => {
+    if (!params?.shareableLink) return;
+    try {
+      const draft: FormDraft | null = JSON.parse(localStorage.getItem(draftKey) || "null");
+      if (draft) {
+        setFormData(draft.answers);
+        setStep(draft.step);
+        setSavedSteps(draft.savedSteps);
+      }
+    } catch {
+      localStorage.removeItem(draftKey);
+    }
+  }, [draftKey]);
+
+  // Let the sender know the zap has been opened
+  useEffect(() => {
+    if (!zapId || !user) return;
+    apiRequest("POST", `/api/zap-inbox/${zapId}/view`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/zap-inbox"] }))
+      .catch(() => {});
+  }, [zapId, user?.id]);
+
+  // Answering a zap fills in the recipient's own name and email
+  useEffect(() => {
+    if (!form || !zapId || !user) return;
+    const { nameField, emailField } = getIdentityFields(parseFormFields(form.fields));
+    setFormData(prev => ({
+      ...prev,
+      ...(nameField && !prev[nameField.id] ? { [nameField.id]: user.displayName || user.username } : {}),
+      ...(emailField && !prev[emailField.id] ? { [emailField.id]: user.email } : {}),
+    }));
+  }, [form, zapId, user?.id]);
+
+  // Carry the client's name and email forward from earlier steps of their flow
+  useEffect(() => {
+    if (!form || !flowProgress?.clientEmail) return;
+    const { nameField, emailField } = getIdentityFields(parseFormFields(form.fields));
+    setFormData(prev => ({
+      ...prev,
+      ...(nameField && !prev[nameField.id] ? { [nameField.id]: flowProgress.clientName } : {}),
+      ...(emailField && !prev[emailField.id] ? { [emailField.id]: flowProgress.clientEmail } : {}),
+    }));
+  }, [form, flowProgress]);
+
+  const allFields = form ? parseFormFields(form.fields) : [];
+  // Re-evaluated on every answer so conditional fields and pages appear and disappear live
+  const pages = splitIntoPages(getVisibleFields(allFields, formData));
+  const currentStep = Math.max(0, Math.min(step, pages.length - 1));
+  const isLastStep = currentStep >= pages.length - 1;
+
+  // Send the respondent back to the first page with an error on it
+  const showErrors = (errors: SubmissionErrors) => {
+    setFieldErrors(errors);
+    const errorPage = pages.findIndex(page => page.fields.some(field => errors[field.id]));
+    if (errorPage >= 0) {
+      setStep(errorPage);
+    }
+  };
+
+  const handleNext = () => {
+    const errors = validateStep(allFields, pages[currentStep]?.fields ?? [], formData);
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      toast({
+        title: "Please check your answers",
+        description: `${Object.keys(errors).length} field(s) on this page need attention`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const nextSavedSteps = Array.from(new Set([...savedSteps, currentStep]));
+    const draft: FormDraft = { answers: formData, step: currentStep + 1, savedSteps: nextSavedSteps };
+    localStorage.setItem(draftKey, JSON.stringify(draft));
+    setSavedSteps(nextSavedSteps);
+    setFieldErrors({});
+    setStep(currentStep + 1);
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleBack = () => {
+    setStep(currentStep - 1);
+    window.scrollTo({ top: 0 });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!form) return;
+
+    if (!isLastStep) {
+      handleNext();
+      return;
+    }
     
-    const fields = JSON.parse(form.fields as string) as FormField[];
-    
-    // Validate required fields
-    const missingFields = fields
-      .filter(field => field.required && !formData[field.id])
-      .map(field => field.label);
-    
-    if (missingFields.length > 0) {
+    // Validate with the same rules the server applies
+    const validation = validateSubmission(allFields, formData);
+    if (!validation.success) {
+      showErrors(validation.errors);
       toast({
-        title: "Missing required fields",
-        description: `Please fill out: ${missingFields.join(", ")}`,
+        title: "Please check your answers",
+        description: `${Object.keys(validation.errors).length} field(s) need attention`,
         variant: "destructive",
       });
       return;
     }
     
-    submitFormMutation.mutate(formData);
+    setFieldErrors({});
+    submitFormMutation.mutate(validation.data);
   };
 
   const handleFieldChange = (fieldId: string, value: any) => {
     setFormData(prev => ({ ...prev, [fieldId]: value }));
+    setFieldErrors(prev => {
+      if (!prev[fieldId]) return prev;
+      const { [fieldId]: _removed, ...rest } = prev;
+      return rest;
+    });
   };
 
   const renderField = (field: FormField) => {
@@ -191,6 +328,16 @@ export default function FormPreviewPage() {
             <Label htmlFor={field.id}>{field.label}</Label>
           </div>
         );
+
+      case "file":
+        return (
+          <FileUploadField
+            shareableLink={params!.shareableLink}
+            field={field}
+            value={formData[field.id]}
+            onChange={(files) => handleFieldChange(field.id, files)}
+          />
+        );
       
       default:
         return null;
@@ -229,15 +376,43 @@ export default function FormPreviewPage() {
 
   if (isSubmitted) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-green-50 to-white flex items-center justify-center">
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-white flex items-center justify-center" style={brandTheme(form.branding)}>
         <Card className="max-w-md mx-auto">
           <CardContent className="text-center py-12">
             <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
             <h3 className="text-lg font-semibold text-slate-900 mb-2">Form submitted successfully!</h3>
+            {nextStepUrl ? (
+              <div className="space-y-4">
+                <p className="text-slate-600">
+                  Thanks! There's one more step in your onboarding.
+                </p>
+                <Button
+                  onClick={() => window.location.assign(nextStepUrl)}
+                  className="w-full"
+                  data-testid="button-next-flow-step"
+                >
+                  Continue
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              </div>
+            ) : zapId ? (
+              <div className="space-y-4 mb-6">
+                <p className="text-slate-600">
+                  Your answers have been sent back to {form.branding?.businessName || "the sender"}.
+                </p>
+                <Link href="/zap-inbox">
+                  <Button className="w-full" data-testid="button-back-to-zap-inbox">
+                    <Inbox className="h-4 w-4 mr-2" />
+                    Back to Zap Inbox
+                  </Button>
+                </Link>
+              </div>
+            ) : (
             <p className="text-slate-600 mb-6">
               Thank you for filling out the form. We'll be in touch soon.
             </p>
-            {form.calendlyLink && (
+            )}
+            {schedulingLink && !nextStepUrl && (
               <div className="space-y-4">
                 <Separator />
                 <div className="bg-blue-50 p-4 rounded-lg">
@@ -245,7 +420,7 @@ export default function FormPreviewPage() {
                     Want to schedule a call?
                   </p>
                   <Button 
-                    onClick={() => window.open(form.calendlyLink!, "_blank")}
+                    onClick={() => window.open(schedulingLink, "_blank")}
                     className="w-full"
                   >
                     <Calendar className="h-4 w-4 mr-2" />
@@ -260,22 +435,53 @@ export default function FormPreviewPage() {
     );
   }
 
-  const fields = JSON.parse(form.fields as string) as FormField[];
+  const page = pages[currentStep];
+  const fields = page?.fields ?? [];
+  const isMultiPage = pages.length > 1;
+  const branding = form.branding;
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white" style={brandTheme(branding)}>
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
+          {/* Onboarding flow progress */}
+          {flowProgress && flowProgress.totalSteps > 1 && (
+            <div className="mb-4 p-4 bg-white rounded-lg shadow-sm" data-testid="flow-progress">
+              <div className="flex items-center justify-between text-sm text-slate-600 mb-2">
+                <span className="font-medium text-slate-900">{flowProgress.flowName}</span>
+                <span>Form {Math.min(flowProgress.currentStep + 1, flowProgress.totalSteps)} of {flowProgress.totalSteps}</span>
+              </div>
+              <Progress value={(flowProgress.currentStep / flowProgress.totalSteps) * 100} />
+            </div>
+          )}
+
           {/* Header */}
           <Card className="shadow-lg border-0 mb-8">
-            <CardHeader className="text-center bg-gradient-to-r from-primary to-blue-600 text-white rounded-t-lg">
+            <CardHeader
+              className={`text-center rounded-t-lg ${
+                branding?.custom ? "bg-primary text-primary-foreground" : "bg-gradient-to-r from-primary to-blue-600 text-white"
+              }`}
+            >
               <div className="flex items-center justify-center mb-4">
-                <Building className="h-8 w-8 mr-3" />
-                <span className="text-lg font-semibold">ClientZap</span>
+                {branding?.logo ? (
+                  <div className="bg-white rounded-md px-3 py-2">
+                    <img
+                      src={branding.logo}
+                      alt={branding.businessName || "Business logo"}
+                      className="h-10 max-w-[200px] object-contain"
+                      data-testid="img-business-logo"
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <Building className="h-8 w-8 mr-3" />
+                    <span className="text-lg font-semibold">{branding?.businessName || "ClientZap"}</span>
+                  </>
+                )}
               </div>
               <CardTitle className="text-3xl font-bold">{form.title}</CardTitle>
               {form.description && (
-                <CardDescription className="text-blue-100 text-lg">
+                <CardDescription className={`text-lg ${branding?.custom ? "text-current opacity-80" : "text-blue-100"}`}>
                   {form.description}
                 </CardDescription>
               )}
@@ -286,6 +492,49 @@ export default function FormPreviewPage() {
           <Card className="shadow-lg border-0">
             <CardContent className="p-8">
               <form onSubmit={handleSubmit} className="space-y-8" data-testid="public-form">
+                {isMultiPage && (
+                  <div className="space-y-4" data-testid="form-stepper">
+                    <div className="flex items-center justify-between text-sm text-slate-600">
+                      <span data-testid="text-step-count">Step {currentStep + 1} of {pages.length}</span>
+                      {savedSteps.includes(currentStep - 1) && (
+                        <span className="flex items-center text-green-600" data-testid="text-draft-saved">
+                          <Save className="h-4 w-4 mr-1" />
+                          Draft saved
+                        </span>
+                      )}
+                    </div>
+                    <Progress value={((currentStep + 1) / pages.length) * 100} />
+                    <div className="flex flex-wrap gap-2">
+                      {pages.map((p, index) => (
+                        <button
+                          key={index}
+                          type="button"
+                          // Only pages already completed can be revisited directly
+                          disabled={index > currentStep && !savedSteps.includes(index - 1)}
+                          onClick={() => setStep(index)}
+                          className={`flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+                            index === currentStep
+                              ? "bg-primary text-white"
+                              : savedSteps.includes(index)
+                              ? "bg-green-100 text-green-800"
+                              : "bg-slate-100 text-slate-500"
+                          }`}
+                          data-testid={`button-step-${index}`}
+                        >
+                          {savedSteps.includes(index) && index !== currentStep && <CheckCircle className="h-3 w-3 mr-1" />}
+                          {p.title || `Step ${index + 1}`}
+                        </button>
+                      ))}
+                    </div>
+                    {(page?.title || page?.description) && (
+                      <div>
+                        {page.title && <h2 className="text-xl font-semibold text-slate-900">{page.title}</h2>}
+                        {page.description && <p className="text-slate-600 mt-1">{page.description}</p>}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {fields.map((field) => (
                   <div key={field.id} className="space-y-2">
                     <Label className="text-base font-medium text-slate-700">
@@ -293,6 +542,11 @@ export default function FormPreviewPage() {
                       {field.required && <span className="text-red-500 ml-1">*</span>}
                     </Label>
                     {renderField(field)}
+                    {fieldErrors[field.id] && (
+                      <p className="text-sm text-red-600" data-testid={`error-${field.id}`}>
+                        {fieldErrors[field.id]}
+                      </p>
+                    )}
                   </div>
                 ))}
 
@@ -300,9 +554,26 @@ export default function FormPreviewPage() {
 
                 <div className="flex items-center justify-between pt-4">
                   <div className="flex items-center text-sm text-slate-500">
-                    <Clock className="h-4 w-4 mr-2" />
-                    Powered by ClientZap
+                    {branding?.showAttribution !== false && (
+                      <>
+                        <Clock className="h-4 w-4 mr-2" />
+                        Powered by ClientZap
+                      </>
+                    )}
                   </div>
+                  <div className="flex items-center space-x-3">
+                  {isMultiPage && currentStep > 0 && (
+                    <Button type="button" variant="outline" onClick={handleBack} data-testid="button-previous-step">
+                      <ArrowLeft className="h-4 w-4 mr-2" />
+                      Back
+                    </Button>
+                  )}
+                  {!isLastStep ? (
+                    <Button type="submit" className="px-8 py-3 text-lg" data-testid="button-next-step">
+                      Next
+                      <ArrowRight className="h-5 w-5 ml-2" />
+                    </Button>
+                  ) : (
                   <Button 
                     type="submit" 
                     disabled={submitFormMutation.isPending}
@@ -321,6 +592,8 @@ export default function FormPreviewPage() {
                       </>
                     )}
                   </Button>
+                  )}
+                  </div>
                 </div>
               </form>
             </CardContent>
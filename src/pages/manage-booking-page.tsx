@@ -0,0 +1,145 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarCheck, CalendarClock, CalendarX, Download, MapPin } from "lucide-react";
+import { brandTheme, type Branding } from "@/lib/branding";
+
+interface PublicBooking {
+  ownerName: string;
+  meetingTitle: string;
+  location: string | null;
+  branding: Branding;
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAt: string;
+  endsAt: string;
+  status: "confirmed" | "canceled";
+  bookingPageUrl: string | null;
+}
+
+export default function ManageBookingPage() {
+  const [, params] = useRoute("/booking/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+
+  const { data: booking, isLoading, error } = useQuery<PublicBooking>({
+    queryKey: ["/api/public/bookings", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/public/bookings/${token}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public/bookings", token] });
+      toast({
+        title: "Booking canceled",
+        description: `We've let ${booking?.ownerName} know.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't cancel the booking",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !booking) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6">
+            <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Booking not found</h1>
+            <p className="text-gray-600">This link is invalid.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const canceled = booking.status === "canceled";
+  const upcoming = new Date(booking.startsAt) > new Date();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6" style={brandTheme(booking.branding)}>
+      <Card className="max-w-lg w-full">
+        <CardHeader className="text-center">
+          {canceled ? (
+            <CalendarX className="h-12 w-12 text-gray-400 mx-auto mb-2" />
+          ) : (
+            <CalendarCheck className="h-12 w-12 text-green-600 mx-auto mb-2" />
+          )}
+          <CardTitle data-testid="text-booking-status">
+            {canceled ? "This call was canceled" : "You're booked"}
+          </CardTitle>
+          <CardDescription>
+            {booking.meetingTitle} with {booking.ownerName}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-lg bg-gray-50 p-4 text-center">
+            <p className="font-medium text-gray-900" data-testid="text-booking-time">
+              {new Date(booking.startsAt).toLocaleString([], { dateStyle: "full", timeStyle: "short" })}
+              {" – "}
+              {new Date(booking.endsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+            </p>
+            {booking.location && (
+              <p className="text-sm text-gray-600 mt-1 flex items-center justify-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {booking.location}
+              </p>
+            )}
+          </div>
+
+          {!canceled && (
+            <div className="flex flex-col gap-2">
+              <Button asChild variant="outline" data-testid="button-download-invite">
+                <a href={`/api/public/bookings/${token}/invite.ics`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Add to Calendar
+                </a>
+              </Button>
+              {upcoming && (
+                <Button
+                  variant="ghost"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-booking"
+                >
+                  {cancelMutation.isPending ? "Canceling..." : "Cancel this call"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {canceled && booking.bookingPageUrl && (
+            <Button asChild className="w-full" data-testid="button-book-again">
+              <a href={booking.bookingPageUrl}>Pick a new time</a>
+            </Button>
+          )}
+
+          {booking.branding.showAttribution && (
+            <p className="text-center text-sm text-gray-500">Powered by ClientZap</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
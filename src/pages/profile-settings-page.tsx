@@ -1,11 +1,12 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useSubscription } from "@/hooks/use-subscription";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Link } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -15,6 +16,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { TwoFactorSettings, type TwoFactorStatus } from "@/components/ui/two-factor-settings";
+import { LinkedAccountsSettings } from "@/components/ui/linked-accounts-settings";
+import { SecurityActivity } from "@/components/ui/security-activity";
+import { SessionsSettings } from "@/components/ui/sessions-settings";
+import { ZapContactsSettings } from "@/components/ui/zap-contacts-settings";
+import { ZapLinkSettings } from "@/components/ui/zaplink-settings";
 import { 
   Form, 
   FormControl, 
@@ -47,27 +54,109 @@ import {
   Lock,
   Palette,
   Crown,
-  Copy,
-  ExternalLink
+  ImageIcon,
+  Calendar,
+  Plug
 } from "lucide-react";
 import { updateUserProfileSchema, updatePasswordSchema } from "@shared/schema";
 import type { z } from "zod";
 
 type ProfileFormData = z.infer<typeof updateUserProfileSchema>;
 type PasswordFormData = z.infer<typeof updatePasswordSchema>;
+type ProfileImage = "profile-picture" | "business-logo";
+
+interface CalendlyStatus {
+  connected: boolean;
+  schedulingUrl?: string;
+  connectedAt?: string;
+}
+
+const MAX_IMAGE_MB = 5;
 
 export default function ProfileSettingsPage() {
   const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
+  const { limits } = useSubscription();
   const [showPassword, setShowPassword] = useState(false);
-  const [activeTab, setActiveTab] = useState("profile");
+  const searchParams = new URLSearchParams(useSearch());
+  const [, setLocation] = useLocation();
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "profile");
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  // Back from connecting a Google or GitHub account
+  const linkedProvider = searchParams.get("linked");
+  const oauthError = searchParams.get("oauthError");
+  useEffect(() => {
+    if (!linkedProvider && !oauthError) return;
+    if (oauthError) {
+      toast({
+        title: "Couldn't connect the account",
+        description: oauthError,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Account Connected", description: "You can now sign in with it." });
+    }
+    setLocation("/profile?tab=security", { replace: true });
+  }, [linkedProvider, oauthError]);
+
+  const [calendlyToken, setCalendlyToken] = useState("");
+  const [deleteTwoFactorCode, setDeleteTwoFactorCode] = useState("");
+  // Changing the email or password asks for a code when two-factor is on
+  const [emailTwoFactorCode, setEmailTwoFactorCode] = useState("");
+  const [passwordTwoFactorCode, setPasswordTwoFactorCode] = useState("");
+
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    enabled: !!user,
+  });
 
-  // Fetch zapLink data
-  const { data: zapLinkData } = useQuery<{ zapLink: string; fullUrl: string }>({
-    queryKey: ["/api/user/zaplink"],
+  const { data: calendly } = useQuery<CalendlyStatus>({
+    queryKey: ["/api/integrations/calendly"],
     enabled: !!user,
   });
 
+  const connectCalendlyMutation = useMutation({
+    mutationFn: async (accessToken: string) => {
+      const res = await apiRequest("POST", "/api/integrations/calendly", { accessToken });
+      return await res.json();
+    },
+    onSuccess: (data: CalendlyStatus) => {
+      queryClient.setQueryData(["/api/integrations/calendly"], data);
+      setCalendlyToken("");
+      toast({
+        title: "Calendly connected",
+        description: "Bookings will now update your clients' call status automatically.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't connect Calendly",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disconnectCalendlyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/integrations/calendly");
+      return await res.json();
+    },
+    onSuccess: (data: CalendlyStatus) => {
+      queryClient.setQueryData(["/api/integrations/calendly"], data);
+      toast({ title: "Calendly disconnected" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(updateUserProfileSchema),
     defaultValues: {
@@ -82,6 +171,8 @@ export default function ProfileSettingsPage() {
     },
   });
 
+  const emailChanged = (profileForm.watch("email") || "").trim().toLowerCase() !== (user?.email || "").toLowerCase();
+
   const passwordForm = useForm<PasswordFormData>({
     resolver: zodResolver(updatePasswordSchema),
     defaultValues: {
@@ -93,10 +184,11 @@ export default function ProfileSettingsPage() {
 
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
-      const res = await apiRequest("PUT", "/api/user/profile", data);
+      const res = await apiRequest("PUT", "/api/user/profile", { ...data, twoFactorCode: emailTwoFactorCode });
       return await res.json();
     },
     onSuccess: () => {
+      setEmailTwoFactorCode("");
       toast({
         title: "Profile Updated",
         description: "Your profile has been updated successfully.",
@@ -112,17 +204,107 @@ export default function ProfileSettingsPage() {
     },
   });
 
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email/resend");
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Verification Email Sent",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Send Email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Images are sent as the raw request body and processed on the server
+  const uploadImageMutation = useMutation({
+    mutationFn: async ({ image, file }: { image: ProfileImage; file: File }) => {
+      const res = await fetch(`/api/user/${image}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || res.statusText);
+      }
+      return await res.json();
+    },
+    onSuccess: (_user, { image }) => {
+      toast({
+        title: image === "profile-picture" ? "Photo Updated" : "Logo Updated",
+        description: "Your image has been uploaded successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeImageMutation = useMutation({
+    mutationFn: async (image: ProfileImage) => {
+      const res = await apiRequest("DELETE", `/api/user/${image}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImageSelected = (image: ProfileImage) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_IMAGE_MB * 1024 * 1024) {
+      toast({
+        title: "Upload Failed",
+        description: `Images must be ${MAX_IMAGE_MB}MB or smaller.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadImageMutation.mutate({ image, file });
+  };
+
   const updatePasswordMutation = useMutation({
     mutationFn: async (data: PasswordFormData) => {
-      const res = await apiRequest("PUT", "/api/user/password", data);
+      const res = await apiRequest("PUT", "/api/user/password", { ...data, twoFactorCode: passwordTwoFactorCode });
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { signedOutSessions?: number }) => {
       toast({
         title: "Password Updated",
-        description: "Your password has been changed successfully.",
+        description: data.signedOutSessions
+          ? "Your password has been changed and your other sessions were signed out."
+          : "Your password has been changed successfully.",
       });
       passwordForm.reset();
+      setPasswordTwoFactorCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/security-events"] });
     },
     onError: (error: Error) => {
       toast({
@@ -135,7 +317,7 @@ export default function ProfileSettingsPage() {
 
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("DELETE", "/api/user/account");
+      const res = await apiRequest("DELETE", "/api/user/account", { twoFactorCode: deleteTwoFactorCode });
       return await res.json();
     },
     onSuccess: () => {
@@ -245,6 +427,17 @@ export default function ProfileSettingsPage() {
             >
               Subscription
             </button>
+            <button
+              onClick={() => setActiveTab("integrations")}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === "integrations"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-slate-500 hover:text-slate-700"
+              }`}
+              data-testid="tab-integrations"
+            >
+              Integrations
+            </button>
           </nav>
         </div>
 
@@ -270,12 +463,92 @@ export default function ProfileSettingsPage() {
                         </AvatarFallback>
                       </Avatar>
                       <div>
-                        <Button variant="outline" size="sm" data-testid="button-upload-photo">
-                          <Upload className="h-4 w-4 mr-2" />
-                          Change Photo
-                        </Button>
+                        <input
+                          ref={photoInputRef}
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          onChange={handleImageSelected("profile-picture")}
+                          data-testid="input-upload-photo"
+                        />
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => photoInputRef.current?.click()}
+                            disabled={uploadImageMutation.isPending}
+                            data-testid="button-upload-photo"
+                          >
+                            <Upload className="h-4 w-4 mr-2" />
+                            Change Photo
+                          </Button>
+                          {user.profilePicture && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeImageMutation.mutate("profile-picture")}
+                              disabled={removeImageMutation.isPending}
+                              data-testid="button-remove-photo"
+                            >
+                              Remove
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-sm text-slate-500 mt-1">
+                          JPG, PNG, GIF or WebP. Max size {MAX_IMAGE_MB}MB. Cropped to a square.
+                        </p>
+                      </div>
+                    </div>
+
+                    {/* Business Logo */}
+                    <div className="flex items-center space-x-6">
+                      <div className="h-20 w-40 rounded-md border bg-slate-50 flex items-center justify-center overflow-hidden">
+                        {user.businessLogo ? (
+                          <img src={user.businessLogo} alt="Business logo" className="max-h-full max-w-full object-contain" />
+                        ) : (
+                          <ImageIcon className="h-8 w-8 text-slate-300" />
+                        )}
+                      </div>
+                      <div>
+                        <input
+                          ref={logoInputRef}
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          onChange={handleImageSelected("business-logo")}
+                          data-testid="input-upload-logo"
+                        />
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => logoInputRef.current?.click()}
+                            disabled={uploadImageMutation.isPending}
+                            data-testid="button-upload-logo"
+                          >
+                            <Upload className="h-4 w-4 mr-2" />
+                            {user.businessLogo ? "Change Logo" : "Upload Logo"}
+                          </Button>
+                          {user.businessLogo && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeImageMutation.mutate("business-logo")}
+                              disabled={removeImageMutation.isPending}
+                              data-testid="button-remove-logo"
+                            >
+                              Remove
+                            </Button>
+                          )}
+                        </div>
                         <p className="text-sm text-slate-500 mt-1">
-                          JPG, PNG or GIF. Max size 2MB.
+                          {limits.hasCustomBranding
+                            ? "Shown on your public forms and contracts. Transparent PNGs work best."
+                            : "Shown on your public forms and contracts on the Pro plan."}
                         </p>
                       </div>
                     </div>
@@ -304,11 +577,41 @@ export default function ProfileSettingsPage() {
                             <FormControl>
                               <Input type="email" placeholder="your@email.com" {...field} data-testid="input-email" />
                             </FormControl>
+                            {user.emailVerifiedAt ? (
+                              <FormDescription className="text-green-700" data-testid="text-email-verified">Verified</FormDescription>
+                            ) : (
+                              <FormDescription data-testid="text-email-unverified">
+                                Not verified yet. Check your inbox for the verification link, or{" "}
+                                <button
+                                  type="button"
+                                  className="text-primary hover:underline disabled:opacity-50"
+                                  onClick={() => resendVerificationMutation.mutate()}
+                                  disabled={resendVerificationMutation.isPending}
+                                  data-testid="button-resend-verification"
+                                >
+                                  send a new one
+                                </button>
+                                .
+                              </FormDescription>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
                       />
 
+                      {twoFactor?.enabled && emailChanged && (
+                        <div className="space-y-2">
+                          <Label htmlFor="email-two-factor-code">Code from your authenticator app</Label>
+                          <Input
+                            id="email-two-factor-code"
+                            value={emailTwoFactorCode}
+                            onChange={(e) => setEmailTwoFactorCode(e.target.value)}
+                            autoComplete="one-time-code"
+                            data-testid="input-email-two-factor-code"
+                          />
+                        </div>
+                      )}
+
                       <FormField
                         control={profileForm.control}
                         name="freelancerType"
@@ -384,6 +687,11 @@ export default function ProfileSettingsPage() {
                                 />
                               </div>
                             </FormControl>
+                            <FormDescription>
+                              {limits.hasCustomBranding
+                                ? "Used on your public forms and contracts."
+                                : "Upgrade to Pro to apply your color, logo and business name to forms and contracts."}
+                            </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -471,7 +779,7 @@ export default function ProfileSettingsPage() {
                     <div className="flex justify-end">
                       <Button 
                         type="submit" 
-                        disabled={updateProfileMutation.isPending}
+                        disabled={updateProfileMutation.isPending || (twoFactor?.enabled && emailChanged && !emailTwoFactorCode)}
                         data-testid="button-save-profile"
                       >
                         <Save className="h-4 w-4 mr-2" />
@@ -484,58 +792,9 @@ export default function ProfileSettingsPage() {
             </Card>
 
             {/* ZapLink Section */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <ExternalLink className="h-5 w-5" />
-                  <span>Your ZapLink</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <Label className="text-sm font-medium">Permanent Client Link</Label>
-                    <p className="text-sm text-slate-600 mb-3">
-                      Share this unique link with clients to access your branded intake forms and onboarding process.
-                    </p>
-                    <div className="flex items-center space-x-2">
-                      <div className="flex-1 p-3 bg-slate-50 border rounded-md font-mono text-sm">
-                        {zapLinkData?.fullUrl || `clientzap.com/zap/${user.zapLink || "loading..."}`}
-                      </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          const url = zapLinkData?.fullUrl || `clientzap.com/zap/${user.zapLink || ""}`;
-                          navigator.clipboard.writeText(url);
-                          toast({
-                            title: "✅ Zap Link copied!",
-                            description: "Your permanent client link is ready to share",
-                          });
-                        }}
-                        data-testid="button-copy-zaplink"
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                  <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                    <div>
-                      <p className="text-sm font-medium text-blue-900">
-                        Share with New Clients
-                      </p>
-                      <p className="text-xs text-blue-700">
-                        This link never changes and leads clients through your branded onboarding flow
-                      </p>
-                    </div>
-                    <Button variant="outline" size="sm" data-testid="button-preview-zaplink">
-                      <Eye className="h-4 w-4 mr-2" />
-                      Preview
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <ZapLinkSettings />
+
+            <ZapContactsSettings />
           </div>
         )}
 
@@ -601,6 +860,7 @@ export default function ProfileSettingsPage() {
                               data-testid="input-new-password"
                             />
                           </FormControl>
+                          <FormDescription>At least 8 characters, with a letter and a number.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -625,10 +885,23 @@ export default function ProfileSettingsPage() {
                       )}
                     />
 
+                    {twoFactor?.enabled && (
+                      <div className="space-y-2">
+                        <Label htmlFor="password-two-factor-code">Code from your authenticator app</Label>
+                        <Input
+                          id="password-two-factor-code"
+                          value={passwordTwoFactorCode}
+                          onChange={(e) => setPasswordTwoFactorCode(e.target.value)}
+                          autoComplete="one-time-code"
+                          data-testid="input-password-two-factor-code"
+                        />
+                      </div>
+                    )}
+
                     <div className="flex justify-end">
                       <Button 
                         type="submit" 
-                        disabled={updatePasswordMutation.isPending}
+                        disabled={updatePasswordMutation.isPending || (twoFactor?.enabled && !passwordTwoFactorCode)}
                         data-testid="button-update-password"
                       >
                         {updatePasswordMutation.isPending ? "Updating..." : "Update Password"}
@@ -639,6 +912,14 @@ export default function ProfileSettingsPage() {
               </CardContent>
             </Card>
 
+            <LinkedAccountsSettings />
+
+            <TwoFactorSettings />
+
+            <SessionsSettings />
+
+            <SecurityActivity />
+
             {/* Delete Account */}
             <Card className="border-red-200">
               <CardHeader>
@@ -673,10 +954,23 @@ export default function ProfileSettingsPage() {
                         </ul>
                       </AlertDialogDescription>
                     </AlertDialogHeader>
+                    {twoFactor?.enabled && (
+                      <div className="space-y-2">
+                        <Label htmlFor="delete-two-factor-code">Code from your authenticator app</Label>
+                        <Input
+                          id="delete-two-factor-code"
+                          value={deleteTwoFactorCode}
+                          onChange={(e) => setDeleteTwoFactorCode(e.target.value)}
+                          autoComplete="one-time-code"
+                          data-testid="input-delete-two-factor-code"
+                        />
+                      </div>
+                    )}
                     <AlertDialogFooter>
                       <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
                       <AlertDialogAction 
                         onClick={() => deleteAccountMutation.mutate()}
+                        disabled={twoFactor?.enabled && !deleteTwoFactorCode}
                         className="bg-red-600 hover:bg-red-700"
                         data-testid="button-confirm-delete"
                       >
@@ -690,6 +984,82 @@ export default function ProfileSettingsPage() {
           </div>
         )}
 
+        {/* Integrations Tab */}
+        {activeTab === "integrations" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Calendar className="h-5 w-5" />
+                <span>Calendly</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {calendly?.connected ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <p className="font-medium">Connected</p>
+                      <a
+                        href={calendly.schedulingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-primary hover:underline"
+                        data-testid="link-calendly-scheduling-url"
+                      >
+                        {calendly.schedulingUrl}
+                      </a>
+                    </div>
+                    <Badge className="bg-green-100 text-green-800">Active</Badge>
+                  </div>
+                  <p className="text-sm text-slate-600">
+                    Clients get your scheduling link prefilled with their name and email after submitting a form.
+                    When they book or cancel, their call status updates automatically.
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={() => disconnectCalendlyMutation.mutate()}
+                    disabled={disconnectCalendlyMutation.isPending}
+                    data-testid="button-disconnect-calendly"
+                  >
+                    Disconnect
+                  </Button>
+                </div>
+              ) : (
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    connectCalendlyMutation.mutate(calendlyToken);
+                  }}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="calendly-token">Personal access token</Label>
+                    <Input
+                      id="calendly-token"
+                      type="password"
+                      value={calendlyToken}
+                      onChange={(e) => setCalendlyToken(e.target.value)}
+                      placeholder="Paste your Calendly token"
+                      data-testid="input-calendly-token"
+                    />
+                    <p className="text-xs text-slate-500">
+                      Create one in Calendly under Integrations → API & Webhooks.
+                    </p>
+                  </div>
+                  <Button
+                    type="submit"
+                    disabled={!calendlyToken.trim() || connectCalendlyMutation.isPending}
+                    data-testid="button-connect-calendly"
+                  >
+                    <Plug className="h-4 w-4 mr-2" />
+                    {connectCalendlyMutation.isPending ? "Connecting..." : "Connect Calendly"}
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Subscription Tab */}
         {activeTab === "subscription" && (
           <Card>
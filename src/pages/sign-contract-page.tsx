@@ -0,0 +1,189 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SignaturePad, type SignatureValue } from "@/components/ui/signature-pad";
+import { CheckCircle, Download, FileText, PenLine } from "lucide-react";
+import { brandTheme } from "@/lib/branding";
+import type { PublicSigningDetails } from "@/lib/contract-signing";
+
+export default function SignContractPage() {
+  const [, params] = useRoute("/sign/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<SignatureValue | null>(null);
+  const [agreed, setAgreed] = useState(false);
+
+  const { data: contract, isLoading, error } = useQuery<PublicSigningDetails>({
+    queryKey: ["/api/public/sign", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/public/sign/${token}`, {
+        signerName: signerName || contract?.clientName,
+        method: signature?.method,
+        signature: signature?.signature,
+        agreed,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: PublicSigningDetails) => {
+      queryClient.setQueryData(["/api/public/sign", token], data);
+      toast({
+        title: "Contract signed",
+        description: `We'll let ${data.freelancerName} know. You'll get the final copy once they countersign.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't sign the contract",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !contract) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Contract not found</h1>
+            <p className="text-gray-600">This signing link is invalid or the contract has been withdrawn.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const branding = contract.branding;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4" style={brandTheme(branding)}>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            {branding.logo ? (
+              <img src={branding.logo} alt={branding.businessName || "Business logo"} className="h-10 max-w-[160px] object-contain" />
+            ) : (
+              <span className="text-lg font-semibold text-gray-900">{contract.freelancerName}</span>
+            )}
+          </div>
+          <Button asChild variant="outline" size="sm" data-testid="button-download-contract">
+            <a href={contract.documentUrl} target="_blank" rel="noopener noreferrer">
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="text-contract-title">{contract.title}</CardTitle>
+            <CardDescription>
+              From {contract.freelancerName} to {contract.clientName} ({contract.clientEmail})
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <iframe
+              src={contract.documentUrl}
+              title={contract.title}
+              className="w-full h-[600px] border rounded-md bg-white"
+              data-testid="frame-contract-document"
+            />
+          </CardContent>
+        </Card>
+
+        {contract.completed ? (
+          <Card className="text-center" data-testid="card-contract-completed">
+            <CardContent className="pt-6">
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">This contract is fully signed</h2>
+              <p className="text-gray-600 mb-4">
+                Both parties have signed. The copy above includes both signatures and a signature certificate.
+              </p>
+            </CardContent>
+          </Card>
+        ) : contract.clientSigned ? (
+          <Card className="text-center" data-testid="card-contract-signed">
+            <CardContent className="pt-6">
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Thanks, you've signed</h2>
+              <p className="text-gray-600">
+                {contract.freelancerName} will countersign next. Come back to this page to download the final copy.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PenLine className="h-5 w-5" />
+                Sign this contract
+              </CardTitle>
+              <CardDescription>Review the contract above, then add your signature.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="signerName">Full legal name</Label>
+                <Input
+                  id="signerName"
+                  value={signerName}
+                  onChange={e => setSignerName(e.target.value)}
+                  placeholder={contract.clientName}
+                  data-testid="input-signer-name"
+                />
+              </div>
+
+              <SignaturePad defaultName={contract.clientName} onChange={setSignature} />
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="agreed"
+                  checked={agreed}
+                  onCheckedChange={checked => setAgreed(checked === true)}
+                  data-testid="checkbox-agree-esign"
+                />
+                <Label htmlFor="agreed" className="text-sm font-normal leading-snug text-gray-600">
+                  I agree to sign this contract electronically and that my electronic signature is as valid as a handwritten one.
+                </Label>
+              </div>
+
+              <Button
+                className="w-full"
+                onClick={() => signMutation.mutate()}
+                disabled={!signature || !agreed || signMutation.isPending}
+                data-testid="button-sign-contract"
+              >
+                {signMutation.isPending ? "Signing..." : "Sign Contract"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {branding.showAttribution && (
+          <p className="text-center text-sm text-gray-500">Powered by ClientZap</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,17 @@ import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SignaturePad, type SignatureValue } from "@/components/ui/signature-pad";
 import { 
   ArrowLeft,
   Download,
@@ -15,21 +22,139 @@ import {
   User,
   Clock,
   FileText,
-  ExternalLink
+  ExternalLink,
+  RefreshCw,
+  PenLine,
+  Link as LinkIcon,
+  CheckCircle
 } from "lucide-react";
-import type { FormSubmission } from "@shared/schema";
+import { uploadedFileRefSchema, type ContractTemplate, type FormSubmission } from "@shared/schema";
+import type { ContractSummary } from "@/lib/contract-signing";
+
+// Select value for the built-in service agreement
+const DEFAULT_TEMPLATE = "default";
 
 export default function SubmissionsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [countersigning, setCountersigning] = useState<ContractSummary | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<SignatureValue | null>(null);
+  const [agreed, setAgreed] = useState(false);
 
   const { data: submissions, isLoading } = useQuery<FormSubmission[]>({
     queryKey: ["/api/submissions"],
   });
 
+  const { data: templates } = useQuery<ContractTemplate[]>({
+    queryKey: ["/api/contract-templates"],
+  });
+
+  const { data: contracts } = useQuery<ContractSummary[]>({
+    queryKey: ["/api/contracts"],
+  });
+
+  // Newest first, so the first match is the submission's current contract
+  const contractFor = (submissionId: string) => contracts?.find(contract => contract.submissionId === submissionId);
+
+  // Prepare a contract from the picked template unless a draft is waiting, then send it
+  const sendForSignatureMutation = useMutation({
+    mutationFn: async (submissionId: string) => {
+      let contract = contractFor(submissionId);
+      if (!contract || contract.status !== "draft") {
+        const res = await apiRequest("POST", `/api/submissions/${submissionId}/contracts`, {
+          templateId: templateId === DEFAULT_TEMPLATE ? undefined : templateId,
+        });
+        contract = await res.json() as ContractSummary;
+      }
+      const res = await apiRequest("POST", `/api/contracts/${contract.id}/send`);
+      return await res.json() as ContractSummary;
+    },
+    onSuccess: (contract) => {
+      if (contract.signingUrl) {
+        navigator.clipboard?.writeText(window.location.origin + contract.signingUrl).catch(() => {});
+      }
+      toast({
+        title: "Ready for signature",
+        description: "The signing link has been copied. Share it with your client.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const countersignMutation = useMutation({
+    mutationFn: async (contractId: string) => {
+      const res = await apiRequest("POST", `/api/contracts/${contractId}/countersign`, {
+        signerName: signerName || user?.displayName || user?.username,
+        method: signature?.method,
+        signature: signature?.signature,
+        agreed,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Contract completed",
+        description: "Both signatures are in. The signed PDF with its certificate is ready to download.",
+      });
+      setCountersigning(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCountersign = (contract: ContractSummary) => {
+    setSignerName(user?.displayName || user?.username || "");
+    setSignature(null);
+    setAgreed(false);
+    setCountersigning(contract);
+  };
+
+  const copySigningLink = (contract: ContractSummary) => {
+    if (!contract.signingUrl) return;
+    navigator.clipboard.writeText(window.location.origin + contract.signingUrl);
+    toast({ title: "Link copied", description: "Send it to your client to sign." });
+  };
+
+  const renderSignatureBadge = (contract?: ContractSummary) => {
+    if (!contract || contract.status === "draft") return null;
+    if (contract.status === "signed") {
+      return <Badge className="bg-green-100 text-green-800" data-testid={`badge-contract-status-${contract.id}`}>Signed</Badge>;
+    }
+    if (contract.status === "declined" || contract.status === "voided") {
+      return <Badge variant="destructive" data-testid={`badge-contract-status-${contract.id}`}>Contract {contract.status}</Badge>;
+    }
+    if (contract.provider) {
+      return <Badge className="bg-blue-100 text-blue-800" data-testid={`badge-contract-status-${contract.id}`}>Out for signature via {contract.provider === "docusign" ? "DocuSign" : contract.provider}</Badge>;
+    }
+    return contract.clientSignedAt ? (
+      <Badge className="bg-amber-100 text-amber-800" data-testid={`badge-contract-status-${contract.id}`}>Awaiting your countersignature</Badge>
+    ) : (
+      <Badge className="bg-blue-100 text-blue-800" data-testid={`badge-contract-status-${contract.id}`}>Sent for signature</Badge>
+    );
+  };
+
   const generateContractMutation = useMutation({
     mutationFn: async (submissionId: string) => {
-      const res = await apiRequest("POST", `/api/submissions/${submissionId}/contract`);
+      const res = await apiRequest("POST", `/api/submissions/${submissionId}/contract`, {
+        templateId: templateId === DEFAULT_TEMPLATE ? undefined : templateId,
+      });
       return await res.json();
     },
     onSuccess: (data) => {
@@ -63,6 +188,28 @@ export default function SubmissionsPage() {
       if (key === 'email' || key === 'name' || key === 'fullName' || key === 'clientName') {
         return null; // Skip these as they're displayed in the header
       }
+      // File fields store references to uploads, downloadable by the form owner
+      const files = uploadedFileRefSchema.array().min(1).safeParse(value);
+      if (files.success) {
+        return (
+          <div key={key} className="space-y-1">
+            <p className="text-sm font-medium text-gray-700 capitalize">
+              {key.replace(/([A-Z])/g, ' $1').trim()}
+            </p>
+            {files.data.map(file => (
+              <a
+                key={file.id}
+                href={`/api/files/${file.id}`}
+                className="flex items-center text-sm text-primary hover:underline bg-gray-50 p-2 rounded"
+                data-testid={`link-download-file-${file.id}`}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {file.name} ({(file.size / (1024 * 1024)).toFixed(1)} MB)
+              </a>
+            ))}
+          </div>
+        );
+      }
       return (
         <div key={key} className="space-y-1">
           <p className="text-sm font-medium text-gray-700 capitalize">
@@ -119,9 +266,22 @@ export default function SubmissionsPage() {
             </Button>
           </Link>
           <h1 className="text-3xl font-bold text-gray-900">Client Submissions</h1>
-          <Badge variant="secondary" className="ml-auto" data-testid="badge-submissions-count">
-            {submissions?.length || 0} Submissions
-          </Badge>
+          <div className="ml-auto flex items-center gap-3">
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="w-64" data-testid="select-contract-template">
+                <SelectValue placeholder="Contract template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_TEMPLATE}>Standard service agreement</SelectItem>
+                {templates?.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Badge variant="secondary" data-testid="badge-submissions-count">
+              {submissions?.length || 0} Submissions
+            </Badge>
+          </div>
         </div>
 
         {!submissions || submissions.length === 0 ? (
@@ -141,7 +301,9 @@ export default function SubmissionsPage() {
           </Card>
         ) : (
           <div className="grid gap-6" data-testid="submissions-list">
-            {submissions.map((submission) => (
+            {submissions.map((submission) => {
+              const contract = contractFor(submission.id);
+              return (
               <Card key={submission.id} className="hover:shadow-md transition-shadow">
                 <CardHeader>
                   <div className="flex items-start justify-between">
@@ -169,6 +331,7 @@ export default function SubmissionsPage() {
                     </div>
                     
                     <div className="flex items-center gap-3">
+                      {renderSignatureBadge(contract)}
                       {submission.contractGenerated ? (
                         <Badge variant="default" className="bg-green-100 text-green-800">
                           Contract Ready
@@ -198,6 +361,7 @@ export default function SubmissionsPage() {
                   {/* Actions */}
                   <div className="flex items-center gap-3 pt-2">
                     {submission.contractGenerated && submission.contractUrl ? (
+                      <>
                       <Button 
                         asChild 
                         className="bg-blue-600 hover:bg-blue-700"
@@ -213,6 +377,17 @@ export default function SubmissionsPage() {
                           Download Contract
                         </a>
                       </Button>
+                      {/* Regenerate with whichever template is picked above */}
+                      <Button
+                        variant="outline"
+                        onClick={() => generateContractMutation.mutate(submission.id)}
+                        disabled={generateContractMutation.isPending}
+                        data-testid={`button-regenerate-contract-${submission.id}`}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Regenerate
+                      </Button>
+                      </>
                     ) : (
                       <Button 
                         onClick={() => generateContractMutation.mutate(submission.id)}
@@ -225,6 +400,38 @@ export default function SubmissionsPage() {
                       </Button>
                     )}
                     
+                    {/* In-app e-signature */}
+                    {contract?.status === "signed" ? (
+                      <Button asChild variant="outline" data-testid={`button-download-signed-${submission.id}`}>
+                        <a href={`/api/contracts/${contract.id}/document`} target="_blank" rel="noopener noreferrer">
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Signed Contract
+                        </a>
+                      </Button>
+                    ) : contract?.status === "sent" && contract.provider ? null : contract?.status === "sent" ? (
+                      contract.clientSignedAt ? (
+                        <Button onClick={() => openCountersign(contract)} data-testid={`button-countersign-${submission.id}`}>
+                          <PenLine className="h-4 w-4 mr-2" />
+                          Countersign
+                        </Button>
+                      ) : (
+                        <Button variant="outline" onClick={() => copySigningLink(contract)} data-testid={`button-copy-signing-link-${submission.id}`}>
+                          <LinkIcon className="h-4 w-4 mr-2" />
+                          Copy Signing Link
+                        </Button>
+                      )
+                    ) : (
+                      <Button
+                        variant="outline"
+                        onClick={() => sendForSignatureMutation.mutate(submission.id)}
+                        disabled={sendForSignatureMutation.isPending}
+                        data-testid={`button-send-for-signature-${submission.id}`}
+                      >
+                        <PenLine className="h-4 w-4 mr-2" />
+                        Send for Signature
+                      </Button>
+                    )}
+
                     {submission.calendlyLink && (
                       <Button 
                         asChild 
@@ -245,10 +452,57 @@ export default function SubmissionsPage() {
                   </div>
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
+
+      <Dialog open={!!countersigning} onOpenChange={open => !open && setCountersigning(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Countersign contract</DialogTitle>
+            <DialogDescription>
+              {countersigning?.client.name} has signed. Add your signature to complete the contract.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="countersignName">Full legal name</Label>
+              <Input
+                id="countersignName"
+                value={signerName}
+                onChange={e => setSignerName(e.target.value)}
+                data-testid="input-countersign-name"
+              />
+            </div>
+            {countersigning && (
+              <SignaturePad defaultName={user?.displayName || user?.username} onChange={setSignature} />
+            )}
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="countersignAgreed"
+                checked={agreed}
+                onCheckedChange={checked => setAgreed(checked === true)}
+                data-testid="checkbox-countersign-agree"
+              />
+              <Label htmlFor="countersignAgreed" className="text-sm font-normal leading-snug text-gray-600">
+                I agree to sign this contract electronically.
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCountersigning(null)}>Cancel</Button>
+            <Button
+              onClick={() => countersigning && countersignMutation.mutate(countersigning.id)}
+              disabled={!signature || !agreed || countersignMutation.isPending}
+              data-testid="button-confirm-countersign"
+            >
+              {countersignMutation.isPending ? "Signing..." : "Countersign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
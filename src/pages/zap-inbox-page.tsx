@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
@@ -8,27 +9,58 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { 
   Inbox, 
   FileText, 
   Users, 
   ArrowLeft,
-  ExternalLink,
   User,
   Calendar,
-  MessageSquare,
-  Trash2
+  Trash2,
+  CheckCircle,
+  MoreHorizontal,
+  Ban,
+  Flag
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import type { SharedForm, Form, User as UserType } from "@shared/schema";
+import type { ZapReportReason } from "@shared/schema";
+import type { InboxZap, ZapStatus } from "@/lib/zaps";
+import { parseFormFields } from "@/lib/form-validation";
+import { isInputField } from "@/lib/form-logic";
 
-type SharedFormWithDetails = SharedForm & { form: Form; sender: UserType };
+const statusBadges: Record<ZapStatus, { label: string; className: string }> = {
+  pending: { label: "New", className: "bg-amber-100 text-amber-800" },
+  viewed: { label: "Viewed", className: "bg-blue-100 text-blue-800" },
+  responded: { label: "Responded", className: "bg-green-100 text-green-800" },
+};
+
+const reportReasons: Record<ZapReportReason, string> = {
+  spam: "Spam",
+  harassment: "Harassment",
+  inappropriate: "Inappropriate content",
+  other: "Something else",
+};
+
+const senderName = (sharedForm: InboxZap) => sharedForm.sender.displayName || sharedForm.sender.username;
 
 export default function ZapInboxPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [reporting, setReporting] = useState<InboxZap | null>(null);
+  const [reportReason, setReportReason] = useState<ZapReportReason>("spam");
+  const [reportDetails, setReportDetails] = useState("");
 
-  const { data: sharedForms, isLoading } = useQuery<SharedFormWithDetails[]>({
+  const { data: sharedForms, isLoading } = useQuery<InboxZap[]>({
     queryKey: ["/api/zap-inbox"],
     enabled: !!user,
   });
@@ -54,6 +86,64 @@ export default function ZapInboxPage() {
     },
   });
 
+  const onBlocked = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/zap-inbox"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/zap-blocks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/zap-contacts"] });
+  };
+
+  const blockMutation = useMutation({
+    mutationFn: async (sharedForm: InboxZap) => {
+      const response = await apiRequest("POST", `/api/zap-inbox/${sharedForm.id}/block`);
+      return response.json();
+    },
+    onSuccess: (_data, sharedForm) => {
+      toast({
+        title: "Sender blocked",
+        description: `You won't receive zaps from ${senderName(sharedForm)}. You can unblock them in Settings.`,
+      });
+      onBlocked();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't block sender",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async (sharedForm: InboxZap) => {
+      const response = await apiRequest("POST", `/api/zap-inbox/${sharedForm.id}/report`, {
+        reason: reportReason,
+        details: reportDetails.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, sharedForm) => {
+      toast({
+        title: "Report sent",
+        description: `Thanks for letting us know. ${senderName(sharedForm)} has been blocked.`,
+      });
+      setReporting(null);
+      onBlocked();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReport = (sharedForm: InboxZap) => {
+    setReportReason("spam");
+    setReportDetails("");
+    setReporting(sharedForm);
+  };
+
   if (!user) {
     return <div>Loading...</div>;
   }
@@ -161,15 +251,12 @@ export default function ZapInboxPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Badge 
+                        <Badge
                           variant={sharedForm.status === "pending" ? "secondary" : "default"}
-                          className={
-                            sharedForm.status === "pending" 
-                              ? "bg-amber-100 text-amber-800"
-                              : "bg-green-100 text-green-800"
-                          }
+                          className={statusBadges[sharedForm.status].className}
+                          data-testid={`status-shared-form-${sharedForm.id}`}
                         >
-                          {sharedForm.status === "pending" ? "New" : "Viewed"}
+                          {statusBadges[sharedForm.status].label}
                         </Badge>
                       </div>
                     </div>
@@ -183,7 +270,7 @@ export default function ZapInboxPage() {
                       <div className="flex items-center gap-6 text-sm text-slate-500">
                         <div className="flex items-center gap-1">
                           <FileText className="h-4 w-4" />
-                          {JSON.parse(sharedForm.form.fields as string).length} fields
+                          {parseFormFields(sharedForm.form.fields).filter(isInputField).length} fields
                         </div>
                         <div className="flex items-center gap-1">
                           <User className="h-4 w-4" />
@@ -201,29 +288,33 @@ export default function ZapInboxPage() {
 
                       <div className="flex items-center justify-between">
                         <div className="text-sm text-slate-600">
-                          Ready to fill out this form?
+                          {sharedForm.status === "responded" && sharedForm.respondedAt
+                            ? `You responded ${formatDistanceToNow(new Date(sharedForm.respondedAt), { addSuffix: true })}`
+                            : "Ready to fill out this form?"}
                         </div>
                         <div className="flex gap-2">
-                          <Link href={`/form/${sharedForm.form.shareableLink}`} target="_blank">
-                            <Button 
-                              className="bg-primary hover:bg-primary/90"
-                              data-testid={`button-fill-form-${sharedForm.id}`}
-                            >
-                              <FileText className="h-4 w-4 mr-2" />
-                              Fill Out Form
-                              <ExternalLink className="h-3 w-3 ml-2" />
+                          {sharedForm.status === "responded" ? (
+                            <Button variant="outline" disabled data-testid={`button-fill-form-${sharedForm.id}`}>
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Sent to {sharedForm.sender.displayName || sharedForm.sender.username}
+                            </Button>
+                          ) : (
+                            <Link href={sharedForm.responseUrl}>
+                              <Button
+                                className="bg-primary hover:bg-primary/90"
+                                data-testid={`button-fill-form-${sharedForm.id}`}
+                              >
+                                <FileText className="h-4 w-4 mr-2" />
+                                Fill Out Form
+                              </Button>
+                            </Link>
+                          )}
+                          <Link href={`/zap/${sharedForm.sender.zapLink}`}>
+                            <Button variant="outline" data-testid={`button-view-sender-${sharedForm.id}`}>
+                              <User className="h-4 w-4 mr-2" />
+                              View Sender
                             </Button>
                           </Link>
-                          <Button 
-                            variant="outline"
-                            onClick={() => {
-                              window.open(`mailto:${sharedForm.sender.email || ''}`, "_blank");
-                            }}
-                            data-testid={`button-message-sender-${sharedForm.id}`}
-                          >
-                            <MessageSquare className="h-4 w-4 mr-2" />
-                            Message Sender
-                          </Button>
                           <Button 
                             variant="outline"
                             size="sm"
@@ -234,6 +325,31 @@ export default function ZapInboxPage() {
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" data-testid={`button-zap-actions-${sharedForm.id}`}>
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => blockMutation.mutate(sharedForm)}
+                                disabled={blockMutation.isPending}
+                                data-testid={`button-block-sender-${sharedForm.id}`}
+                              >
+                                <Ban className="h-4 w-4 mr-2" />
+                                Block {senderName(sharedForm)}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => openReport(sharedForm)}
+                                className="text-red-600"
+                                data-testid={`button-report-zap-${sharedForm.id}`}
+                              >
+                                <Flag className="h-4 w-4 mr-2" />
+                                Report
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         </div>
                       </div>
                     </div>
@@ -244,6 +360,56 @@ export default function ZapInboxPage() {
           )}
         </main>
       </div>
+
+      <Dialog open={!!reporting} onOpenChange={(open) => !open && setReporting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report {reporting && senderName(reporting)}</DialogTitle>
+            <DialogDescription>
+              We'll review "{reporting?.form.title}". Reporting also blocks the sender and removes their unanswered zaps.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-reason">Reason</Label>
+              <Select value={reportReason} onValueChange={(value) => setReportReason(value as ZapReportReason)}>
+                <SelectTrigger id="report-reason" data-testid="select-report-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(reportReasons).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Details (optional)</Label>
+              <Textarea
+                id="report-details"
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                maxLength={1000}
+                placeholder="Anything that helps us understand what happened"
+                data-testid="input-report-details"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReporting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => reporting && reportMutation.mutate(reporting)}
+              disabled={reportMutation.isPending}
+              data-testid="button-submit-report"
+            >
+              {reportMutation.isPending ? "Reporting..." : "Report and Block"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
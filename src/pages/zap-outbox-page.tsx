@@ -0,0 +1,216 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Bell, Inbox, Send, Undo2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { SentZap, ZapStatus } from "@/lib/zaps";
+
+const statusBadges: Record<ZapStatus, { label: string; className: string }> = {
+  pending: { label: "Delivered", className: "bg-slate-100 text-slate-700" },
+  viewed: { label: "Viewed", className: "bg-blue-100 text-blue-800" },
+  responded: { label: "Responded", className: "bg-green-100 text-green-800" },
+};
+
+const ago = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+export default function ZapOutboxPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: sentZaps, isLoading } = useQuery<SentZap[]>({
+    queryKey: ["/api/zaps/sent"],
+    enabled: !!user,
+  });
+
+  const recallMutation = useMutation({
+    mutationFn: async (zap: SentZap) => {
+      const response = await apiRequest("DELETE", `/api/zaps/sent/${zap.id}`);
+      return response.json();
+    },
+    onSuccess: (_data, zap) => {
+      toast({
+        title: "Zap recalled",
+        description: `"${zap.form.title}" was removed from ${zap.recipient.displayName || zap.recipient.username}'s Zap Inbox`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/zaps/sent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't recall zap",
+        description: error.message,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/zaps/sent"] });
+    },
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (zap: SentZap) => {
+      const response = await apiRequest("POST", `/api/zaps/sent/${zap.id}/remind`);
+      return response.json();
+    },
+    onSuccess: (_data, zap) => {
+      toast({
+        title: "Reminder sent",
+        description: `We've emailed ${zap.recipient.displayName || zap.recipient.username} a reminder`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/zaps/sent"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reminder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="flex h-screen bg-slate-50">
+      {/* Sidebar */}
+      <div className="w-64 bg-white shadow-lg border-r border-slate-200">
+        <div className="p-6">
+          <div className="text-2xl font-bold text-primary mb-8">ClientZap</div>
+          <nav className="space-y-2">
+            <Link href="/dashboard">
+              <Button variant="ghost" className="w-full justify-start">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <Link href="/zap-inbox">
+              <Button variant="ghost" className="w-full justify-start" data-testid="link-zap-inbox">
+                <Inbox className="mr-2 h-4 w-4" />
+                Zap Inbox
+              </Button>
+            </Link>
+            <div className="bg-primary/10 text-primary px-3 py-2 rounded-lg flex items-center">
+              <Send className="mr-2 h-4 w-4" />
+              Sent Zaps
+            </div>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b border-slate-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+                <Send className="h-6 w-6" />
+                Sent Zaps
+              </h1>
+              <p className="text-slate-600">Forms you've sent to other ClientZap users, and where each one is</p>
+            </div>
+            <Badge variant="outline" className="text-lg px-3 py-1">
+              {sentZaps?.length || 0} sent
+            </Badge>
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="p-6">
+          {isLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+              <p className="text-slate-600">Loading your sent zaps...</p>
+            </div>
+          ) : !sentZaps || sentZaps.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-16">
+                <Send className="mx-auto h-20 w-20 text-slate-300 mb-6" />
+                <h3 className="text-xl font-semibold text-slate-900 mb-3">You haven't sent any zaps yet</h3>
+                <p className="text-slate-600 max-w-md mx-auto">
+                  Use "Send" on one of your forms to zap it to another ClientZap user's ZapLink.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {sentZaps.map((zap) => {
+                const recipientName = zap.recipient.displayName || zap.recipient.username;
+                return (
+                  <Card key={zap.id} data-testid={`sent-zap-${zap.id}`}>
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-10 w-10">
+                            <AvatarImage src={zap.recipient.profilePicture || undefined} />
+                            <AvatarFallback>{recipientName.slice(0, 2).toUpperCase()}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <CardTitle className="text-lg">{zap.form.title}</CardTitle>
+                            <CardDescription>
+                              To {recipientName} ({zap.recipient.zapLink}) • Sent {ago(zap.sentAt)}
+                            </CardDescription>
+                          </div>
+                        </div>
+                        <Badge
+                          variant="secondary"
+                          className={statusBadges[zap.status].className}
+                          data-testid={`status-sent-zap-${zap.id}`}
+                        >
+                          {statusBadges[zap.status].label}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm text-slate-500 space-x-4">
+                          {zap.viewedAt && <span>Opened {ago(zap.viewedAt)}</span>}
+                          {zap.respondedAt && <span>Responded {ago(zap.respondedAt)}</span>}
+                          {zap.lastReminderAt && <span>Reminded {ago(zap.lastReminderAt)}</span>}
+                        </div>
+                        <div className="flex gap-2">
+                          {zap.status !== "responded" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => remindMutation.mutate(zap)}
+                              disabled={!zap.canRemind || remindMutation.isPending}
+                              title={zap.canRemind ? undefined : "You can send one reminder a day"}
+                              data-testid={`button-remind-${zap.id}`}
+                            >
+                              <Bell className="h-4 w-4 mr-2" />
+                              Remind
+                            </Button>
+                          )}
+                          {zap.canRecall && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => recallMutation.mutate(zap)}
+                              disabled={recallMutation.isPending}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              data-testid={`button-recall-${zap.id}`}
+                            >
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Recall
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { FileText, Link2Off, UserPlus, Zap } from "lucide-react";
+import { brandTheme } from "@/lib/branding";
+import type { ZapProfile } from "@/lib/zaps";
+
+export default function ZapProfilePage() {
+  const [, params] = useRoute("/zap/:code");
+  const code = params?.code;
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: profile, isLoading, error } = useQuery<ZapProfile>({
+    queryKey: ["/api/public/zap", code],
+    enabled: !!code,
+    retry: false,
+  });
+
+  const addContactMutation = useMutation({
+    mutationFn: async (zapLink: string) => {
+      const res = await apiRequest("POST", "/api/zap-contacts", { zapLink });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/zap-contacts"] });
+      toast({ title: "Contact added", description: "You'll see them as a suggestion when you send a form." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add contact",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6">
+            <Link2Off className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">ZapLink not found</h1>
+            <p className="text-gray-600">This ZapLink doesn't exist, or it was replaced and has expired.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const name = profile.displayName || profile.username;
+  const isOwnProfile = user?.zapLink === profile.zapLink;
+  // Reached through a replaced ZapLink that's still in its grace period
+  const moved = !!code && code.toLowerCase() !== profile.zapLink.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4" style={brandTheme(profile.branding)}>
+      <div className="max-w-3xl mx-auto space-y-6">
+        {profile.branding.logo && (
+          <img
+            src={profile.branding.logo}
+            alt={profile.branding.businessName || "Business logo"}
+            className="h-10 max-w-[160px] object-contain"
+          />
+        )}
+
+        {moved && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900" data-testid="text-zaplink-moved">
+            {name} has a new ZapLink: <span className="font-mono font-semibold">clientzap.com/zap/{profile.zapLink}</span>.
+            The one you used will stop working soon.
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="pt-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={profile.profilePicture || undefined} />
+                <AvatarFallback>{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900" data-testid="text-profile-name">{name}</h1>
+                {(profile.businessName || profile.freelancerType) && (
+                  <p className="text-gray-600">
+                    {[profile.businessName, profile.freelancerType].filter(Boolean).join(" · ")}
+                  </p>
+                )}
+                <p className="text-sm text-gray-500 font-mono flex items-center gap-1">
+                  <Zap className="h-3 w-3" />
+                  {profile.zapLink}
+                </p>
+              </div>
+            </div>
+            {user && !isOwnProfile && (
+              <Button
+                variant="outline"
+                onClick={() => addContactMutation.mutate(profile.zapLink)}
+                disabled={addContactMutation.isPending || addContactMutation.isSuccess}
+                data-testid="button-add-contact"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {addContactMutation.isSuccess ? "Added" : "Add to Contacts"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Forms</h2>
+          {profile.forms.length === 0 ? (
+            <p className="text-gray-600" data-testid="text-no-forms">{name} hasn't published any forms yet.</p>
+          ) : (
+            profile.forms.map(form => (
+              <Card key={form.id} data-testid={`profile-form-${form.id}`}>
+                <CardHeader>
+                  <CardTitle className="text-lg">{form.title}</CardTitle>
+                  {form.description && <CardDescription>{form.description}</CardDescription>}
+                </CardHeader>
+                <CardContent>
+                  <Link href={`/form/${form.shareableLink}`}>
+                    <Button data-testid={`button-open-form-${form.id}`}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Fill Out Form
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        {profile.branding.showAttribution && (
+          <p className="text-center text-sm text-gray-500">Powered by ClientZap</p>
+        )}
+      </div>
+    </div>
+  );
+}
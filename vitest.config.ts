@@ -0,0 +1,22 @@
+import { tmpdir } from "os";
+import path from "path";
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default mergeConfig(viteConfig, defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "src/lib"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}"],
+    setupFiles: ["./vitest.setup.ts"],
+    // Keep uploads and emails out of the working tree; emails can be read back from the memory transport
+    env: {
+      FILE_STORAGE_DIR: path.join(tmpdir(), "clientzap-test-files"),
+      EMAIL_TRANSPORT: "memory",
+    },
+  },
+}));
@@ -0,0 +1,16 @@
+import { vi } from "vitest";
+
+// MemStorage mirrors users to Replit DB, which only exists on Replit. Tests get an in-memory one.
+vi.mock("@replit/database", () => ({
+  default: class {
+    private values = new Map<string, unknown>();
+
+    async get(key: string) {
+      return this.values.get(key);
+    }
+
+    async set(key: string, value: unknown) {
+      this.values.set(key, structuredClone(value));
+    }
+  },
+}));